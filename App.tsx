@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import {
   LayoutDashboard,
   PieChart,
@@ -7,7 +7,12 @@ import {
   TrendingUp,
   Menu,
   X,
-  Save
+  Save,
+  Users,
+  Repeat,
+  Building2,
+  Scale,
+  GitCompare
 } from 'lucide-react';
 import {
   isFileSystemSupported,
@@ -17,6 +22,9 @@ import {
   writeDataToDirectory,
   verifyPermission
 } from './services/storageService';
+import { getFrozenSectionViolation } from './services/approvalService';
+import { withInheritedRecords, withoutInheritedRecords } from './services/scenarioService';
+import { getLockViolation } from './services/planLockService';
 import { AppData, INITIAL_DATA } from './types';
 import { Dashboard } from './views/Dashboard';
 import { Forecast } from './views/Forecast';
@@ -24,18 +32,32 @@ import { Settings } from './views/Settings';
 import { RiskOpportunityView } from './views/RiskOpportunity';
 import { AnalystChat } from './views/AnalystChat';
 import { Reporting } from './views/Reporting';
+import { Headcount } from './views/Headcount';
+import { ArrModelView } from './views/ArrModel';
+import { FixedAssets } from './views/FixedAssets';
+import { FinancialStatements } from './views/FinancialStatements';
+import { PlanComparison } from './views/PlanComparison';
 
 enum View {
   DASHBOARD = 'Dashboard',
   BUDGET = 'Forecast',
+  HEADCOUNT = 'Headcount',
+  ARR = 'ARR Model',
+  FIXED_ASSETS = 'Fixed Assets',
   REPORTING = 'Reporting',
+  STATEMENTS = 'Financial Statements',
+  COMPARISON = 'Plan Comparison',
   IMPROVEMENT = 'Risk & Opps',
   ANALYST = 'AI Analyst',
   SETTINGS = 'Settings'
 }
 
 const App: React.FC = () => {
-  const [data, setData] = useState<AppData>(INITIAL_DATA);
+  // Stored form: overlay scenarios hold only the intersections they change. Views get every plan complete.
+  const [storedData, setStoredData] = useState<AppData>(INITIAL_DATA);
+  const data = useMemo(() => withInheritedRecords(storedData), [storedData]);
+  const dataRef = useRef<AppData>(INITIAL_DATA);
+  dataRef.current = data;
   const [dirHandle, setDirHandle] = useState<FileSystemDirectoryHandle | null>(null);
   const [currentView, setCurrentView] = useState<View>(View.DASHBOARD);
   const [isSidebarOpen, setSidebarOpen] = useState(true);
@@ -58,7 +80,7 @@ const App: React.FC = () => {
           const hasPerm = await verifyPermission(storedHandle, false);
           if (hasPerm) {
             const fileData = await readDataFromDirectory(storedHandle);
-            setData(fileData);
+            setStoredData(fileData);
             setStatusMsg("Loaded from local workspace.");
           } else {
             setStatusMsg("Permission needed. Please re-select folder in Settings.");
@@ -84,7 +106,7 @@ const App: React.FC = () => {
     const handleDemoGen = () => {
       import('./services/dataFactory').then(({ generateStandardSaaSData }) => {
         const newData = generateStandardSaaSData();
-        handleDataUpdate(newData);
+        saveData(newData);
       });
     };
     window.addEventListener('GENERATE_DEMO_DATA', handleDemoGen);
@@ -98,7 +120,7 @@ const App: React.FC = () => {
   const generateDemoData = useCallback(async () => {
     const { generateStandardSaaSData } = await import('./services/dataFactory');
     const newData = generateStandardSaaSData();
-    setData(newData);
+    setStoredData(newData);
     if (dirHandle) writeDataToDirectory(dirHandle, newData);
     setStatusMsg("Demo Data Generated.");
   }, [dirHandle]);
@@ -115,7 +137,7 @@ const App: React.FC = () => {
       await storeDirectoryHandle(handle);
 
       const fileData = await readDataFromDirectory(handle);
-      setData(fileData);
+      setStoredData(fileData);
       setStatusMsg(`Connected to: ${handle.name}`);
     } catch (err) {
       console.error("Folder selection failed", err);
@@ -124,14 +146,15 @@ const App: React.FC = () => {
   };
 
   // Data Update & Auto-Save
-  const handleDataUpdate = useCallback(async (newData: AppData) => {
-    setData(newData);
+  const saveData = useCallback(async (newData: AppData) => {
+    const stored = withoutInheritedRecords(newData);
+    setStoredData(stored);
     if (dirHandle) {
       try {
         setStatusMsg("Saving...");
         const hasPerm = await verifyPermission(dirHandle, true);
         if (hasPerm) {
-          await writeDataToDirectory(dirHandle, newData);
+          await writeDataToDirectory(dirHandle, stored);
           setStatusMsg("Saved to disk.");
           setTimeout(() => setStatusMsg(""), 2000);
         } else {
@@ -146,6 +169,18 @@ const App: React.FC = () => {
     }
   }, [dirHandle]);
 
+  // Every change from the views goes through here; changes to locked plans and signed-off sections are rejected.
+  // Resolves false when the change was rejected, so callers only report what was applied.
+  const handleDataUpdate = useCallback(async (newData: AppData): Promise<boolean> => {
+    const violation = getLockViolation(dataRef.current, newData) || getFrozenSectionViolation(dataRef.current, newData);
+    if (violation) {
+      alert(violation);
+      return false;
+    }
+    await saveData(newData);
+    return true;
+  }, [saveData]);
+
   const NavItem = ({ view, icon: Icon }: { view: View; icon: React.ElementType }) => (
     <button
       onClick={() => {
@@ -194,8 +229,13 @@ const App: React.FC = () => {
         <nav className="flex-1 p-4 space-y-2 overflow-y-auto">
           <NavItem view={View.DASHBOARD} icon={LayoutDashboard} />
           <NavItem view={View.BUDGET} icon={PieChart} />
+          <NavItem view={View.HEADCOUNT} icon={Users} />
+          <NavItem view={View.ARR} icon={Repeat} />
+          <NavItem view={View.FIXED_ASSETS} icon={Building2} />
           <NavItem view={View.ANALYST} icon={TrendingUp} />
           <NavItem view={View.REPORTING} icon={BarChart3} />
+          <NavItem view={View.STATEMENTS} icon={Scale} />
+          <NavItem view={View.COMPARISON} icon={GitCompare} />
           <NavItem view={View.IMPROVEMENT} icon={TrendingUp} />
           <div className="pt-4 mt-4 border-t border-slate-800">
             <NavItem view={View.SETTINGS} icon={SettingsIcon} />
@@ -244,8 +284,13 @@ const App: React.FC = () => {
           <div className="max-w-7xl mx-auto">
             {currentView === View.DASHBOARD && <Dashboard data={data} />}
             {currentView === View.BUDGET && <Forecast data={data} onUpdate={handleDataUpdate} />}
+            {currentView === View.HEADCOUNT && <Headcount data={data} onUpdate={handleDataUpdate} />}
+            {currentView === View.ARR && <ArrModelView data={data} onUpdate={handleDataUpdate} />}
+            {currentView === View.FIXED_ASSETS && <FixedAssets data={data} onUpdate={handleDataUpdate} />}
             {currentView === View.ANALYST && <AnalystChat data={data} apiKey={apiKey} />}
             {currentView === View.REPORTING && <Reporting data={data} />}
+            {currentView === View.STATEMENTS && <FinancialStatements data={data} onUpdate={handleDataUpdate} />}
+            {currentView === View.COMPARISON && <PlanComparison data={data} />}
             {currentView === View.IMPROVEMENT && <RiskOpportunityView data={data} onUpdate={handleDataUpdate} />}
             {currentView === View.SETTINGS && (
               <Settings
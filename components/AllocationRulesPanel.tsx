@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { AllocationDriver, AllocationRule, AppData } from '../types';
+import { Card } from './ui/Card';
+import { Plus, Trash2, Play, Split } from 'lucide-react';
+import { AccountCategory } from '../services/financialModel';
+import { ALLOCATION_DRIVERS, allocateActuals } from '../services/allocationService';
+import { describeCycle } from '../services/recalcEngine';
+import { recalculatePlanFigures } from '../services/rollingForecastService';
+
+interface AllocationRulesPanelProps {
+  data: AppData;
+  onUpdate: (newData: AppData) => Promise<boolean>; // Resolves false when the update was rejected
+}
+
+const currency = (v: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(v);
+
+// Checkbox list for picking several codes of one dimension
+const CodePicker = ({ options, selected, onChange, emptyLabel }: {
+  options: { code: string; name: string }[];
+  selected: string[];
+  onChange: (next: string[]) => void;
+  emptyLabel?: string;
+}) => (
+  <div className="border rounded max-h-40 overflow-y-auto divide-y divide-slate-50 bg-white">
+    {emptyLabel && selected.length === 0 && <div className="px-2 py-1 text-[10px] text-slate-400">{emptyLabel}</div>}
+    {options.map(o => (
+      <label key={o.code} className="flex items-center gap-2 px-2 py-1 text-xs text-slate-700 hover:bg-slate-50">
+        <input
+          type="checkbox"
+          className="rounded text-purple-600"
+          checked={selected.includes(o.code)}
+          onChange={() => onChange(selected.includes(o.code) ? selected.filter(c => c !== o.code) : [...selected, o.code])}
+        />
+        {o.name}
+      </label>
+    ))}
+  </div>
+);
+
+export const AllocationRulesPanel: React.FC<AllocationRulesPanelProps> = ({ data, onUpdate }) => {
+  const [planId, setPlanId] = useState<string>(() => data.plans.find(p => p.isWorkingPlan)?.id || data.plans[0]?.id || '');
+  const plan = data.plans.find(p => p.id === planId);
+
+  const opexAccounts = data.accounts.filter(a => a.category === AccountCategory.OPEX);
+  const ruleName = (id: string) => data.allocationRules.find(r => r.id === id)?.name || id;
+
+  const updateRule = (id: string, changes: Partial<AllocationRule>) => {
+    onUpdate({ ...data, allocationRules: data.allocationRules.map(r => r.id === id ? { ...r, ...changes } : r) });
+  };
+
+  const addRule = () => {
+    const rule: AllocationRule = {
+      id: crypto.randomUUID(),
+      name: 'New Allocation',
+      isActive: true,
+      sourceAccountCodes: [],
+      sourceCostCenterCodes: [],
+      driver: 'RevenueShare',
+      targetProductLineCodes: data.productLines.map(pl => pl.code)
+    };
+    onUpdate({ ...data, allocationRules: [...data.allocationRules, rule] });
+  };
+
+  const removeRule = (id: string) => {
+    if (!confirm('Delete this allocation rule? Existing allocation records stay until allocations are re-run.')) return;
+    onUpdate({ ...data, allocationRules: data.allocationRules.filter(r => r.id !== id) });
+  };
+
+  const describeMissing = (missing: { ruleId: string; period: string }[]) =>
+    missing.length === 0
+      ? ''
+      : `\n\nLeft unallocated (driver had no data):\n${missing.slice(0, 10).map(m => `${ruleName(m.ruleId)} ${m.period}`).join('\n')}` +
+        (missing.length > 10 ? `\n...and ${missing.length - 10} more` : '');
+
+  // A rejected update has already been explained by the update guard, so only success is reported here
+  const handleRunActuals = async () => {
+    const { records, result } = allocateActuals(data);
+    if (!(await onUpdate({ ...data, records, lastModified: new Date().toISOString() }))) return;
+    alert(`Allocated ${currency(result.allocated)} of actual cost to product lines.` + describeMissing(result.missing));
+  };
+
+  // Rolling plans only re-forecast, so the Budget they started from is kept
+  const handleRunPlan = async () => {
+    if (!plan) return;
+    const result = recalculatePlanFigures(plan.id, data);
+    if (result.cycles.length > 0) {
+      alert(`Circular reference detected. Nothing was allocated:\n${result.cycles.map(c => describeCycle(c, data)).join('\n')}`);
+      return;
+    }
+    if (!(await onUpdate({ ...result.data, lastModified: new Date().toISOString() }))) return;
+    alert(`Recalculated ${plan.name}${plan.rollingForecast ? "'s Latest Forecast" : ''} with allocations.`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card
+        title="Allocation Rules"
+        action={
+          <button onClick={addRule} className="flex items-center gap-1 text-sm text-purple-700 hover:text-purple-900 font-medium">
+            <Plus size={16} /> Add Rule
+          </button>
+        }
+      >
+        <p className="text-sm text-slate-500 mb-4">
+          Moves shared cost booked to cost centers without a product line onto product lines. Each allocation posts an offset on the
+          original line and the allocated amounts on the targets (same account and cost center), so totals do not change.
+          Rules run in order; a source line is allocated by the first rule that matches it.
+        </p>
+
+        {data.allocationRules.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-6">No allocation rules yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {data.allocationRules.map(rule => {
+              const fixedTotal = rule.targetProductLineCodes.reduce((s, code) => s + (rule.fixedPercentages?.[code] || 0), 0);
+              return (
+                <div key={rule.id} className={`border rounded-lg p-4 ${rule.isActive ? 'border-slate-200' : 'border-slate-100 opacity-60'}`}>
+                  <div className="flex items-center gap-3 mb-3">
+                    <Split size={16} className="text-purple-600 shrink-0" />
+                    <input
+                      className="flex-1 font-medium text-slate-800 border-b border-transparent focus:border-purple-300 outline-none"
+                      value={rule.name}
+                      onChange={e => updateRule(rule.id, { name: e.target.value })}
+                    />
+                    <label className="flex items-center gap-1 text-xs text-slate-500">
+                      <input type="checkbox" className="rounded text-purple-600" checked={rule.isActive} onChange={e => updateRule(rule.id, { isActive: e.target.checked })} />
+                      Active
+                    </label>
+                    <button onClick={() => removeRule(rule.id)} className="p-1 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div>
+                      <label className="block text-xs font-semibold text-slate-500 mb-1">Source Accounts</label>
+                      <CodePicker options={opexAccounts} selected={rule.sourceAccountCodes} onChange={next => updateRule(rule.id, { sourceAccountCodes: next })} emptyLabel="Select at least one account" />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-semibold text-slate-500 mb-1">Source Cost Centers</label>
+                      <CodePicker options={data.costCenters} selected={rule.sourceCostCenterCodes} onChange={next => updateRule(rule.id, { sourceCostCenterCodes: next })} emptyLabel="None selected = all cost centers" />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-semibold text-slate-500 mb-1">Driver</label>
+                      <select
+                        className="w-full border rounded p-2 text-sm"
+                        value={rule.driver}
+                        onChange={e => updateRule(rule.id, { driver: e.target.value as AllocationDriver })}
+                      >
+                        {ALLOCATION_DRIVERS.map(d => <option key={d.key} value={d.key}>{d.label}</option>)}
+                      </select>
+                      {rule.driver === 'StatisticalAccount' && (
+                        <select
+                          className="w-full border rounded p-2 text-sm mt-2"
+                          value={rule.statisticalAccountCode || ''}
+                          onChange={e => updateRule(rule.id, { statisticalAccountCode: e.target.value })}
+                        >
+                          <option value="">Select account...</option>
+                          {data.accounts.map(a => <option key={a.code} value={a.code}>{a.name}</option>)}
+                        </select>
+                      )}
+                      <p className="text-[10px] text-slate-400 mt-1">
+                        {rule.driver === 'RevenueShare' && "Each month's revenue mix across the target product lines."}
+                        {rule.driver === 'Headcount' && 'FTE on the roster by product line (set on the Headcount page).'}
+                        {rule.driver === 'FixedPercent' && 'Fixed shares per product line; normalised if they do not add up to 100%.'}
+                        {rule.driver === 'StatisticalAccount' && "Each month's values of this account by product line (e.g. users, tickets)."}
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-semibold text-slate-500 mb-1">Target Product Lines</label>
+                      {rule.driver === 'FixedPercent' ? (
+                        <div className="border rounded bg-white divide-y divide-slate-50">
+                          {data.productLines.map(pl => (
+                            <div key={pl.code} className="flex items-center gap-2 px-2 py-1 text-xs text-slate-700">
+                              <span className="flex-1 truncate">{pl.name}</span>
+                              <input
+                                type="number"
+                                step="1"
+                                min="0"
+                                className="border rounded p-0.5 w-14 text-right"
+                                value={Math.round((rule.fixedPercentages?.[pl.code] || 0) * 10000) / 100}
+                                onChange={e => {
+                                  const share = Number(e.target.value) / 100;
+                                  const fixedPercentages = { ...(rule.fixedPercentages || {}), [pl.code]: share };
+                                  const targets = rule.targetProductLineCodes.filter(c => c !== pl.code);
+                                  updateRule(rule.id, { fixedPercentages, targetProductLineCodes: share > 0 ? [...targets, pl.code] : targets });
+                                }}
+                              />
+                              %
+                            </div>
+                          ))}
+                          <div className={`px-2 py-1 text-[10px] text-right ${Math.abs(fixedTotal - 1) < 0.0001 ? 'text-emerald-600' : 'text-amber-600'}`}>
+                            Total {(fixedTotal * 100).toFixed(1)}%
+                          </div>
+                        </div>
+                      ) : (
+                        <CodePicker options={data.productLines} selected={rule.targetProductLineCodes} onChange={next => updateRule(rule.id, { targetProductLineCodes: next })} emptyLabel="Select at least one product line" />
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Card>
+
+      <Card title="Run Allocations">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <p className="text-sm text-slate-600">Actuals: replaces previous actual allocations. Also re-run automatically after each actuals import.</p>
+            <button
+              onClick={handleRunActuals}
+              disabled={data.allocationRules.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-md text-sm hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Play size={16} /> Allocate Actuals
+            </button>
+          </div>
+          <div className="space-y-2">
+            <p className="text-sm text-slate-600">Plans: allocations run as the last step of every plan recalculation.</p>
+            <div className="flex items-center gap-2">
+              <select className="border rounded p-2 text-sm flex-1" value={planId} onChange={e => setPlanId(e.target.value)}>
+                {data.plans.map(p => <option key={p.id} value={p.id}>{p.name}{p.isLocked ? ' (Locked)' : ''}</option>)}
+              </select>
+              <button
+                onClick={handleRunPlan}
+                disabled={!plan || plan.isLocked}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-800 text-white rounded-md text-sm hover:bg-slate-900 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Play size={16} /> Recalculate Plan
+              </button>
+            </div>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { AppData, FxRate, FxRateType } from '../types';
+import { Card } from './ui/Card';
+import { Plus, Trash2, Coins } from 'lucide-react';
+import { FX_RATE_TYPES, isCurrencyCode } from '../services/currencyService';
+
+interface FxRatesPanelProps {
+  data: AppData;
+  onUpdate: (newData: AppData) => void;
+}
+
+const RATE_TYPE_HINTS: Record<FxRateType, string> = {
+  Average: 'Actual P&L',
+  Closing: 'Actual balance sheet',
+  Budget: 'Plans and constant currency'
+};
+
+export const FxRatesPanel: React.FC<FxRatesPanelProps> = ({ data, onUpdate }) => {
+  const [newRate, setNewRate] = useState<Partial<FxRate>>({ rateType: 'Average', period: new Date().toISOString().slice(0, 7) });
+  const [currencyFilter, setCurrencyFilter] = useState<string>('');
+
+  // Currencies in use besides the reporting currency
+  const foreignCurrencies = Array.from(new Set([
+    ...data.costCenters.map(c => c.currency),
+    ...data.fxRates.map(r => r.currency)
+  ].filter((c): c is string => !!c && c !== data.reportingCurrency))).sort();
+
+  const rates = data.fxRates
+    .filter(r => !currencyFilter || r.currency === currencyFilter)
+    .sort((a, b) => a.currency.localeCompare(b.currency) || a.rateType.localeCompare(b.rateType) || a.period.localeCompare(b.period));
+
+  const handleReportingCurrency = (value: string) => {
+    const code = value.trim().toUpperCase();
+    if (!isCurrencyCode(code)) {
+      alert("Enter a three-letter ISO currency code, e.g. USD.");
+      return;
+    }
+    if (code === data.reportingCurrency) return;
+    if (data.fxRates.length > 0 && !confirm(`Rates are quoted in ${data.reportingCurrency}. Change the reporting currency to ${code} anyway? Existing rates will need to be re-entered.`)) return;
+    onUpdate({ ...data, reportingCurrency: code });
+  };
+
+  const setCostCenterCurrency = (code: string, value: string) => {
+    const currency = value.trim().toUpperCase();
+    if (currency && !isCurrencyCode(currency)) {
+      alert("Enter a three-letter ISO currency code, or leave blank for the reporting currency.");
+      return;
+    }
+    const costCenters = data.costCenters.map(c => c.code === code ? { ...c, currency: currency || undefined } : c);
+    onUpdate({ ...data, costCenters });
+  };
+
+  const handleAddRate = () => {
+    const currency = (newRate.currency || '').trim().toUpperCase();
+    if (!isCurrencyCode(currency) || !newRate.period || !newRate.rateType || !newRate.rate || newRate.rate <= 0) {
+      alert("Please provide a currency code, month, rate type and a positive rate.");
+      return;
+    }
+    if (currency === data.reportingCurrency) {
+      alert(`${currency} is the reporting currency; it always translates at 1.`);
+      return;
+    }
+
+    // One rate per currency, type and month: re-entering replaces it
+    const rate: FxRate = { currency, period: newRate.period, rateType: newRate.rateType, rate: newRate.rate };
+    const others = data.fxRates.filter(r => !(r.currency === currency && r.rateType === rate.rateType && r.period === rate.period));
+    onUpdate({ ...data, fxRates: [...others, rate] });
+    setNewRate({ ...newRate, rate: undefined });
+  };
+
+  const removeRate = (rate: FxRate) => {
+    onUpdate({ ...data, fxRates: data.fxRates.filter(r => r !== rate) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card title="Reporting Currency">
+          <div className="flex items-center gap-3">
+            <Coins className="text-purple-600" size={20} />
+            <input
+              key={data.reportingCurrency}
+              className="border rounded p-2 text-sm font-mono w-24 uppercase"
+              defaultValue={data.reportingCurrency}
+              maxLength={3}
+              onBlur={e => handleReportingCurrency(e.target.value)}
+            />
+            <p className="text-xs text-slate-500">Reports translate every amount into this currency.</p>
+          </div>
+        </Card>
+
+        <Card title="Entity Currencies">
+          <p className="text-xs text-slate-500 mb-3">
+            Functional currency of each cost center. Blank = {data.reportingCurrency}. Imported rows with a Currency column override it.
+          </p>
+          <div className="divide-y divide-slate-50 max-h-56 overflow-y-auto">
+            {data.costCenters.map(cc => (
+              <div key={cc.code} className="flex items-center justify-between py-1.5 text-sm">
+                <span className="text-slate-700">{cc.name}</span>
+                <input
+                  key={`${cc.code}-${cc.currency || ''}`}
+                  className="border rounded px-2 py-1 text-xs font-mono w-20 uppercase"
+                  placeholder={data.reportingCurrency}
+                  defaultValue={cc.currency || ''}
+                  maxLength={3}
+                  onBlur={e => setCostCenterCurrency(cc.code, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+        </Card>
+      </div>
+
+      <Card
+        title={`FX Rates (${data.reportingCurrency} per unit)`}
+        action={foreignCurrencies.length > 1 && (
+          <select className="border rounded px-2 py-1 text-sm" value={currencyFilter} onChange={e => setCurrencyFilter(e.target.value)}>
+            <option value="">All currencies</option>
+            {foreignCurrencies.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        )}
+      >
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4 p-4 bg-slate-50 rounded-lg border border-slate-200 items-end">
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">Currency</label>
+            <input
+              className="w-full border rounded p-2 text-sm font-mono uppercase"
+              placeholder="EUR"
+              maxLength={3}
+              list="fx-currencies"
+              value={newRate.currency || ''}
+              onChange={e => setNewRate({ ...newRate, currency: e.target.value })}
+            />
+            <datalist id="fx-currencies">
+              {foreignCurrencies.map(c => <option key={c} value={c} />)}
+            </datalist>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">From Month</label>
+            <input
+              type="month"
+              className="w-full border rounded p-2 text-sm"
+              value={newRate.period || ''}
+              onChange={e => setNewRate({ ...newRate, period: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">Rate Type</label>
+            <select
+              className="w-full border rounded p-2 text-sm"
+              value={newRate.rateType}
+              onChange={e => setNewRate({ ...newRate, rateType: e.target.value as FxRateType })}
+            >
+              {FX_RATE_TYPES.map(t => <option key={t} value={t}>{t} ({RATE_TYPE_HINTS[t]})</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">Rate</label>
+            <input
+              type="number"
+              step="0.0001"
+              min="0"
+              className="w-full border rounded p-2 text-sm"
+              value={newRate.rate ?? ''}
+              onChange={e => setNewRate({ ...newRate, rate: e.target.value === '' ? undefined : Number(e.target.value) })}
+            />
+          </div>
+          <button onClick={handleAddRate} className="px-4 py-2 bg-purple-600 text-white rounded-md shadow-sm hover:bg-purple-700 text-sm font-medium flex items-center justify-center gap-1">
+            <Plus size={16} /> Add Rate
+          </button>
+        </div>
+
+        <p className="text-xs text-slate-400 mb-3">A rate applies from its month until the next rate of the same type, so one budget rate can cover a whole year.</p>
+
+        {rates.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-6">No rates yet. Amounts in other currencies are reported untranslated until rates are added.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase text-slate-500 border-b border-slate-200">
+                <th className="py-2 pr-3">Currency</th>
+                <th className="py-2 pr-3">Type</th>
+                <th className="py-2 pr-3">From</th>
+                <th className="py-2 pr-3 text-right">Rate</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rates.map(r => (
+                <tr key={`${r.currency}|${r.rateType}|${r.period}`} className="border-b border-slate-50 hover:bg-slate-50 group">
+                  <td className="py-1.5 pr-3 font-mono">{r.currency}</td>
+                  <td className="py-1.5 pr-3 text-slate-600">{r.rateType}</td>
+                  <td className="py-1.5 pr-3 text-slate-600">{r.period}</td>
+                  <td className="py-1.5 pr-3 text-right font-mono">{r.rate.toFixed(4)}</td>
+                  <td className="py-1.5 text-right">
+                    <button onClick={() => removeRate(r)} className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Card>
+    </div>
+  );
+};
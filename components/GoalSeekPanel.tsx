@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AppData, RecordType } from '../types';
+import { Target, Check, X } from 'lucide-react';
+import {
+  GoalSeekMetric,
+  GoalSeekResult,
+  GoalSeekVariable,
+  GOAL_SEEK_METRICS,
+  GOAL_SEEK_PARAMS,
+  goalSeek
+} from '../services/goalSeekService';
+import { getEffectiveAssumptions, getParentPlan } from '../services/scenarioService';
+
+interface GoalSeekPanelProps {
+  data: AppData;
+  planId: string;
+  isLocked?: boolean;
+  onCommit: (result: GoalSeekResult) => void;
+}
+
+const pct = (v: number) => `${(v * 100).toFixed(2)}%`;
+const currency = (v: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(v);
+
+export const GoalSeekPanel: React.FC<GoalSeekPanelProps> = ({ data, planId, isLocked, onCommit }) => {
+  const plan = data.plans.find(p => p.id === planId);
+  const [metric, setMetric] = useState<GoalSeekMetric>('ebitda');
+  const [startPeriod, setStartPeriod] = useState(plan?.startDate || '');
+  const [endPeriod, setEndPeriod] = useState(plan?.endDate || '');
+  const [target, setTarget] = useState<number>(0);
+  const [variables, setVariables] = useState<GoalSeekVariable[]>([]);
+  const [result, setResult] = useState<GoalSeekResult | null>(null);
+
+  const isPercent = GOAL_SEEK_METRICS.find(m => m.key === metric)?.isPercent;
+  const format = isPercent ? pct : currency;
+
+  // Assumptions whose method has a numeric parameter the solver can vary
+  const candidates = useMemo(
+    () => data.assumptions.filter(a => a.planId === planId && GOAL_SEEK_PARAMS[a.method]),
+    [data.assumptions, planId]
+  );
+  // A scenario's inherited assumptions belong to the parent; they can only be varied once overridden here
+  const inherited = useMemo(
+    () => getEffectiveAssumptions(planId, data).filter(a => GOAL_SEEK_PARAMS[a.method] && !data.assumptions.some(own => own.id === a.id && own.planId === planId)),
+    [data.assumptions, data.plans, planId]
+  );
+  const parentPlan = getParentPlan(planId, data);
+
+  useEffect(() => {
+    setStartPeriod(plan?.startDate || '');
+    setEndPeriod(plan?.endDate || '');
+    setVariables([]);
+  }, [planId]);
+
+  // A proposal is only valid against the data it was solved on
+  useEffect(() => setResult(null), [data]);
+
+  const label = (assumptionId: string) => {
+    const a = data.assumptions.find(x => x.id === assumptionId);
+    if (!a) return assumptionId;
+    const accName = data.accounts.find(x => x.code === a.accountCode)?.name || a.accountCode;
+    const dims = [a.productLineCode, a.costCenterCode].filter(Boolean).join('/');
+    return dims ? `${accName} (${dims})` : accName;
+  };
+
+  const toggleVariable = (assumptionId: string) => {
+    if (variables.some(v => v.assumptionId === assumptionId)) {
+      setVariables(variables.filter(v => v.assumptionId !== assumptionId));
+      return;
+    }
+    const a = data.assumptions.find(x => x.id === assumptionId)!;
+    const param = GOAL_SEEK_PARAMS[a.method]!;
+    const current = a.params[param] || 0;
+    const bounds = param === 'growthRate'
+      ? { min: -0.2, max: Math.max(0.5, current * 2) }
+      : { min: 0, max: Math.max(0.5, current * 2) };
+    setVariables([...variables, { assumptionId, param, ...bounds }]);
+  };
+
+  const updateBound = (assumptionId: string, field: 'min' | 'max', value: number) => {
+    setVariables(variables.map(v => v.assumptionId === assumptionId ? { ...v, [field]: value } : v));
+  };
+
+  const handleSolve = () => {
+    try {
+      setResult(goalSeek({ planId, metric, startPeriod, endPeriod, target, variables }, data));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto p-6 bg-slate-50/20">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Target Metric</label>
+              <select className="w-full border rounded p-2 text-sm" value={metric} onChange={e => setMetric(e.target.value as GoalSeekMetric)}>
+                {GOAL_SEEK_METRICS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Target Value {isPercent ? '(%)' : '($)'}</label>
+              <input
+                type="number"
+                className="w-full border rounded p-2 text-sm"
+                value={isPercent ? Math.round(target * 10000) / 100 : target}
+                onChange={e => setTarget(isPercent ? Number(e.target.value) / 100 : Number(e.target.value))}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">From</label>
+              <input type="month" className="w-full border rounded p-2 text-sm" value={startPeriod} onChange={e => setStartPeriod(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">To</label>
+              <input type="month" className="w-full border rounded p-2 text-sm" value={endPeriod} onChange={e => setEndPeriod(e.target.value)} />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">Parameters to Vary</label>
+            {candidates.length === 0 ? (
+              <p className="text-xs text-slate-400 bg-white border rounded p-3">
+                No Growth YoY or % of Revenue assumptions in this plan. Goal seek varies those parameters.
+              </p>
+            ) : (
+              <div className="bg-white border rounded divide-y divide-slate-100">
+                {candidates.map(a => {
+                  const variable = variables.find(v => v.assumptionId === a.id);
+                  return (
+                    <div key={a.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <input type="checkbox" checked={!!variable} onChange={() => toggleVariable(a.id)} className="rounded text-purple-600" />
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate text-slate-700">{label(a.id)}</div>
+                        <div className="text-[10px] text-slate-400">{GOAL_SEEK_PARAMS[a.method]} now {pct(a.params[GOAL_SEEK_PARAMS[a.method]!] || 0)}</div>
+                      </div>
+                      {variable && (
+                        <div className="flex items-center gap-1 text-xs text-slate-500">
+                          <input type="number" step="0.1" className="border rounded p-1 w-16" value={Math.round(variable.min * 10000) / 100} onChange={e => updateBound(a.id, 'min', Number(e.target.value) / 100)} />
+                          <span>to</span>
+                          <input type="number" step="0.1" className="border rounded p-1 w-16" value={Math.round(variable.max * 10000) / 100} onChange={e => updateBound(a.id, 'max', Number(e.target.value) / 100)} />
+                          <span>%</span>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            {inherited.length > 0 && (
+              <p className="text-[10px] text-amber-700 mt-1">
+                Inherited from {parentPlan?.name}: {inherited.map(a => label(a.id)).join(', ')}. Override them in the Overrides tab to vary them here.
+              </p>
+            )}
+            <p className="text-[10px] text-slate-400 mt-1">With several parameters, all move together proportionally between their bounds.</p>
+          </div>
+
+          <button
+            onClick={handleSolve}
+            disabled={variables.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-md text-sm hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Target size={16} /> Solve
+          </button>
+        </div>
+
+        <div>
+          {!result ? (
+            <div className="h-full flex items-center justify-center text-sm text-slate-400 border border-dashed rounded-lg p-6 text-center">
+              Pick a target and the parameters to flex, then solve to get a proposed assumption change.
+            </div>
+          ) : (
+            <div className="bg-white border rounded-lg p-4 space-y-4">
+              <div className={`text-sm font-medium ${result.solved ? 'text-emerald-700' : 'text-amber-700'}`}>
+                {result.solved
+                  ? `Target reached in ${result.iterations} evaluations.`
+                  : 'Target is outside what these bounds can reach. Showing the closest bound.'}
+                {result.recordType === RecordType.FORECAST && (
+                  <span className="block text-xs font-normal text-slate-500">Measured on the Latest Forecast, which committing regenerates; the Budget stays as it is.</span>
+                )}
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="bg-slate-50 rounded p-2">
+                  <div className="text-[10px] uppercase text-slate-400">Current</div>
+                  <div className="text-sm font-semibold text-slate-700">{format(result.baseline)}</div>
+                </div>
+                <div className="bg-slate-50 rounded p-2">
+                  <div className="text-[10px] uppercase text-slate-400">Target</div>
+                  <div className="text-sm font-semibold text-slate-700">{format(target)}</div>
+                </div>
+                <div className="bg-purple-50 rounded p-2">
+                  <div className="text-[10px] uppercase text-purple-400">Proposed</div>
+                  <div className="text-sm font-semibold text-purple-800">{format(result.achieved)}</div>
+                </div>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500 border-b">
+                    <th className="py-1">Assumption</th>
+                    <th className="py-1 text-right">Current</th>
+                    <th className="py-1 text-right">Proposed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.changes.map(c => (
+                    <tr key={c.assumptionId} className="border-b border-slate-50">
+                      <td className="py-1 text-slate-700">{label(c.assumptionId)}</td>
+                      <td className="py-1 text-right text-slate-500">{pct(c.from)}</td>
+                      <td className="py-1 text-right font-medium text-purple-700">{pct(c.to)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setResult(null)} className="flex items-center gap-1 px-3 py-1.5 text-sm text-slate-500 hover:text-slate-800">
+                  <X size={14} /> Discard
+                </button>
+                <button
+                  onClick={() => onCommit(result)}
+                  disabled={isLocked}
+                  className="flex items-center gap-1 px-4 py-1.5 bg-slate-800 text-white rounded-md text-sm hover:bg-slate-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Check size={14} /> Commit Proposal
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
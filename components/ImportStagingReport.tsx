@@ -0,0 +1,229 @@
+import React, { useMemo, useState } from 'react';
+import { AppData, FinancialRecord } from '../types';
+import { AlertCircle, AlertTriangle, ArrowLeft, CheckCircle, Upload } from 'lucide-react';
+import {
+  DIMENSION_FIELDS,
+  IssueKind,
+  StagedRow,
+  addHyperionCode,
+  getControlTotals,
+  hasErrors,
+  sumByIntersection,
+  translateStagedRows,
+  validateStagedRows
+} from '../services/importService';
+
+interface ImportStagingReportProps {
+  data: AppData;
+  rows: StagedRow[]; // Translated and validated
+  onUpdate: (newData: AppData) => void;
+  onBack: () => void;
+  onCommit: (records: FinancialRecord[], excluded: number) => void;
+}
+
+const MAX_ROWS = 200;
+
+export const ImportStagingReport: React.FC<ImportStagingReportProps> = ({ data, rows: initialRows, onUpdate, onBack, onCommit }) => {
+  const [rows, setRows] = useState<StagedRow[]>(initialRows);
+  const [dropped, setDropped] = useState<Set<number>>(new Set());
+  const [filter, setFilter] = useState<'issues' | 'errors' | 'all'>('issues');
+
+  const committable = rows.filter(r => !hasErrors(r) && !dropped.has(r.rowNumber));
+  const errorRows = rows.filter(hasErrors);
+  const warningRows = rows.filter(r => !hasErrors(r) && r.issues.length > 0);
+  const controlTotals = useMemo(() => getControlTotals(rows, dropped), [rows, dropped]);
+
+  const issueCounts = useMemo(() => {
+    const counts = new Map<string, { kind: IssueKind; severity: 'error' | 'warning'; count: number }>();
+    rows.forEach(r => r.issues.forEach(i => {
+      const key = `${i.severity}|${i.kind}`;
+      const entry = counts.get(key) || { kind: i.kind, severity: i.severity, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }));
+    return Array.from(counts.values()).sort((a, b) => a.severity.localeCompare(b.severity) || b.count - a.count);
+  }, [rows]);
+
+  // Unmapped codes grouped by dimension, with how many rows use each
+  const unknownCodes = useMemo(() => DIMENSION_FIELDS.flatMap(dim => {
+    const counts = new Map<string, number>();
+    rows.forEach(r => {
+      if (r.issues.some(i => i.kind === 'Unknown Code' && i.field === dim.field)) {
+        counts.set(r.record[dim.field], (counts.get(r.record[dim.field]) || 0) + 1);
+      }
+    });
+    return Array.from(counts.entries()).map(([code, count]) => ({ ...dim, code, count }));
+  }), [rows]);
+
+  const visible = rows.filter(r => filter === 'all' || (filter === 'errors' ? hasErrors(r) : r.issues.length > 0));
+
+  const accountName = (code: string) => data.accounts.find(a => a.code === code)?.name || code;
+  const formatCurrency = (val: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: data.reportingCurrency, maximumFractionDigits: 0 }).format(val);
+
+  // Saves the member into the item's Hyperion mapping, so next month's file translates it too
+  const handleMap = (list: 'accounts' | 'costCenters' | 'productLines', external: string, itemCode: string) => {
+    if (!itemCode) return;
+    const nextData = addHyperionCode(data, list, itemCode, external);
+    onUpdate(nextData);
+    setRows(validateStagedRows(translateStagedRows(rows, nextData), nextData));
+  };
+
+  const toggleDropped = (rowNumber: number) => {
+    const next = new Set(dropped);
+    if (next.has(rowNumber)) next.delete(rowNumber);
+    else next.add(rowNumber);
+    setDropped(next);
+  };
+
+  const handleCommit = () => {
+    if (errorRows.length > 0 && !confirm(`${errorRows.length} rows with errors will be left out. Commit the ${committable.length} valid rows?`)) return;
+    onCommit(sumByIntersection(committable.map(r => r.record)), rows.length - committable.length);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-slate-600">{rows.length} rows:</span>
+        <span className="px-2 py-0.5 rounded bg-emerald-50 text-emerald-700 flex items-center gap-1"><CheckCircle size={12} /> {committable.length} to commit</span>
+        {errorRows.length > 0 && <span className="px-2 py-0.5 rounded bg-rose-50 text-rose-700 flex items-center gap-1"><AlertCircle size={12} /> {errorRows.length} with errors</span>}
+        {warningRows.length > 0 && <span className="px-2 py-0.5 rounded bg-amber-50 text-amber-700 flex items-center gap-1"><AlertTriangle size={12} /> {warningRows.length} with warnings</span>}
+        {dropped.size > 0 && <span className="px-2 py-0.5 rounded bg-slate-100 text-slate-500">{dropped.size} dropped</span>}
+        {issueCounts.map(c => (
+          <span key={`${c.severity}|${c.kind}`} className={`text-xs ${c.severity === 'error' ? 'text-rose-600' : 'text-amber-600'}`}>
+            · {c.kind}: {c.count}
+          </span>
+        ))}
+      </div>
+
+      {/* Inline mapping of unknown codes */}
+      {unknownCodes.length > 0 && (
+        <div>
+          <h4 className="text-xs font-semibold text-slate-500 uppercase mb-1">Unmapped Codes</h4>
+          <p className="text-xs text-slate-500 mb-2">Mapping a code adds it to that item's Hyperion mapping in Settings.</p>
+          <table className="w-full text-sm">
+            <tbody>
+              {unknownCodes.map(u => (
+                <tr key={`${u.field}|${u.code}`} className="border-b border-slate-50">
+                  <td className="py-1 pr-3 text-xs text-slate-500">{u.label}</td>
+                  <td className="py-1 pr-3 font-mono text-slate-700">{u.code || '(blank)'}</td>
+                  <td className="py-1 pr-3 text-xs text-slate-400">{u.count} rows</td>
+                  <td className="py-1 text-right">
+                    <select className="border border-slate-300 rounded px-2 py-1 text-xs bg-white" value="" onChange={e => handleMap(u.list, u.code, e.target.value)}>
+                      <option value="">Map to…</option>
+                      {data[u.list].map(d => <option key={d.code} value={d.code}>{d.name} ({d.code})</option>)}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Row-level report */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-xs font-semibold text-slate-500 uppercase">Rows</h4>
+          <select className="border border-slate-300 rounded px-2 py-1 text-xs bg-white" value={filter} onChange={e => setFilter(e.target.value as 'issues' | 'errors' | 'all')}>
+            <option value="issues">With issues</option>
+            <option value="errors">With errors</option>
+            <option value="all">All rows</option>
+          </select>
+        </div>
+        {visible.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-4">No rows to show.</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto border border-slate-100 rounded">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr className="text-left text-slate-500">
+                  <th className="px-2 py-1.5">Keep</th>
+                  <th className="px-2 py-1.5">Row</th>
+                  <th className="px-2 py-1.5">Period</th>
+                  <th className="px-2 py-1.5">Account</th>
+                  <th className="px-2 py-1.5">Cost Center</th>
+                  <th className="px-2 py-1.5">Product</th>
+                  <th className="px-2 py-1.5 text-right">Amount</th>
+                  <th className="px-2 py-1.5">Issues</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.slice(0, MAX_ROWS).map(r => {
+                  const error = hasErrors(r);
+                  return (
+                    <tr key={r.rowNumber} className={`border-t border-slate-50 ${error || dropped.has(r.rowNumber) ? 'text-slate-400' : 'text-slate-700'}`}>
+                      <td className="px-2 py-1">
+                        <input type="checkbox" disabled={error} checked={!error && !dropped.has(r.rowNumber)} onChange={() => toggleDropped(r.rowNumber)} />
+                      </td>
+                      <td className="px-2 py-1">{r.rowNumber}</td>
+                      <td className="px-2 py-1 font-mono">{r.record.period}</td>
+                      <td className="px-2 py-1 font-mono">{r.record.accountCode}</td>
+                      <td className="px-2 py-1 font-mono">{r.record.costCenterCode}</td>
+                      <td className="px-2 py-1 font-mono">{r.record.productLineCode}</td>
+                      <td className="px-2 py-1 text-right font-mono">{isNaN(r.record.amount) ? '—' : formatCurrency(r.record.amount)}</td>
+                      <td className="px-2 py-1">
+                        {r.issues.map((i, n) => (
+                          <div key={n} className={i.severity === 'error' ? 'text-rose-600' : 'text-amber-600'}>{i.message}</div>
+                        ))}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {visible.length > MAX_ROWS && <p className="text-xs text-slate-400 text-center py-2">First {MAX_ROWS} of {visible.length} rows shown.</p>}
+          </div>
+        )}
+      </div>
+
+      {/* Control totals */}
+      <div>
+        <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">Control Totals by Account</h4>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-slate-400 border-b border-slate-200">
+              <th className="py-1 pr-3">Account</th>
+              <th className="py-1 pr-3 text-right">Rows in File</th>
+              <th className="py-1 pr-3 text-right">File Total</th>
+              <th className="py-1 pr-3 text-right">Rows to Commit</th>
+              <th className="py-1 text-right">Commit Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {controlTotals.map(t => (
+              <tr key={t.accountCode} className="border-b border-slate-50">
+                <td className="py-1 pr-3 text-slate-700">{t.accountCode ? accountName(t.accountCode) : '(blank)'}</td>
+                <td className="py-1 pr-3 text-right text-slate-500">{t.rows}</td>
+                <td className="py-1 pr-3 text-right font-mono text-slate-500">{formatCurrency(t.amount)}</td>
+                <td className="py-1 pr-3 text-right text-slate-500">{t.validRows}</td>
+                <td className={`py-1 text-right font-mono ${Math.abs(t.validAmount - t.amount) >= 0.5 ? 'text-amber-700' : 'text-slate-700'}`}>{formatCurrency(t.validAmount)}</td>
+              </tr>
+            ))}
+            <tr className="font-semibold">
+              <td className="py-1 pr-3 text-slate-700">Total</td>
+              <td className="py-1 pr-3 text-right text-slate-700">{rows.length}</td>
+              <td className="py-1 pr-3 text-right font-mono text-slate-700">{formatCurrency(controlTotals.reduce((sum, t) => sum + t.amount, 0))}</td>
+              <td className="py-1 pr-3 text-right text-slate-700">{committable.length}</td>
+              <td className="py-1 text-right font-mono text-slate-700">{formatCurrency(controlTotals.reduce((sum, t) => sum + t.validAmount, 0))}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-between pt-4 border-t border-slate-100">
+        <button onClick={onBack} className="text-sm px-3 py-1.5 rounded-md text-slate-600 hover:bg-slate-100 flex items-center gap-1">
+          <ArrowLeft size={14} /> Back to Mapping
+        </button>
+        <button
+          onClick={handleCommit}
+          disabled={committable.length === 0}
+          className="text-sm px-3 py-1.5 rounded-md bg-purple-600 text-white hover:bg-purple-700 flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Upload size={14} /> Commit {committable.length} Rows
+        </button>
+      </div>
+    </div>
+  );
+};
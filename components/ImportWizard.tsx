@@ -0,0 +1,237 @@
+import React, { useMemo, useState } from 'react';
+import { AppData, FinancialRecord, ImportField, ImportProfile } from '../types';
+import { Card } from './ui/Card';
+import { ArrowRight, Save, Trash2 } from 'lucide-react';
+import {
+  IMPORT_FIELDS,
+  ImportSheet,
+  StagedRow,
+  createImportProfile,
+  getSheetTable,
+  stageRows,
+  translateStagedRows,
+  validateStagedRows
+} from '../services/importService';
+import { ImportStagingReport } from './ImportStagingReport';
+
+interface ImportWizardProps {
+  data: AppData;
+  source: string; // File name
+  sheets: ImportSheet[];
+  onUpdate: (newData: AppData) => void;
+  onImport: (records: FinancialRecord[], excluded: number) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+const SCALES = [
+  { value: 1, label: 'Units' },
+  { value: 1000, label: 'Thousands' },
+  { value: 1000000, label: 'Millions' }
+];
+
+// A saved profile fits the file when its sheet exists and every mapped column is in its header row
+const fitsFile = (profile: ImportProfile, sheets: ImportSheet[]) => {
+  const sheet = sheets.find(s => s.name === profile.sheetName) || sheets[0];
+  if (!sheet) return false;
+  const headers = getSheetTable(sheet, profile.headerRow).headers;
+  return Object.values(profile.columns).every(column => !column || headers.includes(column));
+};
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ data, source, sheets, onUpdate, onImport, onCancel }) => {
+  const [profile, setProfile] = useState<ImportProfile>(() => {
+    const saved = data.importProfiles.find(p => fitsFile(p, sheets));
+    if (saved) return { ...saved, sheetName: sheets.some(s => s.name === saved.sheetName) ? saved.sheetName : sheets[0]?.name };
+    return createImportProfile(sheets[0] ? getSheetTable(sheets[0], 1).headers : [], sheets[0]?.name);
+  });
+  // Set once the mapping is confirmed: the validated rows under review
+  const [staged, setStaged] = useState<StagedRow[] | null>(null);
+
+  const sheet = sheets.find(s => s.name === profile.sheetName) || sheets[0];
+  const table = useMemo(() => getSheetTable(sheet, profile.headerRow), [sheet, profile.headerRow]);
+  const result = useMemo(() => {
+    try {
+      return stageRows(table, profile);
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }, [table, profile]);
+
+  const update = (changes: Partial<ImportProfile>) => setProfile(prev => ({ ...prev, ...changes }));
+
+  // Re-reads the headers and guesses the mapping again when the layout changes
+  const changeLayout = (sheetName: string, headerRow: number) => {
+    const next = sheets.find(s => s.name === sheetName) || sheets[0];
+    const headers = getSheetTable(next, headerRow).headers;
+    setProfile(prev => ({ ...createImportProfile(headers, next.name), id: prev.id, name: prev.name, headerRow, flipSign: prev.flipSign, scale: prev.scale }));
+  };
+
+  const setColumn = (field: ImportField, column: string) =>
+    update({ columns: { ...profile.columns, [field]: column || undefined } });
+
+  const handleSelectProfile = (id: string) => {
+    const saved = data.importProfiles.find(p => p.id === id);
+    if (!saved) {
+      setProfile(createImportProfile(getSheetTable(sheets[0], 1).headers, sheets[0].name));
+      return;
+    }
+    if (!fitsFile(saved, sheets)) alert(`"${saved.name}" does not match this file's columns; review the mapping before importing.`);
+    setProfile({ ...saved, sheetName: sheets.some(s => s.name === saved.sheetName) ? saved.sheetName : sheets[0].name });
+  };
+
+  const handleSaveProfile = () => {
+    const name = profile.name.trim();
+    if (!name) {
+      alert('Name the profile before saving it.');
+      return;
+    }
+    // Saving under an existing name replaces that profile
+    const existing = data.importProfiles.find(p => p.name === name);
+    const saved: ImportProfile = { ...profile, name, id: existing?.id || profile.id };
+    setProfile(saved);
+    onUpdate({ ...data, importProfiles: [...data.importProfiles.filter(p => p.id !== saved.id), saved] });
+  };
+
+  const handleDeleteProfile = () => {
+    const saved = data.importProfiles.find(p => p.id === profile.id);
+    if (!saved || !confirm(`Delete import profile "${saved.name}"?`)) return;
+    onUpdate({ ...data, importProfiles: data.importProfiles.filter(p => p.id !== saved.id) });
+    update({ id: crypto.randomUUID(), name: '' });
+  };
+
+  const mappedColumns = new Set(Object.values(profile.columns));
+  const isSaved = data.importProfiles.some(p => p.id === profile.id);
+
+  if (staged) {
+    return (
+      <Card title={`Review ${source}`} className="border-purple-200">
+        <ImportStagingReport data={data} rows={staged} onUpdate={onUpdate} onBack={() => setStaged(null)} onCommit={onImport} />
+      </Card>
+    );
+  }
+
+  return (
+    <Card title={`Import ${source}`} className="border-purple-200">
+      <div className="space-y-6">
+        {/* 1. Profile and layout */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Profile</label>
+            <div className="flex items-center gap-2">
+              <select className="w-full border border-slate-300 rounded px-2 py-1.5 text-sm bg-white" value={isSaved ? profile.id : ''} onChange={e => handleSelectProfile(e.target.value)}>
+                <option value="">New mapping</option>
+                {data.importProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+              {isSaved && (
+                <button onClick={handleDeleteProfile} title="Delete profile" className="text-slate-400 hover:text-red-500">
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Sheet</label>
+            <select className="w-full border border-slate-300 rounded px-2 py-1.5 text-sm bg-white" value={sheet?.name} onChange={e => changeLayout(e.target.value, profile.headerRow)}>
+              {sheets.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Header Row</label>
+            <input
+              type="number"
+              min={1}
+              className="w-full border border-slate-300 rounded px-2 py-1.5 text-sm"
+              value={profile.headerRow}
+              onChange={e => changeLayout(sheet.name, Math.max(1, parseInt(e.target.value) || 1))}
+            />
+          </div>
+        </div>
+
+        {/* 2. Preview */}
+        <div>
+          <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">
+            Preview <span className="normal-case font-normal text-slate-400">({table.rows.length} rows)</span>
+          </h4>
+          <div className="overflow-x-auto border border-slate-100 rounded">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="bg-slate-50 text-left text-slate-500">
+                  <th className="px-2 py-1.5 text-slate-400">Row</th>
+                  {table.headers.map(h => (
+                    <th key={h} className={`px-2 py-1.5 whitespace-nowrap ${mappedColumns.has(h) ? 'text-purple-700' : ''}`}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.slice(0, PREVIEW_ROWS).map(row => (
+                  <tr key={row.rowNumber} className="border-t border-slate-50">
+                    <td className="px-2 py-1 text-slate-400">{row.rowNumber}</td>
+                    {table.headers.map(h => (
+                      <td key={h} className={`px-2 py-1 whitespace-nowrap ${mappedColumns.has(h) ? 'text-slate-800' : 'text-slate-400'}`}>{String(row.values[h] ?? '')}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* 3. Mapping and amount options */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {IMPORT_FIELDS.map(({ field, label, required }) => (
+            <div key={field}>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">
+                {label}{required && <span className="text-rose-500"> *</span>}
+              </label>
+              <select className="w-full border border-slate-300 rounded px-2 py-1.5 text-sm bg-white" value={profile.columns[field] || ''} onChange={e => setColumn(field, e.target.value)}>
+                <option value="">{required ? 'Select column…' : 'Not in file'}</option>
+                {table.headers.map(h => <option key={h} value={h}>{h}</option>)}
+              </select>
+            </div>
+          ))}
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Amounts In</label>
+            <select className="w-full border border-slate-300 rounded px-2 py-1.5 text-sm bg-white" value={profile.scale} onChange={e => update({ scale: Number(e.target.value) })}>
+              {SCALES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-700 mt-5">
+            <input type="checkbox" checked={profile.flipSign} onChange={e => update({ flipSign: e.target.checked })} />
+            Flip sign
+          </label>
+        </div>
+
+        {typeof result === 'string' ? (
+          <p className="text-sm text-amber-700">{result}</p>
+        ) : (
+          <p className="text-sm text-slate-600">{result.length} rows read; they are validated on the next step before anything is imported.</p>
+        )}
+
+        {/* 4. Save and import */}
+        <div className="flex flex-wrap items-center justify-between gap-3 pt-4 border-t border-slate-100">
+          <div className="flex items-center gap-2">
+            <input
+              className="border border-slate-300 rounded px-2 py-1.5 text-sm w-56"
+              placeholder="Profile name, e.g. Monthly GL extract"
+              value={profile.name}
+              onChange={e => update({ name: e.target.value })}
+            />
+            <button onClick={handleSaveProfile} className="text-sm px-3 py-1.5 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50 flex items-center gap-1">
+              <Save size={14} /> Save Profile
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={onCancel} className="text-sm px-3 py-1.5 rounded-md text-slate-600 hover:bg-slate-100">Cancel</button>
+            <button
+              onClick={() => typeof result !== 'string' && setStaged(validateStagedRows(translateStagedRows(result, data), data))}
+              disabled={typeof result === 'string' || result.length === 0}
+              className="text-sm px-3 py-1.5 rounded-md bg-purple-600 text-white hover:bg-purple-700 flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Review Rows <ArrowRight size={14} />
+            </button>
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+};
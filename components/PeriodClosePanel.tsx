@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { AppData, RecordType } from '../types';
+import { Card } from './ui/Card';
+import { Lock, Unlock } from 'lucide-react';
+import { isPeriodClosed, setPeriodClosed } from '../services/periodCloseService';
+
+interface PeriodClosePanelProps {
+  data: AppData;
+  onUpdate: (newData: AppData) => void;
+}
+
+export const PeriodClosePanel: React.FC<PeriodClosePanelProps> = ({ data, onUpdate }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const user = localStorage.getItem('CFO_USER_NAME') || undefined;
+
+  // Every month with actuals, plus closed months that no longer have any
+  const periods = useMemo(() => {
+    const counts = new Map<string, number>();
+    data.records.forEach(r => {
+      if (r.type === RecordType.ACTUAL) counts.set(r.period, (counts.get(r.period) || 0) + 1);
+    });
+    data.closedPeriods.forEach(c => counts.set(c.period, counts.get(c.period) || 0));
+    return Array.from(counts.entries()).sort((a, b) => b[0].localeCompare(a[0]));
+  }, [data.records, data.closedPeriods]);
+
+  const accountName = (code: string) => data.accounts.find(a => a.code === code)?.name || code;
+  const formatCurrency = (val: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: data.reportingCurrency, maximumFractionDigits: 0 }).format(val);
+
+  const handleToggle = (period: string) => {
+    if (isPeriodClosed(period, data)) {
+      if (!confirm(`Reopen ${period}? Imports will be able to change its actuals without review.`)) return;
+      onUpdate(setPeriodClosed(period, false, data));
+    } else {
+      onUpdate(setPeriodClosed(period, true, data, user));
+    }
+  };
+
+  // Closes the month and every open month before it
+  const handleCloseThrough = (period: string) => {
+    if (!period) return;
+    const toClose = periods.map(([p]) => p).filter(p => p <= period && !isPeriodClosed(p, data));
+    if (toClose.length === 0) return;
+    onUpdate(toClose.reduce((next, p) => setPeriodClosed(p, true, next, user), data));
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card
+        title="Period Close"
+        action={
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            Close through
+            <input type="month" className="border rounded px-2 py-1 text-sm" onChange={e => handleCloseThrough(e.target.value)} value="" />
+          </label>
+        }
+      >
+        <p className="text-xs text-slate-500 mb-3">
+          Closed months hold final actuals. An import that changes one goes to a restatement review before anything is applied.
+        </p>
+        {periods.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-6">No actuals imported yet.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <tbody>
+                {periods.map(([period, count]) => {
+                  const closed = data.closedPeriods.find(c => c.period === period);
+                  return (
+                    <tr key={period} className="border-b border-slate-50 hover:bg-slate-50">
+                      <td className="py-1.5 pr-3 font-mono text-slate-700">{period}</td>
+                      <td className="py-1.5 pr-3 text-xs text-slate-400">{count} records</td>
+                      <td className="py-1.5 pr-3 text-xs text-slate-500">
+                        {closed
+                          ? `Closed ${new Date(closed.closedAt).toLocaleDateString()}${closed.closedBy ? ` by ${closed.closedBy}` : ''}`
+                          : 'Open'}
+                      </td>
+                      <td className="py-1.5 text-right">
+                        <button
+                          onClick={() => handleToggle(period)}
+                          className={`text-xs font-medium inline-flex items-center gap-1 ${closed ? 'text-amber-700 hover:text-amber-900' : 'text-slate-500 hover:text-slate-800'}`}
+                        >
+                          {closed ? <><Lock size={12} /> Reopen</> : <><Unlock size={12} /> Close</>}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      <Card title="Restatement History">
+        {data.restatements.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-6">No closed month has been restated.</p>
+        ) : (
+          <div className="divide-y divide-slate-100">
+            {data.restatements.slice().reverse().map(r => {
+              const net = r.lines.reduce((sum, l) => sum + l.after - l.before, 0);
+              const months = Array.from(new Set(r.lines.map(l => l.period))).sort();
+              return (
+                <div key={r.id} className="py-2">
+                  <button onClick={() => setExpandedId(expandedId === r.id ? null : r.id)} className="w-full flex items-center justify-between text-left text-sm">
+                    <span>
+                      <span className="font-medium text-slate-700">{r.source}</span>
+                      <span className="text-xs text-slate-500"> · {months.join(', ')} · {r.lines.length} intersections · net {formatCurrency(net)}</span>
+                    </span>
+                    <span className="text-xs text-slate-400">{r.acceptedBy ? `${r.acceptedBy}, ` : ''}{new Date(r.acceptedAt).toLocaleString()}</span>
+                  </button>
+                  {expandedId === r.id && (
+                    <table className="w-full text-xs mt-2">
+                      <tbody>
+                        {r.lines.map((l, i) => (
+                          <tr key={i} className="border-b border-slate-50">
+                            <td className="py-1 pr-3 font-mono text-slate-500">{l.period}</td>
+                            <td className="py-1 pr-3 text-slate-700">{accountName(l.accountCode)}</td>
+                            <td className="py-1 pr-3 text-slate-500">{[l.costCenterCode, l.productLineCode].filter(Boolean).join(' / ')}</td>
+                            <td className="py-1 pr-3 text-right font-mono text-slate-500">{formatCurrency(l.before)}</td>
+                            <td className="py-1 pr-3 text-right font-mono text-slate-500">{formatCurrency(l.after)}</td>
+                            <td className="py-1 text-right font-mono text-slate-700">{formatCurrency(l.after - l.before)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React from 'react';
+import { AppData, SectionStatus } from '../types';
+import { Card } from './ui/Card';
+import { CheckCircle2, Lock, Send, ShieldCheck, Undo2, XCircle } from 'lucide-react';
+import {
+  PlanSection,
+  activatePlan,
+  getPlanSections,
+  getSectionEvents,
+  getSectionStatus,
+  isPlanApproved,
+  isReviewer,
+  transitionSection
+} from '../services/approvalService';
+
+interface PlanApprovalPanelProps {
+  data: AppData;
+  planId: string;
+  userName: string;
+  onUserNameChange: (name: string) => void;
+  onUpdate: (newData: AppData) => void;
+}
+
+export const SECTION_STATUS_STYLES: Record<SectionStatus, string> = {
+  Open: 'bg-slate-100 text-slate-500',
+  Submitted: 'bg-blue-50 text-blue-700',
+  Approved: 'bg-emerald-50 text-emerald-700',
+  Rejected: 'bg-rose-50 text-rose-700'
+};
+
+export const PlanApprovalPanel: React.FC<PlanApprovalPanelProps> = ({ data, planId, userName, onUserNameChange, onUpdate }) => {
+  const plan = data.plans.find(p => p.id === planId);
+  const sections = getPlanSections(data);
+  const history = data.approvalEvents.filter(e => e.planId === planId).slice().reverse();
+  const sectionName = (dimension?: string, code?: string) =>
+    (dimension === 'CostCenter' ? data.costCenters : data.productLines).find(d => d.code === code)?.name || code;
+
+  const run = (action: () => AppData) => {
+    try {
+      onUpdate(action());
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const move = (section: PlanSection, to: SectionStatus) => {
+    let comment: string | undefined;
+    if (to === 'Rejected') {
+      const input = prompt(`Why is ${section.name} rejected?`);
+      if (input === null) return;
+      comment = input;
+    } else if (to === 'Approved' || to === 'Submitted') {
+      comment = prompt('Comment (optional):') || undefined;
+    }
+    run(() => transitionSection(planId, section, to, userName, data, comment));
+  };
+
+  if (!plan) return null;
+  const approved = isPlanApproved(planId, data);
+
+  return (
+    <div className="space-y-4 p-4">
+      <Card
+        title={`Approval: ${plan.name}`}
+        action={
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-slate-500">Status: <span className="font-semibold text-slate-700">{plan.status}</span></span>
+            <button
+              onClick={() => run(() => activatePlan(planId, userName, data))}
+              disabled={!approved || (plan.status === 'Active' && plan.isLocked)}
+              className="text-xs bg-purple-600 text-white px-3 py-1.5 rounded-md hover:bg-purple-700 flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Lock size={12} /> Activate & Lock
+            </button>
+          </div>
+        }
+      >
+        <div className="flex items-center gap-2 mb-4">
+          <label className="text-xs font-semibold text-slate-500">Acting as</label>
+          <input
+            key={userName}
+            className="border rounded px-2 py-1 text-sm w-48"
+            placeholder="Your name"
+            defaultValue={userName}
+            onBlur={e => onUserNameChange(e.target.value.trim())}
+          />
+          {userName && isReviewer(userName, data) && (
+            <span className="text-[10px] bg-purple-50 text-purple-700 px-1.5 py-0.5 rounded flex items-center gap-1"><ShieldCheck size={10} /> Reviewer</span>
+          )}
+        </div>
+
+        {sections.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-6">
+            No cost center or product line has an owner yet. Assign owners in Settings to use the approval workflow.
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase text-slate-500 border-b border-slate-200">
+                <th className="py-2 pr-3">Section</th>
+                <th className="py-2 pr-3">Owner</th>
+                <th className="py-2 pr-3">Status</th>
+                <th className="py-2 pr-3">Last Change</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sections.map(section => {
+                const status = getSectionStatus(planId, section.dimension, section.code, data);
+                const last = getSectionEvents(planId, section.dimension, section.code, data).pop();
+                return (
+                  <tr key={`${section.dimension}|${section.code}`} className="border-b border-slate-50 hover:bg-slate-50">
+                    <td className="py-1.5 pr-3 font-medium text-slate-700">
+                      {section.name}
+                      <span className="ml-2 text-[10px] text-slate-400">{section.dimension === 'CostCenter' ? 'Cost Center' : 'Product Line'}</span>
+                    </td>
+                    <td className="py-1.5 pr-3 text-slate-600">{section.owner}</td>
+                    <td className="py-1.5 pr-3">
+                      <span className={`text-[10px] px-1.5 py-0.5 rounded ${SECTION_STATUS_STYLES[status]}`}>{status}</span>
+                    </td>
+                    <td className="py-1.5 pr-3 text-xs text-slate-400">
+                      {last ? `${last.by}, ${new Date(last.at).toLocaleString()}` : '-'}
+                      {last?.comment && <div className="text-slate-500 italic">"{last.comment}"</div>}
+                    </td>
+                    <td className="py-1.5 text-right whitespace-nowrap">
+                      {(status === 'Open' || status === 'Rejected') && (
+                        <button onClick={() => move(section, 'Submitted')} className="text-xs text-blue-700 hover:text-blue-900 font-medium inline-flex items-center gap-1">
+                          <Send size={12} /> Submit
+                        </button>
+                      )}
+                      {status === 'Submitted' && (
+                        <>
+                          <button onClick={() => move(section, 'Approved')} className="text-xs text-emerald-700 hover:text-emerald-900 font-medium inline-flex items-center gap-1 mr-3">
+                            <CheckCircle2 size={12} /> Approve
+                          </button>
+                          <button onClick={() => move(section, 'Rejected')} className="text-xs text-rose-700 hover:text-rose-900 font-medium inline-flex items-center gap-1">
+                            <XCircle size={12} /> Reject
+                          </button>
+                        </>
+                      )}
+                      {status === 'Approved' && (
+                        <button onClick={() => move(section, 'Open')} className="text-xs text-slate-500 hover:text-slate-800 font-medium inline-flex items-center gap-1">
+                          <Undo2 size={12} /> Reopen
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </Card>
+
+      {history.length > 0 && (
+        <Card title="History">
+          <div className="divide-y divide-slate-50 max-h-64 overflow-y-auto">
+            {history.map(e => (
+              <div key={e.id} className="py-1.5 text-xs flex items-start justify-between gap-4">
+                <div>
+                  <span className="font-medium text-slate-700">{e.code ? sectionName(e.dimension, e.code) : 'Plan'}</span>
+                  <span className="text-slate-500"> {e.from} → {e.to}</span>
+                  {e.comment && <span className="text-slate-500 italic"> "{e.comment}"</span>}
+                </div>
+                <span className="text-slate-400 whitespace-nowrap">{e.by}, {new Date(e.at).toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,230 @@
+import React, { useMemo, useState } from 'react';
+import { AppData, PlanSnapshot, RecordType } from '../types';
+import { Card } from './ui/Card';
+import { Camera, History, Trash2 } from 'lucide-react';
+import { createSnapshot, diffSnapshots, restoreSnapshot, takeSnapshot, ParamChange } from '../services/snapshotService';
+
+interface PlanSnapshotsPanelProps {
+  data: AppData;
+  planId: string;
+  isLocked?: boolean;
+  onUpdate: (newData: AppData) => void;
+}
+
+const CURRENT = 'current';
+const MAX_INTERSECTIONS = 50;
+
+const TRIGGER_STYLES: Record<PlanSnapshot['trigger'], string> = {
+  Manual: 'bg-slate-100 text-slate-600',
+  Lock: 'bg-amber-50 text-amber-700',
+  'Before Restore': 'bg-blue-50 text-blue-700'
+};
+
+const describeChanges = (changes: ParamChange[]) =>
+  changes.map(c => `${c.param}: ${c.before ?? '—'} → ${c.after ?? '—'}`).join('; ');
+
+export const PlanSnapshotsPanel: React.FC<PlanSnapshotsPanelProps> = ({ data, planId, isLocked, onUpdate }) => {
+  const snapshots = useMemo(
+    () => data.snapshots.filter(s => s.planId === planId).sort((a, b) => b.created.localeCompare(a.created)),
+    [data.snapshots, planId]
+  );
+  const [beforeId, setBeforeId] = useState<string>('');
+  const [afterId, setAfterId] = useState<string>(CURRENT);
+  const [recordType, setRecordType] = useState<RecordType>(RecordType.BUDGET);
+
+  // Default the comparison to the latest snapshot against the plan as it is now
+  const fromId = beforeId && (beforeId === CURRENT || snapshots.some(s => s.id === beforeId)) ? beforeId : snapshots[0]?.id;
+  const toId = afterId === CURRENT || snapshots.some(s => s.id === afterId) ? afterId : CURRENT;
+
+  const diff = useMemo(() => {
+    if (!fromId || fromId === toId) return null;
+    const resolve = (id: string) => id === CURRENT
+      ? createSnapshot(planId, data, 'Current plan', 'Manual')
+      : snapshots.find(s => s.id === id)!;
+    return diffSnapshots(resolve(fromId), resolve(toId), data, recordType);
+  }, [fromId, toId, recordType, snapshots, data.records, data.assumptions, data.opportunities, data.accounts, planId]);
+
+  const formatCurrency = (val: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: data.reportingCurrency, maximumFractionDigits: 0 }).format(val);
+
+  const handleTakeSnapshot = () => {
+    const name = prompt('Snapshot name:', `Version ${snapshots.length + 1}`);
+    if (!name) return;
+    onUpdate(takeSnapshot(planId, data, name, 'Manual'));
+  };
+
+  const handleRestore = (snapshot: PlanSnapshot) => {
+    if (isLocked) {
+      alert('Unlock the plan before restoring a snapshot.');
+      return;
+    }
+    if (!confirm(`Restore "${snapshot.name}"? The plan's assumptions, records and R&O items are replaced. The current version is kept as a snapshot.`)) return;
+    onUpdate(restoreSnapshot(snapshot.id, data));
+  };
+
+  const handleDelete = (snapshot: PlanSnapshot) => {
+    if (!confirm(`Delete snapshot "${snapshot.name}"? This cannot be undone.`)) return;
+    onUpdate({ ...data, snapshots: data.snapshots.filter(s => s.id !== snapshot.id) });
+  };
+
+  const versionOptions = [
+    <option key={CURRENT} value={CURRENT}>Current plan</option>,
+    ...snapshots.map(s => <option key={s.id} value={s.id}>{s.name} ({new Date(s.created).toLocaleDateString()})</option>)
+  ];
+
+  return (
+    <div className="space-y-4 p-4">
+      <Card
+        title="Snapshots"
+        action={
+          <button onClick={handleTakeSnapshot} className="text-xs bg-purple-600 text-white px-3 py-1.5 rounded-md hover:bg-purple-700 flex items-center gap-1">
+            <Camera size={12} /> Take Snapshot
+          </button>
+        }
+      >
+        <p className="text-xs text-slate-500 mb-3">Locking the plan takes a snapshot automatically. Snapshots never change; restoring one keeps the replaced version too.</p>
+        {snapshots.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-6">No snapshots of this plan yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody>
+              {snapshots.map(s => (
+                <tr key={s.id} className="border-b border-slate-50 hover:bg-slate-50 group">
+                  <td className="py-1.5 pr-3 font-medium text-slate-700">{s.name}</td>
+                  <td className="py-1.5 pr-3">
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded ${TRIGGER_STYLES[s.trigger]}`}>{s.trigger}</span>
+                  </td>
+                  <td className="py-1.5 pr-3 text-xs text-slate-500">{new Date(s.created).toLocaleString()}</td>
+                  <td className="py-1.5 pr-3 text-xs text-slate-400">
+                    {s.assumptions.length} assumptions · {s.records.length} records · {s.opportunities.length} R&O
+                  </td>
+                  <td className="py-1.5 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => handleRestore(s)}
+                      disabled={isLocked}
+                      className="text-xs text-purple-700 hover:text-purple-900 font-medium mr-3 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Restore
+                    </button>
+                    {s.trigger !== 'Lock' && (
+                      <button onClick={() => handleDelete(s)} className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <Trash2 size={14} />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Card>
+
+      {snapshots.length > 0 && (
+        <Card
+          title="Compare Versions"
+          action={
+            <div className="flex items-center gap-2 text-sm">
+              <select className="border rounded px-2 py-1" value={fromId} onChange={e => setBeforeId(e.target.value)}>{versionOptions}</select>
+              <span className="text-slate-400">→</span>
+              <select className="border rounded px-2 py-1" value={toId} onChange={e => setAfterId(e.target.value)}>{versionOptions}</select>
+              <select className="border rounded px-2 py-1" value={recordType} onChange={e => setRecordType(e.target.value as RecordType)}>
+                <option value={RecordType.BUDGET}>Budget</option>
+                <option value={RecordType.FORECAST}>Latest Forecast</option>
+              </select>
+            </div>
+          }
+        >
+          {!diff ? (
+            <p className="text-sm text-slate-400 text-center py-6">Pick two different versions to compare.</p>
+          ) : (
+            <div className="space-y-6">
+              {diff.accounts.length + diff.assumptions.length + diff.opportunities.length === 0 && (
+                <p className="text-sm text-slate-500 flex items-center gap-2"><History size={14} /> The two versions are identical.</p>
+              )}
+
+              {diff.accounts.length > 0 && (
+                <div>
+                  <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">By account</h4>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-slate-400 border-b border-slate-200">
+                        <th className="py-1 pr-3">Account</th>
+                        <th className="py-1 pr-3 text-right">Before</th>
+                        <th className="py-1 pr-3 text-right">After</th>
+                        <th className="py-1 text-right">Change</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {diff.accounts.map(c => (
+                        <tr key={c.key} className="border-b border-slate-50">
+                          <td className="py-1 pr-3 text-slate-700">{c.label}</td>
+                          <td className="py-1 pr-3 text-right font-mono text-slate-500">{formatCurrency(c.before)}</td>
+                          <td className="py-1 pr-3 text-right font-mono text-slate-500">{formatCurrency(c.after)}</td>
+                          <td className={`py-1 text-right font-mono ${c.delta > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{formatCurrency(c.delta)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {diff.intersections.length > 0 && (
+                <div>
+                  <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">
+                    By intersection{diff.intersections.length > MAX_INTERSECTIONS ? ` (largest ${MAX_INTERSECTIONS} of ${diff.intersections.length})` : ''}
+                  </h4>
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {diff.intersections.slice(0, MAX_INTERSECTIONS).map(c => (
+                        <tr key={c.key} className="border-b border-slate-50">
+                          <td className="py-1 pr-3 text-slate-700">{c.label}</td>
+                          <td className="py-1 pr-3 text-right font-mono text-slate-500">{formatCurrency(c.before)}</td>
+                          <td className="py-1 pr-3 text-right font-mono text-slate-500">{formatCurrency(c.after)}</td>
+                          <td className={`py-1 text-right font-mono ${c.delta > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>{formatCurrency(c.delta)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {diff.assumptions.length > 0 && (
+                <div>
+                  <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">Assumptions</h4>
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {diff.assumptions.map(a => (
+                        <tr key={a.key} className="border-b border-slate-50">
+                          <td className="py-1 pr-3 text-slate-700 whitespace-nowrap">{a.label}</td>
+                          <td className="py-1 pr-3 text-xs text-slate-500">{a.change}</td>
+                          <td className="py-1 text-xs font-mono text-slate-500">{describeChanges(a.params)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {diff.opportunities.length > 0 && (
+                <div>
+                  <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">Risks & Opportunities</h4>
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {diff.opportunities.map(o => (
+                        <tr key={o.id} className="border-b border-slate-50">
+                          <td className="py-1 pr-3 text-slate-700 whitespace-nowrap">{o.label}</td>
+                          <td className="py-1 pr-3 text-xs text-slate-500">{o.change}</td>
+                          <td className="py-1 text-xs font-mono text-slate-500">{describeChanges(o.fields)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { AppData, RestatementLine } from '../types';
+import { Card } from './ui/Card';
+import { AlertTriangle } from 'lucide-react';
+
+interface RestatementReviewProps {
+  data: AppData;
+  source: string;
+  lines: RestatementLine[];
+  openRecordCount: number; // Imported records in open months
+  onAccept: () => void;
+  onImportOpenOnly: () => void;
+  onCancel: () => void;
+}
+
+export const RestatementReview: React.FC<RestatementReviewProps> = ({ data, source, lines, openRecordCount, onAccept, onImportOpenOnly, onCancel }) => {
+  const [confirmed, setConfirmed] = useState(false);
+  const accountName = (code: string) => data.accounts.find(a => a.code === code)?.name || code;
+  const formatCurrency = (val: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: data.reportingCurrency, maximumFractionDigits: 0 }).format(val);
+  const net = lines.reduce((sum, l) => sum + l.after - l.before, 0);
+  const months = Array.from(new Set(lines.map(l => l.period))).sort();
+
+  return (
+    <Card title="Restatement Review" className="border-amber-200">
+      <div className="flex items-start gap-2 text-sm text-amber-800 bg-amber-50 border border-amber-100 rounded p-3 mb-4">
+        <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+        <p>
+          {source} changes {lines.length} intersection{lines.length === 1 ? '' : 's'} in closed month{months.length === 1 ? '' : 's'} {months.join(', ')} (net {formatCurrency(net)}).
+          Nothing has been imported yet.
+        </p>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto mb-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase text-slate-500 border-b border-slate-200">
+              <th className="py-2 pr-3">Period</th>
+              <th className="py-2 pr-3">Account</th>
+              <th className="py-2 pr-3">Cost Center / Product</th>
+              <th className="py-2 pr-3 text-right">Old</th>
+              <th className="py-2 pr-3 text-right">New</th>
+              <th className="py-2 text-right">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((l, i) => (
+              <tr key={i} className="border-b border-slate-50">
+                <td className="py-1 pr-3 font-mono text-slate-500">{l.period}</td>
+                <td className="py-1 pr-3 text-slate-700">{accountName(l.accountCode)}</td>
+                <td className="py-1 pr-3 text-slate-500">{[l.costCenterCode, l.productLineCode].filter(Boolean).join(' / ')}</td>
+                <td className="py-1 pr-3 text-right font-mono text-slate-500">{formatCurrency(l.before)}</td>
+                <td className="py-1 pr-3 text-right font-mono text-slate-500">{formatCurrency(l.after)}</td>
+                <td className={`py-1 text-right font-mono ${l.after > l.before ? 'text-emerald-600' : 'text-rose-600'}`}>{formatCurrency(l.after - l.before)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-slate-700 mb-4">
+        <input type="checkbox" checked={confirmed} onChange={e => setConfirmed(e.target.checked)} />
+        I have reviewed these changes and accept the restatement.
+      </label>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="text-sm px-3 py-1.5 rounded-md text-slate-600 hover:bg-slate-100">Cancel Import</button>
+        <button
+          onClick={onImportOpenOnly}
+          disabled={openRecordCount === 0}
+          className="text-sm px-3 py-1.5 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Import Open Months Only ({openRecordCount})
+        </button>
+        <button
+          onClick={onAccept}
+          disabled={!confirmed}
+          className="text-sm px-3 py-1.5 rounded-md bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Accept Restatement
+        </button>
+      </div>
+    </Card>
+  );
+};
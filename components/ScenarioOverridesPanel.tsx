@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import { AppData, ForecastAssumption, RiskOpportunity } from '../types';
+import { Card } from './ui/Card';
+import { Copy, GitBranch, Undo2 } from 'lucide-react';
+import { getEffectiveRisksAndOps, getParentPlan, getScenarioOverrides, ScenarioOverride } from '../services/scenarioService';
+
+interface ScenarioOverridesPanelProps {
+  data: AppData;
+  planId: string;
+  isLocked?: boolean;
+  onChange: (nextData: AppData) => void; // Caller recalculates the scenario
+}
+
+const describeAssumption = (a?: ForecastAssumption) => a ? a.method.replace(/([A-Z])/g, ' $1').trim() : '-';
+
+const describeItem = (r?: RiskOpportunity) => r
+  ? `${r.estimatedImpact.toLocaleString()} from ${r.startDate}, ${r.includedInBudget ? 'in budget' : 'not in budget'}${r.status === 'Discarded' ? ', discarded' : ''}`
+  : '-';
+
+export const ScenarioOverridesPanel: React.FC<ScenarioOverridesPanelProps> = ({ data, planId, isLocked, onChange }) => {
+  const parent = getParentPlan(planId, data);
+  const overrides = useMemo(() => getScenarioOverrides(planId, data), [data.assumptions, data.opportunities, data.plans, planId]);
+
+  // Parent items the scenario still inherits unchanged
+  const inheritedItems = useMemo(() => {
+    if (!parent) return [];
+    const overridden = new Set(data.opportunities.filter(r => r.planId === planId).map(r => r.overridesItemId));
+    return getEffectiveRisksAndOps(parent.id, data).filter(r => !overridden.has(r.id));
+  }, [data.opportunities, data.plans, parent, planId]);
+
+  if (!parent) return null;
+
+  const identical = overrides.filter(o => o.sameAsParent);
+
+  const removeOverrides = (items: ScenarioOverride[]) => {
+    const ids = new Set(items.map(o => o.id));
+    onChange({
+      ...data,
+      assumptions: data.assumptions.filter(a => !ids.has(a.id)),
+      opportunities: data.opportunities.filter(r => !ids.has(r.id))
+    });
+  };
+
+  const overrideItem = (item: RiskOpportunity) => {
+    const copy: RiskOpportunity = { ...item, id: crypto.randomUUID(), planId, overridesItemId: item.id };
+    onChange({ ...data, opportunities: [...data.opportunities, copy] });
+  };
+
+  const detail = (o: ScenarioOverride, side: 'scenario' | 'parent') => {
+    const id = side === 'scenario' ? o.id : o.parentId;
+    if (!id) return '-';
+    return o.kind === 'Assumption'
+      ? describeAssumption(data.assumptions.find(a => a.id === id))
+      : describeItem(data.opportunities.find(r => r.id === id));
+  };
+
+  return (
+    <div className="space-y-4 p-4">
+      <Card
+        title={`Overrides of ${parent.name}`}
+        action={identical.length > 0 && !isLocked && (
+          <button onClick={() => removeOverrides(identical)} className="text-xs text-purple-700 hover:text-purple-900 font-medium">
+            Remove {identical.length} identical override{identical.length === 1 ? '' : 's'}
+          </button>
+        )}
+      >
+        <p className="text-xs text-slate-500 mb-3 flex items-center gap-1">
+          <GitBranch size={12} /> Everything not listed here is inherited, so changes to {parent.name} flow into this scenario.
+        </p>
+        {overrides.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-6">No overrides yet. This scenario matches its parent.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase text-slate-500 border-b border-slate-200">
+                <th className="py-2 pr-3">Line</th>
+                <th className="py-2 pr-3">Change</th>
+                <th className="py-2 pr-3">Scenario</th>
+                <th className="py-2 pr-3">{parent.name}</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {overrides.map(o => (
+                <tr key={o.id} className="border-b border-slate-50 hover:bg-slate-50">
+                  <td className="py-1.5 pr-3 font-medium text-slate-700">
+                    {o.label}
+                    {o.kind === 'RiskOpportunity' && <span className="ml-2 text-[10px] text-slate-400">R&O</span>}
+                  </td>
+                  <td className="py-1.5 pr-3">
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded ${o.change === 'Adds' ? 'bg-emerald-50 text-emerald-700' : 'bg-purple-50 text-purple-700'}`}>
+                      {o.change}
+                    </span>
+                    {o.sameAsParent && <span className="ml-1 text-[10px] px-1.5 py-0.5 rounded bg-amber-50 text-amber-700">Same as parent</span>}
+                  </td>
+                  <td className="py-1.5 pr-3 text-xs text-slate-600">{detail(o, 'scenario')}</td>
+                  <td className="py-1.5 pr-3 text-xs text-slate-400">{detail(o, 'parent')}</td>
+                  <td className="py-1.5 text-right">
+                    {!isLocked && (
+                      <button
+                        onClick={() => removeOverrides([o])}
+                        title={o.change === 'Adds' ? 'Remove from scenario' : 'Revert to parent'}
+                        className="text-slate-400 hover:text-red-500"
+                      >
+                        <Undo2 size={14} />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Card>
+
+      {inheritedItems.length > 0 && (
+        <Card title="Inherited Risks & Opportunities">
+          <p className="text-xs text-slate-500 mb-3">Override an item to change its impact or timing in this scenario only; edit the copy in Risks & Opps.</p>
+          <div className="divide-y divide-slate-50">
+            {inheritedItems.map(item => (
+              <div key={item.id} className="flex items-center justify-between py-1.5 text-sm">
+                <div>
+                  <span className="text-slate-700">{item.type}: {item.title}</span>
+                  <span className="ml-2 text-xs text-slate-400">{describeItem(item)}</span>
+                </div>
+                {!isLocked && (
+                  <button onClick={() => overrideItem(item)} className="text-xs text-purple-700 hover:text-purple-900 font-medium flex items-center gap-1">
+                    <Copy size={12} /> Override
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import { AppData } from '../types';
 import { SAAS_BENCHMARKS } from './benchmarks';
 import { analyzeVariance, generateProfitWalk } from './analysisScripts';
+import { calculateArrBridge, calculateMagicNumber, combineArrBridges } from './arrService';
+import { getFiscalYear } from './fiscalCalendar';
 
 /**
  * Interface for Chat Message
@@ -25,8 +27,8 @@ const buildContext = (data: AppData) => {
     // Variance (Top 5 Drivers)
     const topVariances = analyzeVariance(data, workingPlan.id);
 
-    // Profit Walk (Current Year - assuming 2025 for demo context)
-    const currentYear = parseInt(workingPlan.startDate.split('-')[0]);
+    // Profit Walk (fiscal year the working plan starts in)
+    const currentYear = getFiscalYear(workingPlan.startDate, data.fiscalCalendar);
     const profitWalk = generateProfitWalk(data, workingPlan.id, 'PlanVsActual', currentYear);
 
     // 3. Benchmarks Context
@@ -34,6 +36,15 @@ const buildContext = (data: AppData) => {
         `- ${m.name}: Target Top Q ${m.topQuartile * 100}%, Median ${m.median * 100}%`
     ).join('\n');
 
+    // ARR model (if the plan has one): ending ARR and latest Magic Number
+    const bridge = combineArrBridges(data.arrModels.filter(m => m.planId === workingPlan.id).map(m => calculateArrBridge(m, workingPlan)));
+    const salesCostCenters = data.costCenters.filter(cc => /sales|marketing/i.test(cc.name)).map(cc => cc.code);
+    const magic = calculateMagicNumber(bridge, workingPlan.id, data, salesCostCenters).filter(q => q.magicNumber !== null);
+    const arrSummary = bridge.length > 0
+        ? `- Ending ARR (plan): $${Math.round(bridge[bridge.length - 1].closingArr)}, Opening ARR: $${Math.round(bridge[0].openingArr)}` +
+          (magic.length > 0 ? `\n    - Magic Number by quarter: ${magic.map(q => `${q.quarter} ${q.magicNumber!.toFixed(2)}`).join(', ')}` : '')
+        : '- No ARR model in the working plan.';
+
     // 4. Construct Prompt Segment
     return `
     CURRENT STATE CONTEXT:
@@ -48,6 +59,9 @@ const buildContext = (data: AppData) => {
     TOP VARIANCE DRIVERS (Why are we missing/beating plan?):
     ${topVariances.map(v => `- ${v.account}: Variance ${new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(v.var)} (${(v.pct * 100).toFixed(1)}%)`).join('\n')}
 
+    SAAS METRICS (ARR model):
+    ${arrSummary}
+
     INDUSTRY BENCHMARKS ($100M Scale):
     ${benchmarks}
     `;
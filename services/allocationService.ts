@@ -0,0 +1,168 @@
+import { AllocationDriver, AllocationRule, AppData, FinancialRecord, RecordType } from '../types';
+import { AccountCategory } from './financialModel';
+import { getPlanRoster } from './headcountService';
+
+/**
+ * Cost allocations: shared cost booked to cost centers without a product line is moved onto
+ * product lines by a driver. Each allocated amount produces an offset on the original intersection
+ * and matching records on the target product lines (same account and cost center), all tagged
+ * source 'Allocation' so a run replaces the previous one and totals are unchanged.
+ */
+
+export const ALLOCATION_DRIVERS: { key: AllocationDriver; label: string }[] = [
+    { key: 'RevenueShare', label: 'Revenue share' },
+    { key: 'Headcount', label: 'Headcount (FTE)' },
+    { key: 'FixedPercent', label: 'Fixed percentages' },
+    { key: 'StatisticalAccount', label: 'Statistical account' }
+];
+
+// Actuals (no planId) or one plan's records of a type
+export interface AllocationScope {
+    type: RecordType;
+    planId?: string;
+}
+
+export interface AllocationRunResult {
+    records: FinancialRecord[];                    // Generated allocation records only
+    allocated: number;                             // Total amount moved onto product lines
+    missing: { ruleId: string; period: string }[]; // Months left unallocated because the driver had no data
+}
+
+const inScope = (r: FinancialRecord, scope: AllocationScope) =>
+    r.type === scope.type && (scope.planId ? r.planId === scope.planId : !r.planId);
+
+const isUnallocated = (r: FinancialRecord) => r.productLineCode === '' || r.productLineCode === 'GEN_PL';
+
+/**
+ * Share of each target product line for one month, summing to 1. Empty when the driver has nothing to go by.
+ */
+export const getAllocationMix = (
+    rule: AllocationRule,
+    period: string,
+    records: FinancialRecord[],
+    data: AppData,
+    scope: AllocationScope
+): Map<string, number> => {
+    const targets = new Set(rule.targetProductLineCodes);
+    const weights = new Map<string, number>();
+    const add = (code: string, value: number) => {
+        if (targets.has(code)) weights.set(code, (weights.get(code) || 0) + value);
+    };
+
+    switch (rule.driver) {
+        case 'RevenueShare': {
+            const revenueAccounts = new Set(
+                data.accounts.filter(a => a.category === AccountCategory.REVENUE).map(a => a.code)
+            );
+            records
+                .filter(r => r.period === period && revenueAccounts.has(r.accountCode))
+                .forEach(r => add(r.productLineCode, r.amount));
+            break;
+        }
+        case 'Headcount': {
+            const roster = scope.planId ? getPlanRoster(scope.planId, data) : data.headcount.filter(p => !p.planId);
+            roster
+                .filter(p => p.productLineCode && p.startDate <= period && (!p.endDate || period <= p.endDate))
+                .forEach(p => add(p.productLineCode!, p.fte));
+            break;
+        }
+        case 'FixedPercent':
+            Object.entries(rule.fixedPercentages || {}).forEach(([code, share]) => add(code, share));
+            break;
+        case 'StatisticalAccount':
+            records
+                .filter(r => r.period === period && r.accountCode === rule.statisticalAccountCode)
+                .forEach(r => add(r.productLineCode, r.amount));
+            break;
+    }
+
+    const total = Array.from(weights.values()).reduce((s, w) => s + Math.max(0, w), 0);
+    if (total <= 0) return new Map();
+    return new Map(Array.from(weights.entries()).map(([code, w]) => [code, Math.max(0, w) / total]));
+};
+
+/**
+ * Runs every active rule, in order, over the records of a scope. A source record is allocated
+ * by the first rule that matches it; previous allocation records are ignored.
+ */
+export const runAllocations = (data: AppData, scope: AllocationScope): AllocationRunResult => {
+    const records = data.records.filter(r => inScope(r, scope) && r.source !== 'Allocation');
+    const claimed = new Set<string>();
+    const result: AllocationRunResult = { records: [], allocated: 0, missing: [] };
+
+    data.allocationRules.filter(rule => rule.isActive && rule.targetProductLineCodes.length > 0).forEach(rule => {
+        // Source amounts per month and intersection
+        const groups = new Map<string, { period: string; accountCode: string; costCenterCode: string; productLineCode: string; amount: number }>();
+        records
+            .filter(r =>
+                !claimed.has(r.id) &&
+                isUnallocated(r) &&
+                rule.sourceAccountCodes.includes(r.accountCode) &&
+                (rule.sourceCostCenterCodes.length === 0 || rule.sourceCostCenterCodes.includes(r.costCenterCode))
+            )
+            .forEach(r => {
+                claimed.add(r.id);
+                const key = `${r.period}|${r.accountCode}|${r.costCenterCode}|${r.productLineCode}`;
+                const group = groups.get(key);
+                if (group) group.amount += r.amount;
+                else groups.set(key, { period: r.period, accountCode: r.accountCode, costCenterCode: r.costCenterCode, productLineCode: r.productLineCode, amount: r.amount });
+            });
+
+        const mixByPeriod = new Map<string, Map<string, number>>();
+        groups.forEach(group => {
+            if (group.amount === 0) return;
+            if (!mixByPeriod.has(group.period)) {
+                const mix = getAllocationMix(rule, group.period, records, data, scope);
+                mixByPeriod.set(group.period, mix);
+                if (mix.size === 0) result.missing.push({ ruleId: rule.id, period: group.period });
+            }
+            const mix = mixByPeriod.get(group.period)!;
+            if (mix.size === 0) return;
+
+            const base = {
+                planId: scope.planId,
+                period: group.period,
+                type: scope.type,
+                accountCode: group.accountCode,
+                costCenterCode: group.costCenterCode,
+                source: 'Allocation' as const
+            };
+            const total = Math.round(group.amount);
+            result.records.push({ ...base, id: crypto.randomUUID(), productLineCode: group.productLineCode, amount: -total });
+
+            // Rounding the running total keeps the targets summing exactly to the offset
+            let allocated = 0;
+            let rounded = 0;
+            mix.forEach((share, productLineCode) => {
+                allocated += total * share;
+                const amount = Math.round(allocated) - rounded;
+                rounded += amount;
+                result.records.push({ ...base, id: crypto.randomUUID(), productLineCode, amount });
+            });
+            result.allocated += total;
+        });
+    });
+
+    return result;
+};
+
+/**
+ * Allocation records for a plan, used by recalculatePlan once every assumption has run.
+ */
+export const generateAllocationRecords = (planId: string, data: AppData, recordType: RecordType): FinancialRecord[] =>
+    runAllocations(data, { type: recordType, planId }).records;
+
+/**
+ * Re-runs the rules over actuals, replacing the previous actual allocation records.
+ * Months matching `keepPeriod` (e.g. closed months) keep the allocation records they have.
+ */
+export const allocateActuals = (
+    data: AppData,
+    keepPeriod: (period: string) => boolean = () => false
+): { records: FinancialRecord[]; result: AllocationRunResult } => {
+    const scope: AllocationScope = { type: RecordType.ACTUAL };
+    // Every driver weighs one month at a time, so leaving kept months out does not change the others
+    const result = runAllocations({ ...data, records: data.records.filter(r => !keepPeriod(r.period)) }, scope);
+    const kept = data.records.filter(r => !(inScope(r, scope) && r.source === 'Allocation' && !keepPeriod(r.period)));
+    return { records: [...kept, ...result.records], result };
+};
@@ -1,4 +1,5 @@
 import { AppData, FinancialRecord, RecordType } from '../types';
+import { getFiscalYear } from './fiscalCalendar';
 
 /**
  * Helper to aggregate data by account
@@ -66,9 +67,10 @@ export const analyzeVariance = (data: AppData, planId: string, startPeriod?: str
  * Simplistic version: Walks P&L Lines from Revenue down to Net Income
  */
 export const generateProfitWalk = (data: AppData, planId: string, comparison: 'YoY' | 'PlanVsActual' = 'PlanVsActual', year: number) => {
-    // For MVP, strict implementation of Plan vs Actual for the specified year
-    const act = data.records.filter(r => r.type === RecordType.ACTUAL && r.period.startsWith(String(year)));
-    const pln = data.records.filter(r => r.planId === planId && r.period.startsWith(String(year)));
+    // For MVP, strict implementation of Plan vs Actual for the specified fiscal year
+    const inYear = (period: string) => getFiscalYear(period, data.fiscalCalendar) === year;
+    const act = data.records.filter(r => r.type === RecordType.ACTUAL && inYear(r.period));
+    const pln = data.records.filter(r => r.planId === planId && inYear(r.period));
 
     const getGroupTotal = (recs: FinancialRecord[], category: string) => {
         return recs
@@ -0,0 +1,261 @@
+import { AppData, ApprovalDimension, ApprovalEvent, FinancialRecord, ForecastAssumption, Plan, SectionStatus } from '../types';
+import { isFrozenRecord } from './planLockService';
+import { takeSnapshot } from './snapshotService';
+
+/**
+ * Plan approval workflow. Every cost center and product line with an owner is a section of each plan:
+ * the owner submits it, a reviewer approves or rejects it, and the plan can only become Active and
+ * locked once every section is approved. Plans without owned sections skip the workflow.
+ * Transitions throw an Error with a user-facing message when they are not allowed.
+ */
+
+export interface PlanSection {
+    dimension: ApprovalDimension;
+    code: string;
+    name: string;
+    owner: string;
+}
+
+// Which statuses each section status can move to
+const SECTION_TRANSITIONS: Record<SectionStatus, SectionStatus[]> = {
+    Open: ['Submitted'],
+    Submitted: ['Approved', 'Rejected'],
+    Approved: ['Open'],   // Reopened by a reviewer
+    Rejected: ['Submitted']
+};
+
+export const getPlanSections = (data: AppData): PlanSection[] => [
+    ...data.costCenters
+        .filter(c => c.owner)
+        .map(c => ({ dimension: 'CostCenter' as const, code: c.code, name: c.name, owner: c.owner! })),
+    ...data.productLines
+        .filter(p => p.owner)
+        .map(p => ({ dimension: 'ProductLine' as const, code: p.code, name: p.name, owner: p.owner! }))
+];
+
+export const getSectionEvents = (planId: string, dimension: ApprovalDimension, code: string, data: AppData): ApprovalEvent[] =>
+    data.approvalEvents.filter(e => e.planId === planId && e.dimension === dimension && e.code === code);
+
+export const getSectionStatus = (planId: string, dimension: ApprovalDimension, code: string, data: AppData): SectionStatus => {
+    const events = getSectionEvents(planId, dimension, code, data);
+    return events.length > 0 ? events[events.length - 1].to as SectionStatus : 'Open';
+};
+
+/**
+ * Section an intersection belongs to: its cost center's, else its product line's, if that has an owner.
+ */
+export const getIntersectionSection = (
+    data: AppData,
+    costCenterCode?: string,
+    productLineCode?: string
+): PlanSection | undefined => {
+    const sections = getPlanSections(data);
+    return sections.find(s => s.dimension === 'CostCenter' && s.code === costCenterCode)
+        || sections.find(s => s.dimension === 'ProductLine' && s.code === productLineCode);
+};
+
+/**
+ * Why the user may not change the intersection in this plan, or undefined if they may.
+ * Submitted and approved sections are frozen; open ones only take edits from their owner.
+ */
+export const getEditBlockReason = (
+    planId: string,
+    data: AppData,
+    user: string,
+    costCenterCode?: string,
+    productLineCode?: string
+): string | undefined => {
+    const section = getIntersectionSection(data, costCenterCode, productLineCode);
+    if (!section) return undefined;
+    const status = getSectionStatus(planId, section.dimension, section.code, data);
+    if (isFrozenStatus(status)) return frozenReason(section, status);
+    if (section.owner !== user) return `${section.name} is owned by ${section.owner}.`;
+    return undefined;
+};
+
+const isFrozenStatus = (status: SectionStatus) => status === 'Submitted' || status === 'Approved';
+
+const frozenReason = (section: PlanSection, status: SectionStatus) =>
+    `${section.name} is ${status.toLowerCase()}; a reviewer must ${status === 'Submitted' ? 'reject' : 'reopen'} it before it can change.`;
+
+// Plan figures of one section by intersection, so regenerated records (new ids, same amounts) count as unchanged.
+// Allocations are left out: they follow the costs of other sections.
+const sectionTotals = (records: FinancialRecord[], plan: Plan, inSection: (r: FinancialRecord) => boolean) => {
+    const totals = new Map<string, number>();
+    records.forEach(r => {
+        if (r.source === 'Allocation' || !isFrozenRecord(r, plan) || !inSection(r)) return;
+        const key = `${r.type}|${r.period}|${r.accountCode}|${r.costCenterCode}|${r.productLineCode}`;
+        totals.set(key, (totals.get(key) || 0) + r.amount);
+    });
+    return totals;
+};
+
+const totalsChanged = (before: Map<string, number>, after: Map<string, number>) =>
+    before.size !== after.size ||
+    Array.from(before.entries()).some(([key, amount]) => Math.abs((after.get(key) ?? NaN) - amount) >= 0.005);
+
+const assumptionFingerprint = (assumptions: ForecastAssumption[]) =>
+    assumptions.map(a => JSON.stringify(a)).sort().join('\n');
+
+/**
+ * Why `after` may not replace `before` because it changes a submitted or approved section, or undefined.
+ * Checked centrally on every update alongside the plan lock, whichever screen or import makes the change.
+ * Deleting a whole plan is left to the plan lock.
+ */
+export const getFrozenSectionViolation = (before: AppData, after: AppData): string | undefined => {
+    if (before.records === after.records && before.assumptions === after.assumptions) return undefined;
+    const sections = getPlanSections(before);
+    if (sections.length === 0) return undefined;
+
+    // Section of each intersection, looked up once per cost center / product line pair
+    const sectionCache = new Map<string, PlanSection | undefined>();
+    const sectionOf = (item: { costCenterCode?: string; productLineCode?: string }) => {
+        const key = `${item.costCenterCode || ''}|${item.productLineCode || ''}`;
+        if (!sectionCache.has(key)) {
+            sectionCache.set(key, sections.find(s => s.dimension === 'CostCenter' && s.code === item.costCenterCode)
+                || sections.find(s => s.dimension === 'ProductLine' && s.code === item.productLineCode));
+        }
+        return sectionCache.get(key);
+    };
+
+    for (const plan of before.plans.filter(p => after.plans.some(next => next.id === p.id))) {
+        for (const section of sections) {
+            const status = getSectionStatus(plan.id, section.dimension, section.code, before);
+            if (!isFrozenStatus(status)) continue;
+
+            const inSection = (item: { costCenterCode?: string; productLineCode?: string }) => sectionOf(item) === section;
+            const reason = `${plan.name}: ${frozenReason(section, status)}`;
+
+            if (before.assumptions !== after.assumptions) {
+                const ofSection = (list: ForecastAssumption[]) => list.filter(a => a.planId === plan.id && inSection(a));
+                if (assumptionFingerprint(ofSection(before.assumptions)) !== assumptionFingerprint(ofSection(after.assumptions))) return reason;
+            }
+            if (before.records !== after.records &&
+                totalsChanged(sectionTotals(before.records, plan, inSection), sectionTotals(after.records, plan, inSection))) {
+                return reason;
+            }
+        }
+    }
+    return undefined;
+};
+
+export const isReviewer = (user: string, data: AppData): boolean =>
+    data.approvalReviewers.length === 0 || data.approvalReviewers.includes(user);
+
+export const isPlanApproved = (planId: string, data: AppData): boolean =>
+    getPlanSections(data).every(s => getSectionStatus(planId, s.dimension, s.code, data) === 'Approved');
+
+/**
+ * Moves a section to a new status, recording who did it and when.
+ */
+export const transitionSection = (
+    planId: string,
+    section: PlanSection,
+    to: SectionStatus,
+    user: string,
+    data: AppData,
+    comment?: string
+): AppData => {
+    const plan = data.plans.find(p => p.id === planId);
+    if (!plan) throw new Error('Plan not found.');
+    if (!user) throw new Error('Enter your name before taking part in the approval workflow.');
+
+    const from = getSectionStatus(planId, section.dimension, section.code, data);
+    if (!SECTION_TRANSITIONS[from].includes(to)) throw new Error(`${section.name} is ${from}; it cannot move to ${to}.`);
+
+    if (to === 'Submitted' && user !== section.owner) throw new Error(`Only ${section.owner} can submit ${section.name}.`);
+    if (to === 'Approved' || to === 'Rejected' || to === 'Open') {
+        if (!isReviewer(user, data)) throw new Error(`${user} is not a plan reviewer.`);
+        const submittedBy = getSectionEvents(planId, section.dimension, section.code, data).filter(e => e.to === 'Submitted').pop()?.by;
+        if (to === 'Approved' && submittedBy === user) throw new Error('A section cannot be approved by the person who submitted it.');
+    }
+    if (to === 'Rejected' && !comment?.trim()) throw new Error('Add a comment explaining the rejection.');
+    if (to === 'Open' && plan.isLocked) throw new Error('Unlock the plan before reopening a section.');
+
+    const event: ApprovalEvent = {
+        id: crypto.randomUUID(),
+        planId,
+        dimension: section.dimension,
+        code: section.code,
+        from,
+        to,
+        by: user,
+        at: new Date().toISOString(),
+        comment: comment?.trim() || undefined
+    };
+
+    // Reopening a section of an Active plan sends the plan back to Draft
+    if (to === 'Open' && plan.status === 'Active') {
+        return setPlanStatus(planId, 'Draft', user, { ...data, approvalEvents: [...data.approvalEvents, event] });
+    }
+    return { ...data, approvalEvents: [...data.approvalEvents, event] };
+};
+
+const planEvent = (planId: string, from: ApprovalEvent['from'], to: ApprovalEvent['to'], user: string, comment?: string): ApprovalEvent => ({
+    id: crypto.randomUUID(),
+    planId,
+    from,
+    to,
+    by: user,
+    at: new Date().toISOString(),
+    comment
+});
+
+const setPlanStatus = (planId: string, status: Plan['status'], user: string, data: AppData): AppData => {
+    const plan = data.plans.find(p => p.id === planId)!;
+    return {
+        ...data,
+        plans: data.plans.map(p => p.id === planId ? { ...p, status } : p),
+        approvalEvents: [...data.approvalEvents, planEvent(planId, plan.status, status, user)]
+    };
+};
+
+/**
+ * Locks the plan, snapshotting what it said at lock time. Requires every section approved.
+ */
+export const lockPlan = (planId: string, user: string, data: AppData): AppData => {
+    const plan = data.plans.find(p => p.id === planId);
+    if (!plan) throw new Error('Plan not found.');
+    if (plan.isLocked) return data;
+    if (!isPlanApproved(planId, data)) throw new Error('Every section must be approved before the plan can be locked. See the Approval tab.');
+
+    const snapshotted = takeSnapshot(planId, data, `Locked ${new Date().toLocaleDateString()}`, 'Lock');
+    return {
+        ...snapshotted,
+        plans: snapshotted.plans.map(p => p.id === planId ? { ...p, isLocked: true, lockDate: new Date().toISOString() } : p),
+        approvalEvents: [...snapshotted.approvalEvents, planEvent(planId, 'Unlocked', 'Locked', user || 'Unknown')]
+    };
+};
+
+/**
+ * Privileged unlock: only reviewers may unlock, and the reason is kept in the plan's history.
+ */
+export const unlockPlan = (planId: string, reason: string, user: string, data: AppData): AppData => {
+    const plan = data.plans.find(p => p.id === planId);
+    if (!plan) throw new Error('Plan not found.');
+    if (!plan.isLocked) return data;
+    if (!user) throw new Error('Enter your name on the Approval tab before unlocking a plan.');
+    if (!isReviewer(user, data)) throw new Error(`${user} is not a plan reviewer; only reviewers can unlock plans.`);
+    if (!reason.trim()) throw new Error('Give a reason for unlocking the plan.');
+
+    return {
+        ...data,
+        plans: data.plans.map(p => p.id === planId ? { ...p, isLocked: false } : p),
+        approvalEvents: [...data.approvalEvents, planEvent(planId, 'Locked', 'Unlocked', user, reason.trim())]
+    };
+};
+
+/**
+ * Makes the plan Active and locks it, snapshotting it as approved. Requires every section approved.
+ */
+export const activatePlan = (planId: string, user: string, data: AppData): AppData => {
+    const plan = data.plans.find(p => p.id === planId);
+    if (!plan) throw new Error('Plan not found.');
+    if (!user) throw new Error('Enter your name before taking part in the approval workflow.');
+    if (!isReviewer(user, data)) throw new Error(`${user} is not a plan reviewer.`);
+
+    const pending = getPlanSections(data).filter(s => getSectionStatus(planId, s.dimension, s.code, data) !== 'Approved');
+    if (pending.length > 0) throw new Error(`Still awaiting approval: ${pending.map(s => s.name).join(', ')}.`);
+
+    return setPlanStatus(planId, 'Active', user, lockPlan(planId, user, data));
+};
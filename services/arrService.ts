@@ -0,0 +1,195 @@
+import { AppData, ArrDriverInputs, ArrModel, FinancialRecord, Plan, RecordType } from '../types';
+import { AccountCategory } from './financialModel';
+import { addMonths, listPeriods } from './periodUtils';
+import { getFiscalQuarterKey } from './fiscalCalendar';
+
+export const DEFAULT_ARR_INPUTS: ArrDriverInputs = {
+    newBookings: 0,
+    expansionRate: 0.01,
+    contractionRate: 0.002,
+    churnRate: 0.008
+};
+
+export interface ArrBridgeRow {
+    period: string;
+    openingArr: number;
+    newArr: number;
+    expansion: number;
+    contraction: number; // Positive amounts; subtracted in the bridge
+    churn: number;
+    closingArr: number;
+    openingCustomers: number;
+    newCustomers: number;
+    churnedCustomers: number;
+    closingCustomers: number;
+    revenue: number;     // Recognized subscription revenue
+}
+
+export interface MagicNumberRow {
+    quarter: string;       // Fiscal quarter, 'YYYY-Qn'
+    netNewArr: number;
+    priorSalesSpend: number; // S&M OpEx of the previous quarter
+    magicNumber: number | null;
+}
+
+/**
+ * Drivers in effect for a month: the model defaults with that month's overrides on top.
+ */
+export const getArrInputs = (model: ArrModel, period: string): ArrDriverInputs => ({
+    ...model.defaults,
+    ...model.overrides?.[period]
+});
+
+/**
+ * Month-by-month ARR bridge over the plan horizon.
+ * Revenue is recognized ratably: each month earns 1/12 of the average of opening and closing ARR,
+ * so a booking contributes half a month of revenue in the month it lands (mid-month convention).
+ */
+export const calculateArrBridge = (model: ArrModel, plan: Plan): ArrBridgeRow[] => {
+    let arr = model.startingArr;
+    let customers = model.startingCustomers;
+
+    return listPeriods(plan.startDate, plan.endDate).map(period => {
+        const inputs = getArrInputs(model, period);
+        const newArr = inputs.newBookings;
+        const expansion = arr * inputs.expansionRate;
+        const contraction = arr * inputs.contractionRate;
+        const churn = arr * inputs.churnRate;
+        const closingArr = arr + newArr + expansion - contraction - churn;
+
+        const newCustomers = model.averageNewAcv > 0 ? newArr / model.averageNewAcv : 0;
+        const churnedCustomers = customers * inputs.churnRate;
+        const closingCustomers = customers + newCustomers - churnedCustomers;
+
+        const row: ArrBridgeRow = {
+            period,
+            openingArr: arr,
+            newArr,
+            expansion,
+            contraction,
+            churn,
+            closingArr,
+            openingCustomers: customers,
+            newCustomers,
+            churnedCustomers,
+            closingCustomers,
+            revenue: (arr + closingArr) / 2 / 12
+        };
+
+        arr = closingArr;
+        customers = closingCustomers;
+        return row;
+    });
+};
+
+/**
+ * Sums the bridges of several product lines into one (same plan horizon).
+ */
+export const combineArrBridges = (bridges: ArrBridgeRow[][]): ArrBridgeRow[] => {
+    if (bridges.length === 0) return [];
+    return bridges[0].map((row, i) => {
+        const total = { ...row };
+        bridges.slice(1).forEach(bridge => {
+            (Object.keys(total) as (keyof ArrBridgeRow)[]).forEach(key => {
+                if (key !== 'period') (total[key] as number) += bridge[i][key] as number;
+            });
+        });
+        return total;
+    });
+};
+
+/**
+ * ARR the product line exited its last actual month at, from that month's recognized revenue x 12.
+ */
+export const estimateStartingArr = (model: Pick<ArrModel, 'productLineCode' | 'revenueAccountCode'>, plan: Plan, data: AppData): number => {
+    const prior = addMonths(plan.startDate, -1);
+    const revenue = data.records
+        .filter(r =>
+            r.type === RecordType.ACTUAL &&
+            r.period === prior &&
+            r.accountCode === model.revenueAccountCode &&
+            r.productLineCode === model.productLineCode
+        )
+        .reduce((sum, r) => sum + r.amount, 0);
+    return Math.round(revenue * 12);
+};
+
+/**
+ * Does an ARR model generate this record's intersection? The model replaces any other plan
+ * records on its revenue account and product line.
+ */
+export const isArrOwnedRecord = (r: FinancialRecord, planId: string, data: AppData): boolean =>
+    data.arrModels.some(m =>
+        m.planId === planId &&
+        r.accountCode === m.revenueAccountCode &&
+        r.productLineCode === m.productLineCode
+    );
+
+/**
+ * Subscription revenue records for every ARR model of a plan.
+ */
+export const generateArrRecords = (planId: string, data: AppData): FinancialRecord[] => {
+    const plan = data.plans.find(p => p.id === planId);
+    if (!plan) return [];
+
+    return data.arrModels
+        .filter(m => m.planId === planId)
+        .flatMap(model => calculateArrBridge(model, plan).map(row => ({
+            id: crypto.randomUUID(),
+            planId,
+            period: row.period,
+            type: RecordType.BUDGET,
+            accountCode: model.revenueAccountCode,
+            productLineCode: model.productLineCode,
+            costCenterCode: '',
+            amount: Math.round(row.revenue),
+            source: 'ARR' as const
+        })));
+};
+
+/**
+ * Magic Number per fiscal quarter of the plan: net new ARR in the quarter over the previous quarter's S&M spend
+ * (OpEx in the given cost centers). Spend comes from the plan's records inside the horizon and from
+ * actuals before it.
+ */
+export const calculateMagicNumber = (
+    bridge: ArrBridgeRow[],
+    planId: string,
+    data: AppData,
+    salesCostCenterCodes: string[],
+    recordType: RecordType = RecordType.BUDGET
+): MagicNumberRow[] => {
+    if (bridge.length === 0) return [];
+    const planStart = bridge[0].period;
+    const opexAccounts = new Set(data.accounts.filter(a => a.category === AccountCategory.OPEX).map(a => a.code));
+    const salesCostCenters = new Set(salesCostCenterCodes);
+
+    const salesSpend = (periods: string[]) => data.records
+        .filter(r =>
+            periods.includes(r.period) &&
+            opexAccounts.has(r.accountCode) &&
+            salesCostCenters.has(r.costCenterCode) &&
+            (r.period < planStart ? r.type === RecordType.ACTUAL : r.planId === planId && r.type === recordType)
+        )
+        .reduce((sum, r) => sum + r.amount, 0);
+
+    const quarters: { quarter: string; rows: ArrBridgeRow[] }[] = [];
+    bridge.forEach(row => {
+        const quarter = getFiscalQuarterKey(row.period, data.fiscalCalendar);
+        const last = quarters[quarters.length - 1];
+        if (last && last.quarter === quarter) last.rows.push(row);
+        else quarters.push({ quarter, rows: [row] });
+    });
+
+    return quarters.map(({ quarter, rows }) => {
+        const netNewArr = rows[rows.length - 1].closingArr - rows[0].openingArr;
+        const first = addMonths(rows[0].period, -3);
+        const priorSalesSpend = salesSpend([0, 1, 2].map(i => addMonths(first, i)));
+        return {
+            quarter,
+            netNewArr,
+            priorSalesSpend,
+            magicNumber: priorSalesSpend > 0 ? netNewArr / priorSalesSpend : null
+        };
+    });
+};
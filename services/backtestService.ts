@@ -0,0 +1,140 @@
+import { AppData, FinancialRecord, ForecastAssumption, ForecastMethodType, RecordType } from '../types';
+import { generateForecast, getIntersectionHistory } from './forecastingService';
+import { addMonths } from './periodUtils';
+
+/**
+ * Methods that can be scored against history. Manual values only exist for future months,
+ * so there is nothing to test them against.
+ */
+export const BACKTESTABLE_METHODS: ForecastMethodType[] = [
+    'Trend',
+    'SeasonalNaive',
+    'MovingAverage',
+    'HoltWinters',
+    'GrowthYearOverYear',
+    'PercentOfRevenue',
+    'CustomFormula'
+];
+
+export interface BacktestOptions {
+    holdoutMonths: number; // Number of most recent actual months held out as forecast origins
+    horizon?: number;      // Months forecast from each origin (defaults to 1 = one-step-ahead)
+}
+
+export interface BacktestResult {
+    method: ForecastMethodType;
+    mape: number;         // Mean absolute percentage error (0.05 = 5%)
+    bias: number;         // Signed total error / total actual; positive means over-forecasting
+    score: number;        // 0-100, stored on ForecastAssumption.backtestAccuracy
+    observations: number; // Forecast/actual pairs compared
+}
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = { holdoutMonths: 6, horizon: 1 };
+
+/**
+ * Builds the dataset as it looked at the forecast origin:
+ * - actuals strictly before the origin
+ * - from the origin on, the *other* intersections' actuals stand in as this plan's Budget,
+ *   so driver-based methods (% of Revenue, formulas) are scored on the method, not on driver error.
+ */
+const buildOriginData = (assumption: ForecastAssumption, data: AppData, origin: string, target: Set<FinancialRecord>): AppData => {
+    const records: FinancialRecord[] = [];
+    data.records.forEach(r => {
+        if (r.type !== RecordType.ACTUAL) return;
+        if (r.period < origin) {
+            records.push(r);
+        } else if (!target.has(r)) {
+            records.push({ ...r, planId: assumption.planId, type: RecordType.BUDGET });
+        }
+    });
+    return { ...data, records };
+};
+
+/**
+ * Drops the params fitted on the full history (Holt-Winters smoothing, moving-average window),
+ * so the forecast refits them at each origin on that origin's history and the holdout does not leak in.
+ */
+const withoutFittedParams = (assumption: ForecastAssumption): ForecastAssumption => {
+    const { alpha, beta, gamma, windowSize, ...params } = assumption.params;
+    return { ...assumption, params };
+};
+
+/**
+ * Rolling-origin backtest of one assumption: for each of the last `holdoutMonths` actual periods,
+ * forecast from that origin using only prior history and compare to what actually happened.
+ * Fitted params are refit at every origin. Returns null when there is not enough history to test.
+ */
+export const backtestAssumption = (
+    assumption: ForecastAssumption,
+    data: AppData,
+    options: BacktestOptions = DEFAULT_BACKTEST_OPTIONS
+): BacktestResult | null => {
+    if (!BACKTESTABLE_METHODS.includes(assumption.method)) return null;
+    if (assumption.method === 'CustomFormula' && !assumption.params.formula) return null;
+
+    const history = getIntersectionHistory(assumption, data.records);
+    if (history.length <= options.holdoutMonths + 1) return null;
+
+    const horizon = Math.max(1, options.horizon || 1);
+    const actualByPeriod = new Map(history.map(h => [h.period, h.amount]));
+    const lastPeriod = history[history.length - 1].period;
+
+    // Raw actual records of the target intersection (excluded from the driver stand-ins)
+    const target = new Set(data.records.filter(r =>
+        r.type === RecordType.ACTUAL &&
+        r.accountCode === assumption.accountCode &&
+        (!assumption.productLineCode || r.productLineCode === assumption.productLineCode) &&
+        (!assumption.costCenterCode || r.costCenterCode === assumption.costCenterCode)
+    ));
+
+    let absPctErrorSum = 0;
+    let pctObservations = 0;
+    let signedErrorSum = 0;
+    let actualSum = 0;
+    let observations = 0;
+
+    history.slice(-options.holdoutMonths).forEach(({ period: origin }) => {
+        const end = addMonths(origin, horizon - 1) > lastPeriod ? lastPeriod : addMonths(origin, horizon - 1);
+        const originData = buildOriginData(assumption, data, origin, target);
+        const forecast = generateForecast(withoutFittedParams(assumption), originData, origin, end);
+
+        forecast.forEach(f => {
+            const actual = actualByPeriod.get(f.period);
+            if (actual === undefined) return;
+            observations++;
+            signedErrorSum += f.amount - actual;
+            actualSum += Math.abs(actual);
+            if (actual !== 0) {
+                absPctErrorSum += Math.abs(f.amount - actual) / Math.abs(actual);
+                pctObservations++;
+            }
+        });
+    });
+
+    if (observations === 0) return null;
+
+    const mape = pctObservations > 0 ? absPctErrorSum / pctObservations : 0;
+    const bias = actualSum > 0 ? signedErrorSum / actualSum : 0;
+
+    return {
+        method: assumption.method,
+        mape,
+        bias,
+        score: Math.round(Math.max(0, Math.min(100, (1 - mape) * 100))),
+        observations
+    };
+};
+
+/**
+ * Scores every backtestable method for the same intersection and parameters, in `methods` order.
+ */
+export const compareMethods = (
+    assumption: ForecastAssumption,
+    data: AppData,
+    options: BacktestOptions = DEFAULT_BACKTEST_OPTIONS,
+    methods: ForecastMethodType[] = BACKTESTABLE_METHODS
+): BacktestResult[] => {
+    return methods
+        .map(method => backtestAssumption({ ...assumption, method }, data, options))
+        .filter((r): r is BacktestResult => r !== null);
+};
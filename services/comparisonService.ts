@@ -0,0 +1,303 @@
+import { AppData, FinancialRecord, ForecastAssumption, RecordSource, RecordType, RiskOpportunity } from '../types';
+import { createTranslator } from './currencyService';
+import { AccountCategory, calculatePnLFromTotals } from './financialModel';
+import { applyRisksAndOps, spreadRiskOpportunity } from './forecastingService';
+import { matchesAssumptionIntersection } from './recalcEngine';
+import { assumptionKey, getEffectiveAssumptions, getEffectiveRisksAndOps } from './scenarioService';
+
+/**
+ * Side-by-side comparison of plans (and actuals) over a set of months, with the walk and
+ * attribution of the difference between two of them. Amounts are in the reporting currency, plans at
+ * budget rates and actuals at actual rates. All deltas are profit impacts:
+ * more revenue is positive, more cost is negative, so the steps add up to the Net Income change.
+ */
+
+export const ACTUALS_COLUMN = 'actuals';
+
+// A column is a plan's Budget, or actuals when the id is ACTUALS_COLUMN
+export interface ComparisonColumn {
+    id: string;
+    label: string;
+}
+
+export interface ComparisonLine {
+    key: string;
+    label: string;
+    kind: 'category' | 'account' | 'subtotal';
+    category?: string;
+    values: number[]; // One per column
+}
+
+export interface WalkStep {
+    category: string;
+    impact: number;
+    accounts: { accountCode: string; label: string; impact: number }[];
+}
+
+export interface VarianceWalk {
+    start: number; // Net income of the 'from' column
+    end: number;
+    steps: WalkStep[];
+}
+
+export interface AssumptionChange {
+    key: string;
+    label: string;
+    change: 'Changed' | 'Added' | 'Removed';
+    fromMethod?: string;
+    toMethod?: string;
+    impact: number;
+}
+
+export interface RiskOpportunityChange {
+    id: string;
+    label: string;
+    fromImpact: number;
+    toImpact: number;
+    impact: number;
+}
+
+export interface DeltaAttribution {
+    assumptions: AssumptionChange[];
+    knockOn: number;                                   // Lines whose assumption is unchanged but whose inputs moved
+    drivers: { source: RecordSource; impact: number }[];
+    other: number;                                     // Manual and imported lines without an assumption
+    risks: RiskOpportunityChange[];
+    total: number;
+}
+
+// P&L categories in statement order; Cash Flow Items are left out of the profit walk
+export const PNL_CATEGORIES: string[] = [
+    AccountCategory.REVENUE,
+    AccountCategory.COGS,
+    AccountCategory.OPEX,
+    AccountCategory.DEPRECIATION,
+    AccountCategory.OTHER_INCOME,
+    AccountCategory.TAXES
+];
+
+/**
+ * +1 if more of the category raises profit, -1 if it lowers it.
+ */
+export const profitSign = (category?: string): number =>
+    category === AccountCategory.REVENUE || category === AccountCategory.OTHER_INCOME ? 1 : -1;
+
+/**
+ * Records behind a column within the months, translated: actuals, or the plan's Budget
+ * (optionally with in-budget R&O).
+ */
+export const getColumnRecords = (columnId: string, data: AppData, periods: string[], includeRisks: boolean): FinancialRecord[] => {
+    const inRange = new Set(periods);
+    const translator = createTranslator(data);
+    if (columnId === ACTUALS_COLUMN) {
+        return data.records
+            .filter(r => r.type === RecordType.ACTUAL && inRange.has(r.period))
+            .map(r => ({ ...r, amount: translator.translate(r, 'Actual') }));
+    }
+    const records = data.records.filter(r => r.planId === columnId && r.type === RecordType.BUDGET);
+    return (includeRisks ? applyRisksAndOps(records, data, columnId) : records)
+        .filter(r => inRange.has(r.period))
+        .map(r => ({ ...r, amount: translator.translate(r, 'Budget') }));
+};
+
+const sumByAccount = (records: FinancialRecord[]) => {
+    const totals = new Map<string, number>();
+    records.forEach(r => totals.set(r.accountCode, (totals.get(r.accountCode) || 0) + r.amount));
+    return totals;
+};
+
+/**
+ * P&L lines for every column: category totals with their accounts, and the profit subtotals.
+ */
+export const buildComparisonTable = (
+    columns: ComparisonColumn[],
+    data: AppData,
+    periods: string[],
+    includeRisks: boolean
+): ComparisonLine[] => {
+    const totals = columns.map(c => sumByAccount(getColumnRecords(c.id, data, periods, includeRisks)));
+    const accountValues = (code: string) => totals.map(t => t.get(code) || 0);
+    const categoryValues = (category: string) => totals.map(t =>
+        data.accounts.filter(a => a.category === category).reduce((sum, a) => sum + (t.get(a.code) || 0), 0)
+    );
+
+    const pnls = columns.map((_, i) => calculatePnLFromTotals(cat =>
+        data.accounts.filter(a => a.category === cat).reduce((sum, a) => sum + (totals[i].get(a.code) || 0), 0)
+    ));
+    const subtotal = (key: string, label: string, pick: (pnl: ReturnType<typeof calculatePnLFromTotals>) => number): ComparisonLine =>
+        ({ key, label, kind: 'subtotal', values: pnls.map(pick) });
+
+    const lines: ComparisonLine[] = [];
+    PNL_CATEGORIES.forEach(category => {
+        lines.push({ key: category, label: category, kind: 'category', category, values: categoryValues(category) });
+        data.accounts
+            .filter(a => a.category === category)
+            .map(a => ({ key: `${category}|${a.code}`, label: a.name, kind: 'account' as const, category, values: accountValues(a.code) }))
+            .filter(line => line.values.some(v => v !== 0))
+            .forEach(line => lines.push(line));
+
+        if (category === AccountCategory.COGS) lines.push(subtotal('grossProfit', 'Gross Profit', p => p.grossProfit));
+        if (category === AccountCategory.OTHER_INCOME) lines.push(subtotal('ebitda', 'EBITDA', p => p.ebitda));
+    });
+    lines.push(subtotal('netIncome', 'Net Income', p => p.netIncome));
+    return lines;
+};
+
+/**
+ * Walk from one column's net income to another's, by category and then account.
+ */
+export const buildVarianceWalk = (
+    fromId: string,
+    toId: string,
+    data: AppData,
+    periods: string[],
+    includeRisks: boolean
+): VarianceWalk => {
+    const from = sumByAccount(getColumnRecords(fromId, data, periods, includeRisks));
+    const to = sumByAccount(getColumnRecords(toId, data, periods, includeRisks));
+    const netIncome = (totals: Map<string, number>) => calculatePnLFromTotals(cat =>
+        data.accounts.filter(a => a.category === cat).reduce((sum, a) => sum + (totals.get(a.code) || 0), 0)
+    ).netIncome;
+
+    const steps = PNL_CATEGORIES.map(category => {
+        const accounts = data.accounts
+            .filter(a => a.category === category)
+            .map(a => ({ accountCode: a.code, label: a.name, impact: profitSign(category) * ((to.get(a.code) || 0) - (from.get(a.code) || 0)) }));
+        return {
+            category,
+            impact: accounts.reduce((sum, a) => sum + a.impact, 0),
+            accounts: accounts.filter(a => Math.abs(a.impact) >= 0.5).sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact))
+        };
+    });
+
+    return { start: netIncome(from), end: netIncome(to), steps };
+};
+
+// Follows scenario overrides back to the item they ultimately replace, so both plans' versions line up
+const rootItemId = (item: RiskOpportunity, data: AppData): string => {
+    const seen = new Set<string>();
+    let current = item;
+    while (current.overridesItemId && !seen.has(current.id)) {
+        seen.add(current.id);
+        const parent = data.opportunities.find(o => o.id === current.overridesItemId);
+        if (!parent) return current.overridesItemId;
+        current = parent;
+    }
+    return current.id;
+};
+
+/**
+ * Splits the profit difference between two plans into the assumptions that differ, knock-on effects
+ * on unchanged assumptions, driver modules, other lines and (when included) each R&O item.
+ */
+export const attributePlanDelta = (
+    fromPlanId: string,
+    toPlanId: string,
+    data: AppData,
+    periods: string[],
+    includeRisks: boolean
+): DeltaAttribution => {
+    const inRange = new Set(periods);
+    const categoryOf = new Map(data.accounts.map(a => [a.code, a.category]));
+    const translator = createTranslator(data);
+    const impactOf = (r: FinancialRecord) => {
+        const category = categoryOf.get(r.accountCode);
+        return category && PNL_CATEGORIES.includes(category) ? profitSign(category) * translator.translate(r, 'Budget') : 0;
+    };
+
+    const fromAssumptions = new Map(getEffectiveAssumptions(fromPlanId, data).map(a => [assumptionKey(a), a]));
+    const toAssumptions = new Map(getEffectiveAssumptions(toPlanId, data).map(a => [assumptionKey(a), a]));
+    const keys = Array.from(new Set([...fromAssumptions.keys(), ...toAssumptions.keys()]));
+
+    // Each record lands in exactly one bucket, so the buckets add up to the total difference
+    const buckets = new Map<string, number>();
+    const add = (bucket: string, amount: number) => buckets.set(bucket, (buckets.get(bucket) || 0) + amount);
+
+    const classify = (planId: string, sign: number) => {
+        // An intersection one plan has no assumption for is still matched with the other plan's definition
+        const candidates = keys.map(key => {
+            const a = (planId === toPlanId ? toAssumptions.get(key) : fromAssumptions.get(key))
+                || (planId === toPlanId ? fromAssumptions.get(key) : toAssumptions.get(key))!;
+            return { key, assumption: { ...a, planId } as ForecastAssumption };
+        });
+        data.records
+            .filter(r => r.planId === planId && r.type === RecordType.BUDGET && inRange.has(r.period))
+            .forEach(r => {
+                const impact = sign * impactOf(r);
+                if (impact === 0) return;
+                if (r.source) return add(`driver|${r.source}`, impact);
+                const match = candidates.find(c => matchesAssumptionIntersection(r, c.assumption));
+                add(match ? `asm|${match.key}` : 'other', impact);
+            });
+    };
+    classify(toPlanId, 1);
+    classify(fromPlanId, -1);
+
+    const accountName = (code: string) => data.accounts.find(a => a.code === code)?.name || code;
+    let knockOn = 0;
+    const assumptions: AssumptionChange[] = [];
+    keys.forEach(key => {
+        const before = fromAssumptions.get(key);
+        const after = toAssumptions.get(key);
+        const impact = buckets.get(`asm|${key}`) || 0;
+        const unchanged = before && after && before.method === after.method
+            && JSON.stringify(before.params) === JSON.stringify(after.params);
+        if (unchanged) {
+            knockOn += impact;
+            return;
+        }
+        const a = (after || before)!;
+        const dims = [a.productLineCode, a.costCenterCode].filter(Boolean).join(' / ');
+        assumptions.push({
+            key,
+            label: dims ? `${accountName(a.accountCode)} (${dims})` : accountName(a.accountCode),
+            change: !before ? 'Added' : !after ? 'Removed' : 'Changed',
+            fromMethod: before?.method,
+            toMethod: after?.method,
+            impact
+        });
+    });
+    assumptions.sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact));
+
+    const drivers = Array.from(buckets.entries())
+        .filter(([bucket]) => bucket.startsWith('driver|'))
+        .map(([bucket, impact]) => ({ source: bucket.slice('driver|'.length) as RecordSource, impact }));
+
+    // R&O items post on top of the plan records; compare each item's in-budget impact in both plans
+    const risks: RiskOpportunityChange[] = [];
+    if (includeRisks) {
+        const itemImpact = (item?: RiskOpportunity) => {
+            if (!item || !item.includedInBudget || !item.impactAccountCode) return 0;
+            return spreadRiskOpportunity(item)
+                .filter(s => inRange.has(s.period))
+                .reduce((sum, s) => sum + impactOf({
+                    id: item.id,
+                    type: RecordType.BUDGET,
+                    period: s.period,
+                    accountCode: item.impactAccountCode!,
+                    costCenterCode: item.impactCostCenterCode || '',
+                    productLineCode: item.impactProductLineCode || '',
+                    amount: s.amount
+                }), 0);
+        };
+        const fromItems = new Map(getEffectiveRisksAndOps(fromPlanId, data).map(i => [rootItemId(i, data), i]));
+        const toItems = new Map(getEffectiveRisksAndOps(toPlanId, data).map(i => [rootItemId(i, data), i]));
+        new Set([...fromItems.keys(), ...toItems.keys()]).forEach(id => {
+            const before = fromItems.get(id);
+            const after = toItems.get(id);
+            const fromImpact = itemImpact(before);
+            const toImpact = itemImpact(after);
+            if (Math.abs(toImpact - fromImpact) < 0.5) return;
+            const item = (after || before)!;
+            risks.push({ id, label: `${item.type}: ${item.title}`, fromImpact, toImpact, impact: toImpact - fromImpact });
+        });
+        risks.sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact));
+    }
+
+    const other = buckets.get('other') || 0;
+    const total = assumptions.reduce((sum, a) => sum + a.impact, 0) + knockOn
+        + drivers.reduce((sum, d) => sum + d.impact, 0) + other
+        + risks.reduce((sum, r) => sum + r.impact, 0);
+
+    return { assumptions, knockOn, drivers, other, risks, total };
+};
@@ -0,0 +1,93 @@
+import { AppData, FinancialRecord, FxRate, FxRateType } from '../types';
+import { AccountCategory, BALANCE_SHEET_CATEGORIES } from './financialModel';
+
+export const FX_RATE_TYPES: FxRateType[] = ['Average', 'Closing', 'Budget'];
+
+// 'Actual': flows at the month's average rate, balances at the closing rate.
+// 'Budget': everything at the budget rate, i.e. constant currency.
+export type TranslationBasis = 'Actual' | 'Budget';
+
+export interface MissingFxRate {
+    currency: string;
+    rateType: FxRateType;
+    period: string; // Earliest month without a rate
+}
+
+export const isCurrencyCode = (code: string): boolean => /^[A-Z]{3}$/.test(code);
+
+/**
+ * Currency an amount is held in: the record's own, else its cost center's, else the reporting currency.
+ */
+export const getRecordCurrency = (r: FinancialRecord, data: AppData): string => {
+    return r.currency || data.costCenters.find(c => c.code === r.costCenterCode)?.currency || data.reportingCurrency;
+};
+
+/**
+ * Builds a translator into the reporting currency. Rates are looked up once per currency and type;
+ * a rate applies from its month until the next rate of that type, so one budget rate can cover a year.
+ */
+export const createTranslator = (data: AppData) => {
+    const costCenterCurrency = new Map(data.costCenters.map(c => [c.code, c.currency]));
+    const balanceAccounts = new Set(
+        data.accounts.filter(a => BALANCE_SHEET_CATEGORIES.includes(a.category as AccountCategory)).map(a => a.code)
+    );
+
+    const tables = new Map<string, FxRate[]>();
+    data.fxRates.forEach(rate => {
+        const key = `${rate.currency}|${rate.rateType}`;
+        if (!tables.has(key)) tables.set(key, []);
+        tables.get(key)!.push(rate);
+    });
+    tables.forEach(rates => rates.sort((a, b) => a.period.localeCompare(b.period)));
+
+    const currencyOf = (r: FinancialRecord) => r.currency || costCenterCurrency.get(r.costCenterCode) || data.reportingCurrency;
+
+    const rateTypeOf = (r: FinancialRecord, basis: TranslationBasis): FxRateType => {
+        if (basis === 'Budget') return 'Budget';
+        return balanceAccounts.has(r.accountCode) ? 'Closing' : 'Average';
+    };
+
+    // Undefined when the currency has no rate of this type on or before the period
+    const rateFor = (r: FinancialRecord, basis: TranslationBasis): number | undefined => {
+        const currency = currencyOf(r);
+        if (currency === data.reportingCurrency) return 1;
+        const rates = tables.get(`${currency}|${rateTypeOf(r, basis)}`) || [];
+        for (let i = rates.length - 1; i >= 0; i--) {
+            if (rates[i].period <= r.period) return rates[i].rate;
+        }
+        return undefined;
+    };
+
+    return {
+        currencyOf,
+        rateTypeOf,
+        rateFor,
+        // Amounts without a rate are left untranslated; findMissingFxRates reports them
+        translate: (r: FinancialRecord, basis: TranslationBasis): number => r.amount * (rateFor(r, basis) ?? 1)
+    };
+};
+
+/**
+ * Currency / rate-type pairs the records need but the rate table does not cover.
+ */
+export const findMissingFxRates = (
+    records: FinancialRecord[],
+    data: AppData,
+    basisOf: (r: FinancialRecord) => TranslationBasis[]
+): MissingFxRate[] => {
+    const translator = createTranslator(data);
+    const missing = new Map<string, MissingFxRate>();
+
+    records.forEach(r => {
+        basisOf(r).forEach(basis => {
+            if (translator.rateFor(r, basis) !== undefined) return;
+            const currency = translator.currencyOf(r);
+            const rateType = translator.rateTypeOf(r, basis);
+            const key = `${currency}|${rateType}`;
+            const existing = missing.get(key);
+            if (!existing || r.period < existing.period) missing.set(key, { currency, rateType, period: r.period });
+        });
+    });
+
+    return Array.from(missing.values()).sort((a, b) => a.currency.localeCompare(b.currency) || a.rateType.localeCompare(b.rateType));
+};
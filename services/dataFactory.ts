@@ -1,4 +1,4 @@
-import { AppData, DimensionMapping, FinancialRecord, RecordType, Plan } from '../types';
+import { AppData, DimensionMapping, FinancialRecord, INITIAL_DATA, RecordType, Plan } from '../types';
 
 export const PROD_LINES: DimensionMapping[] = [
     { code: 'PL_IOT', name: 'Industrial IoT Platform', hyperionMap: 'PROD_IOT' },
@@ -40,7 +40,26 @@ export const ACCOUNTS: DimensionMapping[] = [
     { code: 'EXP_TAX', name: 'Income Taxes', hyperionMap: '80000', category: 'Taxes' },
     // FCF
     { code: 'CF_CAPEX', name: 'Capital Expenditures', hyperionMap: '90000', category: 'Cash Flow Items' },
-    { code: 'CF_WC', name: 'Change in Working Capital', hyperionMap: '91000', category: 'Cash Flow Items' }
+    { code: 'CF_WC', name: 'Change in Working Capital', hyperionMap: '91000', category: 'Cash Flow Items' },
+    // Balance Sheet (month-end balances)
+    { code: 'BS_CASH', name: 'Cash & Equivalents', hyperionMap: '10000', category: 'Cash' },
+    { code: 'BS_AR', name: 'Accounts Receivable', hyperionMap: '11000', category: 'Accounts Receivable' },
+    { code: 'BS_PPE', name: 'Property & Equipment, Net', hyperionMap: '15000', category: 'Fixed Assets' },
+    { code: 'BS_DEFREV', name: 'Deferred Revenue', hyperionMap: '24000', category: 'Deferred Revenue' },
+    { code: 'BS_AP', name: 'Accounts Payable', hyperionMap: '20000', category: 'Accounts Payable' },
+    { code: 'BS_ACCRUED', name: 'Accrued Liabilities', hyperionMap: '21000', category: 'Accrued Liabilities' },
+    { code: 'BS_EQUITY', name: 'Shareholders\' Equity', hyperionMap: '30000', category: 'Equity' }
+];
+
+// Actual balance sheet at 2024 year end: the opening position of the 2025 plan
+const OPENING_BALANCES: { accountCode: string; amount: number }[] = [
+    { accountCode: 'BS_CASH', amount: 2000000 },
+    { accountCode: 'BS_AR', amount: 650000 },
+    { accountCode: 'BS_PPE', amount: 900000 },
+    { accountCode: 'BS_DEFREV', amount: 800000 },
+    { accountCode: 'BS_AP', amount: 240000 },
+    { accountCode: 'BS_ACCRUED', amount: 180000 },
+    { accountCode: 'BS_EQUITY', amount: 2330000 }
 ];
 
 const DEFAULT_PLAN_ID = 'plan-2025-base';
@@ -212,6 +231,19 @@ const generateDummyRecords = (productCodes: string[], ccCodes: string[], default
         }
     });
 
+    OPENING_BALANCES.forEach(({ accountCode, amount }) => {
+        records.push({
+            id: crypto.randomUUID(),
+            // No planId for Actuals
+            period: '2024-12',
+            type: RecordType.ACTUAL,
+            accountCode,
+            costCenterCode: '',
+            productLineCode: '',
+            amount
+        });
+    });
+
     return records;
 };
 
@@ -228,12 +260,19 @@ export const generateStandardSaaSData = (): AppData => {
         opportunities: [
             {
                 id: 'opp-1',
+                planId: DEFAULT_PLAN_ID,
                 title: 'Cloud Cost Optimization',
                 description: 'Migrate non-production workloads to spot instances.',
+                type: 'Opportunity',
                 estimatedImpact: 120000,
+                impactLow: 60000,
+                impactHigh: 150000,
+                probability: 0.6,
                 status: 'In Progress',
                 owner: 'CTO',
                 includedInBudget: false,
+                startDate: '2025-07',
+                durationMonths: 6,
                 estimatedImpactTiming: 'Start Q3 2024',
                 actionDueDate: '2024-06-30',
                 impactAccountCode: 'COGS_HOST',
@@ -254,6 +293,24 @@ export const generateStandardSaaSData = (): AppData => {
             }
         ],
         assumptions: [],
+        headcount: [],
+        compensationSettings: [],
+        seasonalityProfiles: [],
+        allocationRules: [],
+        arrModels: [],
+        fixedAssets: [],
+        fixedAssetSettings: [],
+        workingCapitalSettings: [],
+        reportingCurrency: 'USD',
+        fxRates: [],
+        fiscalCalendar: { startMonth: 1 },
+        snapshots: [],
+        approvalReviewers: [],
+        approvalEvents: [],
+        closedPeriods: [],
+        restatements: [],
+        importProfiles: [],
+        dataVersion: INITIAL_DATA.dataVersion,
         lastModified: new Date().toISOString()
     };
 };
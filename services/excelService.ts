@@ -1,15 +1,12 @@
 import * as XLSX from 'xlsx';
-import { FinancialRecord, RecordType, DimensionMapping } from '../types';
-
-interface ImportRow {
-    Period: string;
-    Account: string;
-    CostCenter: string;
-    Product: string;
-    Amount: number;
-}
-
-export const parseHyperionActuals = async (file: File): Promise<FinancialRecord[]> => {
+import { FinancialRecord, DimensionMapping } from '../types';
+import { ForecastInterval } from './predictionIntervals';
+import { ImportSheet, parseHyperionCodes } from './importService';
+
+/**
+ * Reads every sheet of a workbook as raw cell rows for the import wizard.
+ */
+export const readImportSheets = async (file: File): Promise<ImportSheet[]> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
 
@@ -17,44 +14,13 @@ export const parseHyperionActuals = async (file: File): Promise<FinancialRecord[
             try {
                 const data = new Uint8Array(e.target?.result as ArrayBuffer);
                 const workbook = XLSX.read(data, { type: 'array' });
-
-                // Assume first sheet
-                const sheetName = workbook.SheetNames[0];
-                const worksheet = workbook.Sheets[sheetName];
-
-                // Convert to JSON
-                const rawRows = XLSX.utils.sheet_to_json<any>(worksheet);
-
-                // Map to FinancialRecord
-                const records: FinancialRecord[] = [];
-
-                rawRows.forEach((row: any) => {
-                    // Start basic validation - flexible keys
-                    // valid keys: Period, Account, Cost Center, Product, Amount
-                    // We try to find keys case-insensitive if needed, but strict for now based on prompt
-
-                    const period = row['Period'] || row['period'];
-                    // Ensure period format YYYY-MM
-                    // If Hyperion exports nicely formatted strings, great. If dates, we need conversion.
-                    // Assuming string input '2023-01' for MVP.
-
-                    const amount = typeof row['Amount'] === 'number' ? row['Amount'] : parseFloat(row['Amount']);
-
-                    if (period && !isNaN(amount)) {
-                        records.push({
-                            id: crypto.randomUUID(),
-                            planId: undefined, // Actuals have no planId
-                            type: RecordType.ACTUAL,
-                            period: String(period).trim(),
-                            accountCode: String(row['Account'] || row['account'] || row['Account Code']).trim(),
-                            costCenterCode: String(row['CostCenter'] || row['Cost Center'] || row['CC']).trim(),
-                            productLineCode: String(row['Product'] || row['Product Line'] || row['PL']).trim(),
-                            amount: amount
-                        });
-                    }
-                });
-
-                resolve(records);
+                resolve(workbook.SheetNames.map(name => {
+                    const sheet = workbook.Sheets[name];
+                    // Rows start at the sheet's used range; pad above it so cells[0] is Excel row 1
+                    const firstRow = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r : 0;
+                    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', blankrows: true });
+                    return { name, cells: [...Array.from({ length: firstRow }, () => []), ...rows] };
+                }));
             } catch (err) {
                 reject(err);
             }
@@ -69,13 +35,18 @@ export const exportPlanToHyperion = (
     records: FinancialRecord[],
     accounts: DimensionMapping[],
     costCenters: DimensionMapping[],
-    productLines: DimensionMapping[]
+    productLines: DimensionMapping[],
+    reportingCurrency: string = 'USD'
 ) => {
-    // 1. Map internal codes to Hyperion Maps
+    // 1. Map internal codes to Hyperion Maps; items mapped from several members export to the first
+    const exportCode = (list: DimensionMapping[], code: string) =>
+        parseHyperionCodes(list.find(m => m.code === code)?.hyperionMap)[0] || code;
     const exportData = records.map(r => {
-        const accMap = accounts.find(a => a.code === r.accountCode)?.hyperionMap || r.accountCode;
-        const ccMap = costCenters.find(c => c.code === r.costCenterCode)?.hyperionMap || r.costCenterCode;
-        const plMap = productLines.find(p => p.code === r.productLineCode)?.hyperionMap || r.productLineCode;
+        const accMap = exportCode(accounts, r.accountCode);
+        const ccMap = exportCode(costCenters, r.costCenterCode);
+        const plMap = exportCode(productLines, r.productLineCode);
+        // Amounts are exported in the currency they are held in, not translated
+        const currency = r.currency || costCenters.find(c => c.code === r.costCenterCode)?.currency || reportingCurrency;
 
         return {
             Period: r.period,
@@ -84,7 +55,7 @@ export const exportPlanToHyperion = (
             Product: plMap,
             Amount: r.amount,
             Scenario: 'Forecast', // Could be dynamic
-            Currency: 'USD'
+            Currency: currency
         };
     });
 
@@ -96,3 +67,25 @@ export const exportPlanToHyperion = (
     // 3. Write File
     XLSX.writeFile(wb, "Forecast_Export_Hyperion.xlsx");
 };
+
+export const exportForecastIntervals = (
+    intervals: ForecastInterval[],
+    label: string, // e.g. "Subscription Revenue / PL_IOT (HoltWinters)"
+    fileName: string = "Forecast_Intervals.xlsx"
+) => {
+    // One row per month: point forecast plus each interval's bounds
+    const exportData = intervals.map(i => {
+        const row: Record<string, string | number> = { Series: label, Period: i.period, Forecast: i.point };
+        i.bounds.forEach(b => {
+            const pct = Math.round(b.level * 100);
+            row[`Lower ${pct}%`] = b.lower;
+            row[`Upper ${pct}%`] = b.upper;
+        });
+        return row;
+    });
+
+    const ws = XLSX.utils.json_to_sheet(exportData);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Intervals");
+    XLSX.writeFile(wb, fileName);
+};
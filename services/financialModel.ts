@@ -7,7 +7,15 @@ export enum AccountCategory {
   DEPRECIATION = 'Depreciation',
   OTHER_INCOME = 'Other Income',
   TAXES = 'Taxes',
-  CASH_FLOW = 'Cash Flow Items'
+  CASH_FLOW = 'Cash Flow Items',
+  // Balance sheet: records on these accounts hold month-end balances, not monthly flows
+  CASH = 'Cash',
+  ACCOUNTS_RECEIVABLE = 'Accounts Receivable',
+  FIXED_ASSETS = 'Fixed Assets',
+  DEFERRED_REVENUE = 'Deferred Revenue',
+  ACCOUNTS_PAYABLE = 'Accounts Payable',
+  ACCRUED_LIABILITIES = 'Accrued Liabilities',
+  EQUITY = 'Equity'
 }
 
 export const SAAS_CATEGORIES = [
@@ -20,6 +28,16 @@ export const SAAS_CATEGORIES = [
   AccountCategory.CASH_FLOW
 ];
 
+export const BALANCE_SHEET_CATEGORIES = [
+  AccountCategory.CASH,
+  AccountCategory.ACCOUNTS_RECEIVABLE,
+  AccountCategory.FIXED_ASSETS,
+  AccountCategory.DEFERRED_REVENUE,
+  AccountCategory.ACCOUNTS_PAYABLE,
+  AccountCategory.ACCRUED_LIABILITIES,
+  AccountCategory.EQUITY
+];
+
 // Calculation Helpers
 export const calculatePnL = (records: any[], accounts: DimensionMapping[], type: RecordType) => {
   
@@ -34,6 +52,11 @@ export const calculatePnL = (records: any[], accounts: DimensionMapping[], type:
       .reduce((sum, r) => sum + r.amount, 0);
   };
 
+  return calculatePnLFromTotals(sumByCat);
+};
+
+// P&L lines from category totals, shared with callers that aggregate records themselves (e.g. simulation)
+export const calculatePnLFromTotals = (sumByCat: (cat: string) => number) => {
   // 1. Gross Profit
   const revenue = sumByCat(AccountCategory.REVENUE);
   const cogs = sumByCat(AccountCategory.COGS);
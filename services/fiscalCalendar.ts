@@ -0,0 +1,106 @@
+import { FiscalCalendar, FiscalWeekPattern } from '../types';
+import { addMonths, formatPeriod, parsePeriod } from './periodUtils';
+
+/**
+ * Fiscal calendar helpers. Periods stay 'YYYY-MM' months; the calendar only decides how they group
+ * into fiscal years and quarters. A fiscal year is named after the calendar year it ends in,
+ * so with a February start, Feb 2025 - Jan 2026 is FY2026.
+ */
+
+export const DEFAULT_FISCAL_CALENDAR: FiscalCalendar = { startMonth: 1 };
+
+// Weeks in each month of a quarter
+export const WEEK_PATTERNS: Record<FiscalWeekPattern, number[]> = {
+    '445': [4, 4, 5],
+    '454': [4, 5, 4],
+    '544': [5, 4, 4]
+};
+
+/**
+ * Fiscal year a period belongs to.
+ */
+export const getFiscalYear = (period: string, calendar: FiscalCalendar): number => {
+    const { year, month } = parsePeriod(period);
+    return calendar.startMonth === 1 || month < calendar.startMonth ? year : year + 1;
+};
+
+/**
+ * Position of a period within its fiscal year, 1-12.
+ */
+export const getFiscalMonth = (period: string, calendar: FiscalCalendar): number => {
+    return (parsePeriod(period).month - calendar.startMonth + 12) % 12 + 1;
+};
+
+export const getFiscalQuarter = (period: string, calendar: FiscalCalendar): number => {
+    return Math.ceil(getFiscalMonth(period, calendar) / 3);
+};
+
+/**
+ * 'YYYY-Qn' key of the fiscal quarter a period belongs to.
+ */
+export const getFiscalQuarterKey = (period: string, calendar: FiscalCalendar): string => {
+    return `${getFiscalYear(period, calendar)}-Q${getFiscalQuarter(period, calendar)}`;
+};
+
+export const getFiscalYearStart = (fiscalYear: number, calendar: FiscalCalendar): string => {
+    return calendar.startMonth === 1
+        ? formatPeriod(fiscalYear, 1)
+        : formatPeriod(fiscalYear - 1, calendar.startMonth);
+};
+
+export const getFiscalYearEnd = (fiscalYear: number, calendar: FiscalCalendar): string => {
+    return addMonths(getFiscalYearStart(fiscalYear, calendar), 11);
+};
+
+export const getFiscalYearPeriods = (fiscalYear: number, calendar: FiscalCalendar): string[] => {
+    const start = getFiscalYearStart(fiscalYear, calendar);
+    return Array.from({ length: 12 }, (_, i) => addMonths(start, i));
+};
+
+export const getFiscalQuarterPeriods = (fiscalYear: number, quarter: number, calendar: FiscalCalendar): string[] => {
+    const first = addMonths(getFiscalYearStart(fiscalYear, calendar), (quarter - 1) * 3);
+    return [0, 1, 2].map(i => addMonths(first, i));
+};
+
+/**
+ * Fiscal year-to-date months, from the start of the fiscal year through the period.
+ */
+export const getFiscalYtdPeriods = (period: string, calendar: FiscalCalendar): string[] => {
+    const start = getFiscalYearStart(getFiscalYear(period, calendar), calendar);
+    return Array.from({ length: getFiscalMonth(period, calendar) }, (_, i) => addMonths(start, i));
+};
+
+/**
+ * The `count` months ending with the period, oldest first; twelve gives the trailing fiscal year.
+ */
+export const getTrailingPeriods = (period: string, count = 12): string[] => {
+    return Array.from({ length: count }, (_, i) => addMonths(period, i - count + 1));
+};
+
+/**
+ * The same fiscal month one fiscal year earlier.
+ */
+export const getPriorYearPeriod = (period: string): string => addMonths(period, -12);
+
+/**
+ * Label for a fiscal year: the plain year on a calendar-year calendar, else 'FY2026'.
+ */
+export const formatFiscalYear = (fiscalYear: number, calendar: FiscalCalendar): string => {
+    return calendar.startMonth === 1 ? String(fiscalYear) : `FY${fiscalYear}`;
+};
+
+/**
+ * Weeks in a fiscal month under the calendar's 4-4-5 style pattern; undefined for plain months.
+ */
+export const getPeriodWeeks = (period: string, calendar: FiscalCalendar): number | undefined => {
+    if (!calendar.weekPattern) return undefined;
+    return WEEK_PATTERNS[calendar.weekPattern][(getFiscalMonth(period, calendar) - 1) % 3];
+};
+
+/**
+ * Weeks covered by a set of fiscal months; undefined for plain months.
+ */
+export const getPeriodsWeeks = (periods: string[], calendar: FiscalCalendar): number | undefined => {
+    if (!calendar.weekPattern) return undefined;
+    return periods.reduce((sum, period) => sum + (getPeriodWeeks(period, calendar) || 0), 0);
+};
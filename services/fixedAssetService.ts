@@ -0,0 +1,141 @@
+import { AppData, DepreciationMethod, FinancialRecord, FixedAsset, FixedAssetSettings, RecordType } from '../types';
+import { addMonths, listPeriods } from './periodUtils';
+
+export const DEFAULT_FIXED_ASSET_SETTINGS: Omit<FixedAssetSettings, 'planId'> = {
+    depreciationAccountCode: 'EXP_DEP',
+    capexAccountCode: 'CF_CAPEX'
+};
+
+// Common asset classes with their usual life and method, used to prefill new assets
+export const ASSET_CLASSES: { name: string; usefulLifeMonths: number; method: DepreciationMethod }[] = [
+    { name: 'Computer Equipment', usefulLifeMonths: 36, method: 'StraightLine' },
+    { name: 'Servers & Network', usefulLifeMonths: 60, method: 'StraightLine' },
+    { name: 'Capitalized Software', usefulLifeMonths: 36, method: 'StraightLine' },
+    { name: 'Furniture & Fixtures', usefulLifeMonths: 84, method: 'StraightLine' },
+    { name: 'Leasehold Improvements', usefulLifeMonths: 120, method: 'StraightLine' },
+    { name: 'Vehicles', usefulLifeMonths: 60, method: 'DecliningBalance' }
+];
+
+export interface DepreciationRow {
+    period: string;
+    depreciation: number;
+    accumulated: number;
+    nbv: number; // Net book value at month end
+}
+
+export interface NbvRollForwardRow {
+    period: string;
+    openingNbv: number;
+    additions: number;    // CapEx placed in service this month
+    depreciation: number;
+    closingNbv: number;
+}
+
+/**
+ * Assets that belong to a plan's register: every existing asset plus the plan's own CapEx.
+ */
+export const getPlanAssets = (planId: string, data: AppData): FixedAsset[] => {
+    return data.fixedAssets.filter(a => !a.planId || a.planId === planId);
+};
+
+/**
+ * Full monthly schedule from the in-service month to the end of the useful life.
+ * Declining balance switches to straight-line once that depreciates faster over the remaining life,
+ * so every method reaches the salvage value in the last month.
+ */
+export const calculateDepreciationSchedule = (asset: FixedAsset): DepreciationRow[] => {
+    const salvage = asset.salvageValue || 0;
+    const life = Math.max(1, Math.round(asset.usefulLifeMonths));
+    const depreciable = asset.cost - salvage;
+    const rows: DepreciationRow[] = [];
+    let accumulated = 0;
+
+    for (let i = 0; i < life; i++) {
+        const remaining = depreciable - accumulated;
+        const straightLine = remaining / (life - i);
+        let depreciation = asset.method === 'DecliningBalance'
+            ? Math.max((asset.cost - accumulated) * ((asset.decliningRate || 2) / life), straightLine)
+            : depreciable / life;
+        if (i === life - 1 || depreciation > remaining) depreciation = remaining;
+
+        accumulated += depreciation;
+        rows.push({ period: addMonths(asset.inServiceDate, i), depreciation, accumulated, nbv: asset.cost - accumulated });
+    }
+
+    return rows;
+};
+
+// Net book value at month end of the assets in service by then
+const nbvAt = (schedules: { asset: FixedAsset; rows: DepreciationRow[] }[], period: string) =>
+    schedules.reduce((sum, { asset, rows }) => {
+        if (asset.inServiceDate > period) return sum;
+        const row = rows.find(r => r.period === period);
+        return sum + (row ? row.nbv : (asset.salvageValue || 0)); // Past the end of life: salvage remains
+    }, 0);
+
+/**
+ * Monthly NBV roll-forward of a plan's register over the plan horizon: opening + additions - depreciation = closing.
+ */
+export const calculateNbvRollForward = (planId: string, data: AppData): NbvRollForwardRow[] => {
+    const plan = data.plans.find(p => p.id === planId);
+    if (!plan) return [];
+
+    const schedules = getPlanAssets(planId, data).map(asset => ({ asset, rows: calculateDepreciationSchedule(asset) }));
+    let opening = nbvAt(schedules, addMonths(plan.startDate, -1));
+
+    return listPeriods(plan.startDate, plan.endDate).map(period => {
+        const additions = schedules.filter(s => s.asset.inServiceDate === period).reduce((sum, s) => sum + s.asset.cost, 0);
+        const depreciation = schedules.reduce((sum, s) => sum + (s.rows.find(r => r.period === period)?.depreciation || 0), 0);
+        const row = { period, openingNbv: opening, additions, depreciation, closingNbv: opening + additions - depreciation };
+        opening = row.closingNbv;
+        return row;
+    });
+};
+
+/**
+ * Does the register generate this record's account? With the register enabled, it replaces
+ * every other plan record on the depreciation and CapEx accounts.
+ */
+export const isFixedAssetOwnedRecord = (r: FinancialRecord, planId: string, data: AppData): boolean => {
+    const settings = data.fixedAssetSettings.find(s => s.planId === planId);
+    return !!settings && (r.accountCode === settings.depreciationAccountCode || r.accountCode === settings.capexAccountCode);
+};
+
+/**
+ * Budget records for depreciation and CapEx by cost center and month.
+ * Returns nothing for plans that have not enabled the register (no FixedAssetSettings).
+ */
+export const generateFixedAssetRecords = (planId: string, data: AppData): FinancialRecord[] => {
+    const plan = data.plans.find(p => p.id === planId);
+    const settings = data.fixedAssetSettings.find(s => s.planId === planId);
+    if (!plan || !settings) return [];
+
+    const totals = new Map<string, number>();
+    const add = (period: string, accountCode: string, costCenterCode: string, amount: number) => {
+        if (amount === 0 || period < plan.startDate || period > plan.endDate) return;
+        const key = `${period}|${accountCode}|${costCenterCode}`;
+        totals.set(key, (totals.get(key) || 0) + amount);
+    };
+
+    getPlanAssets(planId, data).forEach(asset => {
+        add(asset.inServiceDate, settings.capexAccountCode, asset.costCenterCode, asset.cost);
+        calculateDepreciationSchedule(asset).forEach(row => {
+            add(row.period, settings.depreciationAccountCode, asset.costCenterCode, row.depreciation);
+        });
+    });
+
+    return Array.from(totals.entries()).map(([key, amount]) => {
+        const [period, accountCode, costCenterCode] = key.split('|');
+        return {
+            id: crypto.randomUUID(),
+            planId,
+            period,
+            type: RecordType.BUDGET,
+            accountCode,
+            costCenterCode,
+            productLineCode: '',
+            amount: Math.round(amount),
+            source: 'FixedAssets' as const
+        };
+    });
+};
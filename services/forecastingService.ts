@@ -1,4 +1,19 @@
-import { FinancialRecord, ForecastAssumption, AppData, RecordType } from '../types';
+import { FinancialRecord, ForecastAssumption, ForecastMethodType, AppData, RecordType, RiskOpportunity } from '../types';
+import { parseFormula, evaluateFormula, AccountReference } from './formulaEngine';
+import { AccountCategory } from './financialModel';
+import { addMonths, listPeriods, monthCount as countMonths } from './periodUtils';
+import {
+    SeriesForecast,
+    DEFAULT_SEASON_LENGTH,
+    seasonalNaive,
+    movingAverage,
+    fitMovingAverageWindow,
+    holtWinters,
+    fitHoltWinters
+} from './seasonalMethods';
+import { ForecastInterval, DEFAULT_INTERVAL_LEVELS, residualStdDev, buildIntervals } from './predictionIntervals';
+import { generateSpreadRecords } from './spreadingService';
+import { getEffectiveRisksAndOps } from './scenarioService';
 
 /**
  * Calculates a linear regression trend from historical data and projects it forward.
@@ -29,24 +44,162 @@ const calculateTrend = (history: FinancialRecord[], periodsToForecast: number):
 };
 
 /**
- * Generates forecast records for a specific assumption over a given date range.
+ * Runs a series method over the history and lines its output up with the requested periods.
+ * Periods after the last actual take the h-step forecast; periods that still have actuals
+ * (plan year already under way) take the one-step in-sample fit so the seasonal phase stays aligned.
  */
-export const generateForecast = (
+const projectSeries = (
+    history: FinancialRecord[],
+    startDate: string,
+    periodsToForecast: number,
+    model: (values: number[], steps: number) => SeriesForecast
+): number[] => {
+    if (history.length === 0) return Array(periodsToForecast).fill(0);
+
+    const values = history.map(h => h.amount);
+    const lastPeriod = history[history.length - 1].period;
+    const periods = listPeriods(startDate, addMonths(startDate, periodsToForecast - 1));
+    const steps = Math.max(0, countMonths(lastPeriod, periods[periods.length - 1]) - 1);
+    const { forecast, fitted } = model(values, steps);
+
+    return periods.map(period => {
+        if (period > lastPeriod) return Math.max(0, forecast[countMonths(lastPeriod, period) - 2] ?? 0);
+        const idx = history.findIndex(h => h.period === period);
+        if (idx === -1) return 0;
+        return isNaN(fitted[idx]) ? values[idx] : Math.max(0, fitted[idx]);
+    });
+};
+
+/**
+ * The series model behind a statistical method, using stored params and fitting any that are missing.
+ * Returns null for methods that are not pure series models.
+ */
+const resolveSeriesModel = (
+    assumption: ForecastAssumption,
+    history: FinancialRecord[]
+): ((values: number[], steps: number) => SeriesForecast) | null => {
+    const seasonLength = assumption.params.seasonLength || DEFAULT_SEASON_LENGTH;
+
+    switch (assumption.method) {
+        case 'SeasonalNaive':
+            return (values, steps) => seasonalNaive(values, steps, seasonLength);
+        case 'MovingAverage': {
+            const windowSize = assumption.params.windowSize || fitMovingAverageWindow(history.map(h => h.amount));
+            return (values, steps) => movingAverage(values, steps, windowSize);
+        }
+        case 'HoltWinters': {
+            const { alpha, beta, gamma } = assumption.params;
+            const params = alpha !== undefined && beta !== undefined && gamma !== undefined
+                ? { alpha, beta, gamma, seasonLength }
+                : fitHoltWinters(history.map(h => h.amount), seasonLength);
+            return (values, steps) => holtWinters(values, steps, params);
+        }
+        default:
+            return null;
+    }
+};
+
+/**
+ * Fits the statistical parameters for a method on the assumption's history.
+ * The result is stored in params so the assumption is reproducible.
+ */
+export const fitMethodParams = (
+    method: ForecastMethodType,
+    assumption: ForecastAssumption,
+    data: AppData
+): ForecastAssumption['params'] => {
+    const values = getIntersectionHistory(assumption, data.records).map(h => h.amount);
+    const seasonLength = assumption.params.seasonLength || DEFAULT_SEASON_LENGTH;
+
+    switch (method) {
+        case 'SeasonalNaive':
+            return { seasonLength };
+        case 'MovingAverage':
+            return { windowSize: fitMovingAverageWindow(values) };
+        case 'HoltWinters': {
+            const { alpha, beta, gamma } = fitHoltWinters(values, seasonLength);
+            return { alpha, beta, gamma, seasonLength };
+        }
+        default:
+            return {};
+    }
+};
+
+/**
+ * Builds the lookup used by CustomFormula references.
+ * A reference reads the assumption's own plan for that period and falls back to actuals
+ * when the plan has nothing there (e.g. LAG into historical months).
+ * References to the assumption's own intersection read the values computed so far.
+ */
+const createReferenceResolver = (
     assumption: ForecastAssumption,
     data: AppData,
-    startDate: string, // YYYY-MM
-    endDate: string
-): FinancialRecord[] => {
-    // 1. Filter History for this specific dimension
-    // For backtesting, we might filter differently, but for forward looking:
-    const history = data.records
+    computed: Map<string, number>,
+    recordType: RecordType
+) => {
+    const isSelf = (ref: AccountReference) =>
+        ref.accountCode === assumption.accountCode &&
+        ref.productLineCode === assumption.productLineCode &&
+        ref.costCenterCode === assumption.costCenterCode;
+
+    const matches = (r: FinancialRecord, ref: AccountReference, period: string) =>
+        r.period === period &&
+        r.accountCode === ref.accountCode &&
+        (!ref.productLineCode || r.productLineCode === ref.productLineCode) &&
+        (!ref.costCenterCode || r.costCenterCode === ref.costCenterCode);
+
+    return (ref: AccountReference, period: string): number => {
+        if (isSelf(ref) && computed.has(period)) return computed.get(period)!;
+
+        const planRecords = data.records.filter(r => r.planId === assumption.planId && r.type === recordType && matches(r, ref, period));
+        if (planRecords.length > 0) return planRecords.reduce((sum, r) => sum + r.amount, 0);
+
+        return data.records
+            .filter(r => r.type === RecordType.ACTUAL && matches(r, ref, period))
+            .reduce((sum, r) => sum + r.amount, 0);
+    };
+};
+
+/**
+ * Actuals for an assumption's intersection, summed to one record per period and sorted by period.
+ * Aggregating matters when the assumption spans several product lines / cost centers.
+ */
+export const getIntersectionHistory = (assumption: ForecastAssumption, records: FinancialRecord[]): FinancialRecord[] => {
+    const byPeriod = new Map<string, FinancialRecord>();
+    records
         .filter(r =>
             r.type === RecordType.ACTUAL &&
             r.accountCode === assumption.accountCode &&
             (!assumption.productLineCode || r.productLineCode === assumption.productLineCode) &&
             (!assumption.costCenterCode || r.costCenterCode === assumption.costCenterCode)
         )
-        .sort((a, b) => a.period.localeCompare(b.period));
+        .forEach(r => {
+            const existing = byPeriod.get(r.period);
+            byPeriod.set(r.period, existing ? { ...existing, amount: existing.amount + r.amount } : r);
+        });
+
+    return Array.from(byPeriod.values()).sort((a, b) => a.period.localeCompare(b.period));
+};
+
+/**
+ * Generates forecast records for a specific assumption over a given date range.
+ * `recordType` is the plan series being built: Budget, or Forecast when re-forecasting a rolling plan.
+ * Driver references (% of Revenue, formulas) read the plan's records of the same type.
+ */
+export const generateForecast = (
+    assumption: ForecastAssumption,
+    data: AppData,
+    startDate: string, // YYYY-MM
+    endDate: string,
+    recordType: RecordType = RecordType.BUDGET
+): FinancialRecord[] => {
+    // Top-down targets can split across dimensions, so they build their own records
+    if (assumption.method === 'Spread') {
+        return generateSpreadRecords(assumption, data, startDate, endDate, recordType);
+    }
+
+    // 1. History for this specific dimension (one point per period)
+    const history = getIntersectionHistory(assumption, data.records);
 
     // 2. Determine number of months to forecast
     // Simple logic: Assume startDate and endDate are valid
@@ -93,12 +246,13 @@ export const generateForecast = (
             }
             break;
 
-        case 'PercentOfRevenue':
-            // Sum total revenue for the forecast period (Using existing BUDGET records or calculating?)
-            // Complex dependency: It requires Revenue to be forecasted *first*. 
-            // For V1, we will look for EXISTING Budget records in the same plan for the same period.
-            // Assuming 'REV_SUB', 'REV_SERV', 'REV_HW' are the revenue accounts.
+        case 'PercentOfRevenue': {
+            // Revenue must be generated first; recalculatePlan orders assumptions so it is.
+            // Only this plan's records of the same type count, and revenue is identified by account category.
             const pct = assumption.params.percentOfRevenue || 0;
+            const revenueAccounts = new Set(
+                data.accounts.filter(a => a.category === AccountCategory.REVENUE).map(a => a.code)
+            );
             forecastedAmounts = [];
 
             for (let i = 0; i < monthCount; i++) {
@@ -106,15 +260,54 @@ export const generateForecast = (
                 currentMonthDate.setMonth(start.getMonth() + i);
                 const period = currentMonthDate.toISOString().slice(0, 7);
 
-                // Find total revenue for this period in the *current* dataset (Budget or Forecast)
-                // Note: This implies the user must forecast revenue first.
                 const totalRevenue = data.records
-                    .filter(r => r.period === period && r.type === RecordType.BUDGET && r.accountCode.startsWith('REV_')) // Hacky startsWith
+                    .filter(r =>
+                        r.planId === assumption.planId &&
+                        r.period === period &&
+                        r.type === recordType &&
+                        revenueAccounts.has(r.accountCode)
+                    )
                     .reduce((sum, r) => sum + r.amount, 0);
 
                 forecastedAmounts.push(totalRevenue * pct);
             }
             break;
+        }
+
+        case 'CustomFormula': {
+            // Parse once, evaluate per month. Invalid formulas fall back rather than throw,
+            // the workbench validates before commit.
+            const parsed = parseFormula(assumption.params.formula || '');
+            if (!parsed.ast) {
+                forecastedAmounts = Array(monthCount).fill(assumption.params.fallbackValue || 0);
+                break;
+            }
+
+            const periods: string[] = [];
+            for (let i = 0; i < monthCount; i++) {
+                const currentMonthDate = new Date(start);
+                currentMonthDate.setMonth(start.getMonth() + i);
+                periods.push(currentMonthDate.toISOString().slice(0, 7));
+            }
+
+            // Values computed so far in this run, so formulas like LAG({SELF}, 1) * 1.02 can compound
+            const computed = new Map<string, number>();
+            const resolve = createReferenceResolver(assumption, data, computed, recordType);
+
+            forecastedAmounts = periods.map(period => {
+                const value = evaluateFormula(parsed.ast!, period, resolve);
+                const amount = isFinite(value) ? value : 0;
+                computed.set(period, amount);
+                return amount;
+            });
+            break;
+        }
+
+        case 'SeasonalNaive':
+        case 'MovingAverage':
+        case 'HoltWinters':
+            forecastedAmounts = projectSeries(history, startDate, monthCount, resolveSeriesModel(assumption, history)!);
+            break;
 
         default:
             forecastedAmounts = Array(monthCount).fill(0);
@@ -128,7 +321,7 @@ export const generateForecast = (
             id: crypto.randomUUID(),
             planId: assumption.planId,
             period: d.toISOString().slice(0, 7),
-            type: RecordType.BUDGET, // Saved as Budget for now, or new Forecast type? Using Budget for compatibility
+            type: recordType,
             accountCode: assumption.accountCode,
             productLineCode: assumption.productLineCode || '',
             costCenterCode: assumption.costCenterCode || '',
@@ -137,6 +330,85 @@ export const generateForecast = (
     });
 };
 
+/**
+ * Methods with an error model; other methods are driven by inputs rather than history
+ * and get no intervals.
+ */
+export const INTERVAL_METHODS: ForecastMethodType[] = ['Trend', 'SeasonalNaive', 'MovingAverage', 'HoltWinters'];
+
+/**
+ * Standard error of each forecast month, derived from in-sample residuals.
+ * Trend uses the regression prediction error; seasonal naive grows once per completed season;
+ * smoothing methods use the random-walk approximation sigma * sqrt(h).
+ */
+const forecastStandardErrors = (assumption: ForecastAssumption, history: FinancialRecord[], periods: string[]): number[] => {
+    const values = history.map(h => h.amount);
+    const n = values.length;
+    if (n < 3) return periods.map(() => 0);
+
+    if (assumption.method === 'Trend') {
+        const meanX = (n - 1) / 2;
+        const sxx = values.reduce((s, _, i) => s + (i - meanX) ** 2, 0);
+        const meanY = values.reduce((s, v) => s + v, 0) / n;
+        const slope = values.reduce((s, v, i) => s + (i - meanX) * (v - meanY), 0) / sxx;
+        const fitted = values.map((_, i) => meanY + slope * (i - meanX));
+        const sigma = residualStdDev(values, fitted, 2);
+        // calculateTrend projects x = n + i for the i-th requested month
+        return periods.map((_, i) => sigma * Math.sqrt(1 + 1 / n + (n + i - meanX) ** 2 / sxx));
+    }
+
+    const model = resolveSeriesModel(assumption, history);
+    if (!model) return periods.map(() => 0);
+
+    const sigma = residualStdDev(values, model(values, 0).fitted);
+    const lastPeriod = history[n - 1].period;
+    const seasonLength = assumption.params.seasonLength || DEFAULT_SEASON_LENGTH;
+
+    return periods.map(period => {
+        const h = Math.max(1, countMonths(lastPeriod, period) - 1);
+        if (assumption.method === 'SeasonalNaive') return sigma * Math.sqrt(Math.floor((h - 1) / seasonLength) + 1);
+        return sigma * Math.sqrt(h);
+    });
+};
+
+/**
+ * Same as generateForecast, plus upper/lower bounds per month for methods in INTERVAL_METHODS
+ * (empty intervals for everything else).
+ */
+export const generateForecastWithIntervals = (
+    assumption: ForecastAssumption,
+    data: AppData,
+    startDate: string,
+    endDate: string,
+    levels: number[] = DEFAULT_INTERVAL_LEVELS
+): { records: FinancialRecord[]; intervals: ForecastInterval[] } => {
+    const records = generateForecast(assumption, data, startDate, endDate);
+    if (!INTERVAL_METHODS.includes(assumption.method) || records.length === 0) {
+        return { records, intervals: [] };
+    }
+
+    const history = getIntersectionHistory(assumption, data.records);
+    const periods = records.map(r => r.period);
+    const errors = forecastStandardErrors(assumption, history, periods);
+
+    return { records, intervals: buildIntervals(periods, records.map(r => r.amount), errors, levels) };
+};
+
+/**
+ * Signed monthly amounts a Risk / Opportunity posts to its impact account: the total impact
+ * (estimatedImpact unless a sampled value is given) spread evenly over its duration.
+ */
+export const spreadRiskOpportunity = (
+    item: RiskOpportunity,
+    totalImpact: number = item.estimatedImpact
+): { period: string; amount: number }[] => {
+    const duration = item.durationMonths || 1;
+    const monthlyAmount = (totalImpact / duration) * (item.type === 'Risk' ? -1 : 1);
+    const startDate = item.startDate || new Date().toISOString().slice(0, 7);
+
+    return Array.from({ length: duration }, (_, i) => ({ period: addMonths(startDate, i), amount: monthlyAmount }));
+};
+
 /**
  * Applies active Risks and Opportunities to the base forecast records.
  * Returns a new array of records with the impacts added.
@@ -146,39 +418,16 @@ export const applyRisksAndOps = (
     data: AppData,
     planId: string
 ): FinancialRecord[] => {
-    // Filter for relevant items: Matches Plan ID + Included in Budget
-    const activeItems = data.opportunities.filter(
-        item => item.includedInBudget && item.planId === planId
-    );
+    // Filter for relevant items: the plan's own or inherited from its parent + Included in Budget
+    const activeItems = getEffectiveRisksAndOps(planId, data).filter(item => item.includedInBudget);
 
     // We strictly clone base records to avoid mutations
     let currentRecords = [...baseRecords];
 
     activeItems.forEach(item => {
-        const monthlyImpact = item.estimatedImpact / (item.durationMonths || 1);
-        const impactSign = item.type === 'Risk' ? -1 : 1;
-        const finalMonthlyAmount = monthlyImpact * impactSign;
-
-        // Calculate start and end indices/dates
-        const [startYear, startMonth] = (item.startDate || new Date().toISOString().slice(0, 7)).split('-').map(Number);
-
-        for (let i = 0; i < (item.durationMonths || 1); i++) {
-            // Determine date for this month
-            const d = new Date(startYear, startMonth - 1 + i, 1);
-            // Adjust for TZ/Month rollover
-            // Simple string construction is safer
-            // let's do simple math
-            // Year/Month logic
-            let y = startYear;
-            let m = startMonth + i;
-            while (m > 12) {
-                m -= 12;
-                y++;
-            }
-            const period = `${y}-${String(m).padStart(2, '0')}`;
-
-            if (!item.impactAccountCode) continue;
+        if (!item.impactAccountCode) return;
 
+        spreadRiskOpportunity(item).forEach(({ period, amount: finalMonthlyAmount }) => {
             const existingIndex = currentRecords.findIndex(r =>
                 r.period === period &&
                 r.planId === planId &&
@@ -201,13 +450,13 @@ export const applyRisksAndOps = (
                     planId: planId,
                     period: period,
                     type: RecordType.BUDGET,
-                    accountCode: item.impactAccountCode,
+                    accountCode: item.impactAccountCode!,
                     costCenterCode: item.impactCostCenterCode || '',
                     productLineCode: item.impactProductLineCode || '',
                     amount: finalMonthlyAmount
                 });
             }
-        }
+        });
     });
 
     return currentRecords;
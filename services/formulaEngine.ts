@@ -0,0 +1,390 @@
+import { DimensionMapping } from '../types';
+import { addMonths } from './periodUtils';
+
+/**
+ * Safe expression engine for the CustomFormula forecast method.
+ *
+ * Syntax:
+ *   {REV_SUB}                    Account total for the period (all product lines / cost centers)
+ *   {REV_SUB|PL=PL_IOT}          Account restricted to a product line
+ *   {EXP_GEN_PPL|CC=100}         Account restricted to a cost center (PL= and CC= can be combined)
+ *   + - * / ( )                  Arithmetic
+ *   > < >= <= = <>               Comparisons (1 = true, 0 = false), mainly for IF
+ *   MIN(a, b, ...), MAX(a, b, ...), ABS(x), ROUND(x, digits?)
+ *   IF(condition, whenTrue, whenFalse)
+ *   LAG(expr, n)                 Value of expr n months before the current period
+ *
+ * Formulas are parsed into an AST and walked by the evaluator; nothing is ever passed to eval().
+ */
+
+export interface AccountReference {
+    accountCode: string;
+    productLineCode?: string;
+    costCenterCode?: string;
+}
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '>' | '<' | '>=' | '<=' | '=' | '<>';
+
+export type FormulaNode =
+    | { kind: 'number'; value: number }
+    | { kind: 'ref'; ref: AccountReference; position: number }
+    | { kind: 'negate'; operand: FormulaNode }
+    | { kind: 'binary'; op: BinaryOperator; left: FormulaNode; right: FormulaNode }
+    | { kind: 'call'; name: string; args: FormulaNode[]; position: number };
+
+export interface FormulaError {
+    message: string;
+    position: number; // 0-based character offset in the formula
+}
+
+export interface ParsedFormula {
+    ast: FormulaNode | null;
+    errors: FormulaError[];
+    references: AccountReference[];
+}
+
+/**
+ * Resolves the value of an account reference for a given period.
+ */
+export type ReferenceResolver = (ref: AccountReference, period: string) => number;
+
+// Supported functions and their [min, max] argument counts
+const FUNCTIONS: Record<string, [number, number]> = {
+    MIN: [1, Infinity],
+    MAX: [1, Infinity],
+    ABS: [1, 1],
+    ROUND: [1, 2],
+    IF: [3, 3],
+    LAG: [2, 2]
+};
+
+// --- Tokenizer ---
+
+type Token =
+    | { type: 'number'; value: number; position: number }
+    | { type: 'ref'; ref: AccountReference; position: number }
+    | { type: 'ident'; value: string; position: number }
+    | { type: 'op'; value: string; position: number }
+    | { type: 'end'; position: number };
+
+const tokenize = (formula: string, errors: FormulaError[]): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < formula.length) {
+        const ch = formula[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        if (/[0-9.]/.test(ch)) {
+            const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(formula.slice(i));
+            if (!match) {
+                errors.push({ message: `Invalid number near '${ch}'`, position: i });
+                i++;
+                continue;
+            }
+            tokens.push({ type: 'number', value: parseFloat(match[0]), position: i });
+            i += match[0].length;
+            continue;
+        }
+
+        if (ch === '{') {
+            const close = formula.indexOf('}', i);
+            if (close === -1) {
+                errors.push({ message: "Unclosed account reference: missing '}'", position: i });
+                break;
+            }
+            const ref = parseReference(formula.slice(i + 1, close), i, errors);
+            if (ref) tokens.push({ type: 'ref', ref, position: i });
+            i = close + 1;
+            continue;
+        }
+
+        if (/[A-Za-z_]/.test(ch)) {
+            const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(formula.slice(i))!;
+            tokens.push({ type: 'ident', value: match[0].toUpperCase(), position: i });
+            i += match[0].length;
+            continue;
+        }
+
+        const twoChar = formula.slice(i, i + 2);
+        if (twoChar === '>=' || twoChar === '<=' || twoChar === '<>') {
+            tokens.push({ type: 'op', value: twoChar, position: i });
+            i += 2;
+            continue;
+        }
+
+        if ('+-*/()<>=,'.includes(ch)) {
+            tokens.push({ type: 'op', value: ch, position: i });
+            i++;
+            continue;
+        }
+
+        errors.push({ message: `Unexpected character '${ch}'`, position: i });
+        i++;
+    }
+
+    tokens.push({ type: 'end', position: formula.length });
+    return tokens;
+};
+
+// Parses the inside of {...}: ACCOUNT[|PL=code][|CC=code]
+const parseReference = (body: string, position: number, errors: FormulaError[]): AccountReference | null => {
+    const parts = body.split('|').map(p => p.trim());
+    const accountCode = parts[0];
+
+    if (!accountCode) {
+        errors.push({ message: 'Empty account reference {}', position });
+        return null;
+    }
+
+    const ref: AccountReference = { accountCode };
+    for (const qualifier of parts.slice(1)) {
+        const [dim, code] = qualifier.split('=').map(s => s?.trim());
+        if (dim?.toUpperCase() === 'PL' && code) {
+            ref.productLineCode = code;
+        } else if (dim?.toUpperCase() === 'CC' && code) {
+            ref.costCenterCode = code;
+        } else {
+            errors.push({ message: `Invalid qualifier '${qualifier}' in {${body}} (use PL=code or CC=code)`, position });
+        }
+    }
+    return ref;
+};
+
+// --- Parser (recursive descent) ---
+// comparison := additive (('>'|'<'|'>='|'<='|'='|'<>') additive)?
+// additive   := term (('+'|'-') term)*
+// term       := unary (('*'|'/') unary)*
+// unary      := '-' unary | '+' unary | primary
+// primary    := number | ref | ident '(' args ')' | '(' comparison ')'
+
+export const parseFormula = (formula: string): ParsedFormula => {
+    const errors: FormulaError[] = [];
+    const references: AccountReference[] = [];
+
+    if (!formula.trim()) {
+        return { ast: null, errors: [{ message: 'Formula is empty', position: 0 }], references };
+    }
+
+    const tokens = tokenize(formula, errors);
+    if (errors.length > 0) return { ast: null, errors, references };
+
+    let pos = 0;
+    const peek = () => tokens[pos];
+    const isOp = (value: string) => {
+        const t = peek();
+        return t.type === 'op' && t.value === value;
+    };
+
+    const expect = (value: string) => {
+        if (isOp(value)) {
+            pos++;
+            return true;
+        }
+        errors.push({ message: `Expected '${value}'`, position: peek().position });
+        return false;
+    };
+
+    const parseComparison = (): FormulaNode => {
+        const left = parseAdditive();
+        const t = peek();
+        if (t.type === 'op' && ['>', '<', '>=', '<=', '=', '<>'].includes(t.value)) {
+            pos++;
+            return { kind: 'binary', op: t.value as BinaryOperator, left, right: parseAdditive() };
+        }
+        return left;
+    };
+
+    const parseAdditive = (): FormulaNode => {
+        let node = parseTerm();
+        while (isOp('+') || isOp('-')) {
+            const op = (tokens[pos++] as { value: string }).value as BinaryOperator;
+            node = { kind: 'binary', op, left: node, right: parseTerm() };
+        }
+        return node;
+    };
+
+    const parseTerm = (): FormulaNode => {
+        let node = parseUnary();
+        while (isOp('*') || isOp('/')) {
+            const op = (tokens[pos++] as { value: string }).value as BinaryOperator;
+            node = { kind: 'binary', op, left: node, right: parseUnary() };
+        }
+        return node;
+    };
+
+    const parseUnary = (): FormulaNode => {
+        if (isOp('-')) {
+            pos++;
+            return { kind: 'negate', operand: parseUnary() };
+        }
+        if (isOp('+')) {
+            pos++;
+            return parseUnary();
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): FormulaNode => {
+        const t = peek();
+
+        if (t.type === 'number') {
+            pos++;
+            return { kind: 'number', value: t.value };
+        }
+
+        if (t.type === 'ref') {
+            pos++;
+            references.push(t.ref);
+            return { kind: 'ref', ref: t.ref, position: t.position };
+        }
+
+        if (t.type === 'ident') {
+            pos++;
+            const arity = FUNCTIONS[t.value];
+            if (!arity) {
+                errors.push({ message: `Unknown function '${t.value}'. Account codes must be wrapped in braces, e.g. {${t.value}}`, position: t.position });
+            }
+            const args: FormulaNode[] = [];
+            if (expect('(')) {
+                if (!isOp(')')) {
+                    args.push(parseComparison());
+                    while (isOp(',')) {
+                        pos++;
+                        args.push(parseComparison());
+                    }
+                }
+                expect(')');
+            }
+            if (arity && (args.length < arity[0] || args.length > arity[1])) {
+                const expected = arity[0] === arity[1] ? `${arity[0]}` : arity[1] === Infinity ? `at least ${arity[0]}` : `${arity[0]}-${arity[1]}`;
+                errors.push({ message: `${t.value} expects ${expected} argument(s), got ${args.length}`, position: t.position });
+            }
+            return { kind: 'call', name: t.value, args, position: t.position };
+        }
+
+        if (isOp('(')) {
+            pos++;
+            const inner = parseComparison();
+            expect(')');
+            return inner;
+        }
+
+        errors.push({
+            message: t.type === 'end' ? 'Unexpected end of formula' : `Unexpected '${(t as { value: string }).value}'`,
+            position: t.position
+        });
+        if (t.type !== 'end') pos++;
+        return { kind: 'number', value: 0 };
+    };
+
+    const ast = parseComparison();
+    if (errors.length === 0 && peek().type !== 'end') {
+        const t = peek();
+        errors.push({ message: `Unexpected '${(t as { value?: string }).value ?? ''}' after end of expression`, position: t.position });
+    }
+
+    return { ast: errors.length === 0 ? ast : null, errors, references };
+};
+
+/**
+ * Parses the formula and checks every reference against the chart of accounts and dimensions.
+ * Returns an empty array when the formula is safe to commit.
+ */
+export const validateFormula = (
+    formula: string,
+    dimensions: { accounts: DimensionMapping[]; productLines: DimensionMapping[]; costCenters: DimensionMapping[] }
+): FormulaError[] => {
+    const parsed = parseFormula(formula);
+    if (parsed.errors.length > 0) return parsed.errors;
+
+    const errors: FormulaError[] = [];
+    const checkRefs = (node: FormulaNode) => {
+        switch (node.kind) {
+            case 'ref':
+                if (!dimensions.accounts.some(a => a.code === node.ref.accountCode)) {
+                    errors.push({ message: `Unknown account code '${node.ref.accountCode}'`, position: node.position });
+                }
+                if (node.ref.productLineCode && !dimensions.productLines.some(p => p.code === node.ref.productLineCode)) {
+                    errors.push({ message: `Unknown product line '${node.ref.productLineCode}'`, position: node.position });
+                }
+                if (node.ref.costCenterCode && !dimensions.costCenters.some(c => c.code === node.ref.costCenterCode)) {
+                    errors.push({ message: `Unknown cost center '${node.ref.costCenterCode}'`, position: node.position });
+                }
+                break;
+            case 'negate':
+                checkRefs(node.operand);
+                break;
+            case 'binary':
+                checkRefs(node.left);
+                checkRefs(node.right);
+                break;
+            case 'call':
+                node.args.forEach(checkRefs);
+                if (node.name === 'LAG' && node.args[1] && node.args[1].kind !== 'number') {
+                    errors.push({ message: 'LAG months must be a constant number, e.g. LAG({REV_SUB}, 12)', position: node.position });
+                }
+                break;
+        }
+    };
+    checkRefs(parsed.ast!);
+    return errors;
+};
+
+/**
+ * Evaluates a parsed formula for a single period. Division by zero yields 0 rather than Infinity
+ * so one empty driver month does not poison the whole forecast.
+ */
+export const evaluateFormula = (node: FormulaNode, period: string, resolve: ReferenceResolver): number => {
+    const evaluate = (n: FormulaNode, p: string): number => {
+        switch (n.kind) {
+            case 'number':
+                return n.value;
+            case 'ref':
+                return resolve(n.ref, p);
+            case 'negate':
+                return -evaluate(n.operand, p);
+            case 'binary': {
+                const l = evaluate(n.left, p);
+                const r = evaluate(n.right, p);
+                switch (n.op) {
+                    case '+': return l + r;
+                    case '-': return l - r;
+                    case '*': return l * r;
+                    case '/': return r === 0 ? 0 : l / r;
+                    case '>': return l > r ? 1 : 0;
+                    case '<': return l < r ? 1 : 0;
+                    case '>=': return l >= r ? 1 : 0;
+                    case '<=': return l <= r ? 1 : 0;
+                    case '=': return l === r ? 1 : 0;
+                    case '<>': return l !== r ? 1 : 0;
+                }
+                return 0;
+            }
+            case 'call': {
+                switch (n.name) {
+                    case 'MIN': return Math.min(...n.args.map(a => evaluate(a, p)));
+                    case 'MAX': return Math.max(...n.args.map(a => evaluate(a, p)));
+                    case 'ABS': return Math.abs(evaluate(n.args[0], p));
+                    case 'ROUND': {
+                        const factor = Math.pow(10, n.args[1] ? Math.round(evaluate(n.args[1], p)) : 0);
+                        return Math.round(evaluate(n.args[0], p) * factor) / factor;
+                    }
+                    case 'IF':
+                        return evaluate(n.args[0], p) !== 0 ? evaluate(n.args[1], p) : evaluate(n.args[2], p);
+                    case 'LAG': {
+                        const months = Math.max(0, Math.round(evaluate(n.args[1], p)));
+                        return evaluate(n.args[0], addMonths(p, -months));
+                    }
+                }
+                return 0;
+            }
+        }
+    };
+
+    return evaluate(node, period);
+};
@@ -0,0 +1,169 @@
+import { AppData, FinancialRecord, ForecastAssumption, ForecastMethodType, RecordType } from '../types';
+import { calculatePnL } from './financialModel';
+import { recalculatePlan } from './recalcEngine';
+import { rollForecast } from './rollingForecastService';
+
+export type GoalSeekMetric = 'ebitda' | 'netIncome' | 'fcf' | 'grossMarginPct';
+
+export const GOAL_SEEK_METRICS: { key: GoalSeekMetric; label: string; isPercent: boolean }[] = [
+    { key: 'ebitda', label: 'EBITDA', isPercent: false },
+    { key: 'netIncome', label: 'Net Income', isPercent: false },
+    { key: 'fcf', label: 'Free Cash Flow', isPercent: false },
+    { key: 'grossMarginPct', label: 'Gross Margin %', isPercent: true }
+];
+
+export type GoalSeekParam = 'growthRate' | 'percentOfRevenue';
+
+// Numeric parameters the solver can vary, by forecast method
+export const GOAL_SEEK_PARAMS: Partial<Record<ForecastMethodType, GoalSeekParam>> = {
+    GrowthYearOverYear: 'growthRate',
+    PercentOfRevenue: 'percentOfRevenue'
+};
+
+export interface GoalSeekVariable {
+    assumptionId: string;
+    param: GoalSeekParam;
+    min: number;
+    max: number;
+}
+
+export interface GoalSeekRequest {
+    planId: string;
+    metric: GoalSeekMetric;
+    startPeriod: string; // YYYY-MM, inclusive
+    endPeriod: string;   // YYYY-MM, inclusive
+    target: number;      // Amount, or ratio (0.7 = 70%) for percent metrics
+    variables: GoalSeekVariable[];
+}
+
+export interface GoalSeekChange {
+    assumptionId: string;
+    param: GoalSeekParam;
+    from: number;
+    to: number;
+}
+
+export interface GoalSeekResult {
+    solved: boolean;    // False when the target is outside what the bounds can reach; the closest bound is proposed
+    achieved: number;   // Metric value with the proposed changes
+    baseline: number;   // Metric value with the current assumptions
+    iterations: number;
+    changes: GoalSeekChange[];
+    assumptions: ForecastAssumption[]; // Full assumption list with the proposal applied
+    records: FinancialRecord[];        // Full record set recalculated with the proposal
+    recordType: RecordType;            // Series the metric was measured on: the one committing regenerates
+}
+
+const MAX_ITERATIONS = 60;
+
+/**
+ * Value of a metric over a period range of one of a plan's series (Budget by default).
+ */
+export const evaluatePlanMetric = (
+    records: FinancialRecord[],
+    data: AppData,
+    planId: string,
+    metric: GoalSeekMetric,
+    startPeriod: string,
+    endPeriod: string,
+    recordType: RecordType = RecordType.BUDGET
+): number => {
+    const inRange = records.filter(r => r.planId === planId && r.period >= startPeriod && r.period <= endPeriod);
+    const pnl = calculatePnL(inRange, data.accounts, recordType);
+    if (metric === 'grossMarginPct') return pnl.revenue !== 0 ? pnl.grossProfit / pnl.revenue : 0;
+    return pnl[metric];
+};
+
+const validateRequest = (request: GoalSeekRequest, data: AppData) => {
+    if (!data.plans.some(p => p.id === request.planId)) throw new Error('Plan not found.');
+    if (request.variables.length === 0) throw new Error('Select at least one assumption parameter to vary.');
+    if (request.startPeriod > request.endPeriod) throw new Error('Start period must be before end period.');
+
+    request.variables.forEach(v => {
+        const assumption = data.assumptions.find(a => a.id === v.assumptionId);
+        if (!assumption) throw new Error('Goal seek variables must belong to the selected plan.');
+        if (assumption.planId !== request.planId) throw new Error(`${assumption.accountCode} is inherited from the parent plan; override it in this scenario before goal seeking on it.`);
+        if (GOAL_SEEK_PARAMS[assumption.method] !== v.param) throw new Error(`${assumption.accountCode} (${assumption.method}) has no ${v.param} parameter.`);
+        if (v.min > v.max) throw new Error(`Lower bound is above upper bound for ${assumption.accountCode}.`);
+    });
+};
+
+/**
+ * Solves for the assumption parameters that make the metric hit the target.
+ * The metric is measured on the series a commit regenerates: the Latest Forecast of a rolling plan
+ * (whose Budget stays as it was), otherwise the Budget.
+ *
+ * All variables move together along one line: value = min + t * (max - min), t in [0, 1],
+ * so a single variable is plain bisection and several variables flex proportionally within their bounds.
+ * Assumes the metric is monotonic in t over the bounds (true for growth rates and % of revenue).
+ * Throws on invalid requests or circular references.
+ */
+export const goalSeek = (request: GoalSeekRequest, data: AppData): GoalSeekResult => {
+    validateRequest(request, data);
+
+    const assumptionsAt = (t: number) => data.assumptions.map(a => {
+        const vars = request.variables.filter(v => v.assumptionId === a.id);
+        if (vars.length === 0) return a;
+        const params = { ...a.params };
+        vars.forEach(v => { params[v.param] = v.min + t * (v.max - v.min); });
+        return { ...a, params, lastUpdated: new Date().toISOString() };
+    });
+
+    const rolling = !!data.plans.find(p => p.id === request.planId)!.rollingForecast;
+    const recordType = rolling ? RecordType.FORECAST : RecordType.BUDGET;
+    const recalculate = (next: AppData) => {
+        const result = rolling
+            ? rollForecast(request.planId, next, { cascade: false })
+            : recalculatePlan(request.planId, next, { cascade: false });
+        if (result.cycles.length > 0) throw new Error('The plan has circular references between assumptions.');
+        return result.records;
+    };
+    const measure = (records: FinancialRecord[]) =>
+        evaluatePlanMetric(records, data, request.planId, request.metric, request.startPeriod, request.endPeriod, recordType);
+
+    const evaluate = (t: number) => {
+        const assumptions = assumptionsAt(t);
+        const records = recalculate({ ...data, assumptions });
+        return { t, value: measure(records), assumptions, records };
+    };
+
+    const isPercent = GOAL_SEEK_METRICS.find(m => m.key === request.metric)?.isPercent;
+    const tolerance = isPercent ? 0.00005 : 0.5;
+
+    const baseline = measure(recalculate(data));
+
+    let low = evaluate(0);
+    let high = evaluate(1);
+    let iterations = 2;
+    let best = Math.abs(low.value - request.target) <= Math.abs(high.value - request.target) ? low : high;
+
+    const reachable = (low.value - request.target) * (high.value - request.target) <= 0;
+
+    if (reachable) {
+        while (Math.abs(best.value - request.target) > tolerance && iterations < MAX_ITERATIONS) {
+            const mid = evaluate((low.t + high.t) / 2);
+            iterations++;
+            if (Math.abs(mid.value - request.target) < Math.abs(best.value - request.target)) best = mid;
+            if ((mid.value - request.target) * (low.value - request.target) <= 0) high = mid;
+            else low = mid;
+        }
+    }
+
+    const changes = request.variables.map(v => ({
+        assumptionId: v.assumptionId,
+        param: v.param,
+        from: data.assumptions.find(a => a.id === v.assumptionId)!.params[v.param] || 0,
+        to: v.min + best.t * (v.max - v.min)
+    }));
+
+    return {
+        solved: reachable && Math.abs(best.value - request.target) <= tolerance,
+        achieved: best.value,
+        baseline,
+        iterations,
+        changes,
+        assumptions: best.assumptions,
+        records: best.records,
+        recordType
+    };
+};
@@ -0,0 +1,137 @@
+import { AppData, CompensationSettings, FinancialRecord, HeadcountPosition, RecordType } from '../types';
+import { addMonths, listPeriods, parsePeriod } from './periodUtils';
+
+export const DEFAULT_COMPENSATION_SETTINGS: Omit<CompensationSettings, 'planId'> = {
+    meritMonth: 4,
+    meritRate: 0.03,
+    benefitsRate: 0.18,
+    payrollTaxRate: 0.0765,
+    bonusRate: 0.10,
+    salaryAccountCode: 'EXP_GEN_PPL',
+    burdenAccountCode: 'EXP_GEN_PPL',
+    bonusAccountCode: 'EXP_GEN_PPL'
+};
+
+export interface HeadcountStat {
+    period: string;
+    costCenterCode: string;
+    headcount: number; // People on payroll in the month
+    fte: number;
+    hires: number;     // Started this month
+    exits: number;     // Last paid in the previous month
+    salary: number;
+    burden: number;
+    bonus: number;
+}
+
+/**
+ * Positions that belong to a plan's roster: every existing employee plus the plan's own hires.
+ */
+export const getPlanRoster = (planId: string, data: AppData): HeadcountPosition[] => {
+    return data.headcount.filter(p => !p.planId || p.planId === planId);
+};
+
+const isActive = (position: HeadcountPosition, period: string) =>
+    position.startDate <= period && (!position.endDate || period <= position.endDate);
+
+/**
+ * Monthly salary after merit increases. A merit applies in every meritMonth that falls after
+ * the later of plan start and hire date (new hires skip the merit cycle they joined in).
+ */
+const monthlySalary = (position: HeadcountPosition, period: string, planStart: string, settings: CompensationSettings) => {
+    const baseFrom = position.startDate > planStart ? position.startDate : planStart;
+    const from = parsePeriod(baseFrom);
+    const to = parsePeriod(period);
+
+    let merits = 0;
+    for (let year = from.year; year <= to.year; year++) {
+        const meritPeriod = `${year}-${String(settings.meritMonth).padStart(2, '0')}`;
+        if (meritPeriod > baseFrom && meritPeriod <= period) merits++;
+    }
+
+    return (position.baseSalary / 12) * position.fte * Math.pow(1 + settings.meritRate, merits);
+};
+
+/**
+ * Headcount and compensation cost by cost center and month over the plan horizon.
+ */
+export const calculateHeadcountStats = (planId: string, data: AppData): HeadcountStat[] => {
+    const plan = data.plans.find(p => p.id === planId);
+    if (!plan) return [];
+
+    const settings = data.compensationSettings.find(s => s.planId === planId) || { ...DEFAULT_COMPENSATION_SETTINGS, planId };
+    const roster = getPlanRoster(planId, data);
+    const costCenters = Array.from(new Set(roster.map(p => p.costCenterCode)));
+    const stats: HeadcountStat[] = [];
+
+    listPeriods(plan.startDate, plan.endDate).forEach(period => {
+        costCenters.forEach(cc => {
+            const positions = roster.filter(p => p.costCenterCode === cc);
+            const active = positions.filter(p => isActive(p, period));
+            const salary = active.reduce((sum, p) => sum + monthlySalary(p, period, plan.startDate, settings), 0);
+
+            stats.push({
+                period,
+                costCenterCode: cc,
+                headcount: active.length,
+                fte: active.reduce((sum, p) => sum + p.fte, 0),
+                hires: positions.filter(p => p.startDate === period).length,
+                exits: positions.filter(p => p.endDate && addMonths(p.endDate, 1) === period).length,
+                salary,
+                burden: salary * (settings.benefitsRate + settings.payrollTaxRate),
+                bonus: salary * settings.bonusRate
+            });
+        });
+    });
+
+    return stats;
+};
+
+/**
+ * Records the compensation driver replaces: the configured salary, burden and bonus accounts in the
+ * cost centers of the plan's roster. Keeps raw payroll records from being counted on top of the generated cost.
+ */
+export const isCompensationOwnedRecord = (r: FinancialRecord, planId: string, data: AppData): boolean => {
+    const settings = data.compensationSettings.find(s => s.planId === planId);
+    if (!settings) return false;
+    const accounts = [settings.salaryAccountCode, settings.burdenAccountCode, settings.bonusAccountCode];
+    return accounts.includes(r.accountCode) && getPlanRoster(planId, data).some(p => p.costCenterCode === r.costCenterCode);
+};
+
+/**
+ * Budget records for compensation (salary, burden, bonus accrual) by cost center and month.
+ * Returns nothing for plans that have not enabled headcount planning (no CompensationSettings).
+ */
+export const generateCompensationRecords = (planId: string, data: AppData): FinancialRecord[] => {
+    const settings = data.compensationSettings.find(s => s.planId === planId);
+    if (!settings) return [];
+
+    // Several components may post to the same account; sum them into one record per intersection
+    const totals = new Map<string, number>();
+    const add = (period: string, accountCode: string, costCenterCode: string, amount: number) => {
+        if (amount === 0) return;
+        const key = `${period}|${accountCode}|${costCenterCode}`;
+        totals.set(key, (totals.get(key) || 0) + amount);
+    };
+
+    calculateHeadcountStats(planId, data).forEach(stat => {
+        add(stat.period, settings.salaryAccountCode, stat.costCenterCode, stat.salary);
+        add(stat.period, settings.burdenAccountCode, stat.costCenterCode, stat.burden);
+        add(stat.period, settings.bonusAccountCode, stat.costCenterCode, stat.bonus);
+    });
+
+    return Array.from(totals.entries()).map(([key, amount]) => {
+        const [period, accountCode, costCenterCode] = key.split('|');
+        return {
+            id: crypto.randomUUID(),
+            planId,
+            period,
+            type: RecordType.BUDGET,
+            accountCode,
+            costCenterCode,
+            productLineCode: '',
+            amount: Math.round(amount),
+            source: 'Headcount' as const
+        };
+    });
+};
@@ -0,0 +1,339 @@
+import { AppData, DimensionMapping, FinancialRecord, ImportField, ImportProfile, RecordType } from '../types';
+import { formatPeriod, isValidPeriod } from './periodUtils';
+
+/**
+ * Column mapping for actuals imports. A sheet is read as a grid of cells; an ImportProfile says
+ * which row holds the headers, which column feeds each record field, and how to sign and scale
+ * amounts. Profiles are saved so next month's file of the same layout imports in one step.
+ * Every row is then staged, its Hyperion member codes translated to internal codes through each
+ * item's hyperionMap, and validated; only rows without errors can be committed.
+ */
+
+export interface ImportSheet {
+    name: string;
+    cells: unknown[][]; // Raw cell values, row by row; cells[0] is sheet row 1
+}
+
+export interface SheetTable {
+    headers: string[];
+    rows: { rowNumber: number; values: Record<string, unknown> }[]; // rowNumber is 1-based, as shown in Excel
+}
+
+export type IssueKind = 'Missing' | 'Format' | 'Unknown Code' | 'Duplicate' | 'Outlier';
+
+export interface RowIssue {
+    kind: IssueKind;
+    severity: 'error' | 'warning'; // Rows with errors cannot be committed
+    field?: ImportField;
+    message: string;
+}
+
+export type DimensionField = 'accountCode' | 'costCenterCode' | 'productLineCode';
+
+// One source row as it would be imported; period and amount may still be invalid
+export interface StagedRow {
+    rowNumber: number;
+    record: FinancialRecord;
+    sourceCodes: Record<DimensionField, string>; // Codes as they are in the file
+    issues: RowIssue[];
+}
+
+export interface ControlTotal {
+    accountCode: string;
+    rows: number;
+    amount: number;
+    validRows: number;
+    validAmount: number;
+}
+
+export const DIMENSION_FIELDS: { field: DimensionField; label: string; list: 'accounts' | 'costCenters' | 'productLines' }[] = [
+    { field: 'accountCode', label: 'Account', list: 'accounts' },
+    { field: 'costCenterCode', label: 'Cost Center', list: 'costCenters' },
+    { field: 'productLineCode', label: 'Product Line', list: 'productLines' }
+];
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+    { field: 'period', label: 'Period', required: true },
+    { field: 'accountCode', label: 'Account', required: true },
+    { field: 'costCenterCode', label: 'Cost Center', required: false }, // Blank = no cost center
+    { field: 'productLineCode', label: 'Product Line', required: false },
+    { field: 'amount', label: 'Amount', required: true },
+    { field: 'currency', label: 'Currency', required: false }
+];
+
+// Header spellings recognised when no profile is chosen
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+    period: ['period', 'month', 'date'],
+    accountCode: ['account', 'account code', 'acct', 'gl account'],
+    costCenterCode: ['costcenter', 'cost center', 'cost centre', 'cc', 'department', 'dept', 'entity'],
+    productLineCode: ['product', 'product line', 'pl', 'productline'],
+    amount: ['amount', 'value', 'balance', 'net amount'],
+    currency: ['currency', 'ccy', 'currency code']
+};
+
+export const createImportProfile = (headers: string[], sheetName?: string): ImportProfile => ({
+    id: crypto.randomUUID(),
+    name: '',
+    sheetName,
+    headerRow: 1,
+    columns: guessColumns(headers),
+    flipSign: false,
+    scale: 1
+});
+
+export const guessColumns = (headers: string[]): Partial<Record<ImportField, string>> => {
+    const columns: Partial<Record<ImportField, string>> = {};
+    IMPORT_FIELDS.forEach(({ field }) => {
+        const match = headers.find(h => HEADER_ALIASES[field].includes(h.trim().toLowerCase()));
+        if (match) columns[field] = match;
+    });
+    return columns;
+};
+
+/**
+ * Reads the sheet's headers from the profile's header row and the rows below it as header → value.
+ * Blank headers are named by column number; fully empty rows are dropped.
+ */
+export const getSheetTable = (sheet: ImportSheet, headerRow: number): SheetTable => {
+    const headerCells = sheet.cells[headerRow - 1] || [];
+    const headers = headerCells.map((cell, i) => String(cell ?? '').trim() || `Column ${i + 1}`);
+
+    const rows = sheet.cells.slice(headerRow)
+        .map((cells, i) => ({
+            rowNumber: headerRow + i + 1,
+            values: Object.fromEntries(headers.map((h, c) => [h, cells[c]]))
+        }))
+        .filter(row => Object.values(row.values).some(v => v !== undefined && v !== null && String(v).trim() !== ''));
+
+    return { headers, rows };
+};
+
+// Excel serials accepted as dates: 1990-01-01 to 2099-12-31. Smaller numbers (e.g. a bare year) are not dates.
+const MIN_DATE_SERIAL = 32874;
+const MAX_DATE_SERIAL = 73415;
+
+/**
+ * Normalizes a period cell to YYYY-MM: accepts 2024-03, 2024/3, 03/2024, 202403, dates and Excel date serials.
+ * Anything else, such as a year on its own, is returned trimmed as it was, so validation flags it.
+ */
+export const normalizePeriod = (value: unknown): string => {
+    if (value instanceof Date) return formatPeriod(value.getFullYear(), value.getMonth() + 1);
+    if (typeof value === 'number') {
+        if (Number.isInteger(value) && value >= 190001 && value <= 299912 && value % 100 >= 1 && value % 100 <= 12) {
+            return formatPeriod(Math.floor(value / 100), value % 100);
+        }
+        if (value < MIN_DATE_SERIAL || value > MAX_DATE_SERIAL) return String(value);
+        // Excel serial: days since 1899-12-30
+        const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(value) * 86400000);
+        return formatPeriod(date.getUTCFullYear(), date.getUTCMonth() + 1);
+    }
+
+    const text = String(value ?? '').trim();
+    const yearFirst = text.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.]\d{1,2})?(?:[T ].*)?$/);
+    if (yearFirst) return formatPeriod(Number(yearFirst[1]), Number(yearFirst[2]));
+    const monthFirst = text.match(/^(\d{1,2})[-/.](\d{4})$/);
+    if (monthFirst) return formatPeriod(Number(monthFirst[2]), Number(monthFirst[1]));
+    if (/^\d{6}$/.test(text)) return formatPeriod(Number(text.slice(0, 4)), Number(text.slice(4)));
+    return text;
+};
+
+/**
+ * Parses an amount cell: numbers, thousands separators, currency symbols and (1,234) negatives. NaN if none.
+ */
+export const parseAmount = (value: unknown): number => {
+    if (typeof value === 'number') return value;
+    const text = String(value ?? '').trim();
+    if (!text) return NaN;
+    const negative = /^\(.*\)$/.test(text) || text.endsWith('-');
+    const cleaned = text.replace(/[(),\s$€£¥]/g, '').replace(/-$/, '');
+    if (!/^[-+]?\d*\.?\d+(e[-+]?\d+)?$/i.test(cleaned)) return NaN;
+    const amount = parseFloat(cleaned);
+    return negative ? -Math.abs(amount) : amount;
+};
+
+const cellText = (value: unknown) => String(value ?? '').trim();
+
+const recordKey = (r: FinancialRecord) => `${r.period}|${r.accountCode}|${r.costCenterCode}|${r.productLineCode}`;
+
+// Months of history needed before a row can be called an outlier, and how far out it must be
+const OUTLIER_MIN_MONTHS = 3;
+const OUTLIER_SIGMAS = 3;
+
+/**
+ * Turns every row of the table into a record through the profile, without checking it.
+ */
+export const stageRows = (table: SheetTable, profile: ImportProfile): StagedRow[] => {
+    const missing = IMPORT_FIELDS.filter(f => f.required && !profile.columns[f.field]);
+    if (missing.length > 0) throw new Error(`Map a column to ${missing.map(f => f.label).join(', ')} before importing.`);
+
+    const get = (values: Record<string, unknown>, field: ImportField) => {
+        const column = profile.columns[field];
+        return column ? values[column] : undefined;
+    };
+
+    return table.rows.map(({ rowNumber, values }) => {
+        const currency = cellText(get(values, 'currency'));
+        const sourceCodes = {
+            accountCode: cellText(get(values, 'accountCode')),
+            costCenterCode: cellText(get(values, 'costCenterCode')),
+            productLineCode: cellText(get(values, 'productLineCode'))
+        };
+        return {
+            rowNumber,
+            record: {
+                id: crypto.randomUUID(),
+                planId: undefined, // Actuals have no planId
+                type: RecordType.ACTUAL,
+                period: normalizePeriod(get(values, 'period')),
+                ...sourceCodes,
+                amount: parseAmount(get(values, 'amount')) * (profile.scale || 1) * (profile.flipSign ? -1 : 1),
+                currency: currency ? currency.toUpperCase() : undefined
+            },
+            sourceCodes,
+            issues: []
+        };
+    });
+};
+
+export const parseHyperionCodes = (hyperionMap?: string): string[] =>
+    (hyperionMap || '').split(',').map(code => code.trim()).filter(Boolean);
+
+/**
+ * Translates each row's codes from Hyperion members to internal codes. A code that is some item's
+ * Hyperion member (case-insensitive) becomes that item's code, so several members can feed one item.
+ * Other codes are kept as in the file: internal codes pass validation, unmapped members do not.
+ */
+export const translateStagedRows = (rows: StagedRow[], data: AppData): StagedRow[] => {
+    const lookups = DIMENSION_FIELDS.map(({ field, list }) => {
+        const external = new Map<string, string>();
+        data[list].forEach(item => parseHyperionCodes(item.hyperionMap).forEach(code => {
+            if (!external.has(code.toLowerCase())) external.set(code.toLowerCase(), item.code);
+        }));
+        return { field, external };
+    });
+
+    return rows.map(row => {
+        const record = { ...row.record };
+        lookups.forEach(({ field, external }) => {
+            const code = row.sourceCodes[field];
+            record[field] = external.get(code.toLowerCase()) || code;
+        });
+        return { ...row, record };
+    });
+};
+
+/**
+ * Adds a Hyperion member to an item's mapping, moving it off any other item of the same dimension.
+ */
+export const addHyperionCode = (
+    data: AppData,
+    list: 'accounts' | 'costCenters' | 'productLines',
+    itemCode: string,
+    external: string
+): AppData => {
+    const withMember = (item: DimensionMapping): DimensionMapping => {
+        const codes = parseHyperionCodes(item.hyperionMap);
+        const others = codes.filter(code => code.toLowerCase() !== external.toLowerCase());
+        if (item.code === itemCode) return { ...item, hyperionMap: [...others, external].join(', ') };
+        return others.length === codes.length ? item : { ...item, hyperionMap: others.join(', ') };
+    };
+    return { ...data, [list]: data[list].map(withMember) };
+};
+
+/**
+ * Sums records of the same period and intersection into one, e.g. several GL accounts mapped to one account.
+ */
+export const sumByIntersection = (records: FinancialRecord[]): FinancialRecord[] => {
+    const sums = new Map<string, FinancialRecord>();
+    records.forEach(r => {
+        const key = `${recordKey(r)}|${r.currency || ''}`;
+        const sum = sums.get(key);
+        sums.set(key, sum ? { ...sum, amount: sum.amount + r.amount } : { ...r });
+    });
+    return Array.from(sums.values());
+};
+
+/**
+ * Checks staged rows against the dimensions and history: YYYY-MM periods, numeric amounts and known
+ * account / cost center / product line codes are errors; duplicates within the file (which would be
+ * summed) and amounts far outside the intersection's actual history are warnings.
+ */
+export const validateStagedRows = (rows: StagedRow[], data: AppData): StagedRow[] => {
+    const accounts = new Set(data.accounts.map(a => a.code));
+    const costCenters = new Set(data.costCenters.map(c => c.code));
+    const productLines = new Set(data.productLines.map(p => p.code));
+
+    // Monthly imported actuals per intersection
+    const history = new Map<string, Map<string, number>>();
+    data.records.forEach(r => {
+        if (r.type !== RecordType.ACTUAL || r.source === 'Allocation') return;
+        const key = `${r.accountCode}|${r.costCenterCode}|${r.productLineCode}`;
+        const months = history.get(key) || new Map<string, number>();
+        months.set(r.period, (months.get(r.period) || 0) + r.amount);
+        history.set(key, months);
+    });
+
+    const firstRow = new Map<string, number>();
+    return rows.map(row => {
+        const r = row.record;
+        const issues: RowIssue[] = [];
+
+        if (!r.period) issues.push({ kind: 'Missing', severity: 'error', field: 'period', message: 'No period' });
+        else if (/^\d{4}$/.test(r.period)) issues.push({ kind: 'Format', severity: 'error', field: 'period', message: `Period "${r.period}" is a year without a month` });
+        else if (!isValidPeriod(r.period)) issues.push({ kind: 'Format', severity: 'error', field: 'period', message: `Period "${r.period}" is not YYYY-MM` });
+        if (isNaN(r.amount)) issues.push({ kind: 'Format', severity: 'error', field: 'amount', message: 'Amount is not a number' });
+
+        if (!r.accountCode) issues.push({ kind: 'Missing', severity: 'error', field: 'accountCode', message: 'No account' });
+        else if (!accounts.has(r.accountCode)) issues.push({ kind: 'Unknown Code', severity: 'error', field: 'accountCode', message: `No account is mapped to "${r.accountCode}"` });
+        if (r.costCenterCode && !costCenters.has(r.costCenterCode)) {
+            issues.push({ kind: 'Unknown Code', severity: 'error', field: 'costCenterCode', message: `No cost center is mapped to "${r.costCenterCode}"` });
+        }
+        if (r.productLineCode && !productLines.has(r.productLineCode)) {
+            issues.push({ kind: 'Unknown Code', severity: 'error', field: 'productLineCode', message: `No product line is mapped to "${r.productLineCode}"` });
+        }
+
+        // Rows that only meet after translation (several members into one item) are summed without a warning
+        const key = `${r.period}|${row.sourceCodes.accountCode}|${row.sourceCodes.costCenterCode}|${row.sourceCodes.productLineCode}`;
+        const first = firstRow.get(key);
+        if (first !== undefined) issues.push({ kind: 'Duplicate', severity: 'warning', message: `Same intersection as row ${first}; amounts will be summed` });
+        else firstRow.set(key, row.rowNumber);
+
+        const past = Array.from(history.get(`${r.accountCode}|${r.costCenterCode}|${r.productLineCode}`)?.entries() || [])
+            .filter(([period]) => period !== r.period)
+            .map(([, amount]) => amount);
+        if (!isNaN(r.amount) && past.length >= OUTLIER_MIN_MONTHS) {
+            const mean = past.reduce((sum, v) => sum + v, 0) / past.length;
+            const sd = Math.sqrt(past.reduce((sum, v) => sum + (v - mean) ** 2, 0) / past.length);
+            const gap = Math.abs(r.amount - mean);
+            // Flat histories only flag a move of more than half the usual amount
+            if (gap > OUTLIER_SIGMAS * sd && gap > Math.abs(mean) * 0.5) {
+                issues.push({ kind: 'Outlier', severity: 'warning', field: 'amount', message: `Far from its ${past.length}-month history (avg ${Math.round(mean).toLocaleString()})` });
+            }
+        }
+
+        return { ...row, issues };
+    });
+};
+
+export const hasErrors = (row: StagedRow): boolean => row.issues.some(i => i.severity === 'error');
+
+/**
+ * Rows and amounts per account: every row in the file against the ones that will be committed
+ * (no errors and not dropped by the user).
+ */
+export const getControlTotals = (rows: StagedRow[], dropped: Set<number> = new Set()): ControlTotal[] => {
+    const totals = new Map<string, ControlTotal>();
+    rows.forEach(row => {
+        const code = row.record.accountCode;
+        const total = totals.get(code) || { accountCode: code, rows: 0, amount: 0, validRows: 0, validAmount: 0 };
+        const amount = isNaN(row.record.amount) ? 0 : row.record.amount;
+        total.rows++;
+        total.amount += amount;
+        if (!hasErrors(row) && !dropped.has(row.rowNumber)) {
+            total.validRows++;
+            total.validAmount += amount;
+        }
+        totals.set(code, total);
+    });
+    return Array.from(totals.values()).sort((a, b) => a.accountCode.localeCompare(b.accountCode));
+};
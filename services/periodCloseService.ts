@@ -0,0 +1,91 @@
+import { AppData, FinancialRecord, RecordType, RestatementLine } from '../types';
+import { allocateActuals } from './allocationService';
+import { rollAllForecasts } from './rollingForecastService';
+
+/**
+ * Period close. Closed months hold final actuals: an import that would change an intersection
+ * in a closed month is a restatement, which is only applied once it has been reviewed and accepted.
+ * Accepted restatements are kept in data.restatements.
+ */
+
+const actualKey = (r: FinancialRecord) => `${r.period}_${r.accountCode}_${r.costCenterCode}_${r.productLineCode}`;
+
+export const isPeriodClosed = (period: string, data: AppData): boolean =>
+    data.closedPeriods.some(c => c.period === period);
+
+export const setPeriodClosed = (period: string, closed: boolean, data: AppData, user?: string): AppData => ({
+    ...data,
+    closedPeriods: closed
+        ? [...data.closedPeriods.filter(c => c.period !== period), { period, closedAt: new Date().toISOString(), closedBy: user || undefined }]
+        : data.closedPeriods.filter(c => c.period !== period)
+});
+
+/**
+ * Merges imported actuals, replacing existing actuals of the same period / account / cost center / product line.
+ * Shared cost is then re-allocated to product lines, and plans in rolling-forecast mode actualize the new
+ * months and re-forecast the rest. Rolling plans skipped for circular references are returned by name.
+ * Closed months keep their allocations (a changed rule would otherwise restate them unreviewed), except
+ * `restatedPeriods`, whose reviewed actuals the allocations have to follow.
+ */
+export const mergeActuals = (
+    data: AppData,
+    incoming: FinancialRecord[],
+    restatedPeriods: string[] = []
+): { data: AppData; skipped: string[] } => {
+    const incomingKeys = new Set(incoming.map(actualKey));
+    const existingCleaned = data.records.filter(r => r.type !== RecordType.ACTUAL || !incomingKeys.has(actualKey(r)));
+
+    const allocated = allocateActuals(
+        { ...data, records: [...existingCleaned, ...incoming] },
+        period => isPeriodClosed(period, data) && !restatedPeriods.includes(period)
+    );
+    const rolled = rollAllForecasts({ ...data, records: allocated.records });
+    return { data: { ...rolled.data, lastModified: new Date().toISOString() }, skipped: rolled.skipped };
+};
+
+/**
+ * Intersections in closed months whose actual amount the import would change, largest change first.
+ * Allocated actuals are left out: they are re-derived from the imported ones.
+ */
+export const findRestatements = (data: AppData, incoming: FinancialRecord[]): RestatementLine[] => {
+    const lines = new Map<string, RestatementLine>();
+    const add = (r: FinancialRecord, side: 'before' | 'after') => {
+        const key = actualKey(r);
+        const line = lines.get(key) || {
+            period: r.period,
+            accountCode: r.accountCode,
+            costCenterCode: r.costCenterCode,
+            productLineCode: r.productLineCode,
+            before: 0,
+            after: 0
+        };
+        line[side] += r.amount;
+        lines.set(key, line);
+    };
+
+    const closedIncoming = incoming.filter(r => isPeriodClosed(r.period, data));
+    const keys = new Set(closedIncoming.map(actualKey));
+    data.records
+        .filter(r => r.type === RecordType.ACTUAL && r.source !== 'Allocation' && keys.has(actualKey(r)))
+        .forEach(r => add(r, 'before'));
+    closedIncoming.forEach(r => add(r, 'after'));
+
+    return Array.from(lines.values())
+        .filter(l => Math.abs(l.after - l.before) >= 0.005)
+        .sort((a, b) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before));
+};
+
+/**
+ * Applies an import that restates closed months, keeping the reviewed lines in the restatement history.
+ */
+export const acceptRestatement = (
+    data: AppData,
+    incoming: FinancialRecord[],
+    lines: RestatementLine[],
+    source: string,
+    user?: string
+): { data: AppData; skipped: string[] } => {
+    const merged = mergeActuals(data, incoming, lines.map(l => l.period));
+    const restatement = { id: crypto.randomUUID(), source, acceptedAt: new Date().toISOString(), acceptedBy: user || undefined, lines };
+    return { ...merged, data: { ...merged.data, restatements: [...merged.data.restatements, restatement] } };
+};
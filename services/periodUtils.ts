@@ -0,0 +1,42 @@
+/**
+ * Period helpers for 'YYYY-MM' strings.
+ * Pure string/number math so results never drift with the browser time zone.
+ */
+
+export const parsePeriod = (period: string): { year: number; month: number } => {
+    const [y, m] = period.split('-').map(Number);
+    return { year: y, month: m };
+};
+
+export const formatPeriod = (year: number, month: number): string => {
+    return `${year}-${String(month).padStart(2, '0')}`;
+};
+
+/**
+ * Shifts a period by n months (n may be negative).
+ */
+export const addMonths = (period: string, n: number): string => {
+    const { year, month } = parsePeriod(period);
+    const index = year * 12 + (month - 1) + n;
+    return formatPeriod(Math.floor(index / 12), (index % 12 + 12) % 12 + 1);
+};
+
+/**
+ * Number of months from start to end, inclusive. Returns 0 if end is before start.
+ */
+export const monthCount = (start: string, end: string): number => {
+    const a = parsePeriod(start);
+    const b = parsePeriod(end);
+    return Math.max(0, (b.year - a.year) * 12 + (b.month - a.month) + 1);
+};
+
+/**
+ * Lists every period from start to end, inclusive.
+ */
+export const listPeriods = (start: string, end: string): string[] => {
+    return Array.from({ length: monthCount(start, end) }, (_, i) => addMonths(start, i));
+};
+
+export const isValidPeriod = (period: string): boolean => {
+    return /^\d{4}-(0[1-9]|1[0-2])$/.test(period);
+};
@@ -0,0 +1,79 @@
+import { AppData, FinancialRecord, Plan, RecordType } from '../types';
+
+/**
+ * Central check for changes to locked plans. Every update from the views goes through
+ * getLockViolation before it is applied, so a locked plan's assumptions, Budget records,
+ * R&O items and driver settings stay exactly as they were locked, whichever screen (or import)
+ * tries to change them. Rolling plans keep re-forecasting their Latest Forecast while locked.
+ */
+
+// Plan fields that may change while the plan is locked
+const UNLOCKED_PLAN_FIELDS: (keyof Plan)[] = ['isLocked', 'lockDate', 'status', 'isWorkingPlan', 'forecastClosedThrough'];
+
+// Per-plan collections frozen by the lock, with how to describe them in the message
+const PLAN_COLLECTIONS: { key: keyof AppData; label: string }[] = [
+    { key: 'assumptions', label: 'assumptions' },
+    { key: 'opportunities', label: 'risks & opportunities' },
+    { key: 'headcount', label: 'planned hires' },
+    { key: 'compensationSettings', label: 'headcount settings' },
+    { key: 'arrModels', label: 'ARR model' },
+    { key: 'fixedAssets', label: 'planned CapEx' },
+    { key: 'fixedAssetSettings', label: 'fixed asset settings' },
+    { key: 'workingCapitalSettings', label: 'working capital settings' }
+];
+
+const planFields = (plan: Plan) =>
+    JSON.stringify(Object.entries(plan)
+        .filter(([field, value]) => value !== undefined && !UNLOCKED_PLAN_FIELDS.includes(field as keyof Plan))
+        .sort());
+
+// Order-insensitive fingerprint of the plan's items in one collection
+const fingerprint = (items: { planId?: string }[], planId: string) =>
+    items.filter(item => item.planId === planId).map(item => JSON.stringify(item)).sort().join('\n');
+
+// Plan figures that stay fixed once signed off; rolling plans keep re-forecasting their Latest Forecast
+export const isFrozenRecord = (r: FinancialRecord, plan: Plan) =>
+    r.planId === plan.id && (r.type === RecordType.BUDGET || (r.type === RecordType.FORECAST && !plan.rollingForecast));
+
+const recordsChanged = (before: FinancialRecord[], after: FinancialRecord[], plan: Plan): boolean => {
+    if (before === after) return false;
+    const frozen = new Map(before.filter(r => isFrozenRecord(r, plan)).map(r => [r.id, r]));
+    let count = 0;
+    for (const r of after) {
+        if (!isFrozenRecord(r, plan)) continue;
+        const original = frozen.get(r.id);
+        if (!original || (original !== r && JSON.stringify(original) !== JSON.stringify(r))) return true;
+        count++;
+    }
+    return count !== frozen.size;
+};
+
+/**
+ * Why `after` may not replace `before`, or undefined if it changes no locked plan.
+ * Unlocking is only accepted through unlockPlan, which records who unlocked the plan and why.
+ */
+export const getLockViolation = (before: AppData, after: AppData): string | undefined => {
+    for (const plan of before.plans.filter(p => p.isLocked)) {
+        const next = after.plans.find(p => p.id === plan.id);
+        if (!next) return `${plan.name} is locked and cannot be deleted.`;
+
+        if (!next.isLocked) {
+            const unlock = after.approvalEvents.find(e =>
+                e.planId === plan.id && !e.dimension && e.to === 'Unlocked' && e.comment && !before.approvalEvents.includes(e)
+            );
+            if (!unlock) return `${plan.name} can only be unlocked by a reviewer, with a reason.`;
+            continue;
+        }
+
+        if (planFields(plan) !== planFields(next)) return `${plan.name} is locked; unlock it before changing its settings.`;
+
+        const collection = PLAN_COLLECTIONS.find(({ key }) =>
+            before[key] !== after[key] &&
+            fingerprint(before[key] as { planId?: string }[], plan.id) !== fingerprint(after[key] as { planId?: string }[], plan.id)
+        );
+        if (collection) return `${plan.name} is locked; its ${collection.label} cannot change.`;
+
+        if (recordsChanged(before.records, after.records, plan)) return `${plan.name} is locked; its plan figures cannot change.`;
+    }
+    return undefined;
+};
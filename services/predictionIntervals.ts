@@ -0,0 +1,68 @@
+/**
+ * Prediction interval helpers. Bounds are derived from the spread of a method's one-step
+ * in-sample residuals and widened with the forecast horizon.
+ */
+
+export interface IntervalBound {
+    level: number; // e.g. 0.8 for an 80% interval
+    lower: number;
+    upper: number;
+}
+
+export interface ForecastInterval {
+    period: string;  // YYYY-MM
+    point: number;   // Same value as the generated record
+    bounds: IntervalBound[];
+}
+
+export const DEFAULT_INTERVAL_LEVELS = [0.8, 0.95];
+
+// Two-sided standard normal quantiles for common confidence levels
+const Z_SCORES: Record<string, number> = {
+    '0.5': 0.6745,
+    '0.8': 1.2816,
+    '0.9': 1.6449,
+    '0.95': 1.96,
+    '0.99': 2.5758
+};
+
+export const zScore = (level: number): number => {
+    const z = Z_SCORES[String(level)];
+    if (z === undefined) throw new Error(`Unsupported interval level ${level}. Use one of ${Object.keys(Z_SCORES).join(', ')}`);
+    return z;
+};
+
+/**
+ * Sample standard deviation of actual - fitted, ignoring points without a fit (NaN).
+ * `parameters` is the number of fitted parameters, subtracted from the degrees of freedom.
+ */
+export const residualStdDev = (values: number[], fitted: number[], parameters: number = 0): number => {
+    const residuals = values.map((v, i) => v - fitted[i]).filter(r => !isNaN(r));
+    const dof = residuals.length - parameters;
+    if (dof <= 0) return 0;
+    return Math.sqrt(residuals.reduce((s, r) => s + r * r, 0) / dof);
+};
+
+/**
+ * Builds symmetric bounds around each point from a per-step standard error.
+ * Lower bounds are floored at zero like the point forecasts.
+ */
+export const buildIntervals = (
+    periods: string[],
+    points: number[],
+    standardErrors: number[],
+    levels: number[] = DEFAULT_INTERVAL_LEVELS
+): ForecastInterval[] => {
+    return periods.map((period, i) => ({
+        period,
+        point: points[i],
+        bounds: levels.map(level => {
+            const width = zScore(level) * standardErrors[i];
+            return {
+                level,
+                lower: Math.max(0, Math.round(points[i] - width)),
+                upper: Math.round(points[i] + width)
+            };
+        })
+    }));
+};
@@ -0,0 +1,298 @@
+import { AppData, FinancialRecord, ForecastAssumption, RecordSource, RecordType } from '../types';
+import { AccountCategory } from './financialModel';
+import { generateForecast } from './forecastingService';
+import { generateFixedAssetRecords, isFixedAssetOwnedRecord } from './fixedAssetService';
+import { parseFormula } from './formulaEngine';
+import { generateAllocationRecords } from './allocationService';
+import { generateArrRecords, isArrOwnedRecord } from './arrService';
+import { generateCompensationRecords, isCompensationOwnedRecord } from './headcountService';
+import { getChildScenarios, getEffectiveAssumptions, getParentPlan, withInheritedRecords } from './scenarioService';
+
+export interface RecalcResult {
+    records: FinancialRecord[];   // Full record set (all plans + actuals) after recalculation
+    order: ForecastAssumption[];  // Assumptions in the order they were generated
+    cycles: string[][];           // Assumption ids forming circular references; non-empty means nothing was applied
+    skippedScenarios?: string[];  // Overlay scenarios left as they were because of their own circular references
+}
+
+export interface RecalcOptions {
+    recordType?: RecordType; // Plan series to regenerate (default Budget)
+    startPeriod?: string;    // Leave earlier months untouched (e.g. closed months of a rolling forecast)
+    cascade?: boolean;       // Also recalculate overlay scenarios built on this plan (default true)
+}
+
+/**
+ * True if the record belongs to the intersection an assumption generates in the given plan series.
+ * An assumption without a product line / cost center owns the records that have none (or the generic codes).
+ */
+export const matchesAssumptionIntersection = (
+    r: FinancialRecord,
+    assumption: ForecastAssumption,
+    recordType: RecordType = RecordType.BUDGET
+): boolean => {
+    if (r.source) return false; // Owned by a driver module, not an assumption
+    if (r.type !== recordType) return false;
+    if (r.planId !== assumption.planId || r.accountCode !== assumption.accountCode) return false;
+
+    // A target spread across a dimension owns every member of that dimension
+    const spreadDimension = assumption.method === 'Spread' ? assumption.params.spreadDimension : undefined;
+
+    const plMatch = assumption.productLineCode
+        ? r.productLineCode === assumption.productLineCode
+        : (spreadDimension === 'ProductLine' || r.productLineCode === '' || r.productLineCode === 'GEN_PL');
+    const ccMatch = assumption.costCenterCode
+        ? r.costCenterCode === assumption.costCenterCode
+        : (spreadDimension === 'CostCenter' || r.costCenterCode === '' || r.costCenterCode === 'GEN_CC');
+
+    return plMatch && ccMatch;
+};
+
+// Does an assumption's output feed a reference with these (optional) dimension filters?
+const feedsReference = (assumption: ForecastAssumption, accountCode: string, productLineCode?: string, costCenterCode?: string) => {
+    if (assumption.accountCode !== accountCode) return false;
+    if (productLineCode && assumption.productLineCode && assumption.productLineCode !== productLineCode) return false;
+    if (costCenterCode && assumption.costCenterCode && assumption.costCenterCode !== costCenterCode) return false;
+    return true;
+};
+
+/**
+ * Returns the ids of the assumptions (within the same plan) that must be generated before this one.
+ */
+export const getAssumptionDependencies = (
+    assumption: ForecastAssumption,
+    planAssumptions: ForecastAssumption[],
+    data: AppData
+): string[] => {
+    const others = planAssumptions.filter(a => a.id !== assumption.id);
+
+    switch (assumption.method) {
+        case 'PercentOfRevenue': {
+            const revenueAccounts = new Set(data.accounts.filter(a => a.category === AccountCategory.REVENUE).map(a => a.code));
+            return others.filter(a => revenueAccounts.has(a.accountCode)).map(a => a.id);
+        }
+        case 'CustomFormula': {
+            const { references } = parseFormula(assumption.params.formula || '');
+            return others
+                .filter(a => references.some(ref => feedsReference(a, ref.accountCode, ref.productLineCode, ref.costCenterCode)))
+                .map(a => a.id);
+        }
+        default:
+            return [];
+    }
+};
+
+/**
+ * Builds the dependency graph for every assumption in a plan, inherited ones included:
+ * assumption id -> ids it depends on.
+ */
+export const buildDependencyGraph = (planId: string, data: AppData): Map<string, string[]> => {
+    const planAssumptions = getEffectiveAssumptions(planId, data);
+    const graph = new Map<string, string[]>();
+    planAssumptions.forEach(a => graph.set(a.id, getAssumptionDependencies(a, planAssumptions, data)));
+    return graph;
+};
+
+/**
+ * Orders the graph so every node comes after its dependencies (Kahn's algorithm).
+ * Nodes that cannot be ordered are reported as cycles.
+ */
+export const topologicalSort = (graph: Map<string, string[]>): { order: string[]; cycles: string[][] } => {
+    const remaining = new Map<string, number>();
+    const dependents = new Map<string, string[]>();
+
+    graph.forEach((deps, id) => {
+        remaining.set(id, deps.length);
+        deps.forEach(dep => dependents.set(dep, [...(dependents.get(dep) || []), id]));
+    });
+
+    const queue = Array.from(remaining.entries()).filter(([, count]) => count === 0).map(([id]) => id);
+    const order: string[] = [];
+
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        order.push(id);
+        (dependents.get(id) || []).forEach(next => {
+            const count = remaining.get(next)! - 1;
+            remaining.set(next, count);
+            if (count === 0) queue.push(next);
+        });
+    }
+
+    if (order.length === graph.size) return { order, cycles: [] };
+
+    // Walk the unresolved nodes to report each distinct cycle once
+    const unresolved = new Set(Array.from(graph.keys()).filter(id => !order.includes(id)));
+    const cycles: string[][] = [];
+    const seen = new Set<string>();
+
+    unresolved.forEach(startId => {
+        if (seen.has(startId)) return;
+        const path: string[] = [];
+        let current: string | undefined = startId;
+        while (current && !path.includes(current)) {
+            path.push(current);
+            current = (graph.get(current) || []).find(dep => unresolved.has(dep));
+        }
+        if (current) {
+            const cycle = path.slice(path.indexOf(current));
+            if (!cycle.some(id => seen.has(id))) cycles.push(cycle);
+            cycle.forEach(id => seen.add(id));
+        }
+        path.forEach(id => seen.add(id));
+    });
+
+    return { order, cycles };
+};
+
+/**
+ * Driver modules that generate plan records outside of ForecastAssumptions.
+ * 'before' drivers run ahead of every assumption so % of Revenue and formulas can reference their output;
+ * 'after' drivers read the completed plan (allocations need the final cost and revenue).
+ * `owns` marks other plan records a driver replaces (e.g. the ARR model owns its revenue line).
+ * `isConfigured` tells whether a plan has its own driver set-up; a scenario without one keeps the parent's output.
+ */
+const PLAN_DRIVERS: {
+    source: RecordSource;
+    stage: 'before' | 'after';
+    generate: (planId: string, data: AppData, recordType: RecordType) => FinancialRecord[];
+    owns?: (r: FinancialRecord, planId: string, data: AppData) => boolean;
+    isConfigured?: (planId: string, data: AppData) => boolean;
+}[] = [
+    {
+        source: 'Headcount', stage: 'before', generate: generateCompensationRecords, owns: isCompensationOwnedRecord,
+        isConfigured: (planId, data) => data.compensationSettings.some(s => s.planId === planId)
+    },
+    {
+        source: 'ARR', stage: 'before', generate: generateArrRecords, owns: isArrOwnedRecord,
+        isConfigured: (planId, data) => data.arrModels.some(m => m.planId === planId)
+    },
+    {
+        source: 'FixedAssets', stage: 'before', generate: generateFixedAssetRecords, owns: isFixedAssetOwnedRecord,
+        isConfigured: (planId, data) => data.fixedAssetSettings.some(s => s.planId === planId)
+    },
+    { source: 'Allocation', stage: 'after', generate: generateAllocationRecords }
+];
+
+/**
+ * Regenerates every driver- and assumption-driven record of a plan, assumptions in dependency order.
+ * Only the plan being recalculated is read or replaced, and only records of `options.recordType`
+ * from `options.startPeriod` on; other records are kept as-is.
+ *
+ * An overlay scenario starts from its parent's records and regenerates on top of it with
+ * the effective assumptions and its own drivers. Scenarios built on the plan are then recalculated too,
+ * so base-plan changes flow into them.
+ */
+export const recalculatePlan = (planId: string, data: AppData, options: RecalcOptions = {}): RecalcResult => {
+    return recalculateWithScenarios(planId, withInheritedRecords(data), options, []);
+};
+
+const recalculateWithScenarios = (planId: string, data: AppData, options: RecalcOptions, visited: string[]): RecalcResult => {
+    const result = recalculateSinglePlan(planId, data, options);
+    if (result.cycles.length > 0 || options.cascade === false) return result;
+
+    const recordType = options.recordType || RecordType.BUDGET;
+    const skippedScenarios: string[] = [];
+    let records = result.records;
+
+    getChildScenarios(planId, data)
+        .filter(child => !visited.includes(child.id))
+        // Only rolling scenarios carry a Latest Forecast
+        .filter(child => recordType !== RecordType.FORECAST || child.rollingForecast)
+        // Locked scenarios keep the figures they were locked with (rolling ones still re-forecast)
+        .filter(child => !child.isLocked || recordType === RecordType.FORECAST)
+        .forEach(child => {
+            const childResult = recalculateWithScenarios(child.id, { ...data, records }, options, [...visited, planId]);
+            if (childResult.cycles.length > 0) {
+                skippedScenarios.push(child.id);
+                return;
+            }
+            records = childResult.records;
+            skippedScenarios.push(...(childResult.skippedScenarios || []));
+        });
+
+    return { ...result, records, skippedScenarios: skippedScenarios.length > 0 ? skippedScenarios : undefined };
+};
+
+const recalculateSinglePlan = (planId: string, data: AppData, options: RecalcOptions): RecalcResult => {
+    const plan = data.plans.find(p => p.id === planId);
+    const planAssumptions = getEffectiveAssumptions(planId, data);
+
+    if (!plan) {
+        return { records: data.records, order: [], cycles: [] };
+    }
+
+    const recordType = options.recordType || RecordType.BUDGET;
+    const startPeriod = options.startPeriod && options.startPeriod > plan.startDate ? options.startPeriod : plan.startDate;
+
+    const { order: orderedIds, cycles } = topologicalSort(buildDependencyGraph(planId, data));
+    if (cycles.length > 0) {
+        return { records: data.records, order: [], cycles };
+    }
+
+    const order = orderedIds.map(id => planAssumptions.find(a => a.id === id)!);
+    if (startPeriod > plan.endDate) {
+        return { records: data.records, order, cycles: [] };
+    }
+
+    // A scenario's own records in range are replaced by the parent's, which it then builds on.
+    // Without parent records of this type (e.g. no Latest Forecast yet) the scenario keeps its own.
+    // The result is complete in memory; intersections equal to the parent's are stripped when saved.
+    const parent = getParentPlan(planId, data);
+    const inherited = parent
+        ? data.records.filter(r =>
+            r.planId === parent.id && r.type === recordType && r.period >= startPeriod && r.period <= plan.endDate
+        )
+        : [];
+    const baseRecords = inherited.length === 0 ? data.records : [
+        ...data.records.filter(r => !(r.planId === planId && r.type === recordType && r.period >= startPeriod)),
+        ...inherited.map(r => ({ ...r, id: crypto.randomUUID(), planId }))
+    ];
+
+    const drivers = PLAN_DRIVERS.filter(d => !parent || !d.isConfigured || d.isConfigured(planId, data));
+
+    const isDriverRecord = (r: FinancialRecord) =>
+        r.planId === planId && r.type === recordType && drivers.some(d =>
+            (!!r.source && d.source === r.source) || (!r.source && !!d.owns?.(r, planId, data))
+        );
+
+    // Drop every record a driver or assumption will regenerate, then rebuild drivers first and
+    // assumptions one at a time so downstream methods read the freshly generated upstream values.
+    let working = baseRecords.filter(r =>
+        r.period < startPeriod ||
+        (!isDriverRecord(r) && !planAssumptions.some(a => matchesAssumptionIntersection(r, a, recordType)))
+    );
+
+    const runDrivers = (stage: 'before' | 'after') => {
+        drivers.filter(d => d.stage === stage).forEach(driver => {
+            const generated = driver.generate(planId, { ...data, records: working }, recordType)
+                .filter(r => r.period >= startPeriod)
+                .map(r => ({ ...r, type: recordType }));
+            working = [...working, ...generated];
+        });
+    };
+
+    runDrivers('before');
+
+    order.forEach(assumption => {
+        const generated = generateForecast(assumption, { ...data, records: working }, startPeriod, plan.endDate, recordType);
+        working = [...working, ...generated];
+    });
+
+    runDrivers('after');
+
+    return { records: working, order, cycles: [] };
+};
+
+/**
+ * Human-readable description of a cycle, e.g. "COGS Hosting → Subscription Revenue → COGS Hosting".
+ */
+export const describeCycle = (cycle: string[], data: AppData): string => {
+    const label = (id: string) => {
+        const a = data.assumptions.find(x => x.id === id);
+        if (!a) return id;
+        const accName = data.accounts.find(x => x.code === a.accountCode)?.name || a.accountCode;
+        const dims = [a.productLineCode, a.costCenterCode].filter(Boolean).join('/');
+        return dims ? `${accName} (${dims})` : accName;
+    };
+    return [...cycle, cycle[0]].map(label).join(' → ');
+};
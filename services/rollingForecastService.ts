@@ -0,0 +1,105 @@
+import { AppData, FinancialRecord, RecordType } from '../types';
+import { recalculatePlan } from './recalcEngine';
+import { addMonths } from './periodUtils';
+
+/**
+ * Latest month with any actuals, or undefined if nothing has been imported.
+ */
+export const getLastActualPeriod = (records: FinancialRecord[]): string | undefined => {
+    let last: string | undefined;
+    records.forEach(r => {
+        if (r.type === RecordType.ACTUAL && (!last || r.period > last)) last = r.period;
+    });
+    return last;
+};
+
+export interface RollForecastResult {
+    records: FinancialRecord[];
+    closedThrough?: string; // Last actualized month inside the plan horizon
+    cycles: string[][];     // Non-empty means nothing was applied
+}
+
+/**
+ * Rebuilds a plan's Latest Forecast (Forecast records) without touching its Budget:
+ * 1. closed months (up to the last actual month) are copies of the actuals,
+ * 2. open months start from the Budget and every driver / assumption is re-run on them,
+ *    now seeing the new actuals as history.
+ */
+export const rollForecast = (planId: string, data: AppData, options: { cascade?: boolean } = {}): RollForecastResult => {
+    const plan = data.plans.find(p => p.id === planId);
+    if (!plan) return { records: data.records, cycles: [] };
+
+    const lastActual = getLastActualPeriod(data.records);
+    const closedThrough = lastActual && lastActual >= plan.startDate
+        ? (lastActual < plan.endDate ? lastActual : plan.endDate)
+        : undefined;
+    const openStart = closedThrough ? addMonths(closedThrough, 1) : plan.startDate;
+
+    const forecast: FinancialRecord[] = [];
+    data.records.forEach(r => {
+        if (closedThrough && r.type === RecordType.ACTUAL && r.period >= plan.startDate && r.period <= closedThrough) {
+            forecast.push({ ...r, id: crypto.randomUUID(), planId, type: RecordType.FORECAST });
+        } else if (r.planId === planId && r.type === RecordType.BUDGET && r.period >= openStart) {
+            forecast.push({ ...r, id: crypto.randomUUID(), type: RecordType.FORECAST });
+        }
+    });
+
+    const records = [
+        ...data.records.filter(r => !(r.planId === planId && r.type === RecordType.FORECAST)),
+        ...forecast
+    ];
+
+    const result = recalculatePlan(planId, { ...data, records }, { recordType: RecordType.FORECAST, startPeriod: openStart, cascade: options.cascade });
+    if (result.cycles.length > 0) return { records: data.records, cycles: result.cycles };
+
+    return { records: result.records, closedThrough, cycles: [] };
+};
+
+/**
+ * Rolls every plan in rolling-forecast mode, e.g. after a new month of actuals is imported.
+ * Plans with circular references are skipped and returned by name.
+ */
+export const rollAllForecasts = (data: AppData): { data: AppData; skipped: string[] } => {
+    let next = data;
+    const skipped: string[] = [];
+
+    data.plans.filter(p => p.rollingForecast).forEach(plan => {
+        const result = rollForecast(plan.id, next);
+        if (result.cycles.length > 0) {
+            skipped.push(plan.name);
+            return;
+        }
+        next = {
+            ...next,
+            records: result.records,
+            plans: next.plans.map(p => p.id === plan.id ? { ...p, forecastClosedThrough: result.closedThrough } : p)
+        };
+    });
+
+    return { data: next, skipped };
+};
+
+/**
+ * Recalculates a plan the way its mode allows: a rolling plan re-forecasts its Latest Forecast and keeps
+ * the Budget it started rolling from; any other plan regenerates its Budget. Views recalculate through here
+ * after editing assumptions or drivers. Non-empty `cycles` means nothing was applied.
+ */
+export const recalculatePlanFigures = (planId: string, data: AppData): { data: AppData; cycles: string[][] } => {
+    const plan = data.plans.find(p => p.id === planId);
+    if (plan?.rollingForecast) {
+        const rolled = rollForecast(planId, data);
+        if (rolled.cycles.length > 0) return { data, cycles: rolled.cycles };
+        return {
+            data: {
+                ...data,
+                records: rolled.records,
+                plans: data.plans.map(p => p.id === planId ? { ...p, forecastClosedThrough: rolled.closedThrough } : p)
+            },
+            cycles: []
+        };
+    }
+
+    const result = recalculatePlan(planId, data);
+    if (result.cycles.length > 0) return { data, cycles: result.cycles };
+    return { data: { ...data, records: result.records }, cycles: [] };
+};
@@ -0,0 +1,275 @@
+import { AppData, FinancialRecord, ForecastAssumption, Plan, RiskOpportunity } from '../types';
+
+/**
+ * Scenarios are delta overlays on a parent plan: they store only the assumptions and R&O items
+ * they change, and inherit everything else from the parent when the plan is calculated.
+ * Records work the same way: a scenario stores only the intersections whose figures differ from
+ * its parent's. withInheritedRecords fills in the rest when the workspace is read, and
+ * withoutInheritedRecords strips them again before it is saved.
+ */
+
+export interface ScenarioOverride {
+    kind: 'Assumption' | 'RiskOpportunity';
+    id: string;
+    label: string;
+    change: 'Overrides' | 'Adds';   // Replaces an inherited line, or adds one the parent does not have
+    parentId?: string;              // The inherited line being replaced
+    sameAsParent: boolean;          // Override is identical to what it replaces
+}
+
+export const isOverlayScenario = (plan: Plan | undefined): boolean =>
+    !!plan && plan.type === 'Scenario' && !!plan.parentPlanId;
+
+/**
+ * Intersection an assumption generates: a scenario assumption at the same key overrides the parent's.
+ */
+export const assumptionKey = (a: ForecastAssumption): string =>
+    `${a.accountCode}|${a.productLineCode || ''}|${a.costCenterCode || ''}`;
+
+/**
+ * The plan followed by its ancestors, nearest first. Stops at a missing parent or a loop.
+ */
+export const getPlanLineage = (planId: string, data: AppData): Plan[] => {
+    const lineage: Plan[] = [];
+    let plan = data.plans.find(p => p.id === planId);
+    while (plan && !lineage.includes(plan)) {
+        lineage.push(plan);
+        plan = isOverlayScenario(plan) ? data.plans.find(p => p.id === plan!.parentPlanId) : undefined;
+    }
+    return lineage;
+};
+
+export const getParentPlan = (planId: string, data: AppData): Plan | undefined => {
+    const plan = data.plans.find(p => p.id === planId);
+    return isOverlayScenario(plan) ? data.plans.find(p => p.id === plan!.parentPlanId) : undefined;
+};
+
+/**
+ * Overlay scenarios built directly on a plan.
+ */
+export const getChildScenarios = (planId: string, data: AppData): Plan[] =>
+    data.plans.filter(p => p.id !== planId && isOverlayScenario(p) && p.parentPlanId === planId);
+
+/**
+ * Assumptions a plan calculates with: its own, plus every inherited assumption it does not override.
+ * Inherited copies keep their id but carry the scenario's planId so they generate into the scenario.
+ */
+export const getEffectiveAssumptions = (planId: string, data: AppData): ForecastAssumption[] => {
+    const lineage = getPlanLineage(planId, data);
+    const byKey = new Map<string, ForecastAssumption>();
+
+    // Walk from the root down so nearer plans override further ones
+    [...lineage].reverse().forEach(plan => {
+        data.assumptions
+            .filter(a => a.planId === plan.id)
+            .forEach(a => byKey.set(assumptionKey(a), plan.id === planId ? a : { ...a, planId }));
+    });
+    return Array.from(byKey.values());
+};
+
+/**
+ * The assumption a scenario would inherit at a key if it had no override of its own.
+ */
+export const getInheritedAssumption = (planId: string, key: string, data: AppData): ForecastAssumption | undefined => {
+    const parent = getParentPlan(planId, data);
+    if (!parent) return undefined;
+    return getEffectiveAssumptions(parent.id, data).find(a => assumptionKey(a) === key);
+};
+
+/**
+ * R&O items a plan reports: inherited items not overridden by the scenario, plus the scenario's own.
+ */
+export const getEffectiveRisksAndOps = (planId: string, data: AppData): RiskOpportunity[] => {
+    const lineage = getPlanLineage(planId, data);
+    let items: RiskOpportunity[] = [];
+
+    [...lineage].reverse().forEach(plan => {
+        const own = data.opportunities.filter(r => r.planId === plan.id);
+        const overridden = new Set(own.map(r => r.overridesItemId).filter(Boolean));
+        items = [...items.filter(r => !overridden.has(r.id)), ...own];
+    });
+    return items;
+};
+
+// Records are inherited per intersection: one series, month, account, cost center and product line
+const recordIntersection = (r: FinancialRecord) =>
+    `${r.type}|${r.period}|${r.accountCode}|${r.costCenterCode}|${r.productLineCode}`;
+
+const groupByIntersection = (records: FinancialRecord[]) => {
+    const groups = new Map<string, FinancialRecord[]>();
+    records.forEach(r => {
+        const key = recordIntersection(r);
+        const group = groups.get(key);
+        if (group) group.push(r);
+        else groups.set(key, [r]);
+    });
+    return groups;
+};
+
+// What an intersection's records add up to, regardless of ids
+const intersectionFigures = (records: FinancialRecord[]) =>
+    records.map(r => `${r.amount}|${r.source || ''}`).sort().join(',');
+
+/**
+ * Every plan's records with each overlay scenario's inherited intersections filled in from its parent
+ * (itself resolved first). Intersections the scenario stores replace the parent's; inherited records
+ * get ids derived from the parent's, so resolving the same workspace twice gives the same records.
+ */
+export const withInheritedRecords = (data: AppData): AppData => {
+    if (!data.plans.some(isOverlayScenario)) return data;
+
+    const byPlan = new Map<string, FinancialRecord[]>();
+    data.records.forEach(r => {
+        if (!r.planId) return;
+        const list = byPlan.get(r.planId);
+        if (list) list.push(r);
+        else byPlan.set(r.planId, [r]);
+    });
+
+    const resolved = new Map<string, FinancialRecord[]>();
+    const resolve = (plan: Plan, visiting: string[]): FinancialRecord[] => {
+        if (resolved.has(plan.id)) return resolved.get(plan.id)!;
+        const own = byPlan.get(plan.id) || [];
+        const parent = isOverlayScenario(plan) && !visiting.includes(plan.id)
+            ? data.plans.find(p => p.id === plan.parentPlanId)
+            : undefined;
+        if (!parent) return own;
+
+        const ownIntersections = new Set(own.map(recordIntersection));
+        const inherited = resolve(parent, [...visiting, plan.id])
+            .filter(r => r.period >= plan.startDate && r.period <= plan.endDate && !ownIntersections.has(recordIntersection(r)))
+            .map(r => ({ ...r, id: `${plan.id}:${r.id}`, planId: plan.id }));
+        const records = [...own, ...inherited];
+        resolved.set(plan.id, records);
+        return records;
+    };
+
+    const scenarios = data.plans.filter(isOverlayScenario);
+    scenarios.forEach(plan => resolve(plan, []));
+    const scenarioIds = new Set(scenarios.map(p => p.id));
+    return {
+        ...data,
+        records: [
+            ...data.records.filter(r => !r.planId || !scenarioIds.has(r.planId)),
+            ...scenarios.flatMap(p => resolved.get(p.id) || [])
+        ]
+    };
+};
+
+/**
+ * The stored form of the records: each overlay scenario keeps only the intersections whose figures
+ * differ from its parent's. An intersection the parent has but the scenario dropped is kept as a zero
+ * record, so it is not inherited back.
+ */
+export const withoutInheritedRecords = (data: AppData): AppData => {
+    const scenarios = data.plans.filter(isOverlayScenario);
+    if (scenarios.length === 0) return data;
+
+    // Compare against complete parents, whichever form the records arrive in
+    const full = withInheritedRecords(data);
+    const scenarioIds = new Set(scenarios.map(p => p.id));
+    const kept: FinancialRecord[] = [];
+
+    scenarios.forEach(plan => {
+        const own = groupByIntersection(full.records.filter(r => r.planId === plan.id));
+        const parent = groupByIntersection(full.records.filter(r =>
+            r.planId === plan.parentPlanId && r.period >= plan.startDate && r.period <= plan.endDate
+        ));
+
+        own.forEach((records, key) => {
+            const parentRecords = parent.get(key) || [];
+            const unchanged = intersectionFigures(records) === intersectionFigures(parentRecords) ||
+                (parentRecords.length === 0 && records.every(r => r.amount === 0));
+            if (!unchanged) kept.push(...records);
+        });
+        parent.forEach((records, key) => {
+            if (own.has(key) || records.every(r => r.amount === 0)) return;
+            const r = records[0];
+            kept.push({ ...r, id: crypto.randomUUID(), planId: plan.id, amount: 0, source: undefined });
+        });
+    });
+
+    return { ...data, records: [...full.records.filter(r => !r.planId || !scenarioIds.has(r.planId)), ...kept] };
+};
+
+// Compare everything that affects the calculation, ignoring identity and audit fields
+const sameAssumption = (a: ForecastAssumption, b: ForecastAssumption) =>
+    a.method === b.method && JSON.stringify(a.params) === JSON.stringify(b.params);
+
+const sameItem = (a: RiskOpportunity, b: RiskOpportunity) => {
+    const strip = ({ id, planId, overridesItemId, ...rest }: RiskOpportunity) => JSON.stringify(rest);
+    return strip(a) === strip(b);
+};
+
+/**
+ * Migration for scenarios saved before they became overlays, when creating one deep-copied the
+ * parent's assumptions and R&O items: drops the copies that are still identical to what the scenario
+ * now inherits, so only its real changes remain. Changed copies are kept as overrides.
+ */
+export const removeCopiedParentLines = (data: AppData): AppData => {
+    const copies = new Set<string>();
+
+    data.plans.filter(isOverlayScenario).forEach(plan => {
+        const parentAssumptions = getEffectiveAssumptions(plan.parentPlanId!, data);
+        const parentItems = getEffectiveRisksAndOps(plan.parentPlanId!, data);
+
+        data.assumptions
+            .filter(a => a.planId === plan.id)
+            .filter(a => parentAssumptions.some(p => assumptionKey(p) === assumptionKey(a) && sameAssumption(p, a)))
+            .forEach(a => copies.add(a.id));
+        // Old copies never point at the item they came from
+        data.opportunities
+            .filter(r => r.planId === plan.id && !r.overridesItemId && parentItems.some(p => sameItem(p, r)))
+            .forEach(r => copies.add(r.id));
+    });
+
+    if (copies.size === 0) return data;
+    return {
+        ...data,
+        assumptions: data.assumptions.filter(a => !copies.has(a.id)),
+        opportunities: data.opportunities.filter(r => !copies.has(r.id))
+    };
+};
+
+/**
+ * Exactly which lines a scenario changes relative to its parent.
+ */
+export const getScenarioOverrides = (planId: string, data: AppData): ScenarioOverride[] => {
+    const parent = getParentPlan(planId, data);
+    if (!parent) return [];
+
+    const accountName = (code?: string) => data.accounts.find(a => a.code === code)?.name || code || '';
+    const parentAssumptions = getEffectiveAssumptions(parent.id, data);
+    const parentItems = getEffectiveRisksAndOps(parent.id, data);
+
+    const assumptionOverrides = data.assumptions
+        .filter(a => a.planId === planId)
+        .map((a): ScenarioOverride => {
+            const inherited = parentAssumptions.find(p => assumptionKey(p) === assumptionKey(a));
+            const dims = [a.productLineCode, a.costCenterCode].filter(Boolean).join(' / ');
+            return {
+                kind: 'Assumption',
+                id: a.id,
+                label: dims ? `${accountName(a.accountCode)} (${dims})` : accountName(a.accountCode),
+                change: inherited ? 'Overrides' : 'Adds',
+                parentId: inherited?.id,
+                sameAsParent: !!inherited && sameAssumption(a, inherited)
+            };
+        });
+
+    const itemOverrides = data.opportunities
+        .filter(r => r.planId === planId)
+        .map((r): ScenarioOverride => {
+            const inherited = r.overridesItemId ? parentItems.find(p => p.id === r.overridesItemId) : undefined;
+            return {
+                kind: 'RiskOpportunity',
+                id: r.id,
+                label: `${r.type}: ${r.title}`,
+                change: inherited ? 'Overrides' : 'Adds',
+                parentId: inherited?.id,
+                sameAsParent: !!inherited && sameItem(r, inherited)
+            };
+        });
+
+    return [...assumptionOverrides, ...itemOverrides];
+};
@@ -0,0 +1,127 @@
+/**
+ * Statistical forecasting methods on plain monthly series.
+ *
+ * Every method returns the out-of-sample forecast for `steps` months after the last value and
+ * the one-step-ahead in-sample fit (NaN where the method has no prediction yet). The fit is what
+ * parameter search minimises and what prediction intervals are built from.
+ */
+
+export interface SeriesForecast {
+    forecast: number[];
+    fitted: number[];
+}
+
+export interface HoltWintersParams {
+    alpha: number; // Level smoothing
+    beta: number;  // Trend smoothing
+    gamma: number; // Seasonal smoothing
+    seasonLength: number;
+}
+
+export const DEFAULT_SEASON_LENGTH = 12;
+
+// Sum of squared one-step errors over the points the method actually predicted
+const sse = (values: number[], fitted: number[]): number => {
+    let total = 0;
+    let count = 0;
+    values.forEach((v, i) => {
+        if (!isNaN(fitted[i])) {
+            total += (v - fitted[i]) ** 2;
+            count++;
+        }
+    });
+    return count > 0 ? total / count : Infinity;
+};
+
+/**
+ * Seasonal naive: each month repeats the same month of the last observed season.
+ */
+export const seasonalNaive = (values: number[], steps: number, seasonLength: number = DEFAULT_SEASON_LENGTH): SeriesForecast => {
+    const m = Math.max(1, Math.min(seasonLength, values.length));
+    const fitted = values.map((_, i) => (i >= m ? values[i - m] : NaN));
+    const lastSeason = values.slice(-m);
+    const forecast = Array.from({ length: steps }, (_, h) => lastSeason[h % m] ?? 0);
+    return { forecast, fitted };
+};
+
+/**
+ * Simple moving average: flat projection of the mean of the last `windowSize` months.
+ */
+export const movingAverage = (values: number[], steps: number, windowSize: number): SeriesForecast => {
+    const w = Math.max(1, Math.min(windowSize, values.length));
+    const mean = (arr: number[]) => arr.reduce((s, v) => s + v, 0) / (arr.length || 1);
+    const fitted = values.map((_, i) => (i >= w ? mean(values.slice(i - w, i)) : NaN));
+    const level = mean(values.slice(-w));
+    return { forecast: Array(steps).fill(level), fitted };
+};
+
+/**
+ * Picks the moving-average window (2-12 months) with the lowest one-step error.
+ */
+export const fitMovingAverageWindow = (values: number[]): number => {
+    let best = { window: Math.min(3, Math.max(1, values.length)), error: Infinity };
+    for (let w = 2; w <= Math.min(12, values.length - 1); w++) {
+        const error = sse(values, movingAverage(values, 0, w).fitted);
+        if (error < best.error) best = { window: w, error };
+    }
+    return best.window;
+};
+
+/**
+ * Additive Holt-Winters (triple exponential smoothing).
+ * Needs two full seasons to initialise; with less history it degrades to seasonal naive.
+ */
+export const holtWinters = (values: number[], steps: number, params: HoltWintersParams): SeriesForecast => {
+    const m = params.seasonLength;
+    if (values.length < 2 * m) return seasonalNaive(values, steps, m);
+
+    const { alpha, beta, gamma } = params;
+
+    // Initial level/trend from the first two seasons, seasonal indices from the first season
+    const firstMean = values.slice(0, m).reduce((s, v) => s + v, 0) / m;
+    const secondMean = values.slice(m, 2 * m).reduce((s, v) => s + v, 0) / m;
+    let level = firstMean;
+    let trend = (secondMean - firstMean) / m;
+    const seasonal = values.slice(0, m).map(v => v - firstMean);
+
+    const fitted: number[] = values.map(() => NaN);
+
+    for (let t = m; t < values.length; t++) {
+        const s = seasonal[t % m];
+        fitted[t] = level + trend + s;
+
+        const prevLevel = level;
+        level = alpha * (values[t] - s) + (1 - alpha) * (level + trend);
+        trend = beta * (level - prevLevel) + (1 - beta) * trend;
+        seasonal[t % m] = gamma * (values[t] - level) + (1 - gamma) * s;
+    }
+
+    const n = values.length;
+    const forecast = Array.from({ length: steps }, (_, i) => {
+        const h = i + 1;
+        return level + h * trend + seasonal[(n + h - 1) % m];
+    });
+
+    return { forecast, fitted };
+};
+
+/**
+ * Grid search over alpha/beta/gamma (0.05-0.95) minimising one-step error.
+ */
+export const fitHoltWinters = (values: number[], seasonLength: number = DEFAULT_SEASON_LENGTH): HoltWintersParams => {
+    const grid = [0.05, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.95];
+    let best: HoltWintersParams = { alpha: 0.3, beta: 0.1, gamma: 0.1, seasonLength };
+    let bestError = Infinity;
+
+    if (values.length < 2 * seasonLength) return best;
+
+    grid.forEach(alpha => grid.forEach(beta => grid.forEach(gamma => {
+        const error = sse(values, holtWinters(values, 0, { alpha, beta, gamma, seasonLength }).fitted);
+        if (error < bestError) {
+            bestError = error;
+            best = { alpha, beta, gamma, seasonLength };
+        }
+    })));
+
+    return best;
+};
@@ -0,0 +1,32 @@
+import { AppData } from '../types';
+import { SimulationOptions, SimulationResult, SimulationWorkerMessage } from './simulationService';
+
+/**
+ * Runs the simulation in a Web Worker so thousands of iterations do not block the UI.
+ */
+export const runSimulationInWorker = (
+    data: AppData,
+    options: SimulationOptions,
+    onProgress?: (completed: number) => void
+): Promise<SimulationResult> => {
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(new URL('./simulationWorker.ts', import.meta.url), { type: 'module' });
+
+        worker.onmessage = (e: MessageEvent<SimulationWorkerMessage>) => {
+            const message = e.data;
+            if (message.type === 'progress') {
+                onProgress?.(message.completed);
+                return;
+            }
+            worker.terminate();
+            if (message.type === 'result') resolve(message.result);
+            else reject(new Error(message.message));
+        };
+        worker.onerror = (e) => {
+            worker.terminate();
+            reject(new Error(e.message || 'Simulation worker failed.'));
+        };
+
+        worker.postMessage({ data, options });
+    });
+};
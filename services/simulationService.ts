@@ -0,0 +1,259 @@
+import { AppData, FinancialRecord, ForecastAssumption, ParameterDistribution, RecordType, RiskOpportunity } from '../types';
+import { calculatePnLFromTotals } from './financialModel';
+import { generateForecast, spreadRiskOpportunity } from './forecastingService';
+import { buildDependencyGraph, matchesAssumptionIntersection, recalculatePlan, topologicalSort } from './recalcEngine';
+import { listPeriods } from './periodUtils';
+import { getEffectiveAssumptions, getEffectiveRisksAndOps } from './scenarioService';
+
+/**
+ * Monte Carlo simulation of a plan's outlook.
+ *
+ * Each iteration samples whether every Risk / Opportunity occurs (by probability) and its size
+ * (triangular over impactLow / estimatedImpact / impactHigh), samples the growth rate and % of revenue
+ * of assumptions that carry a distribution, regenerates those assumptions and their dependents,
+ * and records Revenue, EBITDA and FCF per period.
+ */
+
+export type SimulationMetric = 'revenue' | 'ebitda' | 'fcf';
+
+export const SIMULATION_METRICS: { key: SimulationMetric; label: string }[] = [
+    { key: 'revenue', label: 'Revenue' },
+    { key: 'ebitda', label: 'EBITDA' },
+    { key: 'fcf', label: 'Free Cash Flow' }
+];
+
+export interface SimulationOptions {
+    planId: string;
+    iterations: number;
+    seed?: number; // Same seed + same data = same result
+}
+
+export interface PercentileBand {
+    period: string;
+    p10: number;
+    p50: number;
+    p90: number;
+}
+
+export interface SimulationResult {
+    planId: string;
+    iterations: number;
+    periods: Record<SimulationMetric, PercentileBand[]>;
+    totals: Record<SimulationMetric, number[]>; // Full-horizon outcome of every iteration, ascending
+}
+
+export const DEFAULT_SIMULATION_ITERATIONS = 2000;
+
+/**
+ * Seeded pseudo-random generator (mulberry32) returning values in [0, 1).
+ */
+export const createRandom = (seed: number = Date.now()): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Standard normal draw (Box-Muller)
+const sampleStandardNormal = (random: () => number) => {
+    const u = 1 - random(); // (0, 1] so the log is finite
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+export const sampleTriangular = (min: number, mode: number, max: number, random: () => number): number => {
+    if (max <= min) return mode;
+    const m = Math.min(max, Math.max(min, mode));
+    const u = random();
+    const cut = (m - min) / (max - min);
+    return u < cut
+        ? min + Math.sqrt(u * (max - min) * (m - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - m));
+};
+
+/**
+ * Draws a parameter value. `value` is the assumption's point estimate, used as the mean (Normal)
+ * or mode (Triangular). Missing bounds collapse to the point estimate.
+ */
+export const sampleDistribution = (dist: ParameterDistribution, value: number, random: () => number): number => {
+    switch (dist.type) {
+        case 'Normal':
+            return value + sampleStandardNormal(random) * (dist.stdDev || 0);
+        case 'Uniform': {
+            const min = dist.min ?? value;
+            const max = dist.max ?? value;
+            return min + random() * (max - min);
+        }
+        case 'Triangular':
+            return sampleTriangular(dist.min ?? value, value, dist.max ?? value, random);
+        default:
+            return value;
+    }
+};
+
+/**
+ * Percentile of an ascending array with linear interpolation (p in [0, 1]).
+ */
+export const percentile = (sorted: number[], p: number): number => {
+    if (sorted.length === 0) return 0;
+    const index = (sorted.length - 1) * p;
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+/**
+ * Equal-width histogram of a set of outcomes for charting.
+ */
+export const buildHistogram = (values: number[], bins: number = 20): { from: number; to: number; count: number }[] => {
+    if (values.length === 0) return [];
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const width = (max - min) / bins || 1;
+    const buckets = Array.from({ length: bins }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+    values.forEach(v => buckets[Math.min(bins - 1, Math.floor((v - min) / width))].count++);
+    return buckets;
+};
+
+// Assumption parameters that can carry a distribution
+const sampledParams = (assumption: ForecastAssumption) => {
+    const p = assumption.params;
+    const result: { key: 'growthRate' | 'percentOfRevenue'; dist: ParameterDistribution }[] = [];
+    if (assumption.method === 'GrowthYearOverYear' && p.growthRateDistribution) {
+        result.push({ key: 'growthRate', dist: p.growthRateDistribution });
+    }
+    if (assumption.method === 'PercentOfRevenue' && p.percentOfRevenueDistribution) {
+        result.push({ key: 'percentOfRevenue', dist: p.percentOfRevenueDistribution });
+    }
+    return result;
+};
+
+/**
+ * Probability that a Risk / Opportunity occurs. Without an explicit probability the item
+ * behaves like the deterministic outlook: in if included in budget, out otherwise.
+ */
+export const occurrenceProbability = (item: RiskOpportunity): number =>
+    item.probability ?? (item.includedInBudget ? 1 : 0);
+
+/**
+ * Runs the simulation synchronously; the UI goes through runSimulationInWorker (simulationClient.ts).
+ * Throws if the plan does not exist or its assumptions contain a circular reference.
+ */
+export const runSimulation = (
+    data: AppData,
+    options: SimulationOptions,
+    onProgress?: (completed: number) => void
+): SimulationResult => {
+    const plan = data.plans.find(p => p.id === options.planId);
+    if (!plan) throw new Error('Plan not found.');
+
+    const base = recalculatePlan(plan.id, data, { cascade: false });
+    if (base.cycles.length > 0) throw new Error('The plan has circular references between assumptions. Fix them before simulating.');
+
+    const random = createRandom(options.seed);
+    const periods = listPeriods(plan.startDate, plan.endDate);
+    const periodIndex = new Map(periods.map((p, i) => [p, i]));
+    const categoryOf = new Map(data.accounts.map(a => [a.code, a.category]));
+
+    // Sampled assumptions plus everything downstream of them must be regenerated per iteration
+    const graph = buildDependencyGraph(plan.id, data);
+    const { order } = topologicalSort(graph);
+    const planAssumptions = getEffectiveAssumptions(plan.id, data);
+    const affected = new Set<string>();
+    order.forEach(id => {
+        const assumption = planAssumptions.find(a => a.id === id)!;
+        if (sampledParams(assumption).length > 0 || (graph.get(id) || []).some(dep => affected.has(dep))) {
+            affected.add(id);
+        }
+    });
+    const affectedAssumptions = order.filter(id => affected.has(id)).map(id => planAssumptions.find(a => a.id === id)!);
+
+    const stableRecords = base.records.filter(r => !affectedAssumptions.some(a => matchesAssumptionIntersection(r, a)));
+
+    // Category totals per period: a fresh copy of the fixed part is the starting point of each iteration
+    const emptyTotals = () => periods.map(() => new Map<string, number>());
+    const addTo = (totals: Map<string, number>[], period: string, accountCode: string, amount: number) => {
+        const i = periodIndex.get(period);
+        const category = categoryOf.get(accountCode);
+        if (i === undefined || !category) return;
+        totals[i].set(category, (totals[i].get(category) || 0) + amount);
+    };
+    const addRecords = (totals: Map<string, number>[], records: FinancialRecord[]) => {
+        records.forEach(r => {
+            if (r.planId === plan.id && r.type === RecordType.BUDGET) addTo(totals, r.period, r.accountCode, r.amount);
+        });
+    };
+
+    const fixedTotals = emptyTotals();
+    addRecords(fixedTotals, stableRecords);
+
+    const items = getEffectiveRisksAndOps(plan.id, data).filter(o => o.status !== 'Discarded' && o.impactAccountCode);
+
+    const samples: Record<SimulationMetric, number[][]> = {
+        revenue: periods.map(() => []),
+        ebitda: periods.map(() => []),
+        fcf: periods.map(() => [])
+    };
+    const totals: Record<SimulationMetric, number[]> = { revenue: [], ebitda: [], fcf: [] };
+
+    for (let iteration = 0; iteration < options.iterations; iteration++) {
+        const iterationTotals = fixedTotals.map(m => new Map(m));
+
+        // 1. Assumptions with distributions, regenerated in dependency order with their dependents
+        let working = stableRecords;
+        affectedAssumptions.forEach(assumption => {
+            const params = { ...assumption.params };
+            sampledParams(assumption).forEach(({ key, dist }) => {
+                params[key] = sampleDistribution(dist, assumption.params[key] || 0, random);
+            });
+            const generated = generateForecast({ ...assumption, params }, { ...data, records: working }, plan.startDate, plan.endDate);
+            working = [...working, ...generated];
+            addRecords(iterationTotals, generated);
+        });
+
+        // 2. Risks & Opportunities
+        items.forEach(item => {
+            if (random() >= occurrenceProbability(item)) return;
+            const impact = sampleTriangular(item.impactLow ?? item.estimatedImpact, item.estimatedImpact, item.impactHigh ?? item.estimatedImpact, random);
+            spreadRiskOpportunity(item, impact).forEach(({ period, amount }) => addTo(iterationTotals, period, item.impactAccountCode!, amount));
+        });
+
+        // 3. Outcome metrics
+        const horizon: Record<SimulationMetric, number> = { revenue: 0, ebitda: 0, fcf: 0 };
+        iterationTotals.forEach((categoryTotals, i) => {
+            const pnl = calculatePnLFromTotals(cat => categoryTotals.get(cat) || 0);
+            SIMULATION_METRICS.forEach(({ key }) => {
+                samples[key][i].push(pnl[key]);
+                horizon[key] += pnl[key];
+            });
+        });
+        SIMULATION_METRICS.forEach(({ key }) => totals[key].push(horizon[key]));
+
+        if (onProgress && (iteration + 1) % 100 === 0) onProgress(iteration + 1);
+    }
+
+    const bands = (metric: SimulationMetric): PercentileBand[] => periods.map((period, i) => {
+        const sorted = samples[metric][i].sort((a, b) => a - b);
+        return { period, p10: percentile(sorted, 0.1), p50: percentile(sorted, 0.5), p90: percentile(sorted, 0.9) };
+    });
+
+    SIMULATION_METRICS.forEach(({ key }) => totals[key].sort((a, b) => a - b));
+
+    return {
+        planId: plan.id,
+        iterations: options.iterations,
+        periods: { revenue: bands('revenue'), ebitda: bands('ebitda'), fcf: bands('fcf') },
+        totals
+    };
+};
+
+/**
+ * Messages exchanged with services/simulationWorker.ts.
+ */
+export type SimulationWorkerMessage =
+    | { type: 'progress'; completed: number }
+    | { type: 'result'; result: SimulationResult }
+    | { type: 'error'; message: string };
@@ -0,0 +1,15 @@
+import { runSimulation, SimulationOptions, SimulationWorkerMessage } from './simulationService';
+import { AppData } from '../types';
+
+/**
+ * Web Worker entry point: runs one simulation per message and posts progress, then the result.
+ */
+self.onmessage = (e: MessageEvent<{ data: AppData; options: SimulationOptions }>) => {
+    const post = (message: SimulationWorkerMessage) => self.postMessage(message);
+    try {
+        const result = runSimulation(e.data.data, e.data.options, completed => post({ type: 'progress', completed }));
+        post({ type: 'result', result });
+    } catch (err) {
+        post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+};
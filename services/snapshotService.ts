@@ -0,0 +1,192 @@
+import { AppData, FinancialRecord, ForecastAssumption, PlanSnapshot, RecordType, RiskOpportunity, SnapshotTrigger } from '../types';
+import { recalculatePlan } from './recalcEngine';
+import { assumptionKey, getChildScenarios } from './scenarioService';
+
+export interface ValueChange {
+    key: string;
+    label: string;
+    before: number;
+    after: number;
+    delta: number;
+}
+
+export interface ParamChange {
+    param: string;
+    before?: string;
+    after?: string;
+}
+
+export interface AssumptionDiff {
+    key: string;
+    label: string;
+    change: 'Added' | 'Removed' | 'Changed';
+    params: ParamChange[]; // Method changes are reported as the 'method' parameter
+}
+
+export interface RiskOpportunityDiff {
+    id: string;
+    label: string;
+    change: 'Added' | 'Removed' | 'Changed';
+    fields: ParamChange[];
+}
+
+export interface SnapshotDiff {
+    accounts: ValueChange[];
+    intersections: ValueChange[];
+    assumptions: AssumptionDiff[];
+    opportunities: RiskOpportunityDiff[];
+}
+
+// R&O fields that change what the item contributes
+const ITEM_FIELDS: (keyof RiskOpportunity)[] = [
+    'title', 'type', 'estimatedImpact', 'impactLow', 'impactHigh', 'probability', 'status', 'includedInBudget',
+    'startDate', 'durationMonths', 'impactAccountCode', 'impactProductLineCode', 'impactCostCenterCode'
+];
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const isPlanRecord = (r: FinancialRecord, planId: string) =>
+    r.planId === planId && (r.type === RecordType.BUDGET || r.type === RecordType.FORECAST);
+
+/**
+ * Copies the plan's own assumptions, Budget / Latest Forecast records and R&O items.
+ * Not stored: use takeSnapshot to keep it, or compare against it as the current state.
+ */
+export const createSnapshot = (planId: string, data: AppData, name: string, trigger: SnapshotTrigger): PlanSnapshot => ({
+    id: crypto.randomUUID(),
+    planId,
+    name,
+    created: new Date().toISOString(),
+    trigger,
+    assumptions: clone(data.assumptions.filter(a => a.planId === planId)),
+    records: clone(data.records.filter(r => isPlanRecord(r, planId))),
+    opportunities: clone(data.opportunities.filter(o => o.planId === planId))
+});
+
+export const takeSnapshot = (planId: string, data: AppData, name: string, trigger: SnapshotTrigger): AppData => ({
+    ...data,
+    snapshots: [...data.snapshots, createSnapshot(planId, data, name, trigger)]
+});
+
+/**
+ * Puts the plan back to a snapshot, keeping a 'Before Restore' snapshot of what it replaces.
+ * Scenarios built on the plan are recalculated so they inherit the restored version.
+ */
+export const restoreSnapshot = (snapshotId: string, data: AppData): AppData => {
+    const snapshot = data.snapshots.find(s => s.id === snapshotId);
+    if (!snapshot) return data;
+    const { planId } = snapshot;
+
+    const backup = createSnapshot(planId, data, `Before restoring "${snapshot.name}"`, 'Before Restore');
+    let restored: AppData = {
+        ...data,
+        assumptions: [...data.assumptions.filter(a => a.planId !== planId), ...clone(snapshot.assumptions)],
+        records: [...data.records.filter(r => !isPlanRecord(r, planId)), ...clone(snapshot.records)],
+        opportunities: [...data.opportunities.filter(o => o.planId !== planId), ...clone(snapshot.opportunities)],
+        snapshots: [...data.snapshots, backup]
+    };
+
+    getChildScenarios(planId, restored).filter(child => !child.isLocked).forEach(child => {
+        const result = recalculatePlan(child.id, restored);
+        if (result.cycles.length === 0) restored = { ...restored, records: result.records };
+    });
+    return restored;
+};
+
+const diffValues = (
+    before: FinancialRecord[],
+    after: FinancialRecord[],
+    keyOf: (r: FinancialRecord) => string,
+    labelOf: (key: string) => string
+): ValueChange[] => {
+    const totals = new Map<string, { before: number; after: number }>();
+    const add = (r: FinancialRecord, side: 'before' | 'after') => {
+        const key = keyOf(r);
+        const entry = totals.get(key) || { before: 0, after: 0 };
+        entry[side] += r.amount;
+        totals.set(key, entry);
+    };
+    before.forEach(r => add(r, 'before'));
+    after.forEach(r => add(r, 'after'));
+
+    return Array.from(totals.entries())
+        .map(([key, t]) => ({ key, label: labelOf(key), before: t.before, after: t.after, delta: t.after - t.before }))
+        .filter(c => Math.abs(c.delta) >= 0.5)
+        .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+};
+
+const format = (value: unknown): string | undefined =>
+    value === undefined ? undefined : typeof value === 'string' ? value : JSON.stringify(value);
+
+const diffParams = (before?: ForecastAssumption, after?: ForecastAssumption): ParamChange[] => {
+    const changes: ParamChange[] = [];
+    if (before?.method !== after?.method) changes.push({ param: 'method', before: before?.method, after: after?.method });
+    const params = new Set([...Object.keys(before?.params || {}), ...Object.keys(after?.params || {})]);
+    params.forEach(param => {
+        const b = format(before?.params[param]);
+        const a = format(after?.params[param]);
+        if (b !== a) changes.push({ param, before: b, after: a });
+    });
+    return changes;
+};
+
+/**
+ * What changed between two versions of a plan: totals by account and by intersection for one
+ * record type, assumption parameters, and R&O items.
+ */
+export const diffSnapshots = (
+    before: PlanSnapshot,
+    after: PlanSnapshot,
+    data: AppData,
+    recordType: RecordType = RecordType.BUDGET
+): SnapshotDiff => {
+    const accountName = (code?: string) => data.accounts.find(a => a.code === code)?.name || code || '';
+    const ofType = (s: PlanSnapshot) => s.records.filter(r => r.type === recordType);
+
+    const accounts = diffValues(ofType(before), ofType(after), r => r.accountCode, accountName);
+    const intersections = diffValues(
+        ofType(before),
+        ofType(after),
+        r => `${r.accountCode}|${r.productLineCode}|${r.costCenterCode}`,
+        key => {
+            const [account, pl, cc] = key.split('|');
+            const dims = [pl, cc].filter(Boolean).join(' / ');
+            return dims ? `${accountName(account)} (${dims})` : accountName(account);
+        }
+    );
+
+    const beforeAssumptions = new Map(before.assumptions.map(a => [assumptionKey(a), a]));
+    const afterAssumptions = new Map(after.assumptions.map(a => [assumptionKey(a), a]));
+    const assumptions: AssumptionDiff[] = [];
+    new Set([...beforeAssumptions.keys(), ...afterAssumptions.keys()]).forEach(key => {
+        const b = beforeAssumptions.get(key);
+        const a = afterAssumptions.get(key);
+        const params = diffParams(b, a);
+        if (params.length === 0) return;
+        const asm = (a || b)!;
+        const dims = [asm.productLineCode, asm.costCenterCode].filter(Boolean).join(' / ');
+        assumptions.push({
+            key,
+            label: dims ? `${accountName(asm.accountCode)} (${dims})` : accountName(asm.accountCode),
+            change: !b ? 'Added' : !a ? 'Removed' : 'Changed',
+            params
+        });
+    });
+
+    const beforeItems = new Map(before.opportunities.map(o => [o.id, o]));
+    const afterItems = new Map(after.opportunities.map(o => [o.id, o]));
+    const opportunities: RiskOpportunityDiff[] = [];
+    new Set([...beforeItems.keys(), ...afterItems.keys()]).forEach(id => {
+        const b = beforeItems.get(id);
+        const a = afterItems.get(id);
+        const fields = ITEM_FIELDS
+            .map(field => ({ param: field as string, before: format(b?.[field]), after: format(a?.[field]) }))
+            .filter(f => f.before !== f.after);
+        if (b && a && fields.length === 0) return;
+        const item = (a || b)!;
+        // Field changes only for items in both versions
+        opportunities.push({ id, label: `${item.type}: ${item.title}`, change: !b ? 'Added' : !a ? 'Removed' : 'Changed', fields: b && a ? fields : [] });
+    });
+
+    return { accounts, intersections, assumptions, opportunities };
+};
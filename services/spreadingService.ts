@@ -0,0 +1,158 @@
+import { AppData, FinancialRecord, FiscalCalendar, ForecastAssumption, RecordType, SeasonalityProfile } from '../types';
+import { addMonths, parsePeriod } from './periodUtils';
+import { getFiscalQuarterKey, getFiscalQuarterPeriods, getFiscalYear, getFiscalYearPeriods, getPeriodWeeks } from './fiscalCalendar';
+
+/**
+ * Top-down spreading: annual or quarterly targets are distributed to months by a weight curve,
+ * then optionally across product lines / cost centers by prior-year mix.
+ */
+
+export const BUILTIN_SEASONALITY_PROFILES: SeasonalityProfile[] = [
+    { id: 'builtin-flat', name: 'Flat', weights: [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1] },
+    { id: 'builtin-q4-heavy', name: 'Q4 Heavy (Enterprise)', weights: [0.7, 0.8, 1.1, 0.8, 0.9, 1.1, 0.8, 0.9, 1.2, 1.1, 1.2, 1.6] },
+    { id: 'builtin-quarter-end', name: 'Quarter-End Loaded', weights: [0.8, 0.9, 1.3, 0.8, 0.9, 1.3, 0.8, 0.9, 1.3, 0.8, 0.9, 1.3] },
+    { id: 'builtin-summer-dip', name: 'Summer Dip', weights: [1.05, 1.05, 1.1, 1.05, 1, 0.9, 0.8, 0.8, 1, 1.05, 1.05, 1.05] }
+];
+
+export const getSeasonalityProfiles = (data: AppData): SeasonalityProfile[] => [
+    ...BUILTIN_SEASONALITY_PROFILES,
+    ...data.seasonalityProfiles
+];
+
+/**
+ * Months covered by a target key: fiscal year 'YYYY' (12 months) or fiscal quarter 'YYYY-Qn' (3 months).
+ */
+export const getTargetPeriods = (key: string, calendar: FiscalCalendar): string[] => {
+    const quarter = key.match(/^(\d{4})-Q([1-4])$/);
+    if (quarter) return getFiscalQuarterPeriods(Number(quarter[1]), Number(quarter[2]), calendar);
+    if (/^\d{4}$/.test(key)) return getFiscalYearPeriods(Number(key), calendar);
+    return [];
+};
+
+/**
+ * Target keys (years or quarters) that overlap a plan horizon, in order.
+ */
+export const listTargetKeys = (startDate: string, endDate: string, basis: 'Annual' | 'Quarterly', calendar: FiscalCalendar): string[] => {
+    const keys: string[] = [];
+    for (let period = startDate; period <= endDate; period = addMonths(period, 1)) {
+        const key = basis === 'Annual' ? String(getFiscalYear(period, calendar)) : getFiscalQuarterKey(period, calendar);
+        if (!keys.includes(key)) keys.push(key);
+    }
+    return keys;
+};
+
+const matchesIntersection = (r: FinancialRecord, assumption: ForecastAssumption) =>
+    r.type === RecordType.ACTUAL &&
+    r.accountCode === assumption.accountCode &&
+    (!assumption.productLineCode || r.productLineCode === assumption.productLineCode) &&
+    (!assumption.costCenterCode || r.costCenterCode === assumption.costCenterCode);
+
+// Scales weights to sum to 1; an all-zero or negative total falls back to an even split
+const normalize = (weights: number[]): number[] => {
+    const total = weights.reduce((s, w) => s + w, 0);
+    if (total <= 0) return weights.map(() => 1 / weights.length);
+    return weights.map(w => w / total);
+};
+
+/**
+ * Share of a target that lands in each of its months, per the assumption's spread method.
+ */
+export const getMonthlyWeights = (assumption: ForecastAssumption, periods: string[], data: AppData): number[] => {
+    const { spreadMethod = 'Even', spreadProfileId, spreadCurve } = assumption.params;
+    const calendarWeight = (curve: number[] | undefined, period: string) => curve?.[parsePeriod(period).month - 1] ?? 1;
+
+    switch (spreadMethod) {
+        case 'PriorYear': {
+            const history = data.records.filter(r => matchesIntersection(r, assumption));
+            return normalize(periods.map(period => {
+                const py = addMonths(period, -12);
+                return history.filter(r => r.period === py).reduce((s, r) => s + r.amount, 0);
+            }));
+        }
+        case 'Profile': {
+            const profile = getSeasonalityProfiles(data).find(p => p.id === spreadProfileId);
+            return normalize(periods.map(period => calendarWeight(profile?.weights, period)));
+        }
+        case 'Custom':
+            return normalize(periods.map(period => calendarWeight(spreadCurve, period)));
+        default:
+            // On a 4-4-5 style calendar an even split is even per week, so 5-week months get more
+            return normalize(periods.map(period => getPeriodWeeks(period, data.fiscalCalendar) ?? 1));
+    }
+};
+
+/**
+ * Prior-year actual mix of the assumption's account across product lines or cost centers,
+ * measured over the same months one year earlier. Empty when there is no history to split by.
+ */
+export const getDimensionMix = (assumption: ForecastAssumption, targetPeriods: string[], data: AppData): Map<string, number> => {
+    const dimension = assumption.params.spreadDimension;
+    if (!dimension || dimension === 'None') return new Map();
+
+    const pyPeriods = new Set(targetPeriods.map(p => addMonths(p, -12)));
+    const totals = new Map<string, number>();
+    data.records
+        .filter(r => matchesIntersection(r, assumption) && pyPeriods.has(r.period))
+        .forEach(r => {
+            const code = dimension === 'ProductLine' ? r.productLineCode : r.costCenterCode;
+            if (!code) return;
+            totals.set(code, (totals.get(code) || 0) + r.amount);
+        });
+
+    const total = Array.from(totals.values()).reduce((s, v) => s + v, 0);
+    if (total <= 0) return new Map();
+    return new Map(Array.from(totals.entries()).map(([code, amount]) => [code, amount / total]));
+};
+
+/**
+ * Records for a Spread assumption between startDate and endDate. Months of a target that fall
+ * outside the range are still weighted, so a partial horizon receives only its share of the target.
+ */
+export const generateSpreadRecords = (
+    assumption: ForecastAssumption,
+    data: AppData,
+    startDate: string,
+    endDate: string,
+    recordType: RecordType
+): FinancialRecord[] => {
+    const records: FinancialRecord[] = [];
+    const targets = assumption.params.spreadTargets || {};
+
+    Object.entries(targets).forEach(([key, amount]) => {
+        const periods = getTargetPeriods(key, data.fiscalCalendar);
+        if (periods.length === 0 || !amount) return;
+
+        const weights = getMonthlyWeights(assumption, periods, data);
+        const mix = getDimensionMix(assumption, periods, data);
+        const dimension = assumption.params.spreadDimension;
+
+        // Without a prior-year mix each month stays on the assumption's own intersection
+        const splits: [string | undefined, number][] = mix.size > 0 ? Array.from(mix.entries()) : [[undefined, 1]];
+
+        // Rounding the running total keeps the whole-dollar pieces summing exactly to the target
+        let allocated = 0;
+        let rounded = 0;
+
+        periods.forEach((period, i) => {
+            splits.forEach(([code, share]) => {
+                allocated += amount * weights[i] * share;
+                const piece = Math.round(allocated) - rounded;
+                rounded += piece;
+                if (period < startDate || period > endDate) return;
+
+                records.push({
+                    id: crypto.randomUUID(),
+                    planId: assumption.planId,
+                    period,
+                    type: recordType,
+                    accountCode: assumption.accountCode,
+                    productLineCode: (dimension === 'ProductLine' && code) || assumption.productLineCode || '',
+                    costCenterCode: (dimension === 'CostCenter' && code) || assumption.costCenterCode || '',
+                    amount: piece
+                });
+            });
+        });
+    });
+
+    return records.sort((a, b) => a.period.localeCompare(b.period));
+};
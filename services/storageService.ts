@@ -1,4 +1,5 @@
 import { AppData, INITIAL_DATA } from '../types';
+import { removeCopiedParentLines, withoutInheritedRecords } from './scenarioService';
 
 const DB_NAME = 'CFO_Companion_DB';
 const STORE_NAME = 'handles';
@@ -7,7 +8,8 @@ const KEY_NAME = 'workspace_dir';
 const FILES = {
   SETTINGS: 'cfo_companion_settings.json',
   DATA: 'cfo_companion_data.json',
-  IMPROVEMENTS: 'cfo_companion_improvements.json'
+  IMPROVEMENTS: 'cfo_companion_improvements.json',
+  SNAPSHOTS: 'cfo_companion_snapshots.json'
 };
 
 // --- IndexedDB Helper for Persisting Directory Handle ---
@@ -91,39 +93,107 @@ async function writeJsonFile(dirHandle: FileSystemDirectoryHandle, filename: str
 }
 
 export const readDataFromDirectory = async (dirHandle: FileSystemDirectoryHandle): Promise<AppData> => {
-  // Read all 3 files in parallel
-  const [settings, recordsData, improvementsData] = await Promise.all([
+  // Read all 4 files in parallel
+  const [settings, recordsData, improvementsData, snapshotsData] = await Promise.all([
     readJsonFile(dirHandle, FILES.SETTINGS, {
       accounts: INITIAL_DATA.accounts,
       costCenters: INITIAL_DATA.costCenters,
       productLines: INITIAL_DATA.productLines,
       plans: INITIAL_DATA.plans,
-      assumptions: INITIAL_DATA.assumptions
+      assumptions: INITIAL_DATA.assumptions,
+      headcount: INITIAL_DATA.headcount,
+      compensationSettings: INITIAL_DATA.compensationSettings,
+      seasonalityProfiles: INITIAL_DATA.seasonalityProfiles,
+      allocationRules: INITIAL_DATA.allocationRules,
+      arrModels: INITIAL_DATA.arrModels,
+      fixedAssets: INITIAL_DATA.fixedAssets,
+      fixedAssetSettings: INITIAL_DATA.fixedAssetSettings,
+      workingCapitalSettings: INITIAL_DATA.workingCapitalSettings,
+      reportingCurrency: INITIAL_DATA.reportingCurrency,
+      fxRates: INITIAL_DATA.fxRates,
+      fiscalCalendar: INITIAL_DATA.fiscalCalendar,
+      approvalReviewers: INITIAL_DATA.approvalReviewers,
+      approvalEvents: INITIAL_DATA.approvalEvents,
+      closedPeriods: INITIAL_DATA.closedPeriods,
+      restatements: INITIAL_DATA.restatements,
+      importProfiles: INITIAL_DATA.importProfiles,
+      dataVersion: INITIAL_DATA.dataVersion
     }),
     readJsonFile(dirHandle, FILES.DATA, { records: INITIAL_DATA.records }),
-    readJsonFile(dirHandle, FILES.IMPROVEMENTS, { opportunities: INITIAL_DATA.opportunities })
+    readJsonFile(dirHandle, FILES.IMPROVEMENTS, { opportunities: INITIAL_DATA.opportunities }),
+    readJsonFile(dirHandle, FILES.SNAPSHOTS, { snapshots: INITIAL_DATA.snapshots })
   ]);
 
-  return {
+  const loaded: AppData = {
     accounts: settings.accounts || INITIAL_DATA.accounts,
     costCenters: settings.costCenters || INITIAL_DATA.costCenters,
     productLines: settings.productLines || INITIAL_DATA.productLines,
     plans: settings.plans || INITIAL_DATA.plans,
     assumptions: settings.assumptions || INITIAL_DATA.assumptions,
+    headcount: settings.headcount || INITIAL_DATA.headcount,
+    compensationSettings: settings.compensationSettings || INITIAL_DATA.compensationSettings,
+    seasonalityProfiles: settings.seasonalityProfiles || INITIAL_DATA.seasonalityProfiles,
+    allocationRules: settings.allocationRules || INITIAL_DATA.allocationRules,
+    arrModels: settings.arrModels || INITIAL_DATA.arrModels,
+    fixedAssets: settings.fixedAssets || INITIAL_DATA.fixedAssets,
+    fixedAssetSettings: settings.fixedAssetSettings || INITIAL_DATA.fixedAssetSettings,
+    workingCapitalSettings: settings.workingCapitalSettings || INITIAL_DATA.workingCapitalSettings,
+    reportingCurrency: settings.reportingCurrency || INITIAL_DATA.reportingCurrency,
+    fxRates: settings.fxRates || INITIAL_DATA.fxRates,
+    fiscalCalendar: settings.fiscalCalendar || INITIAL_DATA.fiscalCalendar,
+    approvalReviewers: settings.approvalReviewers || INITIAL_DATA.approvalReviewers,
+    approvalEvents: settings.approvalEvents || INITIAL_DATA.approvalEvents,
+    closedPeriods: settings.closedPeriods || INITIAL_DATA.closedPeriods,
+    restatements: settings.restatements || INITIAL_DATA.restatements,
+    importProfiles: settings.importProfiles || INITIAL_DATA.importProfiles,
+    dataVersion: settings.dataVersion || 1, // Files from before versioning
     records: recordsData.records || INITIAL_DATA.records,
     opportunities: improvementsData.opportunities || INITIAL_DATA.opportunities,
+    snapshots: snapshotsData.snapshots || INITIAL_DATA.snapshots,
     lastModified: new Date().toISOString()
   };
+  return migrateData(loaded);
+};
+
+// One-time upgrades of workspaces saved by older versions; the new version is saved with the next write
+const migrateData = (data: AppData): AppData => {
+  let migrated = data;
+  if (migrated.dataVersion < 2) {
+    // Scenarios used to deep-copy their parent; keep only what they change
+    migrated = { ...removeCopiedParentLines(migrated), dataVersion: 2 };
+  }
+  if (migrated.dataVersion < 3) {
+    // Scenarios used to store a full copy of their parent's records; keep only the intersections they change
+    migrated = { ...withoutInheritedRecords(migrated), dataVersion: 3 };
+  }
+  return migrated;
 };
 
 export const writeDataToDirectory = async (dirHandle: FileSystemDirectoryHandle, data: AppData): Promise<void> => {
-  // Split data back into 3 files
+  // Split data back into 4 files
   const settingsData = {
     accounts: data.accounts,
     costCenters: data.costCenters,
     productLines: data.productLines,
     plans: data.plans,
-    assumptions: data.assumptions
+    assumptions: data.assumptions,
+    headcount: data.headcount,
+    compensationSettings: data.compensationSettings,
+    seasonalityProfiles: data.seasonalityProfiles,
+    allocationRules: data.allocationRules,
+    arrModels: data.arrModels,
+    fixedAssets: data.fixedAssets,
+    fixedAssetSettings: data.fixedAssetSettings,
+    workingCapitalSettings: data.workingCapitalSettings,
+    reportingCurrency: data.reportingCurrency,
+    fxRates: data.fxRates,
+    fiscalCalendar: data.fiscalCalendar,
+    approvalReviewers: data.approvalReviewers,
+    approvalEvents: data.approvalEvents,
+    closedPeriods: data.closedPeriods,
+    restatements: data.restatements,
+    importProfiles: data.importProfiles,
+    dataVersion: data.dataVersion
   };
 
   const recordsData = {
@@ -134,10 +204,16 @@ export const writeDataToDirectory = async (dirHandle: FileSystemDirectoryHandle,
     opportunities: data.opportunities
   };
 
+  // Snapshots carry full record copies, so they get their own file
+  const snapshotsData = {
+    snapshots: data.snapshots
+  };
+
   await Promise.all([
     writeJsonFile(dirHandle, FILES.SETTINGS, settingsData),
     writeJsonFile(dirHandle, FILES.DATA, recordsData),
-    writeJsonFile(dirHandle, FILES.IMPROVEMENTS, improvementsData)
+    writeJsonFile(dirHandle, FILES.IMPROVEMENTS, improvementsData),
+    writeJsonFile(dirHandle, FILES.SNAPSHOTS, snapshotsData)
   ]);
 };
 
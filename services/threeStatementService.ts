@@ -0,0 +1,206 @@
+import { AppData, FinancialRecord, RecordType, WorkingCapitalSettings } from '../types';
+import { AccountCategory, calculatePnL } from './financialModel';
+import { DEFAULT_FIXED_ASSET_SETTINGS } from './fixedAssetService';
+import { addMonths, listPeriods } from './periodUtils';
+
+export const DEFAULT_WORKING_CAPITAL_SETTINGS: Omit<WorkingCapitalSettings, 'planId'> = {
+    dso: 45,
+    dpo: 30,
+    deferralDays: 60
+};
+
+const DAYS_PER_MONTH = 30;
+
+// Differences below a dollar are rounding, not an imbalance
+const BALANCE_TOLERANCE = 1;
+
+export interface BalanceSheet {
+    cash: number;
+    accountsReceivable: number;
+    fixedAssets: number;
+    deferredRevenue: number;
+    accountsPayable: number;
+    accruedLiabilities: number;
+    equity: number;
+}
+
+const CATEGORY_FIELDS: { category: AccountCategory; field: keyof BalanceSheet }[] = [
+    { category: AccountCategory.CASH, field: 'cash' },
+    { category: AccountCategory.ACCOUNTS_RECEIVABLE, field: 'accountsReceivable' },
+    { category: AccountCategory.FIXED_ASSETS, field: 'fixedAssets' },
+    { category: AccountCategory.DEFERRED_REVENUE, field: 'deferredRevenue' },
+    { category: AccountCategory.ACCOUNTS_PAYABLE, field: 'accountsPayable' },
+    { category: AccountCategory.ACCRUED_LIABILITIES, field: 'accruedLiabilities' },
+    { category: AccountCategory.EQUITY, field: 'equity' }
+];
+
+export interface ThreeStatementRow {
+    period: string;
+    // Income statement
+    revenue: number;
+    ebitda: number;
+    netIncome: number;
+    // Balance sheet at month end
+    balances: BalanceSheet;
+    totalAssets: number;
+    totalLiabilitiesAndEquity: number;
+    imbalance: number; // Assets - (Liabilities + Equity)
+    isBalanced: boolean;
+    // Cash flow statement (indirect); working-capital lines are signed as cash impact
+    depreciation: number;
+    changeInReceivables: number;
+    changeInDeferredRevenue: number;
+    changeInPayables: number;
+    changeInAccrued: number;
+    operatingCashFlow: number;
+    capex: number;
+    investingCashFlow: number;
+    netCashFlow: number;
+    freeCashFlow: number;
+}
+
+export const totalAssets = (b: BalanceSheet) => b.cash + b.accountsReceivable + b.fixedAssets;
+
+export const totalLiabilitiesAndEquity = (b: BalanceSheet) =>
+    b.deferredRevenue + b.accountsPayable + b.accruedLiabilities + b.equity;
+
+/**
+ * Working-capital drivers of a plan, falling back to the defaults until the plan saves its own.
+ */
+export const getWorkingCapitalSettings = (planId: string, data: AppData): WorkingCapitalSettings => {
+    return data.workingCapitalSettings.find(s => s.planId === planId) || { ...DEFAULT_WORKING_CAPITAL_SETTINGS, planId };
+};
+
+/**
+ * Actual month-end balances by balance sheet category. Missing categories are zero.
+ */
+export const getActualBalances = (period: string, data: AppData): BalanceSheet => {
+    const balances: BalanceSheet = {
+        cash: 0, accountsReceivable: 0, fixedAssets: 0, deferredRevenue: 0, accountsPayable: 0, accruedLiabilities: 0, equity: 0
+    };
+    const fieldOf = new Map<string, keyof BalanceSheet>();
+    data.accounts.forEach(a => {
+        const match = CATEGORY_FIELDS.find(c => c.category === a.category);
+        if (match) fieldOf.set(a.code, match.field);
+    });
+
+    data.records.forEach(r => {
+        const field = fieldOf.get(r.accountCode);
+        if (field && r.type === RecordType.ACTUAL && r.period === period) balances[field] += r.amount;
+    });
+    return balances;
+};
+
+/**
+ * Implied DSO, DPO and deferral days from a month's actual balances and flows.
+ * Drivers without the flow to compare against keep their default.
+ */
+export const estimateWorkingCapitalDrivers = (period: string, data: AppData): Omit<WorkingCapitalSettings, 'planId'> => {
+    const balances = getActualBalances(period, data);
+    const pnl = calculatePnL(data.records.filter(r => r.period === period), data.accounts, RecordType.ACTUAL);
+    const spend = pnl.cogs + pnl.opex;
+    const days = (balance: number, flow: number, fallback: number) =>
+        flow > 0 ? Math.round(balance / flow * DAYS_PER_MONTH) : fallback;
+
+    return {
+        dso: days(balances.accountsReceivable, pnl.revenue, DEFAULT_WORKING_CAPITAL_SETTINGS.dso),
+        dpo: days(balances.accountsPayable, spend, DEFAULT_WORKING_CAPITAL_SETTINGS.dpo),
+        deferralDays: days(balances.deferredRevenue, pnl.revenue, DEFAULT_WORKING_CAPITAL_SETTINGS.deferralDays)
+    };
+};
+
+/**
+ * First month the statements are derived for: the first plan month with records of the type
+ * (a rolling forecast starts after the last actual), else the plan start.
+ */
+export const getStatementStart = (planId: string, data: AppData, recordType: RecordType): string | undefined => {
+    const plan = data.plans.find(p => p.id === planId);
+    if (!plan) return undefined;
+    const periods = data.records
+        .filter(r => r.planId === planId && r.type === recordType && r.period >= plan.startDate && r.period <= plan.endDate)
+        .map(r => r.period);
+    return periods.length > 0 ? periods.reduce((a, b) => (a < b ? a : b)) : plan.startDate;
+};
+
+/**
+ * Balance sheet and indirect cash flow statement per plan month.
+ * Opening balances are the actual balances of the month before the statements start; from there:
+ *  - AR and deferred revenue follow revenue, AP follows COGS + OpEx (the working-capital drivers)
+ *  - fixed assets roll forward with CapEx less depreciation; accrued liabilities are held flat
+ *  - equity accumulates net income, and cash is the result of the cash flow statement.
+ * Every month is therefore balanced when the opening balances are; an opening imbalance carries
+ * through and is flagged on each month. Cash Flow Items other than CapEx (e.g. a planned change in
+ * working capital) are superseded by the drivers.
+ */
+export const buildThreeStatements = (
+    planId: string,
+    data: AppData,
+    recordType: RecordType = RecordType.BUDGET
+): ThreeStatementRow[] => {
+    const plan = data.plans.find(p => p.id === planId);
+    const start = getStatementStart(planId, data, recordType);
+    if (!plan || !start) return [];
+
+    const drivers = getWorkingCapitalSettings(planId, data);
+    const capexAccountCode = (data.fixedAssetSettings.find(s => s.planId === planId) || DEFAULT_FIXED_ASSET_SETTINGS).capexAccountCode;
+
+    const byPeriod = new Map<string, FinancialRecord[]>();
+    data.records.forEach(r => {
+        if (r.planId !== planId || r.type !== recordType) return;
+        if (!byPeriod.has(r.period)) byPeriod.set(r.period, []);
+        byPeriod.get(r.period)!.push(r);
+    });
+
+    let opening = getActualBalances(addMonths(start, -1), data);
+
+    return listPeriods(start, plan.endDate).map(period => {
+        const records = byPeriod.get(period) || [];
+        const pnl = calculatePnL(records, data.accounts, recordType);
+        const capex = records.filter(r => r.accountCode === capexAccountCode).reduce((sum, r) => sum + r.amount, 0);
+
+        const closing: BalanceSheet = {
+            ...opening,
+            accountsReceivable: pnl.revenue * drivers.dso / DAYS_PER_MONTH,
+            deferredRevenue: pnl.revenue * drivers.deferralDays / DAYS_PER_MONTH,
+            accountsPayable: (pnl.cogs + pnl.opex) * drivers.dpo / DAYS_PER_MONTH,
+            fixedAssets: opening.fixedAssets + capex - pnl.dep,
+            equity: opening.equity + pnl.netIncome
+        };
+
+        const changeInReceivables = -(closing.accountsReceivable - opening.accountsReceivable);
+        const changeInDeferredRevenue = closing.deferredRevenue - opening.deferredRevenue;
+        const changeInPayables = closing.accountsPayable - opening.accountsPayable;
+        const changeInAccrued = closing.accruedLiabilities - opening.accruedLiabilities;
+        const operatingCashFlow = pnl.netIncome + pnl.dep + changeInReceivables + changeInDeferredRevenue + changeInPayables + changeInAccrued;
+        const investingCashFlow = -capex;
+        const netCashFlow = operatingCashFlow + investingCashFlow;
+        closing.cash = opening.cash + netCashFlow;
+
+        const assets = totalAssets(closing);
+        const liabilitiesAndEquity = totalLiabilitiesAndEquity(closing);
+        const imbalance = assets - liabilitiesAndEquity;
+
+        opening = closing;
+        return {
+            period,
+            revenue: pnl.revenue,
+            ebitda: pnl.ebitda,
+            netIncome: pnl.netIncome,
+            balances: closing,
+            totalAssets: assets,
+            totalLiabilitiesAndEquity: liabilitiesAndEquity,
+            imbalance,
+            isBalanced: Math.abs(imbalance) < BALANCE_TOLERANCE,
+            depreciation: pnl.dep,
+            changeInReceivables,
+            changeInDeferredRevenue,
+            changeInPayables,
+            changeInAccrued,
+            operatingCashFlow,
+            capex,
+            investingCashFlow,
+            netCashFlow,
+            freeCashFlow: netCashFlow
+        };
+    });
+};
@@ -6,6 +6,9 @@ export enum RecordType {
   FORECAST = 'Forecast'
 }
 
+// Subsystem that generated a record. Undefined = imported or produced by a ForecastAssumption.
+export type RecordSource = 'Headcount' | 'Allocation' | 'ARR' | 'FixedAssets';
+
 export interface FinancialRecord {
   id: string;
   planId?: string; // If undefined/null, it's "Actuals" or "Historical"
@@ -15,13 +18,48 @@ export interface FinancialRecord {
   costCenterCode: string;
   productLineCode: string;
   amount: number;
+  source?: RecordSource; // Driver-generated records are replaced wholesale when their module regenerates
+  currency?: string; // ISO code of the amount. Undefined = the cost center's currency
 }
 
 export interface DimensionMapping {
   code: string; // Internal ID
   name: string;
-  hyperionMap: string;
+  hyperionMap: string; // Hyperion member code(s), comma-separated; several members import into this one, the first is exported
   category?: string; // For Accounts: Links to Tier 1 Category
+  currency?: string; // For Cost Centers: functional currency of the entity. Undefined = reporting currency
+  owner?: string;    // For Cost Centers / Product Lines: who submits this section of each plan
+}
+
+export type FiscalWeekPattern = '445' | '454' | '544';
+
+export interface FiscalCalendar {
+  startMonth: number; // 1-12, first calendar month of the fiscal year
+  weekPattern?: FiscalWeekPattern; // Weeks per month within each quarter; undefined = calendar months
+}
+
+export type FxRateType = 'Average' | 'Closing' | 'Budget';
+
+// Units of reporting currency per one unit of `currency`; applies from `period` until the next rate of the same type
+export interface FxRate {
+  currency: string;
+  period: string; // YYYY-MM
+  rateType: FxRateType;
+  rate: number;
+}
+
+// FinancialRecord field an import column can feed
+export type ImportField = 'period' | 'accountCode' | 'costCenterCode' | 'productLineCode' | 'amount' | 'currency';
+
+// Saved column mapping for a recurring actuals file
+export interface ImportProfile {
+  id: string;
+  name: string;
+  sheetName?: string; // Sheet to read; falls back to the first sheet when the file has no sheet of this name
+  headerRow: number; // 1-based row holding the column headers
+  columns: Partial<Record<ImportField, string>>; // Source column header per field
+  flipSign: boolean; // Negate amounts, e.g. for credit-positive extracts
+  scale: number; // Multiplier applied to amounts, e.g. 1000 for figures in thousands
 }
 
 export interface AppData {
@@ -33,6 +71,24 @@ export interface AppData {
   lastModified: string;
   plans: Plan[];
   assumptions: ForecastAssumption[];
+  headcount: HeadcountPosition[];
+  compensationSettings: CompensationSettings[];
+  seasonalityProfiles: SeasonalityProfile[];
+  allocationRules: AllocationRule[];
+  arrModels: ArrModel[];
+  fixedAssets: FixedAsset[];
+  fixedAssetSettings: FixedAssetSettings[];
+  workingCapitalSettings: WorkingCapitalSettings[];
+  reportingCurrency: string;
+  fxRates: FxRate[];
+  fiscalCalendar: FiscalCalendar;
+  snapshots: PlanSnapshot[];
+  approvalReviewers: string[]; // Who may approve or reject submitted sections; empty = anyone but the submitter
+  approvalEvents: ApprovalEvent[];
+  closedPeriods: ClosedPeriod[];
+  restatements: Restatement[];
+  importProfiles: ImportProfile[];
+  dataVersion: number; // Layout of the saved workspace; older files are migrated when loaded
 }
 
 export interface Plan {
@@ -50,6 +106,67 @@ export interface Plan {
   isLocked: boolean;
   lockDate?: string;
   isWorkingPlan: boolean; // The default plan for analysis (single active)
+
+  // Rolling forecast: Forecast records = actuals for closed months + re-forecast of open months
+  rollingForecast?: boolean;
+  forecastClosedThrough?: string; // YYYY-MM, last month actualized in the current Latest Forecast
+}
+
+export type ApprovalDimension = 'CostCenter' | 'ProductLine';
+export type SectionStatus = 'Open' | 'Submitted' | 'Approved' | 'Rejected';
+export type LockState = 'Locked' | 'Unlocked';
+
+// One state transition of a plan section (cost center / product line), or of the plan itself when no section is set.
+// A section's current status is its latest event's `to`. Plan-level Unlocked events carry the reason in `comment`.
+export interface ApprovalEvent {
+  id: string;
+  planId: string;
+  dimension?: ApprovalDimension;
+  code?: string;
+  from: SectionStatus | Plan['status'] | LockState;
+  to: SectionStatus | Plan['status'] | LockState;
+  by: string;
+  at: string; // ISO timestamp
+  comment?: string;
+}
+
+// A month whose actuals are final: imports that change it need an accepted restatement
+export interface ClosedPeriod {
+  period: string; // YYYY-MM
+  closedAt: string; // ISO timestamp
+  closedBy?: string;
+}
+
+// Imported actual amount of one intersection in a closed month, before and after a restatement
+export interface RestatementLine {
+  period: string;
+  accountCode: string;
+  costCenterCode: string;
+  productLineCode: string;
+  before: number;
+  after: number;
+}
+
+export interface Restatement {
+  id: string;
+  source: string; // Imported file name
+  acceptedAt: string; // ISO timestamp
+  acceptedBy?: string;
+  lines: RestatementLine[];
+}
+
+export type SnapshotTrigger = 'Manual' | 'Lock' | 'Before Restore';
+
+// Immutable copy of what a plan said at a point in time; a scenario's holds only its own overrides
+export interface PlanSnapshot {
+  id: string;
+  planId: string;
+  name: string;
+  created: string;
+  trigger: SnapshotTrigger;
+  assumptions: ForecastAssumption[];
+  records: FinancialRecord[];          // Budget and Latest Forecast records of the plan
+  opportunities: RiskOpportunity[];    // The plan's R&O items, in-budget flag included
 }
 
 export type ForecastMethodType =
@@ -57,7 +174,27 @@ export type ForecastMethodType =
   | 'Trend'             // Linear regression or CAGR based on history
   | 'GrowthYearOverYear' // Simple % increase over same period last year
   | 'PercentOfRevenue'  // Linked to total revenue (Standard for COGS/OpEx)
-  | 'CustomFormula';    // Arithmetic expression using other accounts
+  | 'CustomFormula'     // Arithmetic expression using other accounts
+  | 'SeasonalNaive'     // Repeats the same month of the last season
+  | 'MovingAverage'     // Flat projection of the trailing N-month average
+  | 'HoltWinters'       // Triple exponential smoothing (level, trend, season)
+  | 'Spread';           // Annual / quarterly target spread to months
+
+export type SpreadMethod = 'Even' | 'PriorYear' | 'Profile' | 'Custom';
+
+// Named monthly seasonality curve used to spread annual / quarterly targets
+export interface SeasonalityProfile {
+  id: string;
+  name: string;
+  weights: number[]; // 12 relative weights, January first
+}
+
+export interface ParameterDistribution {
+  type: 'Normal' | 'Uniform' | 'Triangular';
+  stdDev?: number; // Normal
+  min?: number;    // Uniform / Triangular
+  max?: number;    // Uniform / Triangular
+}
 
 export interface ForecastAssumption {
   id: string;
@@ -77,6 +214,25 @@ export interface ForecastAssumption {
     fallbackValue?: number;    // Default if calculation fails
     formula?: string;          // For CustomFormula (e.g., "{REV_SUB} * 0.10 + 5000")
     manualValues?: Record<string, number>; // Map of 'YYYY-MM' -> amount
+
+    // Fitted statistical parameters, stored so the assumption regenerates identically
+    seasonLength?: number;     // SeasonalNaive / HoltWinters (default 12)
+    windowSize?: number;       // MovingAverage
+    alpha?: number;            // HoltWinters level smoothing
+    beta?: number;             // HoltWinters trend smoothing
+    gamma?: number;            // HoltWinters seasonal smoothing
+
+    // Uncertainty used by the Monte Carlo simulation; the point value above is the mean / mode
+    growthRateDistribution?: ParameterDistribution;
+    percentOfRevenueDistribution?: ParameterDistribution;
+
+    // Spread: top-down targets distributed to months (and optionally across a dimension)
+    spreadBasis?: 'Annual' | 'Quarterly';
+    spreadTargets?: Record<string, number>; // 'YYYY' or 'YYYY-Qn' -> amount
+    spreadMethod?: SpreadMethod;
+    spreadProfileId?: string;               // For 'Profile'
+    spreadCurve?: number[];                 // For 'Custom': 12 weights, January first
+    spreadDimension?: 'None' | 'ProductLine' | 'CostCenter'; // Split by prior-year mix
   };
 
   // Metadata
@@ -84,13 +240,111 @@ export interface ForecastAssumption {
   backtestAccuracy?: number; // 0-100 score based on historical fit
 }
 
+export interface HeadcountPosition {
+  id: string;
+  planId?: string; // Undefined = existing employee (shared by all plans); set = planned hire in that plan
+  name: string;    // Employee name or requisition title
+  title?: string;
+  costCenterCode: string;
+  productLineCode?: string; // Product line the role works on; drives headcount-based allocations
+  startDate: string; // YYYY-MM (first month paid)
+  endDate?: string;  // YYYY-MM (last month paid); open-ended if missing
+  baseSalary: number; // Annual, as of plan start (existing) or hire date (planned)
+  fte: number;        // 1 = full time
+}
+
+export interface CompensationSettings {
+  planId: string;
+  meritMonth: number;     // 1-12, month merit increases take effect each year
+  meritRate: number;      // e.g. 0.03 for 3%
+  benefitsRate: number;   // Burden as % of salary
+  payrollTaxRate: number; // Burden as % of salary
+  bonusRate: number;      // Target bonus as % of salary, accrued monthly
+
+  // P&L accounts the generated compensation posts to
+  salaryAccountCode: string;
+  burdenAccountCode: string;
+  bonusAccountCode: string;
+}
+
+export type DepreciationMethod = 'StraightLine' | 'DecliningBalance';
+
+export interface FixedAsset {
+  id: string;
+  planId?: string;       // Undefined = existing asset (shared by all plans); set = planned CapEx in that plan
+  name: string;
+  assetClass: string;
+  costCenterCode: string;
+  inServiceDate: string; // YYYY-MM, month of purchase; depreciation starts this month
+  cost: number;
+  salvageValue?: number;
+  usefulLifeMonths: number;
+  method: DepreciationMethod;
+  decliningRate?: number; // DecliningBalance: multiple of the straight-line rate (2 = double declining)
+}
+
+export interface FixedAssetSettings {
+  planId: string;
+  // Accounts the register posts to; it replaces any other plan records on them
+  depreciationAccountCode: string;
+  capexAccountCode: string;
+}
+
+// Drivers of the derived balance sheet, in days of the month's flow (30-day month)
+export interface WorkingCapitalSettings {
+  planId: string;
+  dso: number;          // Days sales outstanding: AR = revenue x DSO / 30
+  dpo: number;          // Days payable outstanding: AP = (COGS + OpEx) x DPO / 30
+  deferralDays: number; // Billed in advance: deferred revenue = revenue x days / 30
+}
+
+// Monthly ARR movements; rates are a share of the month's opening ARR
+export interface ArrDriverInputs {
+  newBookings: number;     // New-logo ARR booked in the month
+  expansionRate: number;   // e.g. 0.01 for 1% of opening ARR
+  contractionRate: number;
+  churnRate: number;       // Also applied to the customer count (logo churn)
+}
+
+// ARR waterfall for one product line of a plan; generates its subscription revenue
+export interface ArrModel {
+  id: string;
+  planId: string;
+  productLineCode: string;
+  revenueAccountCode: string;  // Usually REV_SUB
+  startingArr: number;         // ARR entering the first plan month
+  startingCustomers: number;
+  averageNewAcv: number;       // New ARR per new customer, for customer counts
+  defaults: ArrDriverInputs;
+  overrides?: Record<string, Partial<ArrDriverInputs>>; // 'YYYY-MM' -> month-specific values
+}
+
+export type AllocationDriver = 'RevenueShare' | 'Headcount' | 'FixedPercent' | 'StatisticalAccount';
+
+// Moves shared cost (posted to cost centers without a product line) onto product lines
+export interface AllocationRule {
+  id: string;
+  name: string;
+  isActive: boolean;
+  sourceAccountCodes: string[];
+  sourceCostCenterCodes: string[]; // Empty = every cost center
+  driver: AllocationDriver;
+  targetProductLineCodes: string[];
+  fixedPercentages?: Record<string, number>; // FixedPercent: product line -> share (0.25 = 25%)
+  statisticalAccountCode?: string;           // StatisticalAccount: account whose values by product line set the mix
+}
+
 export interface RiskOpportunity {
   id: string;
   planId: string; // Linked to a specific Plan
+  overridesItemId?: string; // Scenario copy replacing this inherited item of the parent plan
   title: string;
   description: string;
   type: 'Risk' | 'Opportunity';
-  estimatedImpact: number; // Total impact over duration
+  estimatedImpact: number; // Total impact over duration (most likely value)
+  impactLow?: number;      // Simulation range; defaults to estimatedImpact
+  impactHigh?: number;
+  probability?: number;    // 0-1 chance of occurring; defaults to 1 if included in budget, else 0
   status: 'Identified' | 'In Progress' | 'Completed' | 'Discarded';
   owner: string;
   includedInBudget: boolean;
@@ -118,5 +372,23 @@ export const INITIAL_DATA: AppData = {
   opportunities: [],
   plans: [],
   assumptions: [],
+  headcount: [],
+  compensationSettings: [],
+  seasonalityProfiles: [],
+  allocationRules: [],
+  arrModels: [],
+  fixedAssets: [],
+  fixedAssetSettings: [],
+  workingCapitalSettings: [],
+  reportingCurrency: 'USD',
+  fxRates: [],
+  fiscalCalendar: { startMonth: 1 },
+  snapshots: [],
+  approvalReviewers: [],
+  approvalEvents: [],
+  closedPeriods: [],
+  restatements: [],
+  importProfiles: [],
+  dataVersion: 3,
   lastModified: new Date().toISOString()
 };
\ No newline at end of file
@@ -0,0 +1,443 @@
+import React, { useState, useMemo } from 'react';
+import { AppData, ArrDriverInputs, ArrModel } from '../types';
+import { Card } from '../components/ui/Card';
+import { Repeat, Calculator, AlertTriangle } from 'lucide-react';
+import { ResponsiveContainer, ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { AccountCategory } from '../services/financialModel';
+import { SAAS_BENCHMARKS } from '../services/benchmarks';
+import {
+  DEFAULT_ARR_INPUTS,
+  calculateArrBridge,
+  calculateMagicNumber,
+  combineArrBridges,
+  estimateStartingArr
+} from '../services/arrService';
+import { describeCycle } from '../services/recalcEngine';
+import { recalculatePlanFigures } from '../services/rollingForecastService';
+
+interface ArrModelViewProps {
+  data: AppData;
+  onUpdate: (newData: AppData) => void;
+}
+
+const DRIVER_FIELDS: { field: keyof ArrDriverInputs; label: string; isRate: boolean }[] = [
+  { field: 'newBookings', label: 'New Bookings ($ ARR)', isRate: false },
+  { field: 'expansionRate', label: 'Expansion %', isRate: true },
+  { field: 'contractionRate', label: 'Contraction %', isRate: true },
+  { field: 'churnRate', label: 'Churn %', isRate: true }
+];
+
+const ALL = 'All';
+
+const compact = (v: number) => `$${(v / 1000).toLocaleString(undefined, { maximumFractionDigits: 0 })}k`;
+
+export const ArrModelView: React.FC<ArrModelViewProps> = ({ data, onUpdate }) => {
+  const [activePlanId, setActivePlanId] = useState<string>(() => {
+    const working = data.plans.find(p => p.isWorkingPlan);
+    return working ? working.id : (data.plans[0]?.id || '');
+  });
+  const [selectedProductLine, setSelectedProductLine] = useState<string>(ALL);
+  const [salesCostCenters, setSalesCostCenters] = useState<string[]>(() =>
+    data.costCenters.filter(cc => /sales|marketing/i.test(cc.name)).map(cc => cc.code)
+  );
+
+  const activePlan = data.plans.find(p => p.id === activePlanId);
+  const planModels = useMemo(() => data.arrModels.filter(m => m.planId === activePlanId), [data.arrModels, activePlanId]);
+  const model = planModels.find(m => m.productLineCode === selectedProductLine);
+
+  const bridge = useMemo(() => {
+    if (!activePlan) return [];
+    if (selectedProductLine === ALL) return combineArrBridges(planModels.map(m => calculateArrBridge(m, activePlan)));
+    return model ? calculateArrBridge(model, activePlan) : [];
+  }, [activePlan, planModels, model, selectedProductLine]);
+
+  const magicNumbers = useMemo(
+    () => calculateMagicNumber(bridge, activePlanId, data, salesCostCenters),
+    [bridge, activePlanId, data.records, data.accounts, salesCostCenters]
+  );
+  const magicBenchmark = SAAS_BENCHMARKS.metrics.find(m => m.name === 'Magic Number');
+
+  // Assumptions on a modelled revenue line would be added on top of the generated revenue
+  const conflictingAssumptions = useMemo(() => data.assumptions.filter(a =>
+    a.planId === activePlanId && planModels.some(m =>
+      a.accountCode === m.revenueAccountCode && (!a.productLineCode || a.productLineCode === m.productLineCode)
+    )
+  ), [data.assumptions, planModels, activePlanId]);
+
+  const plName = (code: string) => data.productLines.find(p => p.code === code)?.name || code;
+
+  // Rolling plans only re-forecast, so the Budget they started from is kept
+  const applyRecalculation = (nextData: AppData) => {
+    const result = recalculatePlanFigures(activePlanId, nextData);
+    if (result.cycles.length > 0) {
+      alert(`Circular reference detected. Nothing was generated:\n${result.cycles.map(c => describeCycle(c, nextData)).join('\n')}`);
+      return;
+    }
+    onUpdate(result.data);
+  };
+
+  const handleEnable = () => {
+    if (!activePlan) return;
+    const revenueAccountCode = data.accounts.find(a => a.code === 'REV_SUB')?.code
+      || data.accounts.find(a => a.category === AccountCategory.REVENUE)?.code
+      || '';
+    const next: ArrModel = {
+      id: crypto.randomUUID(),
+      planId: activePlanId,
+      productLineCode: selectedProductLine,
+      revenueAccountCode,
+      startingArr: estimateStartingArr({ productLineCode: selectedProductLine, revenueAccountCode }, activePlan, data),
+      startingCustomers: 0,
+      averageNewAcv: 50000,
+      defaults: { ...DEFAULT_ARR_INPUTS }
+    };
+    onUpdate({ ...data, arrModels: [...data.arrModels, next] });
+  };
+
+  const handleDisable = () => {
+    if (!model) return;
+    if (!confirm(`Remove the ARR model for ${plName(model.productLineCode)}? Its generated revenue is removed on the next recalculation.`)) return;
+    applyRecalculation({ ...data, arrModels: data.arrModels.filter(m => m.id !== model.id) });
+  };
+
+  const updateModel = (changes: Partial<ArrModel>) => {
+    if (!model) return;
+    onUpdate({ ...data, arrModels: data.arrModels.map(m => m.id === model.id ? { ...m, ...changes } : m) });
+  };
+
+  const updateOverride = (period: string, field: keyof ArrDriverInputs, raw: string) => {
+    if (!model) return;
+    const current = { ...(model.overrides?.[period] || {}) };
+    if (raw === '') delete current[field];
+    else current[field] = Number(raw);
+    const overrides = { ...(model.overrides || {}) };
+    if (Object.keys(current).length > 0) overrides[period] = current;
+    else delete overrides[period];
+    updateModel({ overrides });
+  };
+
+  const toDisplay = (value: number, isRate: boolean) => isRate ? Math.round(value * 100000) / 1000 : value;
+  const fromDisplay = (value: string, isRate: boolean) => value === '' ? '' : String(isRate ? Number(value) / 100 : Number(value));
+
+  if (data.plans.length === 0) {
+    return (
+      <div className="text-center py-20 text-slate-500">
+        Create a plan in Settings before building an ARR model.
+      </div>
+    );
+  }
+
+  const last = bridge[bridge.length - 1];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Repeat className="text-purple-600" size={24} />
+            ARR Model
+          </h2>
+          <p className="text-sm text-slate-500">Build subscription revenue from an ARR waterfall per product line.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            className="border border-slate-300 rounded-md px-3 py-2 text-sm bg-white"
+            value={activePlanId}
+            onChange={e => setActivePlanId(e.target.value)}
+          >
+            {data.plans.map(p => (
+              <option key={p.id} value={p.id}>
+                {p.name} {p.isWorkingPlan ? '(Working)' : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => applyRecalculation(data)}
+            disabled={planModels.length === 0 || activePlan?.isLocked}
+            title="Regenerate ARR revenue and every assumption of the plan"
+            className="bg-purple-600 text-white px-4 py-2 rounded-lg shadow hover:bg-purple-700 flex items-center gap-2 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Calculator size={16} /> Generate Revenue
+          </button>
+        </div>
+      </div>
+
+      {conflictingAssumptions.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-lg p-3 flex items-start gap-2">
+          <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+          <span>
+            {conflictingAssumptions.length} forecast assumption(s) in this plan also target a modelled revenue line.
+            Their values are added on top of the ARR revenue; remove them in the Forecast workbench to avoid double counting.
+          </span>
+        </div>
+      )}
+
+      <div className="flex border-b border-slate-200 overflow-x-auto">
+        {[ALL, ...data.productLines.map(pl => pl.code)].map(code => (
+          <button
+            key={code}
+            onClick={() => setSelectedProductLine(code)}
+            className={`px-4 py-2 text-sm font-medium whitespace-nowrap transition-colors ${selectedProductLine === code ? 'border-b-2 border-purple-600 text-purple-800' : 'text-slate-500 hover:text-slate-700'}`}
+          >
+            {code === ALL ? 'All Product Lines' : plName(code)}
+            {code !== ALL && planModels.some(m => m.productLineCode === code) && <span className="ml-1 text-purple-500">•</span>}
+          </button>
+        ))}
+      </div>
+
+      {selectedProductLine !== ALL && (
+        <Card
+          title={`Drivers: ${plName(selectedProductLine)}`}
+          action={model && (
+            <button onClick={handleDisable} disabled={activePlan?.isLocked} className="text-xs text-slate-500 hover:text-red-600 disabled:opacity-50">Remove Model</button>
+          )}
+        >
+          {!model ? (
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-slate-500">No ARR model for this product line. Creating one replaces the plan's revenue on this line with ARR-driven revenue.</p>
+              <button
+                onClick={handleEnable}
+                disabled={activePlan?.isLocked}
+                className="px-4 py-2 bg-slate-800 text-white rounded-md text-sm hover:bg-slate-900 disabled:opacity-50"
+              >
+                Create ARR Model
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-xs font-semibold text-slate-500 mb-1">Starting ARR</label>
+                  <div className="flex gap-1">
+                    <input
+                      type="number"
+                      className="w-full border rounded p-2 text-sm"
+                      value={model.startingArr}
+                      onChange={e => updateModel({ startingArr: Number(e.target.value) })}
+                    />
+                    <button
+                      onClick={() => activePlan && updateModel({ startingArr: estimateStartingArr(model, activePlan, data) })}
+                      title="Last actual month's revenue x 12"
+                      className="text-xs text-purple-700 hover:text-purple-900 px-2 whitespace-nowrap"
+                    >
+                      From actuals
+                    </button>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-slate-500 mb-1">Starting Customers</label>
+                  <input
+                    type="number"
+                    className="w-full border rounded p-2 text-sm"
+                    value={model.startingCustomers}
+                    onChange={e => updateModel({ startingCustomers: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-slate-500 mb-1">Average New ACV</label>
+                  <input
+                    type="number"
+                    className="w-full border rounded p-2 text-sm"
+                    value={model.averageNewAcv}
+                    onChange={e => updateModel({ averageNewAcv: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-slate-500 mb-1">Revenue Account</label>
+                  <select
+                    className="w-full border rounded p-2 text-sm"
+                    value={model.revenueAccountCode}
+                    onChange={e => updateModel({ revenueAccountCode: e.target.value })}
+                  >
+                    {data.accounts.filter(a => a.category === AccountCategory.REVENUE).map(a => (
+                      <option key={a.code} value={a.code}>{a.name}</option>
+                    ))}
+                  </select>
+                </div>
+                {DRIVER_FIELDS.map(({ field, label, isRate }) => (
+                  <div key={field}>
+                    <label className="block text-xs font-semibold text-slate-500 mb-1">{label} / month</label>
+                    <input
+                      type="number"
+                      step={isRate ? '0.1' : '1000'}
+                      className="w-full border rounded p-2 text-sm"
+                      value={toDisplay(model.defaults[field], isRate)}
+                      onChange={e => updateModel({ defaults: { ...model.defaults, [field]: Number(fromDisplay(e.target.value, isRate) || 0) } })}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <h4 className="text-xs font-semibold text-slate-500 mb-2">Monthly Overrides <span className="font-normal text-slate-400">(blank = default)</span></h4>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="border-b border-slate-200 text-slate-500">
+                        <th className="py-2 pr-3 text-left sticky left-0 bg-white">Driver</th>
+                        {bridge.map(row => <th key={row.period} className="py-2 px-1 text-right font-medium">{row.period}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {DRIVER_FIELDS.map(({ field, label, isRate }) => (
+                        <tr key={field} className="border-b border-slate-50">
+                          <td className="py-1 pr-3 sticky left-0 bg-white text-slate-700 whitespace-nowrap">{label}</td>
+                          {bridge.map(row => {
+                            const override = model.overrides?.[row.period]?.[field];
+                            return (
+                              <td key={row.period} className="py-1 px-1">
+                                <input
+                                  type="number"
+                                  className={`w-20 border rounded p-1 text-right ${override !== undefined ? 'border-purple-300 bg-purple-50' : 'border-slate-200'}`}
+                                  placeholder={String(toDisplay(model.defaults[field], isRate))}
+                                  value={override === undefined ? '' : toDisplay(override, isRate)}
+                                  onChange={e => updateOverride(row.period, field, fromDisplay(e.target.value, isRate))}
+                                />
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
+        </Card>
+      )}
+
+      {bridge.length === 0 ? (
+        selectedProductLine === ALL && (
+          <p className="text-sm text-slate-400 text-center py-10">No ARR models in this plan yet. Pick a product line to create one.</p>
+        )
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Ending ARR', value: compact(last.closingArr) },
+              { label: 'Net New ARR', value: compact(last.closingArr - bridge[0].openingArr) },
+              { label: 'Ending Customers', value: Math.round(last.closingCustomers).toLocaleString() },
+              { label: 'ARR per Customer', value: last.closingCustomers > 0 ? compact(last.closingArr / last.closingCustomers) : '-' }
+            ].map(kpi => (
+              <Card key={kpi.label}>
+                <p className="text-xs font-semibold uppercase text-slate-400">{kpi.label}</p>
+                <p className="text-2xl font-bold text-slate-800 mt-1">{kpi.value}</p>
+              </Card>
+            ))}
+          </div>
+
+          <Card title="ARR Bridge">
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={bridge.map(row => ({
+                  period: row.period,
+                  New: row.newArr,
+                  Expansion: row.expansion,
+                  Contraction: -row.contraction,
+                  Churn: -row.churn,
+                  'Ending ARR': row.closingArr
+                }))}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="period" tick={{ fontSize: 11 }} />
+                  <YAxis yAxisId="flow" tickFormatter={compact} tick={{ fontSize: 11 }} />
+                  <YAxis yAxisId="arr" orientation="right" tickFormatter={compact} tick={{ fontSize: 11 }} />
+                  <Tooltip formatter={(v: number) => compact(v)} />
+                  <Legend />
+                  <Bar yAxisId="flow" dataKey="New" stackId="flow" fill="#7c3aed" />
+                  <Bar yAxisId="flow" dataKey="Expansion" stackId="flow" fill="#a78bfa" />
+                  <Bar yAxisId="flow" dataKey="Contraction" stackId="flow" fill="#fbbf24" />
+                  <Bar yAxisId="flow" dataKey="Churn" stackId="flow" fill="#f87171" />
+                  <Line yAxisId="arr" type="monotone" dataKey="Ending ARR" stroke="#0f172a" strokeWidth={2} dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="overflow-x-auto mt-6">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-slate-200 text-slate-500">
+                    <th className="py-2 pr-3 text-left sticky left-0 bg-white">Bridge</th>
+                    {bridge.map(row => <th key={row.period} className="py-2 px-2 text-right font-medium">{row.period}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {([
+                    ['Opening ARR', r => compact(r.openingArr), ''],
+                    ['+ New', r => compact(r.newArr), 'text-emerald-700'],
+                    ['+ Expansion', r => compact(r.expansion), 'text-emerald-700'],
+                    ['- Contraction', r => compact(r.contraction), 'text-amber-700'],
+                    ['- Churn', r => compact(r.churn), 'text-red-600'],
+                    ['Ending ARR', r => compact(r.closingArr), 'font-semibold border-t border-slate-200'],
+                    ['Customers', r => Math.round(r.closingCustomers).toLocaleString(), 'text-slate-600'],
+                    ['Recognized Revenue', r => compact(r.revenue), 'font-semibold text-purple-800']
+                  ] as [string, (r: typeof bridge[number]) => string, string][]).map(([label, render, className]) => (
+                    <tr key={label} className={`border-b border-slate-50 ${className}`}>
+                      <td className="py-1.5 pr-3 sticky left-0 bg-white whitespace-nowrap">{label}</td>
+                      {bridge.map(row => <td key={row.period} className="py-1.5 px-2 text-right">{render(row)}</td>)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+
+          <Card title="Magic Number">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 mb-1">S&M Cost Centers</label>
+                <div className="border rounded divide-y divide-slate-50">
+                  {data.costCenters.map(cc => (
+                    <label key={cc.code} className="flex items-center gap-2 px-2 py-1 text-xs text-slate-700">
+                      <input
+                        type="checkbox"
+                        className="rounded text-purple-600"
+                        checked={salesCostCenters.includes(cc.code)}
+                        onChange={() => setSalesCostCenters(salesCostCenters.includes(cc.code)
+                          ? salesCostCenters.filter(c => c !== cc.code)
+                          : [...salesCostCenters, cc.code])}
+                      />
+                      {cc.name}
+                    </label>
+                  ))}
+                </div>
+                {magicBenchmark && (
+                  <p className="text-[10px] text-slate-400 mt-2">
+                    {magicBenchmark.description}. Benchmark: top quartile {magicBenchmark.topQuartile}, median {magicBenchmark.median}.
+                  </p>
+                )}
+              </div>
+              <div className="md:col-span-2">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-slate-500 border-b">
+                      <th className="py-1">Quarter</th>
+                      <th className="py-1 text-right">Net New ARR</th>
+                      <th className="py-1 text-right">Prior Q S&M</th>
+                      <th className="py-1 text-right">Magic Number</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {magicNumbers.map(row => (
+                      <tr key={row.quarter} className="border-b border-slate-50">
+                        <td className="py-1 text-slate-700">{row.quarter}</td>
+                        <td className="py-1 text-right">{compact(row.netNewArr)}</td>
+                        <td className="py-1 text-right text-slate-500">{compact(row.priorSalesSpend)}</td>
+                        <td className={`py-1 text-right font-semibold ${row.magicNumber === null ? 'text-slate-400'
+                          : magicBenchmark && row.magicNumber >= magicBenchmark.topQuartile ? 'text-emerald-700'
+                          : magicBenchmark && row.magicNumber < magicBenchmark.bottomQuartile ? 'text-red-600'
+                          : 'text-slate-800'}`}>
+                          {row.magicNumber === null ? '-' : row.magicNumber.toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,65 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { AppData, RecordType } from '../types';
 import { Card } from '../components/ui/Card';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line } from 'recharts';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line, ComposedChart, Area } from 'recharts';
+import { Dices } from 'lucide-react';
 import { calculatePnL } from '../services/financialModel';
+import {
+  SimulationMetric,
+  SimulationResult,
+  SIMULATION_METRICS,
+  DEFAULT_SIMULATION_ITERATIONS,
+  buildHistogram,
+  percentile
+} from '../services/simulationService';
+import { runSimulationInWorker } from '../services/simulationClient';
 
 interface DashboardProps {
   data: AppData;
 }
 
 export const Dashboard: React.FC<DashboardProps> = ({ data }) => {
-  
+  const [simPlanId, setSimPlanId] = useState<string>(() => data.plans.find(p => p.isWorkingPlan)?.id || data.plans[0]?.id || '');
+  const [simIterations, setSimIterations] = useState<number>(DEFAULT_SIMULATION_ITERATIONS);
+  const [simMetric, setSimMetric] = useState<SimulationMetric>('ebitda');
+  const [simProgress, setSimProgress] = useState<number | null>(null);
+  const [simResult, setSimResult] = useState<SimulationResult | null>(null);
+
+  const handleRunSimulation = async () => {
+    if (!simPlanId) return;
+    setSimProgress(0);
+    try {
+      const result = await runSimulationInWorker(data, { planId: simPlanId, iterations: simIterations }, setSimProgress);
+      setSimResult(result);
+    } catch (err) {
+      alert(`Simulation failed: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setSimProgress(null);
+    }
+  };
+
+  const simCharts = useMemo(() => {
+    if (!simResult) return null;
+    const fan = simResult.periods[simMetric].map(b => ({ period: b.period, range: [b.p10, b.p90], P50: b.p50 }));
+    const totals = simResult.totals[simMetric];
+    const histogram = buildHistogram(totals).map(b => ({ label: `${(b.from / 1000).toFixed(0)}k`, count: b.count }));
+    return {
+      fan,
+      histogram,
+      p10: percentile(totals, 0.1),
+      p50: percentile(totals, 0.5),
+      p90: percentile(totals, 0.9)
+    };
+  }, [simResult, simMetric]);
+
   const metrics = useMemo(() => {
+    // Budget is the working plan's; summing every plan would count each scenario again
+    const workingPlanId = data.plans.find(p => p.isWorkingPlan)?.id || data.plans[0]?.id;
+    const records = data.records.filter(r => r.type !== RecordType.BUDGET || r.planId === workingPlanId);
+
     // We pass the full accounts list to the PnL calculator now
-    const budgetPnl = calculatePnL(data.records, data.accounts, RecordType.BUDGET);
-    const actualPnl = calculatePnL(data.records, data.accounts, RecordType.ACTUAL);
+    const budgetPnl = calculatePnL(records, data.accounts, RecordType.BUDGET);
+    const actualPnl = calculatePnL(records, data.accounts, RecordType.ACTUAL);
     
     const kpiData = [
        { label: 'Revenue', budget: budgetPnl.revenue, actual: actualPnl.revenue, format: 'currency' },
@@ -23,9 +69,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ data }) => {
     ];
     
     // Aggregation for charts
-    const periods = Array.from(new Set(data.records.map(r => r.period))).sort();
+    const periods = Array.from(new Set(records.map(r => r.period))).sort();
     const chartData = periods.map(p => {
-        const periodRecords = data.records.filter(r => r.period === p);
+        const periodRecords = records.filter(r => r.period === p);
         const b = calculatePnL(periodRecords, data.accounts, RecordType.BUDGET);
         const a = calculatePnL(periodRecords, data.accounts, RecordType.ACTUAL);
         return {
@@ -38,7 +84,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ data }) => {
     });
 
     return { kpiData, chartData, budgetPnl, actualPnl };
-  }, [data.records, data.accounts]);
+  }, [data.records, data.accounts, data.plans]);
 
   const formatCurrency = (val: number) => 
     new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
@@ -102,6 +148,88 @@ export const Dashboard: React.FC<DashboardProps> = ({ data }) => {
           </div>
         </Card>
       </div>
+
+      <Card
+        title="Outlook Simulation"
+        action={
+          <div className="flex items-center gap-2">
+            <select
+              className="border border-slate-300 rounded-md px-2 py-1 text-sm bg-white"
+              value={simPlanId}
+              onChange={e => { setSimPlanId(e.target.value); setSimResult(null); }}
+            >
+              {data.plans.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <select
+              className="border border-slate-300 rounded-md px-2 py-1 text-sm bg-white"
+              value={simIterations}
+              onChange={e => setSimIterations(Number(e.target.value))}
+            >
+              {[1000, 2000, 5000, 10000].map(n => <option key={n} value={n}>{n.toLocaleString()} runs</option>)}
+            </select>
+            <button
+              onClick={handleRunSimulation}
+              disabled={!simPlanId || simProgress !== null}
+              className="flex items-center gap-1 px-3 py-1 bg-purple-600 text-white rounded-md text-sm hover:bg-purple-700 disabled:opacity-50"
+            >
+              <Dices size={14} />
+              {simProgress !== null ? `Running ${Math.round((simProgress / simIterations) * 100)}%` : 'Run'}
+            </button>
+          </div>
+        }
+      >
+        {!simCharts ? (
+          <p className="text-sm text-slate-500 text-center py-8">
+            Samples Risks & Opportunities by probability and impact range, and assumption growth / % of revenue by their distributions.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              {SIMULATION_METRICS.map(m => (
+                <button
+                  key={m.key}
+                  onClick={() => setSimMetric(m.key)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium ${simMetric === m.key ? 'bg-purple-100 text-purple-800' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                >
+                  {m.label}
+                </button>
+              ))}
+              <div className="ml-auto flex gap-4 text-xs text-slate-600">
+                <span>P10 <b>{formatCurrency(simCharts.p10)}</b></span>
+                <span>P50 <b>{formatCurrency(simCharts.p50)}</b></span>
+                <span>P90 <b>{formatCurrency(simCharts.p90)}</b></span>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="h-64 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={simCharts.fan}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="period" />
+                    <YAxis />
+                    <Tooltip formatter={(value: number | number[]) => Array.isArray(value) ? `${formatCurrency(value[0])} – ${formatCurrency(value[1])}` : formatCurrency(value)} />
+                    <Legend />
+                    <Area type="monotone" dataKey="range" stroke="none" fill="#c4b5fd" fillOpacity={0.5} name="P10–P90" />
+                    <Line type="monotone" dataKey="P50" stroke="#7e22ce" strokeWidth={2} dot={false} name="P50" />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="h-64 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={simCharts.histogram}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="label" interval={3} />
+                    <YAxis />
+                    <Tooltip formatter={(value: number) => [`${value} runs`, 'Full-horizon outcome']} />
+                    <Bar dataKey="count" fill="#7e22ce" radius={[2, 2, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+            <p className="text-xs text-slate-400">{simResult?.iterations.toLocaleString()} iterations. Left: monthly P10–P90 range. Right: distribution of the plan-horizon total.</p>
+          </div>
+        )}
+      </Card>
     </div>
   );
 };
\ No newline at end of file
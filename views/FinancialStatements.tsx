@@ -0,0 +1,225 @@
+import React, { useState, useMemo } from 'react';
+import { AppData, RecordType, WorkingCapitalSettings } from '../types';
+import { Card } from '../components/ui/Card';
+import { Scale, AlertTriangle, CheckCircle2, Wand2 } from 'lucide-react';
+import {
+  BalanceSheet,
+  ThreeStatementRow,
+  buildThreeStatements,
+  estimateWorkingCapitalDrivers,
+  getStatementStart,
+  getWorkingCapitalSettings
+} from '../services/threeStatementService';
+import { addMonths } from '../services/periodUtils';
+
+interface FinancialStatementsProps {
+  data: AppData;
+  onUpdate: (newData: AppData) => void;
+}
+
+const DRIVER_FIELDS: { field: keyof Omit<WorkingCapitalSettings, 'planId'>; label: string; hint: string }[] = [
+  { field: 'dso', label: 'DSO (days)', hint: 'Receivables as days of revenue' },
+  { field: 'dpo', label: 'DPO (days)', hint: 'Payables as days of COGS + OpEx' },
+  { field: 'deferralDays', label: 'Deferral (days)', hint: 'Revenue billed in advance' }
+];
+
+// Statement lines: label, value per row, and styling
+interface StatementLine {
+  label: string;
+  value: (row: ThreeStatementRow) => number;
+  isTotal?: boolean;
+  indent?: boolean;
+}
+
+const balanceLine = (label: string, field: keyof BalanceSheet): StatementLine => ({
+  label,
+  value: row => row.balances[field],
+  indent: true
+});
+
+const BALANCE_SHEET_LINES: StatementLine[] = [
+  balanceLine('Cash', 'cash'),
+  balanceLine('Accounts Receivable', 'accountsReceivable'),
+  balanceLine('Fixed Assets, Net', 'fixedAssets'),
+  { label: 'Total Assets', value: row => row.totalAssets, isTotal: true },
+  balanceLine('Deferred Revenue', 'deferredRevenue'),
+  balanceLine('Accounts Payable', 'accountsPayable'),
+  balanceLine('Accrued Liabilities', 'accruedLiabilities'),
+  balanceLine('Equity', 'equity'),
+  { label: 'Total Liabilities & Equity', value: row => row.totalLiabilitiesAndEquity, isTotal: true }
+];
+
+const CASH_FLOW_LINES: StatementLine[] = [
+  { label: 'Net Income', value: row => row.netIncome, indent: true },
+  { label: 'Depreciation & Amortization', value: row => row.depreciation, indent: true },
+  { label: '(Increase) in Receivables', value: row => row.changeInReceivables, indent: true },
+  { label: 'Increase in Deferred Revenue', value: row => row.changeInDeferredRevenue, indent: true },
+  { label: 'Increase in Payables', value: row => row.changeInPayables, indent: true },
+  { label: 'Increase in Accrued Liabilities', value: row => row.changeInAccrued, indent: true },
+  { label: 'Operating Cash Flow', value: row => row.operatingCashFlow, isTotal: true },
+  { label: 'Capital Expenditures', value: row => -row.capex, indent: true },
+  { label: 'Investing Cash Flow', value: row => row.investingCashFlow, isTotal: true },
+  { label: 'Net Change in Cash (FCF)', value: row => row.netCashFlow, isTotal: true },
+  { label: 'Ending Cash', value: row => row.balances.cash }
+];
+
+const format = (v: number) => {
+  const rounded = Math.round(v / 1000);
+  if (rounded === 0) return '-';
+  return rounded < 0 ? `(${Math.abs(rounded).toLocaleString()})` : rounded.toLocaleString();
+};
+
+export const FinancialStatements: React.FC<FinancialStatementsProps> = ({ data, onUpdate }) => {
+  const [activePlanId, setActivePlanId] = useState<string>(() => {
+    const working = data.plans.find(p => p.isWorkingPlan);
+    return working ? working.id : (data.plans[0]?.id || '');
+  });
+  const activePlan = data.plans.find(p => p.id === activePlanId);
+  const hasForecast = useMemo(
+    () => data.records.some(r => r.planId === activePlanId && r.type === RecordType.FORECAST),
+    [data.records, activePlanId]
+  );
+  const [useForecast, setUseForecast] = useState(false);
+  const recordType = useForecast && hasForecast ? RecordType.FORECAST : RecordType.BUDGET;
+
+  const drivers = getWorkingCapitalSettings(activePlanId, data);
+  const statements = useMemo(
+    () => buildThreeStatements(activePlanId, data, recordType),
+    [activePlanId, data.records, data.accounts, data.plans, data.workingCapitalSettings, data.fixedAssetSettings, recordType]
+  );
+  const unbalanced = statements.filter(row => !row.isBalanced);
+  const openingPeriod = useMemo(() => {
+    const start = getStatementStart(activePlanId, data, recordType);
+    return start ? addMonths(start, -1) : '';
+  }, [activePlanId, data.records, data.plans, recordType]);
+
+  const saveDrivers = (next: WorkingCapitalSettings) => {
+    const others = data.workingCapitalSettings.filter(s => s.planId !== activePlanId);
+    onUpdate({ ...data, workingCapitalSettings: [...others, next] });
+  };
+
+  const handleEstimate = () => {
+    if (!openingPeriod) return;
+    if (!confirm(`Replace the drivers with the DSO, DPO and deferral days implied by the ${openingPeriod} actual balances?`)) return;
+    saveDrivers({ ...estimateWorkingCapitalDrivers(openingPeriod, data), planId: activePlanId });
+  };
+
+  const renderStatement = (title: string, lines: StatementLine[]) => (
+    <Card title={title}>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-slate-200 text-slate-500">
+              <th className="py-2 pr-3 text-left sticky left-0 bg-white min-w-[200px]"></th>
+              {statements.map(row => <th key={row.period} className="py-2 px-2 text-right font-medium">{row.period}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map(line => (
+              <tr key={line.label} className={`border-b border-slate-50 ${line.isTotal ? 'font-semibold text-slate-800 bg-slate-50/50' : 'text-slate-600'}`}>
+                <td className={`py-1.5 pr-3 sticky left-0 bg-white ${line.indent ? 'pl-4' : ''}`}>{line.label}</td>
+                {statements.map(row => <td key={row.period} className="py-1.5 px-2 text-right font-mono">{format(line.value(row))}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+
+  if (data.plans.length === 0) {
+    return (
+      <div className="text-center py-20 text-slate-500">
+        Create a plan in Settings before deriving financial statements.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Scale className="text-purple-600" size={24} />
+            Financial Statements
+          </h2>
+          <p className="text-sm text-slate-500">Balance sheet and cash flow derived from the plan's P&L and working-capital drivers.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {hasForecast && (
+            <div className="flex bg-slate-100 rounded-lg p-1 text-sm">
+              <button onClick={() => setUseForecast(false)} className={`px-3 py-1 rounded-md ${!useForecast ? 'bg-white shadow text-slate-800' : 'text-slate-500'}`}>Budget</button>
+              <button onClick={() => setUseForecast(true)} className={`px-3 py-1 rounded-md ${useForecast ? 'bg-white shadow text-slate-800' : 'text-slate-500'}`}>Latest Forecast</button>
+            </div>
+          )}
+          <select
+            className="border border-slate-300 rounded-md px-3 py-2 text-sm bg-white"
+            value={activePlanId}
+            onChange={e => setActivePlanId(e.target.value)}
+          >
+            {data.plans.map(p => (
+              <option key={p.id} value={p.id}>
+                {p.name} {p.isWorkingPlan ? '(Working)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {statements.length > 0 && (
+        unbalanced.length === 0 ? (
+          <div className="bg-emerald-50 border border-emerald-200 text-emerald-800 text-sm rounded-lg p-3 flex items-center gap-2">
+            <CheckCircle2 size={16} className="shrink-0" />
+            <span>The balance sheet balances in every month.</span>
+          </div>
+        ) : (
+          <div className="bg-rose-50 border border-rose-200 text-rose-800 text-sm rounded-lg p-3 flex items-start gap-2">
+            <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+            <span>
+              Out of balance in {unbalanced.length} month(s): {unbalanced.map(row => `${row.period} (${Math.round(row.imbalance).toLocaleString()})`).join(', ')}.
+              Check that the {openingPeriod} actual balances have assets equal to liabilities plus equity.
+            </span>
+          </div>
+        )
+      )}
+
+      <Card
+        title="Working-Capital Drivers"
+        action={
+          <button
+            onClick={handleEstimate}
+            disabled={activePlan?.isLocked}
+            className="flex items-center gap-1 text-sm text-purple-700 hover:text-purple-900 font-medium disabled:opacity-50"
+            title="Derive the drivers from the opening actual balances"
+          >
+            <Wand2 size={14} /> Estimate from Actuals
+          </button>
+        }
+      >
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {DRIVER_FIELDS.map(({ field, label, hint }) => (
+            <div key={field}>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">{label}</label>
+              <input
+                type="number"
+                min="0"
+                disabled={activePlan?.isLocked}
+                className="w-full border rounded p-2 text-sm"
+                value={drivers[field]}
+                onChange={e => saveDrivers({ ...drivers, [field]: Math.max(0, Number(e.target.value)) })}
+              />
+              <p className="text-[10px] text-slate-400 mt-1">{hint}</p>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-slate-400 mt-4">
+          Opening balances are the {openingPeriod} actuals on the balance sheet accounts (Settings → Chart of Accounts).
+          Fixed assets roll forward with CapEx and depreciation; accrued liabilities are held flat. Amounts in $k.
+        </p>
+      </Card>
+
+      {statements.length > 0 && renderStatement('Balance Sheet', BALANCE_SHEET_LINES)}
+      {statements.length > 0 && renderStatement('Cash Flow Statement (Indirect)', CASH_FLOW_LINES)}
+    </div>
+  );
+};
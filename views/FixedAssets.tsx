@@ -0,0 +1,457 @@
+import React, { useState, useMemo } from 'react';
+import { AppData, DepreciationMethod, FixedAsset, FixedAssetSettings } from '../types';
+import { Card } from '../components/ui/Card';
+import { Building2, Plus, Trash2, Calculator, AlertTriangle } from 'lucide-react';
+import { SAAS_CATEGORIES } from '../services/financialModel';
+import {
+  ASSET_CLASSES,
+  DEFAULT_FIXED_ASSET_SETTINGS,
+  calculateNbvRollForward,
+  getPlanAssets
+} from '../services/fixedAssetService';
+import { describeCycle } from '../services/recalcEngine';
+import { recalculatePlanFigures } from '../services/rollingForecastService';
+
+interface FixedAssetsProps {
+  data: AppData;
+  onUpdate: (newData: AppData) => void;
+}
+
+const ACCOUNT_FIELDS: { field: keyof FixedAssetSettings; label: string }[] = [
+  { field: 'depreciationAccountCode', label: 'Depreciation Account' },
+  { field: 'capexAccountCode', label: 'CapEx Account' }
+];
+
+const METHOD_LABELS: Record<DepreciationMethod, string> = {
+  StraightLine: 'Straight-line',
+  DecliningBalance: 'Declining balance'
+};
+
+const emptyAsset = (): Partial<FixedAsset> => ({
+  assetClass: ASSET_CLASSES[0].name,
+  usefulLifeMonths: ASSET_CLASSES[0].usefulLifeMonths,
+  method: ASSET_CLASSES[0].method,
+  inServiceDate: new Date().toISOString().slice(0, 7)
+});
+
+const compact = (v: number) => `$${(v / 1000).toLocaleString(undefined, { maximumFractionDigits: 0 })}k`;
+
+export const FixedAssets: React.FC<FixedAssetsProps> = ({ data, onUpdate }) => {
+  const [activePlanId, setActivePlanId] = useState<string>(() => {
+    const working = data.plans.find(p => p.isWorkingPlan);
+    return working ? working.id : (data.plans[0]?.id || '');
+  });
+  const [isAdding, setIsAdding] = useState(false);
+  const [newRow, setNewRow] = useState<Partial<FixedAsset>>(emptyAsset());
+  const [newRowIsPlanned, setNewRowIsPlanned] = useState(true);
+
+  const activePlan = data.plans.find(p => p.id === activePlanId);
+  const settings = data.fixedAssetSettings.find(s => s.planId === activePlanId);
+  const register = useMemo(() => getPlanAssets(activePlanId, data), [activePlanId, data.fixedAssets]);
+  const rollForward = useMemo(() => calculateNbvRollForward(activePlanId, data), [activePlanId, data.fixedAssets, data.plans]);
+
+  // Assumptions on the register's accounts would be added on top of the generated depreciation / CapEx
+  const conflictingAssumptions = useMemo(() => {
+    if (!settings) return [];
+    const accounts = new Set([settings.depreciationAccountCode, settings.capexAccountCode]);
+    return data.assumptions.filter(a => a.planId === activePlanId && accounts.has(a.accountCode));
+  }, [data.assumptions, settings, activePlanId]);
+
+  // Rolling plans only re-forecast, so the Budget they started from is kept
+  const applyRecalculation = (nextData: AppData) => {
+    const result = recalculatePlanFigures(activePlanId, nextData);
+    if (result.cycles.length > 0) {
+      alert(`Circular reference detected. Nothing was generated:\n${result.cycles.map(c => describeCycle(c, nextData)).join('\n')}`);
+      return;
+    }
+    onUpdate(result.data);
+  };
+
+  const handleEnable = () => {
+    if (!confirm('Enable the fixed-asset register? On the next recalculation it replaces this plan\'s depreciation and CapEx records with values generated from the register.')) return;
+    const next: FixedAssetSettings = { ...DEFAULT_FIXED_ASSET_SETTINGS, planId: activePlanId };
+    onUpdate({ ...data, fixedAssetSettings: [...data.fixedAssetSettings, next] });
+  };
+
+  const handleDisable = () => {
+    if (!confirm('Disable the fixed-asset register for this plan? Generated depreciation and CapEx records will be removed.')) return;
+    applyRecalculation({ ...data, fixedAssetSettings: data.fixedAssetSettings.filter(s => s.planId !== activePlanId) });
+  };
+
+  const updateSettings = (field: keyof FixedAssetSettings, value: string) => {
+    const updated = data.fixedAssetSettings.map(s => s.planId === activePlanId ? { ...s, [field]: value } : s);
+    onUpdate({ ...data, fixedAssetSettings: updated });
+  };
+
+  // Picking a class prefills its usual life and method
+  const selectNewRowClass = (assetClass: string) => {
+    const defaults = ASSET_CLASSES.find(c => c.name === assetClass);
+    setNewRow({ ...newRow, assetClass, ...(defaults ? { usefulLifeMonths: defaults.usefulLifeMonths, method: defaults.method } : {}) });
+  };
+
+  const handleSave = () => {
+    if (!newRow.name || !newRow.costCenterCode || !newRow.inServiceDate || !newRow.cost || !newRow.usefulLifeMonths) {
+      alert("Please provide Name, Cost Center, In-Service Month, Cost and Useful Life.");
+      return;
+    }
+    if ((newRow.salvageValue || 0) > newRow.cost) {
+      alert("Salvage value cannot exceed cost.");
+      return;
+    }
+
+    const asset: FixedAsset = {
+      id: crypto.randomUUID(),
+      planId: newRowIsPlanned ? activePlanId : undefined,
+      name: newRow.name,
+      assetClass: newRow.assetClass || ASSET_CLASSES[0].name,
+      costCenterCode: newRow.costCenterCode,
+      inServiceDate: newRow.inServiceDate,
+      cost: Number(newRow.cost),
+      salvageValue: Number(newRow.salvageValue) || undefined,
+      usefulLifeMonths: Number(newRow.usefulLifeMonths),
+      method: newRow.method || 'StraightLine',
+      decliningRate: newRow.method === 'DecliningBalance' ? Number(newRow.decliningRate) || 2 : undefined
+    };
+
+    onUpdate({ ...data, fixedAssets: [...data.fixedAssets, asset] });
+    setIsAdding(false);
+    setNewRow(emptyAsset());
+  };
+
+  const updateAsset = (id: string, field: keyof FixedAsset, value: any) => {
+    const updated = data.fixedAssets.map(a => a.id === id ? { ...a, [field]: value } : a);
+    onUpdate({ ...data, fixedAssets: updated });
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm('Delete this asset?')) {
+      onUpdate({ ...data, fixedAssets: data.fixedAssets.filter(a => a.id !== id) });
+    }
+  };
+
+  const renderAccountOptions = () => (
+    <>
+      {SAAS_CATEGORIES.map(category => (
+        <optgroup key={category} label={category}>
+          {data.accounts.filter(a => a.category === category).map(acc => (
+            <option key={acc.code} value={acc.code}>{acc.name}</option>
+          ))}
+        </optgroup>
+      ))}
+    </>
+  );
+
+  if (data.plans.length === 0) {
+    return (
+      <div className="text-center py-20 text-slate-500">
+        Create a plan in Settings before building a CapEx plan.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Building2 className="text-purple-600" size={24} />
+            Fixed Assets & Depreciation
+          </h2>
+          <p className="text-sm text-slate-500">Plan CapEx and generate depreciation into the plan from an asset register.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            className="border border-slate-300 rounded-md px-3 py-2 text-sm bg-white"
+            value={activePlanId}
+            onChange={e => setActivePlanId(e.target.value)}
+          >
+            {data.plans.map(p => (
+              <option key={p.id} value={p.id}>
+                {p.name} {p.isWorkingPlan ? '(Working)' : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => applyRecalculation(data)}
+            disabled={!settings || activePlan?.isLocked}
+            title="Regenerate depreciation, CapEx and every assumption of the plan"
+            className="bg-purple-600 text-white px-4 py-2 rounded-lg shadow hover:bg-purple-700 flex items-center gap-2 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Calculator size={16} /> Generate Depreciation
+          </button>
+        </div>
+      </div>
+
+      {conflictingAssumptions.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-lg p-3 flex items-start gap-2">
+          <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+          <span>
+            {conflictingAssumptions.length} forecast assumption(s) in this plan also target the depreciation or CapEx account.
+            Their values are added on top of the register; remove them in the Forecast workbench to avoid double counting.
+          </span>
+        </div>
+      )}
+
+      <Card
+        title="Register Settings"
+        action={settings && (
+          <button onClick={handleDisable} className="text-xs text-slate-500 hover:text-red-600">Disable</button>
+        )}
+      >
+        {!settings ? (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-slate-500">The fixed-asset register is not enabled for this plan.</p>
+            <button
+              onClick={handleEnable}
+              disabled={activePlan?.isLocked}
+              className="px-4 py-2 bg-slate-800 text-white rounded-md text-sm hover:bg-slate-900 disabled:opacity-50"
+            >
+              Enable Fixed-Asset Register
+            </button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {ACCOUNT_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <label className="block text-xs font-semibold text-slate-500 mb-1">{label}</label>
+                <select
+                  className="w-full border rounded p-2 text-sm"
+                  value={settings[field]}
+                  onChange={e => updateSettings(field, e.target.value)}
+                >
+                  {renderAccountOptions()}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <Card
+        title={`Asset Register (${register.length})`}
+        action={
+          <button
+            onClick={() => setIsAdding(!isAdding)}
+            className="flex items-center gap-1 text-sm text-purple-700 hover:text-purple-900 font-medium"
+          >
+            <Plus size={16} /> Add Asset
+          </button>
+        }
+      >
+        {isAdding && (
+          <div className="grid grid-cols-2 md:grid-cols-8 gap-3 mb-6 p-4 bg-slate-50 rounded-lg border border-slate-200">
+            <div className="md:col-span-2">
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Name</label>
+              <input
+                className="w-full border rounded p-2 text-sm"
+                placeholder="e.g. Laptop refresh Q3"
+                value={newRow.name || ''}
+                onChange={e => setNewRow({ ...newRow, name: e.target.value })}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Asset Class</label>
+              <select
+                className="w-full border rounded p-2 text-sm"
+                value={newRow.assetClass || ''}
+                onChange={e => selectNewRowClass(e.target.value)}
+              >
+                {ASSET_CLASSES.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Cost Center</label>
+              <select
+                className="w-full border rounded p-2 text-sm"
+                value={newRow.costCenterCode || ''}
+                onChange={e => setNewRow({ ...newRow, costCenterCode: e.target.value })}
+              >
+                <option value="" disabled>Select...</option>
+                {data.costCenters.map(cc => <option key={cc.code} value={cc.code}>{cc.name}</option>)}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Scope</label>
+              <select
+                className="w-full border rounded p-2 text-sm"
+                value={newRowIsPlanned ? 'planned' : 'existing'}
+                onChange={e => setNewRowIsPlanned(e.target.value === 'planned')}
+              >
+                <option value="planned">Planned CapEx (this plan only)</option>
+                <option value="existing">Existing asset (all plans)</option>
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-semibold text-slate-500 mb-1">In-Service Month</label>
+              <input
+                type="month"
+                className="w-full border rounded p-2 text-sm"
+                value={newRow.inServiceDate || ''}
+                onChange={e => setNewRow({ ...newRow, inServiceDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Cost</label>
+              <input
+                type="number"
+                className="w-full border rounded p-2 text-sm"
+                value={newRow.cost || ''}
+                onChange={e => setNewRow({ ...newRow, cost: Number(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Salvage</label>
+              <input
+                type="number"
+                className="w-full border rounded p-2 text-sm"
+                value={newRow.salvageValue || ''}
+                onChange={e => setNewRow({ ...newRow, salvageValue: Number(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Life (Months)</label>
+              <input
+                type="number"
+                min="1"
+                className="w-full border rounded p-2 text-sm"
+                value={newRow.usefulLifeMonths || ''}
+                onChange={e => setNewRow({ ...newRow, usefulLifeMonths: Number(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Method</label>
+              <select
+                className="w-full border rounded p-2 text-sm"
+                value={newRow.method || 'StraightLine'}
+                onChange={e => setNewRow({ ...newRow, method: e.target.value as DepreciationMethod })}
+              >
+                {(Object.keys(METHOD_LABELS) as DepreciationMethod[]).map(m => <option key={m} value={m}>{METHOD_LABELS[m]}</option>)}
+              </select>
+            </div>
+            {newRow.method === 'DecliningBalance' && (
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 mb-1">Rate (x SL)</label>
+                <input
+                  type="number"
+                  step="0.25"
+                  min="1"
+                  className="w-full border rounded p-2 text-sm"
+                  value={newRow.decliningRate ?? 2}
+                  onChange={e => setNewRow({ ...newRow, decliningRate: Number(e.target.value) })}
+                />
+              </div>
+            )}
+            <div className="col-span-2 md:col-span-8 flex justify-end gap-3">
+              <button onClick={() => setIsAdding(false)} className="px-4 py-2 text-slate-500 hover:text-slate-800 text-sm">Cancel</button>
+              <button onClick={handleSave} className="px-6 py-2 bg-purple-600 text-white rounded-md shadow-sm hover:bg-purple-700 text-sm font-medium">Save Asset</button>
+            </div>
+          </div>
+        )}
+
+        {register.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-6">No assets yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase text-slate-500 border-b border-slate-200">
+                  <th className="py-2 pr-3">Name</th>
+                  <th className="py-2 pr-3">Class</th>
+                  <th className="py-2 pr-3">Cost Center</th>
+                  <th className="py-2 pr-3">In Service</th>
+                  <th className="py-2 pr-3 text-right">Cost</th>
+                  <th className="py-2 pr-3 text-right">Salvage</th>
+                  <th className="py-2 pr-3 text-right">Life (Mo)</th>
+                  <th className="py-2 pr-3">Method</th>
+                  <th className="py-2 pr-3">Scope</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {register.map(a => (
+                  <tr key={a.id} className="border-b border-slate-50 hover:bg-slate-50 group">
+                    <td className="py-1.5 pr-3">
+                      <input className="bg-transparent w-full" value={a.name} onChange={e => updateAsset(a.id, 'name', e.target.value)} />
+                    </td>
+                    <td className="py-1.5 pr-3">
+                      <select className="bg-transparent text-slate-600" value={a.assetClass} onChange={e => updateAsset(a.id, 'assetClass', e.target.value)}>
+                        {ASSET_CLASSES.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+                        {!ASSET_CLASSES.some(c => c.name === a.assetClass) && <option value={a.assetClass}>{a.assetClass}</option>}
+                      </select>
+                    </td>
+                    <td className="py-1.5 pr-3">
+                      <select className="bg-transparent" value={a.costCenterCode} onChange={e => updateAsset(a.id, 'costCenterCode', e.target.value)}>
+                        {data.costCenters.map(cc => <option key={cc.code} value={cc.code}>{cc.name}</option>)}
+                      </select>
+                    </td>
+                    <td className="py-1.5 pr-3">
+                      <input type="month" className="bg-transparent text-xs" value={a.inServiceDate} onChange={e => updateAsset(a.id, 'inServiceDate', e.target.value)} />
+                    </td>
+                    <td className="py-1.5 pr-3 text-right">
+                      <input type="number" className="bg-transparent w-28 text-right" value={a.cost} onChange={e => updateAsset(a.id, 'cost', Number(e.target.value))} />
+                    </td>
+                    <td className="py-1.5 pr-3 text-right">
+                      <input type="number" className="bg-transparent w-20 text-right" value={a.salvageValue || 0} onChange={e => updateAsset(a.id, 'salvageValue', Number(e.target.value) || undefined)} />
+                    </td>
+                    <td className="py-1.5 pr-3 text-right">
+                      <input type="number" min="1" className="bg-transparent w-14 text-right" value={a.usefulLifeMonths} onChange={e => updateAsset(a.id, 'usefulLifeMonths', Math.max(1, Number(e.target.value)))} />
+                    </td>
+                    <td className="py-1.5 pr-3">
+                      <select className="bg-transparent text-slate-600" value={a.method} onChange={e => updateAsset(a.id, 'method', e.target.value)}>
+                        {(Object.keys(METHOD_LABELS) as DepreciationMethod[]).map(m => <option key={m} value={m}>{METHOD_LABELS[m]}</option>)}
+                      </select>
+                      {a.method === 'DecliningBalance' && <span className="text-[10px] text-slate-400 ml-1">{a.decliningRate || 2}x</span>}
+                    </td>
+                    <td className="py-1.5 pr-3">
+                      <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full ${a.planId ? 'bg-purple-50 text-purple-700' : 'bg-slate-100 text-slate-600'}`}>
+                        {a.planId ? 'Planned' : 'Existing'}
+                      </span>
+                    </td>
+                    <td className="py-1.5 text-right">
+                      <button onClick={() => handleDelete(a.id)} className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {register.length > 0 && rollForward.length > 0 && (
+        <Card title="Net Book Value Roll-Forward">
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-slate-200 text-slate-500">
+                  <th className="py-2 pr-3 text-left sticky left-0 bg-white"></th>
+                  {rollForward.map(row => <th key={row.period} className="py-2 px-2 text-right font-medium">{row.period}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b border-slate-50 text-slate-600">
+                  <td className="py-1.5 pr-3 sticky left-0 bg-white">Opening NBV</td>
+                  {rollForward.map(row => <td key={row.period} className="py-1.5 px-2 text-right">{compact(row.openingNbv)}</td>)}
+                </tr>
+                <tr className="border-b border-slate-50 text-emerald-700">
+                  <td className="py-1.5 pr-3 sticky left-0 bg-white">+ CapEx</td>
+                  {rollForward.map(row => <td key={row.period} className="py-1.5 px-2 text-right">{row.additions ? compact(row.additions) : '-'}</td>)}
+                </tr>
+                <tr className="border-b border-slate-50 text-red-600">
+                  <td className="py-1.5 pr-3 sticky left-0 bg-white">- Depreciation</td>
+                  {rollForward.map(row => <td key={row.period} className="py-1.5 px-2 text-right">{compact(row.depreciation)}</td>)}
+                </tr>
+                <tr className="font-semibold border-t border-slate-200">
+                  <td className="py-1.5 pr-3 sticky left-0 bg-white">Closing NBV</td>
+                  {rollForward.map(row => <td key={row.period} className="py-1.5 px-2 text-right">{compact(row.closingNbv)}</td>)}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
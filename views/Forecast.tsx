@@ -6,12 +6,29 @@ import {
   DimensionMapping,
   RecordType,
   ForecastMethodType,
-  FinancialRecord
+  FinancialRecord,
+  ParameterDistribution,
+  SpreadMethod
 } from '../types';
 import { SAAS_CATEGORIES } from '../services/financialModel';
 import { PROD_LINES, COST_CENTERS } from '../services/dataFactory';
-import { generateForecast, applyRisksAndOps } from '../services/forecastingService';
+import { applyRisksAndOps, fitMethodParams, generateForecastWithIntervals } from '../services/forecastingService';
+import { validateFormula } from '../services/formulaEngine';
+import { describeCycle } from '../services/recalcEngine';
+import { recalculatePlanFigures } from '../services/rollingForecastService';
+import { getEditBlockReason, getPlanSections, getSectionStatus, lockPlan, unlockPlan } from '../services/approvalService';
+import { BacktestResult, compareMethods, backtestAssumption } from '../services/backtestService';
+import { ForecastInterval } from '../services/predictionIntervals';
 import { Card } from '../components/ui/Card';
+import { GoalSeekPanel } from '../components/GoalSeekPanel';
+import { ScenarioOverridesPanel } from '../components/ScenarioOverridesPanel';
+import { PlanSnapshotsPanel } from '../components/PlanSnapshotsPanel';
+import { PlanApprovalPanel, SECTION_STATUS_STYLES } from '../components/PlanApprovalPanel';
+import { GoalSeekResult } from '../services/goalSeekService';
+import { getSeasonalityProfiles, listTargetKeys } from '../services/spreadingService';
+import { getFiscalYear, getFiscalYearEnd, getFiscalYearStart } from '../services/fiscalCalendar';
+import { addMonths } from '../services/periodUtils';
+import { assumptionKey, getChildScenarios, getEffectiveAssumptions, getInheritedAssumption, getParentPlan, isOverlayScenario } from '../services/scenarioService';
 import {
   Plus,
   ChevronRight,
@@ -27,9 +44,10 @@ import {
   Unlock,
   Copy,
   FileDown,
-  Flag
+  Flag,
+  RefreshCw
 } from 'lucide-react';
-import { exportPlanToHyperion } from '../services/excelService';
+import { exportPlanToHyperion, exportForecastIntervals } from '../services/excelService';
 import {
   ComposedChart,
   Line,
@@ -47,20 +65,84 @@ interface ForecastProps {
   onUpdate: (newData: AppData) => void;
 }
 
+// Optional uncertainty around a rate parameter, sampled by the Dashboard outlook simulation
+const DistributionEditor = ({ value, onChange }: { value?: ParameterDistribution; onChange: (next?: ParameterDistribution) => void }) => {
+  const pct = (v?: number) => (v === undefined ? '' : Math.round(v * 10000) / 100);
+  const fromPct = (v: string) => (v === '' ? undefined : Number(v) / 100);
+
+  return (
+    <div className="mt-3 p-3 bg-white border border-slate-200 rounded-md">
+      <div className="flex items-center gap-2">
+        <label className="text-xs font-medium text-slate-600">Simulation Range</label>
+        <select
+          className="border rounded p-1 text-xs"
+          value={value?.type || ''}
+          onChange={(e) => onChange(e.target.value ? { type: e.target.value as ParameterDistribution['type'] } : undefined)}
+        >
+          <option value="">None (fixed)</option>
+          <option value="Normal">Normal</option>
+          <option value="Triangular">Triangular</option>
+          <option value="Uniform">Uniform</option>
+        </select>
+        {value?.type === 'Normal' && (
+          <label className="flex items-center gap-1 text-xs text-slate-500">
+            Std Dev
+            <input type="number" step="0.1" className="border rounded p-1 w-16" value={pct(value.stdDev)} onChange={(e) => onChange({ ...value, stdDev: fromPct(e.target.value) })} />
+            %
+          </label>
+        )}
+        {(value?.type === 'Triangular' || value?.type === 'Uniform') && (
+          <>
+            <label className="flex items-center gap-1 text-xs text-slate-500">
+              Min
+              <input type="number" step="0.1" className="border rounded p-1 w-16" value={pct(value.min)} onChange={(e) => onChange({ ...value, min: fromPct(e.target.value) })} />
+            </label>
+            <label className="flex items-center gap-1 text-xs text-slate-500">
+              Max
+              <input type="number" step="0.1" className="border rounded p-1 w-16" value={pct(value.max)} onChange={(e) => onChange({ ...value, max: fromPct(e.target.value) })} />
+              %
+            </label>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
 export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
   // --- State ---
   const [activePlanId, setActivePlanId] = useState<string | null>(data.plans.length > 0 ? data.plans[0].id : null);
   const [selectedAccountCode, setSelectedAccountCode] = useState<string | null>(null);
   const [selectedProductLineCode, setSelectedProductLineCode] = useState<string>('All');
   const [selectedCostCenterCode, setSelectedCostCenterCode] = useState<string>('All');
-  const [workbenchTab, setWorkbenchTab] = useState<'editor' | 'list'>('editor');
+  const [workbenchTab, setWorkbenchTab] = useState<'editor' | 'list' | 'goalseek' | 'overrides' | 'versions' | 'approval'>('editor');
+
+  // Who is working the approval workflow on this machine
+  const [userName, setUserName] = useState<string>(localStorage.getItem('CFO_USER_NAME') || '');
+  const handleUserNameChange = (name: string) => {
+    setUserName(name);
+    localStorage.setItem('CFO_USER_NAME', name);
+  };
 
   // Forecast Configuration State (Draft)
   const [draftMethod, setDraftMethod] = useState<ForecastMethodType>('Trend');
   const [draftParams, setDraftParams] = useState<any>({});
+  const [backtestHoldout, setBacktestHoldout] = useState<number>(6);
 
   // --- Derived Data ---
   const activePlan = data.plans.find(p => p.id === activePlanId);
+  const parentPlan = activePlanId ? getParentPlan(activePlanId, data) : undefined;
+  const planSections = useMemo(() => getPlanSections(data), [data.costCenters, data.productLines]);
+
+  React.useEffect(() => {
+    if (!parentPlan && workbenchTab === 'overrides') setWorkbenchTab('editor');
+  }, [parentPlan, workbenchTab]);
+
+  // Scenarios calculate with their own assumptions plus everything they inherit
+  const planAssumptions = useMemo(
+    () => activePlanId ? getEffectiveAssumptions(activePlanId, data) : [],
+    [data.assumptions, data.plans, activePlanId]
+  );
   const selectedAccount = data.accounts.find(a => a.code === selectedAccountCode);
 
   const completionStatus = useMemo(() => {
@@ -82,10 +164,43 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
     const otherCount = data.accounts.filter(a => ['Taxes', 'Other Income', 'Cash Flow Items'].includes(a.category || '')).length;
 
     const totalExpected = (revCogsCount * PROD_LINES.length) + (opexCount * COST_CENTERS.length) + (otherCount * 1);
-    const splitCount = data.assumptions.filter(a => a.planId === activePlanId).length;
+    const splitCount = planAssumptions.length;
 
     return totalExpected === 0 ? 0 : Math.min(100, Math.round((splitCount / totalExpected) * 100));
-  }, [data.accounts, data.assumptions, activePlanId]);
+  }, [data.accounts, planAssumptions]);
+
+  // Formula errors block the commit so a broken expression never reaches the plan
+  const formulaErrors = useMemo(() => {
+    if (draftMethod !== 'CustomFormula') return [];
+    return validateFormula(draftParams.formula || '', data);
+  }, [draftMethod, draftParams.formula, data.accounts, data.productLines, data.costCenters]);
+
+  // Rolling-origin backtest of every method on the selected intersection. Refitting at every origin is
+  // slow, so it runs on demand and is cleared whenever its inputs change. Fitted params are refit per
+  // origin anyway, so fitting them for a newly selected method keeps the scores.
+  const [backtestResults, setBacktestResults] = useState<BacktestResult[] | null>(null);
+  const { alpha, beta, gamma, windowSize, ...backtestParams } = draftParams;
+  const backtestParamsKey = JSON.stringify(backtestParams);
+  React.useEffect(() => {
+    setBacktestResults(null);
+  }, [data.records, activePlanId, selectedAccountCode, selectedProductLineCode, selectedCostCenterCode, backtestParamsKey, backtestHoldout]);
+
+  const handleRunBacktest = () => {
+    if (!activePlanId || !selectedAccountCode) return;
+    const draft: ForecastAssumption = {
+      id: 'backtest',
+      planId: activePlanId,
+      accountCode: selectedAccountCode,
+      productLineCode: selectedProductLineCode === 'All' ? undefined : selectedProductLineCode,
+      costCenterCode: selectedCostCenterCode === 'All' ? undefined : selectedCostCenterCode,
+      method: draftMethod,
+      params: draftParams,
+      lastUpdated: ''
+    };
+    setBacktestResults(compareMethods(draft, data, { holdoutMonths: backtestHoldout }));
+  };
+
+  const bestBacktestScore = (backtestResults || []).reduce((best, r) => Math.max(best, r.score), 0);
 
   const existingAssumption = useMemo(() => {
     if (!activePlanId || !selectedAccountCode) return null;
@@ -97,105 +212,170 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
     );
   }, [data.assumptions, activePlanId, selectedAccountCode, selectedProductLineCode, selectedCostCenterCode]);
 
+  // What a scenario gets from its parent at this intersection; committing saves an override
+  const inheritedAssumption = useMemo(() => {
+    if (!activePlanId || !selectedAccountCode || !isOverlayScenario(activePlan)) return undefined;
+    const key = assumptionKey({
+      accountCode: selectedAccountCode,
+      productLineCode: selectedProductLineCode === 'All' ? undefined : selectedProductLineCode,
+      costCenterCode: selectedCostCenterCode === 'All' ? undefined : selectedCostCenterCode
+    } as ForecastAssumption);
+    return getInheritedAssumption(activePlanId, key, data);
+  }, [data.assumptions, data.plans, activePlanId, selectedAccountCode, selectedProductLineCode, selectedCostCenterCode]);
+
   // Load assumption into draft when selection changes
   // useEffect logic simplified: We just set initial state when selection changes or reset defaults
   React.useEffect(() => {
-    if (existingAssumption) {
-      setDraftMethod(existingAssumption.method);
-      setDraftParams(existingAssumption.params);
+    const source = existingAssumption || inheritedAssumption;
+    if (source) {
+      setDraftMethod(source.method);
+      setDraftParams(source.params);
     } else {
       setDraftMethod('Trend');
       setDraftParams({});
     }
-  }, [existingAssumption, selectedAccountCode, activePlanId, selectedProductLineCode, selectedCostCenterCode]);
+  }, [existingAssumption, inheritedAssumption, selectedAccountCode, activePlanId, selectedProductLineCode, selectedCostCenterCode]);
 
   // --- Handlers ---
 
+  const STATISTICAL_METHODS: ForecastMethodType[] = ['SeasonalNaive', 'MovingAverage', 'HoltWinters'];
+
+  // Fits the method's parameters on the selected intersection's history
+  const fitDraftParams = (method: ForecastMethodType) => {
+    if (!activePlanId || !selectedAccountCode) return {};
+    return fitMethodParams(method, {
+      id: 'fit',
+      planId: activePlanId,
+      accountCode: selectedAccountCode,
+      productLineCode: selectedProductLineCode === 'All' ? undefined : selectedProductLineCode,
+      costCenterCode: selectedCostCenterCode === 'All' ? undefined : selectedCostCenterCode,
+      method,
+      params: {},
+      lastUpdated: ''
+    }, data);
+  };
+
+  // Switching to a statistical method auto-fits its parameters unless they are already set
+  const selectMethod = (method: ForecastMethodType) => {
+    setDraftMethod(method);
+    if (!STATISTICAL_METHODS.includes(method)) return;
+    const needsFit =
+      (method === 'MovingAverage' && draftParams.windowSize === undefined) ||
+      (method === 'HoltWinters' && draftParams.alpha === undefined) ||
+      (method === 'SeasonalNaive' && draftParams.seasonLength === undefined);
+    if (needsFit) setDraftParams((prev: any) => ({ ...prev, ...fitDraftParams(method) }));
+  };
+
   const handleCreatePlan = () => {
     // Basic Prompt for now
-    // Ideally we want a Modal to choose "Clone Existing" vs "New Blank"
-    // For MVP, let's keep it simple: automatically clone if user wants?
+    // Ideally we want a Modal to choose "Scenario" vs "New Blank"
     // Let's ask via standard confirm/prompt flow until we build modal.
 
     const name = prompt("Enter Plan Name (e.g., 'Q1 Interim Scenario'):");
     if (!name) return;
 
-    const cloneSourceId = activePlanId && confirm("Do you want to start by cloning the current plan's assumptions?") ? activePlanId : null;
-
-    const yearStr = prompt("Enter Plan Year (YYYY):", new Date().getFullYear().toString());
-    const year = parseInt(yearStr || new Date().getFullYear().toString());
+    // Scenarios store only their overrides and inherit the rest, so nothing is copied
+    const parent = activePlan && confirm(`Build this as a scenario on "${activePlan.name}"? It inherits every assumption and only stores what you change.`)
+      ? activePlan
+      : null;
 
     const newPlanId = crypto.randomUUID();
+    let startDate: string;
+    let endDate: string;
+
+    if (parent) {
+      startDate = parent.startDate;
+      endDate = parent.endDate;
+    } else {
+      // Plans default to a full fiscal year
+      const currentFiscalYear = getFiscalYear(new Date().toISOString().slice(0, 7), data.fiscalCalendar);
+      const yearStr = prompt("Enter Fiscal Year (YYYY):", currentFiscalYear.toString());
+      const year = parseInt(yearStr || currentFiscalYear.toString());
+      startDate = getFiscalYearStart(year, data.fiscalCalendar);
+      endDate = getFiscalYearEnd(year, data.fiscalCalendar);
+    }
 
     const newPlan: Plan = {
       id: newPlanId,
       name,
-      description: cloneSourceId ? `Cloned from ${activePlan?.name}` : 'User created plan',
-      startDate: `${year}-01`,
-      endDate: `${year}-12`,
-      status: 'Active', // Default to Active
+      description: parent ? `Scenario on ${parent.name}` : 'User created plan',
+      startDate,
+      endDate,
+      status: 'Draft', // Becomes Active once approved
       type: 'Scenario',
-      parentPlanId: cloneSourceId || undefined,
+      parentPlanId: parent?.id,
       isLocked: false,
       isWorkingPlan: false,
       created: new Date().toISOString()
     };
 
-    let newAssumptions = [...data.assumptions];
-    let newRecords = [...data.records];
-
-    if (cloneSourceId) {
-      // Clone Assumptions
-      const sourceAssumptions = data.assumptions.filter(a => a.planId === cloneSourceId);
-      const clonedAssumptions = sourceAssumptions.map(a => ({
-        ...a,
-        id: crypto.randomUUID(),
-        planId: newPlanId,
-        lastUpdated: new Date().toISOString()
-      }));
-      newAssumptions = [...newAssumptions, ...clonedAssumptions];
-
-      // Clone Records (Simulate generation or copy)
-      // Copying is faster/safer than re-generating if input data hasn't changed.
-      const sourceRecords = data.records.filter(r => r.planId === cloneSourceId);
-      const clonedRecords = sourceRecords.map(r => ({
-        ...r,
-        id: crypto.randomUUID(),
-        planId: newPlanId
-      }));
-      newRecords = [...newRecords, ...clonedRecords];
-    }
-
-    onUpdate({
-      ...data,
-      plans: [...data.plans, newPlan],
-      assumptions: newAssumptions,
-      records: newRecords
-    });
+    // A new scenario has no records of its own; it reads its parent's until it changes something
     setActivePlanId(newPlan.id);
+    onUpdate({ ...data, plans: [...data.plans, newPlan] });
   };
 
   const handleDeletePlan = () => {
     if (!activePlanId) return;
+    const scenarios = getChildScenarios(activePlanId, data);
+    if (scenarios.length > 0) {
+      alert(`This plan is the base of ${scenarios.map(p => p.name).join(', ')}. Delete those scenarios first.`);
+      return;
+    }
+    if (activePlan?.isLocked) {
+      alert('This plan is locked and cannot be deleted.');
+      return;
+    }
     if (!window.confirm("Are you sure you want to delete this plan? This cannot be undone.")) return;
 
     // Remove plan and its assumptions/records
     const updatedPlans = data.plans.filter(p => p.id !== activePlanId);
     const updatedAssumptions = data.assumptions.filter(a => a.planId !== activePlanId);
     const updatedRecords = data.records.filter(r => r.planId !== activePlanId);
+    const updatedSnapshots = data.snapshots.filter(s => s.planId !== activePlanId);
 
     onUpdate({
       ...data,
       plans: updatedPlans,
       assumptions: updatedAssumptions,
-      records: updatedRecords
+      records: updatedRecords,
+      snapshots: updatedSnapshots
     });
 
     setActivePlanId(updatedPlans.length > 0 ? updatedPlans[0].id : null);
   };
 
+  // Stores the draft's custom curve as a named profile other assumptions can reuse
+  const handleSaveSeasonalityProfile = () => {
+    const weights: number[] = draftParams.spreadCurve;
+    if (!weights || weights.every(w => !w)) {
+      alert('Enter a custom curve before saving it as a profile.');
+      return;
+    }
+    const name = prompt('Profile name:');
+    if (!name) return;
+
+    const profile = { id: crypto.randomUUID(), name, weights: [...weights] };
+    onUpdate({ ...data, seasonalityProfiles: [...data.seasonalityProfiles, profile] });
+    setDraftParams({ ...draftParams, spreadMethod: 'Profile', spreadProfileId: profile.id });
+  };
+
   const handleCommitForecast = () => {
     if (!activePlanId || !selectedAccountCode || !activePlan) return;
+    if (formulaErrors.length > 0) {
+      alert(`Fix the formula before committing:\n${formulaErrors.map(e => e.message).join('\n')}`);
+      return;
+    }
+    const blocked = getEditBlockReason(
+      activePlanId,
+      data,
+      userName,
+      selectedCostCenterCode === 'All' ? undefined : selectedCostCenterCode,
+      selectedProductLineCode === 'All' ? undefined : selectedProductLineCode
+    );
+    if (blocked) {
+      alert(`Nothing was committed. ${blocked}`);
+      return;
+    }
 
     const newAssumption: ForecastAssumption = {
       id: existingAssumption?.id || crypto.randomUUID(),
@@ -207,75 +387,78 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
       params: draftParams,
       lastUpdated: new Date().toISOString()
     };
+    newAssumption.backtestAccuracy = backtestAssumption(newAssumption, data, { holdoutMonths: backtestHoldout })?.score;
 
-    // 1. Generate Records
-    // NOTE: generateForecast needs to support dimensions. 
-    // For now we assume generateForecast filters based on assumption metadata if we pass it, 
-    // BUT generateForecast signature in typical implementations might imply generating FOR the assumption.
-    // We update generateForecast usage to respect these new fields if the service supports it.
-    // If the service doesn't support explicit dimension passing in generateForecast logic, we might generate broad data.
-    // However, looking at generateForecast it takes 'ForecastAssumption' which now has the dimensions. 
-    // We need to ensure logic respects it.
-    const newRecords = generateForecast(
-      newAssumption,
-      data,
-      activePlan.startDate,
-      activePlan.endDate
-    );
-
-    // 2. Clear old records for this intersection
-    const cleanRecords = data.records.filter(r => {
-      const matchPlan = r.planId === activePlanId;
-      const matchAccount = r.accountCode === selectedAccountCode;
-      // Strict match on dimensions for cleaning
-      const pCode = selectedProductLineCode === 'All' ? 'GEN_PL' : selectedProductLineCode; // Default if All?
-      // Actually 'All' means we might be forecasting for the aggregate or implicitly for all? 
-      // If user selects 'All', we usually mean "Top Level" or "Aggregate". The dataFactory uses 'GEN_PL' or specific.
-      // If user selects specific PL, we replace only THAT PL's data. 
-
-      const rPl = r.productLineCode || '';
-      const rCc = r.costCenterCode || '';
-      const targetPl = selectedProductLineCode === 'All' ? undefined : selectedProductLineCode;
-      const targetCc = selectedCostCenterCode === 'All' ? undefined : selectedCostCenterCode;
-
-      // If target is undefined (All), do we clear ALL records for that account? 
-      // Or do we only clear records that have NO dimension?
-      // Design decision: If selecting "All" (Aggregate), we are likely forecasting at a high level which might override granular data?
-      // OR "All" just means "No specific filter".
-      // Let's assume for now we only support Specific Dimension forecasting OR Generic.
-      // If User selects "All", we match records where productLineCode is missing or 'GEN_PL'.
-
-      const matchPl = targetPl ? rPl === targetPl : true; // If target specific, must match. If All, match everything? careful.
-      const matchCc = targetCc ? rCc === targetCc : true;
-
-      // Better logic: strict equality for what we are replacing.
-      // If newAssumption has productLineCode='PL_IOT', we remove records with 'PL_IOT'.
-      // If newAssumption has productLineCode=undefined, we remove records with undefined/empty/GEN_PL?
-
-      const assumptionPl = newAssumption.productLineCode;
-      const assumptionCc = newAssumption.costCenterCode;
-
-      const recordPlMatch = assumptionPl ? r.productLineCode === assumptionPl : (r.productLineCode === '' || r.productLineCode === 'GEN_PL');
-      const recordCcMatch = assumptionCc ? r.costCenterCode === assumptionCc : (r.costCenterCode === '' || r.costCenterCode === 'GEN_CC');
-
-      return !(matchPlan && matchAccount && recordPlMatch && recordCcMatch);
-    });
-
-    // 3. Update Data (Assumptions + Records)
+    // 1. Upsert the assumption
     const updatedAssumptions = existingAssumption
       ? data.assumptions.map(a => a.id === existingAssumption.id ? newAssumption : a)
       : [...data.assumptions, newAssumption];
 
-    onUpdate({
+    // 2. Regenerate the whole plan in dependency order so downstream lines
+    //    (e.g. % of Revenue, formulas) pick up this change.
+    applyRecalculation(activePlanId, { ...data, assumptions: updatedAssumptions });
+  };
+
+  // Drops the scenario's override so the intersection follows the parent again
+  const handleRevertToParent = () => {
+    if (!activePlanId || !existingAssumption) return;
+    const blocked = getEditBlockReason(activePlanId, data, userName, existingAssumption.costCenterCode, existingAssumption.productLineCode);
+    if (blocked) {
+      alert(blocked);
+      return;
+    }
+    applyRecalculation(activePlanId, { ...data, assumptions: data.assumptions.filter(a => a.id !== existingAssumption.id) });
+  };
+
+  // Rolling plans keep their Budget as approved: assumption changes only re-forecast the Latest Forecast
+  const applyRecalculation = (planId: string, nextData: AppData) => {
+    const result = recalculatePlanFigures(planId, nextData);
+    if (result.cycles.length > 0) {
+      alert(`Circular reference detected. Nothing was committed:\n${result.cycles.map(c => describeCycle(c, nextData)).join('\n')}`);
+      return;
+    }
+    onUpdate(result.data);
+  };
+
+  const toggleRollingForecast = () => {
+    if (!activePlan) return;
+    if (activePlan.rollingForecast) {
+      if (!confirm('Turn off rolling forecast? The Latest Forecast records of this plan will be removed.')) return;
+      onUpdate({
+        ...data,
+        plans: data.plans.map(p => p.id === activePlan.id ? { ...p, rollingForecast: false, forecastClosedThrough: undefined } : p),
+        records: data.records.filter(r => !(r.planId === activePlan.id && r.type === RecordType.FORECAST))
+      });
+      return;
+    }
+    applyRecalculation(activePlan.id, {
       ...data,
-      records: [...cleanRecords, ...newRecords],
-      assumptions: updatedAssumptions
+      plans: data.plans.map(p => p.id === activePlan.id ? { ...p, rollingForecast: true } : p)
     });
   };
 
+  // Goal seek proposes assumptions; only the changed ones need a fresh fit score
+  const handleCommitGoalSeek = (result: GoalSeekResult) => {
+    const changedIds = new Set(result.changes.map(c => c.assumptionId));
+    const blocked = data.assumptions
+      .filter(a => changedIds.has(a.id))
+      .map(a => activePlanId && getEditBlockReason(activePlanId, data, userName, a.costCenterCode, a.productLineCode))
+      .filter(Boolean);
+    if (blocked.length > 0) {
+      alert(`Nothing was committed. ${Array.from(new Set(blocked)).join(' ')}`);
+      return;
+    }
+    const assumptions = result.assumptions.map(a => changedIds.has(a.id)
+      ? { ...a, backtestAccuracy: backtestAssumption(a, data, { holdoutMonths: backtestHoldout })?.score }
+      : a);
+    // Recalculate through the plan's own path, so scenarios cascade and rolling plans only touch the forecast
+    if (activePlanId) applyRecalculation(activePlanId, { ...data, assumptions });
+  };
+
   // --- Chart Data Preparation ---
-  const chartData = useMemo(() => {
-    if (!selectedAccountCode) return [];
+  const { rows: chartData, previewIntervals } = useMemo(() => {
+    let previewIntervals: ForecastInterval[] = [];
+    if (!selectedAccountCode) return { rows: [], previewIntervals };
 
     // Filter helpers
     const filterRecord = (r: FinancialRecord) => {
@@ -300,7 +483,7 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
     const planMap = new Map<string, number>();
     if (activePlanId) {
       // 1. Get Base Plan Records
-      const basePlanRecords = data.records.filter(r => r.planId === activePlanId);
+      const basePlanRecords = data.records.filter(r => r.planId === activePlanId && r.type === RecordType.BUDGET);
 
       // 2. Apply Risks & Ops Overlay
       const adjustedRecords = applyRisksAndOps(basePlanRecords, data, activePlanId);
@@ -313,8 +496,17 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
         });
     }
 
-    // Preview
+    // Latest Forecast of a rolling plan (actualized months + re-forecast)
+    const latestMap = new Map<string, number>();
+    data.records
+      .filter(r => r.planId === activePlanId && r.type === RecordType.FORECAST && filterRecord(r))
+      .forEach(r => {
+        latestMap.set(r.period, (latestMap.get(r.period) || 0) + r.amount);
+      });
+
+    // Preview (with 80% / 95% bands for statistical methods)
     const previewMap = new Map<string, number>();
+    const bandMap = new Map<string, { Band80: [number, number]; Band95: [number, number] }>();
     if (activePlanId && activePlan) {
       // Preview generation is tricky with dimensions if the service doesn't handle filtering.
       // We create a temp assumption with the CURRENT dimensions.
@@ -328,23 +520,32 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
         params: draftParams,
         lastUpdated: ''
       };
-      // We need to assume generateForecast handles this.
-      // Ideally generateForecast should return records for these dimensions.
-      const previewRecords = generateForecast(tempAssumption, data, activePlan.startDate, activePlan.endDate);
+      const { records: previewRecords, intervals } = generateForecastWithIntervals(tempAssumption, data, activePlan.startDate, activePlan.endDate);
       previewRecords.forEach(r => {
-        previewMap.set(r.period, r.amount);
+        previewMap.set(r.period, (previewMap.get(r.period) || 0) + r.amount);
       });
+      intervals.forEach(i => {
+        const b80 = i.bounds.find(b => b.level === 0.8)!;
+        const b95 = i.bounds.find(b => b.level === 0.95)!;
+        bandMap.set(i.period, { Band80: [b80.lower, b80.upper], Band95: [b95.lower, b95.upper] });
+      });
+      previewIntervals = intervals;
     }
 
     // Merge all periods
     const allPeriods = Array.from(new Set([...historyMap.keys(), ...planMap.keys(), ...previewMap.keys()])).sort();
 
-    return allPeriods.map(period => ({
-      period,
-      Actual: historyMap.get(period),
-      Plan: planMap.get(period),
-      Preview: previewMap.get(period)
-    }));
+    return {
+      rows: allPeriods.map(period => ({
+        period,
+        Actual: historyMap.get(period),
+        Plan: planMap.get(period),
+        Latest: latestMap.get(period),
+        Preview: previewMap.get(period),
+        ...bandMap.get(period)
+      })),
+      previewIntervals
+    };
 
   }, [data.records, selectedAccountCode, activePlanId, draftMethod, draftParams, selectedProductLineCode, selectedCostCenterCode]);
 
@@ -393,8 +594,19 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
                   title={activePlan?.isLocked ? "Unlock Plan" : "Lock Plan"}
                   onClick={() => {
                     if (!activePlan) return;
-                    const updatedPlans = data.plans.map(p => p.id === activePlan.id ? { ...p, isLocked: !p.isLocked } : p);
-                    onUpdate({ ...data, plans: updatedPlans });
+                    let reason = '';
+                    if (activePlan.isLocked) {
+                      const input = prompt(`Why is ${activePlan.name} being unlocked? The reason is kept in the plan's approval history.`);
+                      if (input === null) return;
+                      reason = input;
+                    }
+                    try {
+                      onUpdate(activePlan.isLocked
+                        ? unlockPlan(activePlan.id, reason, userName, data)
+                        : lockPlan(activePlan.id, userName, data));
+                    } catch (err) {
+                      alert(err instanceof Error ? err.message : String(err));
+                    }
                   }}
                   className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-md text-sm cursor-pointer transition-colors ${activePlan?.isLocked ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
                 >
@@ -415,12 +627,32 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
                 </button>
               </div>
 
+              <button
+                onClick={() => activePlan && applyRecalculation(activePlan.id, data)}
+                disabled={activePlan?.isLocked && !activePlan?.rollingForecast}
+                title={activePlan?.rollingForecast ? "Re-forecast open months from the latest actuals" : "Regenerate every assumption in dependency order"}
+                className="flex items-center justify-center gap-2 bg-white border border-slate-300 text-slate-700 py-2 rounded-md text-sm hover:bg-slate-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Calculator size={14} /> {activePlan?.rollingForecast ? 'Roll Forecast' : 'Recalculate Plan'}
+              </button>
+
+              <button
+                onClick={toggleRollingForecast}
+                title="Rolling forecast: actualize closed months and re-forecast open months, keeping the Budget for comparison"
+                className={`flex items-center justify-center gap-2 py-2 rounded-md text-sm transition-colors ${activePlan?.rollingForecast ? 'bg-teal-50 text-teal-700 border border-teal-200' : 'bg-white border border-slate-300 text-slate-700 hover:bg-slate-50'}`}
+              >
+                <RefreshCw size={14} />
+                {activePlan?.rollingForecast
+                  ? `Rolling${activePlan.forecastClosedThrough ? ` · Act thru ${activePlan.forecastClosedThrough}` : ''}`
+                  : 'Enable Rolling Forecast'}
+              </button>
+
               <button
                 onClick={() => {
                   if (!activePlan) return;
                   // Filter records for this plan
-                  const planRecords = data.records.filter(r => r.planId === activePlan.id);
-                  exportPlanToHyperion(planRecords, data.accounts, data.costCenters, data.productLines);
+                  const planRecords = data.records.filter(r => r.planId === activePlan.id && r.type === RecordType.BUDGET);
+                  exportPlanToHyperion(planRecords, data.accounts, data.costCenters, data.productLines, data.reportingCurrency);
                 }}
                 className="flex items-center justify-center gap-2 bg-white border border-slate-300 text-slate-700 py-2 rounded-md text-sm hover:bg-slate-50 transition-colors"
               >
@@ -446,12 +678,36 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
           <div className="p-4 border-b bg-slate-50 sticky top-0">
             <h3 className="font-semibold text-slate-700">Accounts</h3>
           </div>
+          {activePlanId && planSections.length > 0 && (
+            <div className="p-2 border-b">
+              <div className="px-2 py-1 text-xs font-bold text-slate-400 uppercase">Sections</div>
+              {planSections.map(section => {
+                const status = getSectionStatus(activePlanId, section.dimension, section.code, data);
+                const isSelected = section.dimension === 'CostCenter'
+                  ? selectedCostCenterCode === section.code
+                  : selectedProductLineCode === section.code;
+                return (
+                  <button
+                    key={`${section.dimension}|${section.code}`}
+                    onClick={() => section.dimension === 'CostCenter'
+                      ? setSelectedCostCenterCode(section.code)
+                      : setSelectedProductLineCode(section.code)}
+                    title={`Owner: ${section.owner}`}
+                    className={`w-full text-left px-3 py-1.5 rounded-md flex items-center justify-between text-sm ${isSelected ? 'bg-purple-50 text-purple-700' : 'text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    <span className="truncate">{section.name}</span>
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded ${SECTION_STATUS_STYLES[status]}`}>{status}</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
           <div className="p-2">
             {SAAS_CATEGORIES.map(category => (
               <div key={category} className="mb-4">
                 <div className="px-2 py-1 text-xs font-bold text-slate-400 uppercase">{category}</div>
                 {data.accounts.filter(a => a.category === category).map(account => {
-                  const isPlanned = data.assumptions.some(asm => asm.planId === activePlanId && asm.accountCode === account.code);
+                  const isPlanned = planAssumptions.some(asm => asm.accountCode === account.code);
                   return (
                     <button
                       key={account.code}
@@ -509,6 +765,18 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
                     <option value="All">All Cost Centers</option>
                     {COST_CENTERS.map(cc => <option key={cc.code} value={cc.code}>{cc.name}</option>)}
                   </select>
+                  {previewIntervals.length > 0 && (
+                    <button
+                      onClick={() => {
+                        const dims = [selectedProductLineCode, selectedCostCenterCode].filter(d => d !== 'All').join('/');
+                        exportForecastIntervals(previewIntervals, `${selectedAccount.name}${dims ? ` / ${dims}` : ''} (${draftMethod})`);
+                      }}
+                      title="Export preview with 80% / 95% prediction intervals"
+                      className="text-xs flex items-center gap-1 border border-slate-200 rounded-md px-2 py-1 text-slate-600 hover:bg-slate-50"
+                    >
+                      <FileDown size={12} /> Bands
+                    </button>
+                  )}
                 </div>
 
               </div>
@@ -527,11 +795,17 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
                     <XAxis dataKey="period" hide />
                     <YAxis />
                     <Tooltip
-                      formatter={(val: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val)}
+                      formatter={(val: number | [number, number]) => {
+                        const fmt = (v: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(v);
+                        return Array.isArray(val) ? `${fmt(val[0])} – ${fmt(val[1])}` : fmt(val);
+                      }}
                     />
                     <Legend />
                     <Area type="monotone" dataKey="Actual" fill="#f1f5f9" stroke="#94a3b8" />
+                    <Area type="monotone" dataKey="Band95" name="95% Interval" fill="#fbcfe8" fillOpacity={0.35} stroke="none" />
+                    <Area type="monotone" dataKey="Band80" name="80% Interval" fill="#f9a8d4" fillOpacity={0.45} stroke="none" />
                     <Line type="monotone" dataKey="Plan" stroke="#7e22ce" strokeWidth={2} dot={false} />
+                    <Line type="monotone" dataKey="Latest" name="Latest Forecast" stroke="#0d9488" strokeWidth={2} dot={false} />
                     <Line type="monotone" dataKey="Preview" stroke="#f472b6" strokeDasharray="5 5" dot={false} strokeWidth={2} />
                   </ComposedChart>
                 </ResponsiveContainer>
@@ -552,18 +826,44 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
                   onClick={() => setWorkbenchTab('list')}
                   className={`px-4 py-3 text-sm font-medium transition-colors ${workbenchTab === 'list' ? 'text-purple-700 border-b-2 border-purple-600 bg-white' : 'text-slate-500 hover:text-slate-700'}`}
                 >
-                  All Assumptions ({data.assumptions.filter(a => a.planId === activePlanId).length})
+                  All Assumptions ({planAssumptions.length})
+                </button>
+                {parentPlan && (
+                  <button
+                    onClick={() => setWorkbenchTab('overrides')}
+                    className={`px-4 py-3 text-sm font-medium transition-colors ${workbenchTab === 'overrides' ? 'text-purple-700 border-b-2 border-purple-600 bg-white' : 'text-slate-500 hover:text-slate-700'}`}
+                  >
+                    Overrides ({data.assumptions.filter(a => a.planId === activePlanId).length + data.opportunities.filter(r => r.planId === activePlanId).length})
+                  </button>
+                )}
+                <button
+                  onClick={() => setWorkbenchTab('versions')}
+                  className={`px-4 py-3 text-sm font-medium transition-colors ${workbenchTab === 'versions' ? 'text-purple-700 border-b-2 border-purple-600 bg-white' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  Versions ({data.snapshots.filter(s => s.planId === activePlanId).length})
+                </button>
+                <button
+                  onClick={() => setWorkbenchTab('approval')}
+                  className={`px-4 py-3 text-sm font-medium transition-colors ${workbenchTab === 'approval' ? 'text-purple-700 border-b-2 border-purple-600 bg-white' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  Approval
+                </button>
+                <button
+                  onClick={() => setWorkbenchTab('goalseek')}
+                  className={`px-4 py-3 text-sm font-medium transition-colors ${workbenchTab === 'goalseek' ? 'text-purple-700 border-b-2 border-purple-600 bg-white' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  Goal Seek
                 </button>
               </div>
 
               {workbenchTab === 'editor' && (
                 <>
-                  <div className="flex border-b">
-                    {(['Trend', 'GrowthYearOverYear', 'PercentOfRevenue', 'Manual'] as ForecastMethodType[]).map(m => (
+                  <div className="flex border-b overflow-x-auto">
+                    {(['Trend', 'SeasonalNaive', 'MovingAverage', 'HoltWinters', 'GrowthYearOverYear', 'PercentOfRevenue', 'CustomFormula', 'Spread', 'Manual'] as ForecastMethodType[]).map(m => (
                       <button
                         key={m}
-                        onClick={() => setDraftMethod(m)}
-                        className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${draftMethod === m
+                        onClick={() => selectMethod(m)}
+                        className={`px-4 py-3 text-sm font-medium border-b-2 whitespace-nowrap transition-colors ${draftMethod === m
                           ? 'border-purple-600 text-purple-700 bg-purple-50/50'
                           : 'border-transparent text-slate-600 hover:text-slate-800 hover:bg-slate-50'
                           }`}
@@ -573,6 +873,41 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
                     ))}
                   </div>
 
+                  <div className="flex items-center gap-2 px-4 py-2 border-b bg-white text-xs overflow-x-auto">
+                    <span className="text-slate-400 font-semibold uppercase tracking-wider shrink-0">Backtest</span>
+                    <select
+                      value={backtestHoldout}
+                      onChange={(e) => setBacktestHoldout(Number(e.target.value))}
+                      className="text-xs border-slate-200 rounded-md py-0.5 shrink-0"
+                      title="Held-out months (rolling origin, one month ahead)"
+                    >
+                      {[3, 6, 12].map(n => <option key={n} value={n}>Last {n} mo</option>)}
+                    </select>
+                    <button
+                      onClick={handleRunBacktest}
+                      className="shrink-0 flex items-center gap-1 px-2 py-1 rounded border border-slate-200 text-slate-600 hover:bg-slate-50"
+                    >
+                      <RefreshCw size={12} /> Run Backtest
+                    </button>
+                    {backtestResults === null ? (
+                      <span className="text-slate-400">Scores every method from past forecast origins.</span>
+                    ) : backtestResults.length === 0 ? (
+                      <span className="text-slate-400">Not enough history to backtest.</span>
+                    ) : backtestResults.map(r => (
+                      <button
+                        key={r.method}
+                        onClick={() => selectMethod(r.method)}
+                        title={`MAPE ${(r.mape * 100).toFixed(1)}% · Bias ${(r.bias * 100).toFixed(1)}% · ${r.observations} months tested`}
+                        className={`shrink-0 flex items-center gap-2 px-2 py-1 rounded border transition-colors ${draftMethod === r.method ? 'border-purple-300 bg-purple-50' : 'border-slate-200 hover:bg-slate-50'}`}
+                      >
+                        <span className="text-slate-600">{r.method.replace(/([A-Z])/g, ' $1').trim()}</span>
+                        <span className={`font-bold px-1.5 rounded ${r.score === bestBacktestScore ? 'bg-emerald-100 text-emerald-700' : r.score >= 80 ? 'bg-slate-100 text-slate-700' : 'bg-amber-50 text-amber-700'}`}>{r.score}</span>
+                        <span className="text-slate-400">MAPE {(r.mape * 100).toFixed(1)}%</span>
+                        <span className={r.bias > 0 ? 'text-amber-600' : 'text-sky-600'}>Bias {r.bias > 0 ? '+' : ''}{(r.bias * 100).toFixed(1)}%</span>
+                      </button>
+                    ))}
+                  </div>
+
                   <div className="p-6 flex-1 bg-slate-50/20 overflow-y-auto">
                     <div className="max-w-lg space-y-6">
                       {draftMethod === 'GrowthYearOverYear' && (
@@ -589,6 +924,10 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
                             <span className="text-slate-500 text-sm">%</span>
                           </div>
                           <p className="text-xs text-slate-500 mt-2">Projects next year by applying this growth rate to the same month last year.</p>
+                          <DistributionEditor
+                            value={draftParams.growthRateDistribution}
+                            onChange={(next) => setDraftParams({ ...draftParams, growthRateDistribution: next })}
+                          />
                         </div>
                       )}
 
@@ -605,7 +944,157 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
                             />
                             <span className="text-slate-500 text-sm">%</span>
                           </div>
-                          <p className="text-xs text-slate-500 mt-2">Calculates amount as a percentage of Total Revenue (REV_*) for the period.</p>
+                          <p className="text-xs text-slate-500 mt-2">Calculates amount as a percentage of this plan's Total Revenue (all Revenue category accounts) for the period.</p>
+                          <DistributionEditor
+                            value={draftParams.percentOfRevenueDistribution}
+                            onChange={(next) => setDraftParams({ ...draftParams, percentOfRevenueDistribution: next })}
+                          />
+                        </div>
+                      )}
+
+                      {draftMethod === 'CustomFormula' && (
+                        <div>
+                          <label className="block text-sm font-medium text-slate-700 mb-1">Formula</label>
+                          <textarea
+                            rows={3}
+                            value={draftParams.formula || ''}
+                            onChange={(e) => setDraftParams({ ...draftParams, formula: e.target.value })}
+                            placeholder="{REV_SUB} * 0.10 + 5000"
+                            className={`w-full border rounded-md p-2 font-mono text-sm ${formulaErrors.length > 0 ? 'border-red-300 bg-red-50/30' : 'border-slate-200'}`}
+                          />
+                          {formulaErrors.length > 0 ? (
+                            <ul className="mt-2 space-y-1">
+                              {formulaErrors.map((err, idx) => (
+                                <li key={idx} className="text-xs text-red-600 flex items-center gap-1">
+                                  <AlertCircle size={12} /> {err.message} <span className="text-red-400">(col {err.position + 1})</span>
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="text-xs text-emerald-600 mt-2 flex items-center gap-1"><CheckCircle2 size={12} /> Formula is valid.</p>
+                          )}
+                          <p className="text-xs text-slate-500 mt-2">
+                            Reference accounts as <code>{'{REV_SUB}'}</code>, optionally qualified: <code>{'{REV_SUB|PL=PL_IOT}'}</code>, <code>{'{EXP_GEN_PPL|CC=100}'}</code>.
+                            Supports + - * / ( ), comparisons, MIN, MAX, ABS, ROUND, IF(cond, a, b) and LAG(expr, months).
+                          </p>
+                        </div>
+                      )}
+
+                      {draftMethod === 'Spread' && activePlan && (
+                        <div className="space-y-4">
+                          <div className="grid grid-cols-2 gap-4">
+                            <div>
+                              <label className="block text-xs font-semibold text-slate-400 mb-1">Target Basis</label>
+                              <select
+                                value={draftParams.spreadBasis || 'Annual'}
+                                onChange={(e) => setDraftParams({ ...draftParams, spreadBasis: e.target.value, spreadTargets: {} })}
+                                className="w-full text-sm border-slate-200 rounded-md p-2"
+                              >
+                                <option value="Annual">Annual</option>
+                                <option value="Quarterly">Quarterly</option>
+                              </select>
+                            </div>
+                            <div>
+                              <label className="block text-xs font-semibold text-slate-400 mb-1">Spread to Months By</label>
+                              <select
+                                value={draftParams.spreadMethod || 'Even'}
+                                onChange={(e) => setDraftParams({ ...draftParams, spreadMethod: e.target.value as SpreadMethod })}
+                                className="w-full text-sm border-slate-200 rounded-md p-2"
+                              >
+                                <option value="Even">Even split</option>
+                                <option value="PriorYear">Prior-year actual seasonality</option>
+                                <option value="Profile">Seasonality profile</option>
+                                <option value="Custom">Custom curve</option>
+                              </select>
+                            </div>
+                          </div>
+
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            {listTargetKeys(activePlan.startDate, activePlan.endDate, draftParams.spreadBasis || 'Annual', data.fiscalCalendar).map(key => (
+                              <div key={key}>
+                                <label className="block text-xs font-semibold text-slate-400 mb-1">{key} Target</label>
+                                <input
+                                  type="number"
+                                  value={draftParams.spreadTargets?.[key] ?? 0}
+                                  onChange={(e) => {
+                                    const newVal = Number(e.target.value);
+                                    setDraftParams((prev: any) => ({
+                                      ...prev,
+                                      spreadTargets: { ...(prev.spreadTargets || {}), [key]: newVal }
+                                    }));
+                                  }}
+                                  className="w-full text-sm border-slate-200 rounded-md p-2"
+                                />
+                              </div>
+                            ))}
+                          </div>
+
+                          {draftParams.spreadMethod === 'Profile' && (
+                            <div>
+                              <label className="block text-xs font-semibold text-slate-400 mb-1">Profile</label>
+                              <select
+                                value={draftParams.spreadProfileId || ''}
+                                onChange={(e) => setDraftParams({ ...draftParams, spreadProfileId: e.target.value })}
+                                className="w-full text-sm border-slate-200 rounded-md p-2"
+                              >
+                                <option value="">Select a profile...</option>
+                                {getSeasonalityProfiles(data).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                              </select>
+                            </div>
+                          )}
+
+                          {draftParams.spreadMethod === 'Custom' && (
+                            <div>
+                              <label className="block text-xs font-semibold text-slate-400 mb-1">Monthly Weights (relative)</label>
+                              <div className="grid grid-cols-6 gap-2">
+                                {Array.from({ length: 12 }, (_, i) => (
+                                  <div key={i}>
+                                    <span className="block text-[10px] text-slate-400">
+                                      {new Date(2000, i, 1).toLocaleString('default', { month: 'short' })}
+                                    </span>
+                                    <input
+                                      type="number"
+                                      step="0.1"
+                                      min="0"
+                                      value={draftParams.spreadCurve?.[i] ?? 1}
+                                      onChange={(e) => {
+                                        const curve = [...(draftParams.spreadCurve || Array(12).fill(1))];
+                                        curve[i] = Math.max(0, Number(e.target.value));
+                                        setDraftParams({ ...draftParams, spreadCurve: curve });
+                                      }}
+                                      className="w-full text-sm border-slate-200 rounded-md p-1"
+                                    />
+                                  </div>
+                                ))}
+                              </div>
+                              <button
+                                onClick={handleSaveSeasonalityProfile}
+                                className="mt-2 text-xs text-purple-700 hover:text-purple-900 font-medium flex items-center gap-1"
+                              >
+                                <Save size={12} /> Save as profile
+                              </button>
+                            </div>
+                          )}
+
+                          {(selectedProductLineCode === 'All' || selectedCostCenterCode === 'All') && (
+                            <div>
+                              <label className="block text-xs font-semibold text-slate-400 mb-1">Split Across</label>
+                              <select
+                                value={draftParams.spreadDimension || 'None'}
+                                onChange={(e) => setDraftParams({ ...draftParams, spreadDimension: e.target.value })}
+                                className="w-full text-sm border-slate-200 rounded-md p-2"
+                              >
+                                <option value="None">No split (unallocated)</option>
+                                {selectedProductLineCode === 'All' && <option value="ProductLine">Product lines by prior-year mix</option>}
+                                {selectedCostCenterCode === 'All' && <option value="CostCenter">Cost centers by prior-year mix</option>}
+                              </select>
+                            </div>
+                          )}
+
+                          <p className="text-xs text-slate-500">
+                            Targets are spread to months by the chosen curve, normalised within each {draftParams.spreadBasis === 'Quarterly' ? 'quarter' : 'year'}.
+                            Prior-year seasonality and mix fall back to an even split / unallocated when there are no actuals a year earlier.
+                          </p>
                         </div>
                       )}
 
@@ -614,9 +1103,7 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
                           <p className="text-sm text-slate-500">Enter monthly values directly.</p>
                           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
                             {Array.from({ length: 12 }, (_, i) => {
-                              const yr = parseInt(activePlan.startDate.split('-')[0]);
-                              const mn = i + 1;
-                              const period = `${yr}-${mn.toString().padStart(2, '0')}`;
+                              const period = addMonths(activePlan.startDate, i);
                               const val = draftParams.manualValues?.[period] ?? 0;
                               return (
                                 <div key={period}>
@@ -642,6 +1129,74 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
                         </div>
                       )}
 
+                      {STATISTICAL_METHODS.includes(draftMethod) && (
+                        <div className="space-y-4">
+                          <div className="flex items-start gap-3 p-4 bg-blue-50 text-blue-700 rounded-md">
+                            <TrendingUp size={20} className="mt-0.5" />
+                            <div>
+                              <p className="font-semibold text-sm">
+                                {draftMethod === 'SeasonalNaive' && 'Seasonal Naive'}
+                                {draftMethod === 'MovingAverage' && 'Moving Average'}
+                                {draftMethod === 'HoltWinters' && 'Holt-Winters (Triple Exponential Smoothing)'}
+                              </p>
+                              <p className="text-xs opacity-80 mt-1">
+                                {draftMethod === 'SeasonalNaive' && 'Each month repeats the same month of the last observed season.'}
+                                {draftMethod === 'MovingAverage' && 'Projects the average of the trailing window. The window with the lowest historical one-step error is chosen automatically.'}
+                                {draftMethod === 'HoltWinters' && 'Smooths level, trend and seasonality. Parameters are fitted to minimise one-step error on history (needs 24 months; otherwise falls back to seasonal naive).'}
+                              </p>
+                            </div>
+                          </div>
+
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            {(draftMethod === 'SeasonalNaive' || draftMethod === 'HoltWinters') && (
+                              <div>
+                                <label className="block text-xs font-semibold text-slate-400 mb-1">Season Length</label>
+                                <input
+                                  type="number"
+                                  min="1"
+                                  value={draftParams.seasonLength ?? 12}
+                                  onChange={(e) => setDraftParams({ ...draftParams, seasonLength: Math.max(1, Number(e.target.value)) })}
+                                  className="w-full text-sm border-slate-200 rounded-md p-2"
+                                />
+                              </div>
+                            )}
+                            {draftMethod === 'MovingAverage' && (
+                              <div>
+                                <label className="block text-xs font-semibold text-slate-400 mb-1">Window (Months)</label>
+                                <input
+                                  type="number"
+                                  min="1"
+                                  value={draftParams.windowSize ?? ''}
+                                  onChange={(e) => setDraftParams({ ...draftParams, windowSize: Math.max(1, Number(e.target.value)) })}
+                                  className="w-full text-sm border-slate-200 rounded-md p-2"
+                                />
+                              </div>
+                            )}
+                            {draftMethod === 'HoltWinters' && (['alpha', 'beta', 'gamma'] as const).map(key => (
+                              <div key={key}>
+                                <label className="block text-xs font-semibold text-slate-400 mb-1 capitalize">{key}</label>
+                                <input
+                                  type="number"
+                                  step="0.05"
+                                  min="0"
+                                  max="1"
+                                  value={draftParams[key] ?? ''}
+                                  onChange={(e) => setDraftParams({ ...draftParams, [key]: Math.min(1, Math.max(0, Number(e.target.value))) })}
+                                  className="w-full text-sm border-slate-200 rounded-md p-2"
+                                />
+                              </div>
+                            ))}
+                          </div>
+
+                          <button
+                            onClick={() => setDraftParams({ ...draftParams, ...fitDraftParams(draftMethod) })}
+                            className="text-xs text-purple-700 hover:text-purple-900 font-medium flex items-center gap-1"
+                          >
+                            <Calculator size={12} /> Re-fit parameters to history
+                          </button>
+                        </div>
+                      )}
+
                       {draftMethod === 'Trend' && (
                         <div className="flex items-start gap-3 p-4 bg-blue-50 text-blue-700 rounded-md">
                           <TrendingUp size={20} className="mt-0.5" />
@@ -655,11 +1210,23 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
                         </div>
                       )}
 
-                      <div className="pt-4 border-t flex justify-end">
+                      <div className="pt-4 border-t flex justify-end items-center gap-3">
+                        {inheritedAssumption && !existingAssumption && (
+                          <span className="text-xs text-slate-500 mr-auto">Inherited from {parentPlan?.name}. Committing saves an override for this scenario.</span>
+                        )}
+                        {inheritedAssumption && existingAssumption && (
+                          <button
+                            onClick={handleRevertToParent}
+                            disabled={activePlan?.isLocked}
+                            className="mr-auto text-xs text-purple-700 hover:text-purple-900 font-medium disabled:opacity-50"
+                          >
+                            Revert to {parentPlan?.name}
+                          </button>
+                        )}
                         <button
                           onClick={handleCommitForecast}
-                          disabled={activePlan?.isLocked}
-                          className={`flex items-center gap-2 px-6 py-2.5 rounded-lg shadow-sm transition-all ${activePlan?.isLocked
+                          disabled={activePlan?.isLocked || formulaErrors.length > 0}
+                          className={`flex items-center gap-2 px-6 py-2.5 rounded-lg shadow-sm transition-all ${activePlan?.isLocked || formulaErrors.length > 0
                             ? 'bg-slate-100 text-slate-400 cursor-not-allowed'
                             : 'bg-purple-600 text-white hover:bg-purple-700 active:scale-95'
                             }`}
@@ -673,6 +1240,33 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
                 </>
               )}
 
+              {workbenchTab === 'overrides' && activePlanId && parentPlan && (
+                <ScenarioOverridesPanel
+                  data={data}
+                  planId={activePlanId}
+                  isLocked={activePlan?.isLocked}
+                  onChange={nextData => applyRecalculation(activePlanId, nextData)}
+                />
+              )}
+
+              {workbenchTab === 'versions' && activePlanId && (
+                <PlanSnapshotsPanel data={data} planId={activePlanId} isLocked={activePlan?.isLocked} onUpdate={onUpdate} />
+              )}
+
+              {workbenchTab === 'approval' && activePlanId && (
+                <PlanApprovalPanel
+                  data={data}
+                  planId={activePlanId}
+                  userName={userName}
+                  onUserNameChange={handleUserNameChange}
+                  onUpdate={onUpdate}
+                />
+              )}
+
+              {workbenchTab === 'goalseek' && activePlanId && (
+                <GoalSeekPanel data={data} planId={activePlanId} isLocked={activePlan?.isLocked} onCommit={handleCommitGoalSeek} />
+              )}
+
               {workbenchTab === 'list' && (
                 <div className="flex-1 overflow-auto bg-white">
                   <table className="w-full text-sm text-left">
@@ -683,24 +1277,31 @@ export const Forecast: React.FC<ForecastProps> = ({ data, onUpdate }) => {
                         <th className="px-4 py-2">Cost Center</th>
                         <th className="px-4 py-2">Method</th>
                         <th className="px-4 py-2">Details</th>
+                        <th className="px-4 py-2">Fit</th>
                         <th className="px-4 py-2">Last Updated</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-100">
-                      {data.assumptions.filter(a => a.planId === activePlanId).length === 0 ? (
-                        <tr><td colSpan={6} className="px-4 py-8 text-center text-slate-400">No assumptions modeled yet.</td></tr>
+                      {planAssumptions.length === 0 ? (
+                        <tr><td colSpan={7} className="px-4 py-8 text-center text-slate-400">No assumptions modeled yet.</td></tr>
                       ) : (
-                        data.assumptions.filter(a => a.planId === activePlanId).map(asm => {
+                        planAssumptions.map(asm => {
                           const accName = data.accounts.find(x => x.code === asm.accountCode)?.name || asm.accountCode;
                           const plName = asm.productLineCode ? PROD_LINES.find(x => x.code === asm.productLineCode)?.name : 'All';
                           const ccName = asm.costCenterCode ? COST_CENTERS.find(x => x.code === asm.costCenterCode)?.name : 'All';
                           return (
                             <tr key={asm.id} className="hover:bg-slate-50">
-                              <td className="px-4 py-2 font-medium">{accName}</td>
+                              <td className="px-4 py-2 font-medium">
+                                {accName}
+                                {parentPlan && data.assumptions.find(a => a.id === asm.id)?.planId !== activePlanId && (
+                                  <span className="ml-2 text-[10px] font-normal bg-slate-100 text-slate-500 px-1.5 py-0.5 rounded">Inherited</span>
+                                )}
+                              </td>
                               <td className="px-4 py-2 text-slate-500">{plName}</td>
                               <td className="px-4 py-2 text-slate-500">{ccName}</td>
                               <td className="px-4 py-2 text-purple-600">{asm.method}</td>
                               <td className="px-4 py-2 text-slate-400 text-xs truncate max-w-[200px]">{JSON.stringify(asm.params)}</td>
+                              <td className="px-4 py-2 text-xs">{asm.backtestAccuracy !== undefined ? `${asm.backtestAccuracy}/100` : '-'}</td>
                               <td className="px-4 py-2 text-slate-400 text-xs">{new Date(asm.lastUpdated).toLocaleDateString()}</td>
                             </tr>
                           );
@@ -0,0 +1,475 @@
+import React, { useState, useMemo } from 'react';
+import { AppData, CompensationSettings, HeadcountPosition } from '../types';
+import { Card } from '../components/ui/Card';
+import { Users, Plus, Trash2, Calculator, AlertTriangle } from 'lucide-react';
+import { SAAS_CATEGORIES } from '../services/financialModel';
+import { DEFAULT_COMPENSATION_SETTINGS, calculateHeadcountStats, getPlanRoster } from '../services/headcountService';
+import { describeCycle } from '../services/recalcEngine';
+import { recalculatePlanFigures } from '../services/rollingForecastService';
+
+interface HeadcountProps {
+  data: AppData;
+  onUpdate: (newData: AppData) => void;
+}
+
+const RATE_FIELDS: { field: keyof CompensationSettings; label: string }[] = [
+  { field: 'meritRate', label: 'Merit Increase %' },
+  { field: 'benefitsRate', label: 'Benefits %' },
+  { field: 'payrollTaxRate', label: 'Payroll Tax %' },
+  { field: 'bonusRate', label: 'Bonus Accrual %' }
+];
+
+const ACCOUNT_FIELDS: { field: keyof CompensationSettings; label: string }[] = [
+  { field: 'salaryAccountCode', label: 'Salary Account' },
+  { field: 'burdenAccountCode', label: 'Burden Account' },
+  { field: 'bonusAccountCode', label: 'Bonus Account' }
+];
+
+const emptyPosition = (): Partial<HeadcountPosition> => ({
+  startDate: new Date().toISOString().slice(0, 7),
+  fte: 1
+});
+
+export const Headcount: React.FC<HeadcountProps> = ({ data, onUpdate }) => {
+  const [activePlanId, setActivePlanId] = useState<string>(() => {
+    const working = data.plans.find(p => p.isWorkingPlan);
+    return working ? working.id : (data.plans[0]?.id || '');
+  });
+  const [isAdding, setIsAdding] = useState(false);
+  const [newRow, setNewRow] = useState<Partial<HeadcountPosition>>(emptyPosition());
+  const [newRowIsHire, setNewRowIsHire] = useState(true);
+
+  const activePlan = data.plans.find(p => p.id === activePlanId);
+  const settings = data.compensationSettings.find(s => s.planId === activePlanId);
+  const roster = useMemo(() => getPlanRoster(activePlanId, data), [activePlanId, data.headcount]);
+  const stats = useMemo(() => calculateHeadcountStats(activePlanId, data), [activePlanId, data]);
+
+  const periods = useMemo(() => Array.from(new Set(stats.map(s => s.period))), [stats]);
+  const statCostCenters = useMemo(() => Array.from(new Set(stats.map(s => s.costCenterCode))), [stats]);
+
+  // Assumptions on the compensation accounts would double count the generated payroll cost
+  const conflictingAssumptions = useMemo(() => {
+    if (!settings) return [];
+    const accounts = new Set([settings.salaryAccountCode, settings.burdenAccountCode, settings.bonusAccountCode]);
+    return data.assumptions.filter(a => a.planId === activePlanId && accounts.has(a.accountCode));
+  }, [data.assumptions, settings, activePlanId]);
+
+  const ccName = (code: string) => data.costCenters.find(c => c.code === code)?.name || code;
+
+  // Rolling plans only re-forecast, so the Budget they started from is kept
+  const applyRecalculation = (nextData: AppData) => {
+    const result = recalculatePlanFigures(activePlanId, nextData);
+    if (result.cycles.length > 0) {
+      alert(`Circular reference detected. Nothing was generated:\n${result.cycles.map(c => describeCycle(c, nextData)).join('\n')}`);
+      return;
+    }
+    onUpdate(result.data);
+  };
+
+  const handleEnable = () => {
+    const next: CompensationSettings = { ...DEFAULT_COMPENSATION_SETTINGS, planId: activePlanId };
+    onUpdate({ ...data, compensationSettings: [...data.compensationSettings, next] });
+  };
+
+  const handleDisable = () => {
+    if (!confirm('Disable headcount planning for this plan? Generated compensation records will be removed.')) return;
+    applyRecalculation({ ...data, compensationSettings: data.compensationSettings.filter(s => s.planId !== activePlanId) });
+  };
+
+  const updateSettings = (field: keyof CompensationSettings, value: any) => {
+    const updated = data.compensationSettings.map(s => s.planId === activePlanId ? { ...s, [field]: value } : s);
+    onUpdate({ ...data, compensationSettings: updated });
+  };
+
+  const handleSave = () => {
+    if (!newRow.name || !newRow.costCenterCode || !newRow.startDate || !newRow.baseSalary) {
+      alert("Please provide Name, Cost Center, Start Month and Base Salary.");
+      return;
+    }
+    if (newRow.endDate && newRow.endDate < newRow.startDate) {
+      alert("End Month cannot be before Start Month.");
+      return;
+    }
+
+    const position: HeadcountPosition = {
+      id: crypto.randomUUID(),
+      planId: newRowIsHire ? activePlanId : undefined,
+      name: newRow.name,
+      title: newRow.title || '',
+      costCenterCode: newRow.costCenterCode,
+      productLineCode: newRow.productLineCode || undefined,
+      startDate: newRow.startDate,
+      endDate: newRow.endDate || undefined,
+      baseSalary: Number(newRow.baseSalary),
+      fte: Number(newRow.fte) || 1
+    };
+
+    onUpdate({ ...data, headcount: [...data.headcount, position] });
+    setIsAdding(false);
+    setNewRow(emptyPosition());
+  };
+
+  const updatePosition = (id: string, field: keyof HeadcountPosition, value: any) => {
+    const updated = data.headcount.map(p => p.id === id ? { ...p, [field]: value } : p);
+    onUpdate({ ...data, headcount: updated });
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm('Delete this position?')) {
+      onUpdate({ ...data, headcount: data.headcount.filter(p => p.id !== id) });
+    }
+  };
+
+  const renderAccountOptions = () => (
+    <>
+      {SAAS_CATEGORIES.map(category => (
+        <optgroup key={category} label={category}>
+          {data.accounts.filter(a => a.category === category).map(acc => (
+            <option key={acc.code} value={acc.code}>{acc.name}</option>
+          ))}
+        </optgroup>
+      ))}
+    </>
+  );
+
+  if (data.plans.length === 0) {
+    return (
+      <div className="text-center py-20 text-slate-500">
+        Create a plan in Settings before building a hiring plan.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Users className="text-purple-600" size={24} />
+            Headcount & Compensation
+          </h2>
+          <p className="text-sm text-slate-500">Plan hires by cost center and generate payroll cost into the plan.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            className="border border-slate-300 rounded-md px-3 py-2 text-sm bg-white"
+            value={activePlanId}
+            onChange={e => setActivePlanId(e.target.value)}
+          >
+            {data.plans.map(p => (
+              <option key={p.id} value={p.id}>
+                {p.name} {p.isWorkingPlan ? '(Working)' : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => applyRecalculation(data)}
+            disabled={!settings || activePlan?.isLocked}
+            title="Regenerate compensation records and every assumption of the plan"
+            className="bg-purple-600 text-white px-4 py-2 rounded-lg shadow hover:bg-purple-700 flex items-center gap-2 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Calculator size={16} /> Generate Compensation
+          </button>
+        </div>
+      </div>
+
+      {conflictingAssumptions.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-lg p-3 flex items-start gap-2">
+          <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+          <span>
+            {conflictingAssumptions.length} forecast assumption(s) in this plan also target the compensation accounts.
+            Other payroll records in the roster's cost centers are replaced by the generated cost, but assumption values are still
+            added on top of it; remove them in the Forecast workbench to avoid double counting.
+          </span>
+        </div>
+      )}
+
+      <Card
+        title="Compensation Settings"
+        action={settings && (
+          <button onClick={handleDisable} className="text-xs text-slate-500 hover:text-red-600">Disable</button>
+        )}
+      >
+        {!settings ? (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-slate-500">Headcount planning is not enabled for this plan.</p>
+            <button
+              onClick={handleEnable}
+              disabled={activePlan?.isLocked}
+              className="px-4 py-2 bg-slate-800 text-white rounded-md text-sm hover:bg-slate-900 disabled:opacity-50"
+            >
+              Enable Headcount Planning
+            </button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Merit Month</label>
+              <select
+                className="w-full border rounded p-2 text-sm"
+                value={settings.meritMonth}
+                onChange={e => updateSettings('meritMonth', parseInt(e.target.value))}
+              >
+                {Array.from({ length: 12 }, (_, i) => i + 1).map(m => (
+                  <option key={m} value={m}>
+                    {new Date(2000, m - 1, 1).toLocaleString('default', { month: 'long' })}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {RATE_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <label className="block text-xs font-semibold text-slate-500 mb-1">{label}</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  className="w-full border rounded p-2 text-sm"
+                  value={Math.round((settings[field] as number) * 10000) / 100}
+                  onChange={e => updateSettings(field, Number(e.target.value) / 100)}
+                />
+              </div>
+            ))}
+            {ACCOUNT_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <label className="block text-xs font-semibold text-slate-500 mb-1">{label}</label>
+                <select
+                  className="w-full border rounded p-2 text-sm"
+                  value={settings[field] as string}
+                  onChange={e => updateSettings(field, e.target.value)}
+                >
+                  {renderAccountOptions()}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <Card
+        title={`Roster (${roster.length})`}
+        action={
+          <button
+            onClick={() => setIsAdding(!isAdding)}
+            className="flex items-center gap-1 text-sm text-purple-700 hover:text-purple-900 font-medium"
+          >
+            <Plus size={16} /> Add Position
+          </button>
+        }
+      >
+        {isAdding && (
+          <div className="grid grid-cols-2 md:grid-cols-8 gap-3 mb-6 p-4 bg-slate-50 rounded-lg border border-slate-200">
+            <div className="md:col-span-2">
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Name</label>
+              <input
+                className="w-full border rounded p-2 text-sm"
+                placeholder="e.g. Jane Doe or TBH Engineer"
+                value={newRow.name || ''}
+                onChange={e => setNewRow({ ...newRow, name: e.target.value })}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Title</label>
+              <input
+                className="w-full border rounded p-2 text-sm"
+                value={newRow.title || ''}
+                onChange={e => setNewRow({ ...newRow, title: e.target.value })}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Cost Center</label>
+              <select
+                className="w-full border rounded p-2 text-sm"
+                value={newRow.costCenterCode || ''}
+                onChange={e => setNewRow({ ...newRow, costCenterCode: e.target.value })}
+              >
+                <option value="" disabled>Select...</option>
+                {data.costCenters.map(cc => <option key={cc.code} value={cc.code}>{cc.name}</option>)}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Product Line</label>
+              <select
+                className="w-full border rounded p-2 text-sm"
+                value={newRow.productLineCode || ''}
+                onChange={e => setNewRow({ ...newRow, productLineCode: e.target.value })}
+              >
+                <option value="">Shared (no product line)</option>
+                {data.productLines.map(pl => <option key={pl.code} value={pl.code}>{pl.name}</option>)}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Scope</label>
+              <select
+                className="w-full border rounded p-2 text-sm"
+                value={newRowIsHire ? 'hire' : 'existing'}
+                onChange={e => setNewRowIsHire(e.target.value === 'hire')}
+              >
+                <option value="hire">Planned hire (this plan only)</option>
+                <option value="existing">Existing employee (all plans)</option>
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Start Month</label>
+              <input
+                type="month"
+                className="w-full border rounded p-2 text-sm"
+                value={newRow.startDate || ''}
+                onChange={e => setNewRow({ ...newRow, startDate: e.target.value })}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-semibold text-slate-500 mb-1">End Month (optional)</label>
+              <input
+                type="month"
+                className="w-full border rounded p-2 text-sm"
+                value={newRow.endDate || ''}
+                onChange={e => setNewRow({ ...newRow, endDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">Base Salary</label>
+              <input
+                type="number"
+                className="w-full border rounded p-2 text-sm"
+                value={newRow.baseSalary || ''}
+                onChange={e => setNewRow({ ...newRow, baseSalary: Number(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">FTE</label>
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                max="1"
+                className="w-full border rounded p-2 text-sm"
+                value={newRow.fte ?? 1}
+                onChange={e => setNewRow({ ...newRow, fte: Number(e.target.value) })}
+              />
+            </div>
+            <div className="col-span-2 md:col-span-8 flex justify-end gap-3">
+              <button onClick={() => setIsAdding(false)} className="px-4 py-2 text-slate-500 hover:text-slate-800 text-sm">Cancel</button>
+              <button onClick={handleSave} className="px-6 py-2 bg-purple-600 text-white rounded-md shadow-sm hover:bg-purple-700 text-sm font-medium">Save Position</button>
+            </div>
+          </div>
+        )}
+
+        {roster.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-6">No positions yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase text-slate-500 border-b border-slate-200">
+                  <th className="py-2 pr-3">Name</th>
+                  <th className="py-2 pr-3">Title</th>
+                  <th className="py-2 pr-3">Cost Center</th>
+                  <th className="py-2 pr-3">Product Line</th>
+                  <th className="py-2 pr-3">Start</th>
+                  <th className="py-2 pr-3">End</th>
+                  <th className="py-2 pr-3 text-right">Base Salary</th>
+                  <th className="py-2 pr-3 text-right">FTE</th>
+                  <th className="py-2 pr-3">Scope</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {roster.map(p => (
+                  <tr key={p.id} className="border-b border-slate-50 hover:bg-slate-50 group">
+                    <td className="py-1.5 pr-3">
+                      <input className="bg-transparent w-full" value={p.name} onChange={e => updatePosition(p.id, 'name', e.target.value)} />
+                    </td>
+                    <td className="py-1.5 pr-3">
+                      <input className="bg-transparent w-full text-slate-600" value={p.title || ''} onChange={e => updatePosition(p.id, 'title', e.target.value)} />
+                    </td>
+                    <td className="py-1.5 pr-3">
+                      <select className="bg-transparent" value={p.costCenterCode} onChange={e => updatePosition(p.id, 'costCenterCode', e.target.value)}>
+                        {data.costCenters.map(cc => <option key={cc.code} value={cc.code}>{cc.name}</option>)}
+                      </select>
+                    </td>
+                    <td className="py-1.5 pr-3">
+                      <select className="bg-transparent text-slate-600" value={p.productLineCode || ''} onChange={e => updatePosition(p.id, 'productLineCode', e.target.value || undefined)}>
+                        <option value="">Shared</option>
+                        {data.productLines.map(pl => <option key={pl.code} value={pl.code}>{pl.name}</option>)}
+                      </select>
+                    </td>
+                    <td className="py-1.5 pr-3">
+                      <input type="month" className="bg-transparent text-xs" value={p.startDate} onChange={e => updatePosition(p.id, 'startDate', e.target.value)} />
+                    </td>
+                    <td className="py-1.5 pr-3">
+                      <input type="month" className="bg-transparent text-xs" value={p.endDate || ''} onChange={e => updatePosition(p.id, 'endDate', e.target.value || undefined)} />
+                    </td>
+                    <td className="py-1.5 pr-3 text-right">
+                      <input type="number" className="bg-transparent w-28 text-right" value={p.baseSalary} onChange={e => updatePosition(p.id, 'baseSalary', Number(e.target.value))} />
+                    </td>
+                    <td className="py-1.5 pr-3 text-right">
+                      <input type="number" step="0.1" className="bg-transparent w-14 text-right" value={p.fte} onChange={e => updatePosition(p.id, 'fte', Number(e.target.value))} />
+                    </td>
+                    <td className="py-1.5 pr-3">
+                      <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full ${p.planId ? 'bg-purple-50 text-purple-700' : 'bg-slate-100 text-slate-600'}`}>
+                        {p.planId ? 'Hire' : 'Existing'}
+                      </span>
+                    </td>
+                    <td className="py-1.5 text-right">
+                      <button onClick={() => handleDelete(p.id)} className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {stats.length > 0 && (
+        <Card title="Headcount by Cost Center">
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-slate-200 text-slate-500">
+                  <th className="py-2 pr-3 text-left sticky left-0 bg-white">Cost Center</th>
+                  {periods.map(period => <th key={period} className="py-2 px-2 text-right font-medium">{period}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {statCostCenters.map(cc => (
+                  <tr key={cc} className="border-b border-slate-50">
+                    <td className="py-1.5 pr-3 sticky left-0 bg-white text-slate-700">{ccName(cc)}</td>
+                    {periods.map(period => {
+                      const stat = stats.find(s => s.period === period && s.costCenterCode === cc);
+                      return (
+                        <td key={period} className="py-1.5 px-2 text-right text-slate-700">
+                          {stat?.fte ? stat.fte.toLocaleString(undefined, { maximumFractionDigits: 1 }) : '-'}
+                          {stat && stat.hires > 0 && <span className="text-emerald-600 ml-1">+{stat.hires}</span>}
+                          {stat && stat.exits > 0 && <span className="text-red-500 ml-1">-{stat.exits}</span>}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                <tr className="font-semibold border-t border-slate-200">
+                  <td className="py-1.5 pr-3 sticky left-0 bg-white">Total FTE</td>
+                  {periods.map(period => (
+                    <td key={period} className="py-1.5 px-2 text-right">
+                      {stats.filter(s => s.period === period).reduce((sum, s) => sum + s.fte, 0).toLocaleString(undefined, { maximumFractionDigits: 1 })}
+                    </td>
+                  ))}
+                </tr>
+                <tr className="text-slate-600">
+                  <td className="py-1.5 pr-3 sticky left-0 bg-white">Total Cost</td>
+                  {periods.map(period => (
+                    <td key={period} className="py-1.5 px-2 text-right">
+                      ${(stats.filter(s => s.period === period).reduce((sum, s) => sum + s.salary + s.burden + s.bonus, 0) / 1000).toFixed(0)}k
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,357 @@
+import React, { useMemo, useState } from 'react';
+import { AppData } from '../types';
+import { Card } from '../components/ui/Card';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { GitCompare, Plus, X, ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  ACTUALS_COLUMN,
+  ComparisonColumn,
+  attributePlanDelta,
+  buildComparisonTable,
+  buildVarianceWalk,
+  profitSign
+} from '../services/comparisonService';
+import { formatFiscalYear, getFiscalYear, getFiscalYearPeriods } from '../services/fiscalCalendar';
+import { listPeriods } from '../services/periodUtils';
+
+interface PlanComparisonProps {
+  data: AppData;
+}
+
+const MAX_PLANS = 4;
+
+export const PlanComparison: React.FC<PlanComparisonProps> = ({ data }) => {
+  const calendar = data.fiscalCalendar;
+  const [planIds, setPlanIds] = useState<string[]>(() => {
+    const working = data.plans.find(p => p.isWorkingPlan) || data.plans[0];
+    const other = data.plans.find(p => p.id !== working?.id);
+    return [working?.id, other?.id].filter((id): id is string => !!id);
+  });
+  const [includeActuals, setIncludeActuals] = useState(false);
+  const [includeRisks, setIncludeRisks] = useState(true);
+  const [expandedCats, setExpandedCats] = useState<Record<string, boolean>>({});
+  const [expandedSteps, setExpandedSteps] = useState<Record<string, boolean>>({});
+
+  // Fiscal years covered by any of the selected plans
+  const availableYears = useMemo(() => {
+    const years = new Set<number>();
+    data.plans.filter(p => planIds.includes(p.id)).forEach(p => {
+      listPeriods(p.startDate, p.endDate).forEach(period => years.add(getFiscalYear(period, calendar)));
+    });
+    if (years.size === 0) years.add(getFiscalYear(new Date().toISOString().slice(0, 7), calendar));
+    return Array.from(years).sort();
+  }, [data.plans, planIds, calendar]);
+  const [selectedYear, setSelectedYear] = useState<number>(() => availableYears[0]);
+  const year = availableYears.includes(selectedYear) ? selectedYear : availableYears[0];
+  const periods = useMemo(() => getFiscalYearPeriods(year, calendar), [year, calendar]);
+
+  const columns: ComparisonColumn[] = useMemo(() => [
+    ...(includeActuals ? [{ id: ACTUALS_COLUMN, label: 'Actuals' }] : []),
+    ...planIds.map(id => ({ id, label: data.plans.find(p => p.id === id)?.name || id }))
+  ], [includeActuals, planIds, data.plans]);
+
+  // Deltas are measured against the first plan
+  const baselineIndex = columns.findIndex(c => c.id === planIds[0]);
+
+  const [walkFrom, setWalkFrom] = useState<string>('');
+  const [walkTo, setWalkTo] = useState<string>('');
+  const fromId = columns.some(c => c.id === walkFrom) ? walkFrom : planIds[0];
+  const toId = columns.some(c => c.id === walkTo) && walkTo !== fromId ? walkTo : columns.find(c => c.id !== fromId)?.id;
+
+  const lines = useMemo(
+    () => buildComparisonTable(columns, data, periods, includeRisks),
+    [columns, data.records, data.accounts, data.opportunities, data.fxRates, periods, includeRisks]
+  );
+
+  const walk = useMemo(
+    () => fromId && toId ? buildVarianceWalk(fromId, toId, data, periods, includeRisks) : null,
+    [fromId, toId, data.records, data.accounts, data.opportunities, data.fxRates, periods, includeRisks]
+  );
+
+  const attribution = useMemo(() => {
+    if (!fromId || !toId || fromId === ACTUALS_COLUMN || toId === ACTUALS_COLUMN) return null;
+    return attributePlanDelta(fromId, toId, data, periods, includeRisks);
+  }, [fromId, toId, data.records, data.accounts, data.assumptions, data.opportunities, data.plans, data.fxRates, periods, includeRisks]);
+
+  const walkChart = useMemo(() => {
+    if (!walk) return [];
+    const labelOf = (id: string) => columns.find(c => c.id === id)?.label || id;
+    let running = walk.start;
+    const steps = walk.steps.filter(s => Math.abs(s.impact) >= 0.5).map(s => {
+      const base = s.impact >= 0 ? running : running + s.impact;
+      running += s.impact;
+      return { name: s.category, base, value: Math.abs(s.impact), kind: s.impact >= 0 ? 'up' : 'down' };
+    });
+    return [
+      { name: labelOf(fromId), base: 0, value: walk.start, kind: 'total' },
+      ...steps,
+      { name: labelOf(toId!), base: 0, value: walk.end, kind: 'total' }
+    ];
+  }, [walk, columns, fromId, toId]);
+
+  const formatCurrency = (val: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: data.reportingCurrency, maximumFractionDigits: 0 }).format(val);
+
+  const formatDelta = (val: number) => `${val > 0 ? '+' : ''}${formatCurrency(val)}`;
+  const deltaClass = (val: number) => Math.abs(val) < 0.5 ? 'text-slate-400' : val > 0 ? 'text-emerald-600' : 'text-rose-600';
+
+  const setPlanAt = (index: number, id: string) => setPlanIds(planIds.map((p, i) => i === index ? id : p));
+  const addPlan = () => {
+    const next = data.plans.find(p => !planIds.includes(p.id));
+    if (next) setPlanIds([...planIds, next.id]);
+  };
+
+  if (data.plans.length === 0) {
+    return <div className="text-slate-500 text-center py-12">Create a plan in the Forecast view to compare plans.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <GitCompare className="text-purple-600" size={24} />
+            Plan Comparison
+          </h2>
+          <p className="text-sm text-slate-500">Compare plans and scenarios side by side and explain what moves profit between them.</p>
+        </div>
+        <select
+          className="border border-slate-300 rounded-md px-3 py-2 text-sm bg-white"
+          value={year}
+          onChange={e => setSelectedYear(Number(e.target.value))}
+        >
+          {availableYears.map(y => <option key={y} value={y}>{formatFiscalYear(y, calendar)}</option>)}
+        </select>
+      </div>
+
+      <Card title="Plans">
+        <div className="flex flex-wrap items-end gap-3">
+          {planIds.map((id, i) => (
+            <div key={i}>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">{i === 0 ? 'Plan A (baseline)' : `Plan ${String.fromCharCode(65 + i)}`}</label>
+              <div className="flex items-center gap-1">
+                <select className="border rounded p-2 text-sm" value={id} onChange={e => setPlanAt(i, e.target.value)}>
+                  {data.plans.map(p => (
+                    <option key={p.id} value={p.id} disabled={p.id !== id && planIds.includes(p.id)}>
+                      {p.name}{p.type === 'Scenario' && p.parentPlanId ? ' (scenario)' : ''}
+                    </option>
+                  ))}
+                </select>
+                {planIds.length > 2 && (
+                  <button onClick={() => setPlanIds(planIds.filter((_, j) => j !== i))} className="text-slate-400 hover:text-red-500" title="Remove">
+                    <X size={14} />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+          {planIds.length < Math.min(MAX_PLANS, data.plans.length) && (
+            <button onClick={addPlan} className="px-3 py-2 text-sm text-purple-700 hover:text-purple-900 font-medium flex items-center gap-1">
+              <Plus size={14} /> Add Plan
+            </button>
+          )}
+          <label className="flex items-center gap-2 text-sm text-slate-600 ml-auto">
+            <input type="checkbox" checked={includeActuals} onChange={e => setIncludeActuals(e.target.checked)} />
+            Include Actuals
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={includeRisks} onChange={e => setIncludeRisks(e.target.checked)} />
+            Include in-budget R&O
+          </label>
+        </div>
+      </Card>
+
+      <Card title={`P&L ${formatFiscalYear(year, calendar)}`} className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase text-slate-500 border-b border-slate-200">
+              <th className="py-2 pr-3">Line</th>
+              {columns.map(c => <th key={c.id} className="py-2 px-3 text-right">{c.label}</th>)}
+              {columns.map((c, i) => i !== baselineIndex && (
+                <th key={`d-${c.id}`} className="py-2 px-3 text-right bg-slate-50">Δ {c.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {lines
+              .filter(line => line.kind !== 'account' || expandedCats[line.category!])
+              .map(line => {
+                const isCategory = line.kind === 'category';
+                const rowClass = line.kind === 'subtotal'
+                  ? 'bg-slate-50 font-bold text-slate-800 border-t border-slate-200'
+                  : isCategory ? 'font-semibold text-slate-700 hover:bg-slate-50 cursor-pointer' : 'text-slate-600 hover:bg-slate-50';
+                return (
+                  <tr
+                    key={line.key}
+                    className={`border-b border-slate-50 ${rowClass}`}
+                    onClick={isCategory ? () => setExpandedCats({ ...expandedCats, [line.key]: !expandedCats[line.key] }) : undefined}
+                  >
+                    <td className={`py-1.5 pr-3 ${line.kind === 'account' ? 'pl-8' : ''}`}>
+                      <span className="flex items-center gap-1">
+                        {isCategory && (expandedCats[line.key] ? <ChevronDown size={14} /> : <ChevronRight size={14} />)}
+                        {line.label}
+                      </span>
+                    </td>
+                    {line.values.map((v, i) => <td key={i} className="py-1.5 px-3 text-right font-mono">{formatCurrency(v)}</td>)}
+                    {line.values.map((v, i) => {
+                      if (i === baselineIndex) return null;
+                      // Costs shown as profit impact: spending more is negative
+                      const raw = v - line.values[baselineIndex];
+                      const delta = line.category ? profitSign(line.category) * raw : raw;
+                      return <td key={`d-${i}`} className={`py-1.5 px-3 text-right font-mono bg-slate-50/50 ${deltaClass(delta)}`}>{formatDelta(delta)}</td>;
+                    })}
+                  </tr>
+                );
+              })}
+          </tbody>
+        </table>
+        <p className="text-xs text-slate-400 mt-2">Deltas are against {columns[baselineIndex]?.label} and show the effect on profit: higher costs are negative.</p>
+      </Card>
+
+      {walk && toId && (
+        <Card
+          title="Net Income Walk"
+          action={
+            <div className="flex items-center gap-2 text-sm">
+              <select className="border rounded px-2 py-1" value={fromId} onChange={e => setWalkFrom(e.target.value)}>
+                {columns.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+              </select>
+              <span className="text-slate-400">→</span>
+              <select className="border rounded px-2 py-1" value={toId} onChange={e => setWalkTo(e.target.value)}>
+                {columns.filter(c => c.id !== fromId).map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+              </select>
+            </div>
+          }
+        >
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={walkChart}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="name" tick={{ fontSize: 11 }} />
+                  <YAxis tickFormatter={v => `${(v / 1000).toFixed(0)}k`} tick={{ fontSize: 11 }} />
+                  <Tooltip formatter={(value: number, name: string) => name === 'base' ? null : formatCurrency(value)} />
+                  <Bar dataKey="base" stackId="walk" fill="transparent" />
+                  <Bar dataKey="value" stackId="walk">
+                    {walkChart.map((d, i) => (
+                      <Cell key={i} fill={d.kind === 'total' ? '#7c3aed' : d.kind === 'up' ? '#10b981' : '#f43f5e'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <table className="w-full text-sm">
+              <tbody>
+                <tr className="font-semibold text-slate-700 border-b border-slate-200">
+                  <td className="py-1.5">{columns.find(c => c.id === fromId)?.label} net income</td>
+                  <td className="py-1.5 text-right font-mono">{formatCurrency(walk.start)}</td>
+                </tr>
+                {walk.steps.map(step => (
+                  <React.Fragment key={step.category}>
+                    <tr
+                      className="border-b border-slate-50 hover:bg-slate-50 cursor-pointer"
+                      onClick={() => setExpandedSteps({ ...expandedSteps, [step.category]: !expandedSteps[step.category] })}
+                    >
+                      <td className="py-1.5 text-slate-700">
+                        <span className="flex items-center gap-1">
+                          {step.accounts.length > 0 && (expandedSteps[step.category] ? <ChevronDown size={14} /> : <ChevronRight size={14} />)}
+                          {step.category}
+                        </span>
+                      </td>
+                      <td className={`py-1.5 text-right font-mono ${deltaClass(step.impact)}`}>{formatDelta(step.impact)}</td>
+                    </tr>
+                    {expandedSteps[step.category] && step.accounts.map(a => (
+                      <tr key={a.accountCode} className="text-xs text-slate-500">
+                        <td className="py-1 pl-8">{a.label}</td>
+                        <td className={`py-1 text-right font-mono ${deltaClass(a.impact)}`}>{formatDelta(a.impact)}</td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                ))}
+                <tr className="font-semibold text-slate-700 border-t border-slate-200">
+                  <td className="py-1.5">{columns.find(c => c.id === toId)?.label} net income</td>
+                  <td className="py-1.5 text-right font-mono">{formatCurrency(walk.end)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      {toId && (
+        <Card title="What Drives the Difference">
+          {!attribution ? (
+            <p className="text-sm text-slate-400 text-center py-6">Walk between two plans to break the difference down by assumption and R&O item.</p>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">By assumption</h4>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {attribution.assumptions.length === 0 && (
+                      <tr><td className="py-2 text-slate-400">The plans use the same assumptions.</td></tr>
+                    )}
+                    {attribution.assumptions.map(a => (
+                      <tr key={a.key} className="border-b border-slate-50">
+                        <td className="py-1.5 text-slate-700">
+                          {a.label}
+                          <div className="text-[10px] text-slate-400">
+                            {a.change === 'Changed' ? `${a.fromMethod} → ${a.toMethod}` : a.change === 'Added' ? `Added (${a.toMethod})` : `Removed (${a.fromMethod})`}
+                          </div>
+                        </td>
+                        <td className={`py-1.5 text-right font-mono ${deltaClass(a.impact)}`}>{formatDelta(a.impact)}</td>
+                      </tr>
+                    ))}
+                    <tr className="border-b border-slate-50 text-slate-500">
+                      <td className="py-1.5">Knock-on on unchanged assumptions</td>
+                      <td className={`py-1.5 text-right font-mono ${deltaClass(attribution.knockOn)}`}>{formatDelta(attribution.knockOn)}</td>
+                    </tr>
+                    {attribution.drivers.map(d => (
+                      <tr key={d.source} className="border-b border-slate-50 text-slate-500">
+                        <td className="py-1.5">{d.source} driver</td>
+                        <td className={`py-1.5 text-right font-mono ${deltaClass(d.impact)}`}>{formatDelta(d.impact)}</td>
+                      </tr>
+                    ))}
+                    <tr className="border-b border-slate-50 text-slate-500">
+                      <td className="py-1.5">Manual and imported lines</td>
+                      <td className={`py-1.5 text-right font-mono ${deltaClass(attribution.other)}`}>{formatDelta(attribution.other)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <h4 className="text-xs font-semibold text-slate-500 uppercase mb-2">By R&O item</h4>
+                {!includeRisks ? (
+                  <p className="text-sm text-slate-400">Include in-budget R&O to see their contribution.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {attribution.risks.length === 0 && (
+                        <tr><td className="py-2 text-slate-400">R&O items have the same impact in both plans.</td></tr>
+                      )}
+                      {attribution.risks.map(r => (
+                        <tr key={r.id} className="border-b border-slate-50">
+                          <td className="py-1.5 text-slate-700">
+                            {r.label}
+                            <div className="text-[10px] text-slate-400">{formatCurrency(r.fromImpact)} → {formatCurrency(r.toImpact)}</div>
+                          </td>
+                          <td className={`py-1.5 text-right font-mono ${deltaClass(r.impact)}`}>{formatDelta(r.impact)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                <div className="flex justify-between mt-4 pt-2 border-t border-slate-200 font-semibold text-slate-700 text-sm">
+                  <span>Total difference</span>
+                  <span className={`font-mono ${deltaClass(attribution.total)}`}>{formatDelta(attribution.total)}</span>
+                </div>
+              </div>
+            </div>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+};
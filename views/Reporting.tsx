@@ -2,7 +2,20 @@ import React, { useState, useMemo } from 'react';
 import { AppData, RecordType, DimensionMapping } from '../types';
 import { Card } from '../components/ui/Card';
 import { AccountCategory } from '../services/financialModel';
-import { Calendar, Filter, ArrowDownRight, ArrowUpRight, ChevronRight, ChevronDown } from 'lucide-react';
+import { TranslationBasis, createTranslator, findMissingFxRates } from '../services/currencyService';
+import {
+  formatFiscalYear,
+  getFiscalQuarter,
+  getFiscalQuarterPeriods,
+  getFiscalYear,
+  getFiscalYearEnd,
+  getFiscalYearPeriods,
+  getFiscalYtdPeriods,
+  getPeriodsWeeks,
+  getPriorYearPeriod,
+  getTrailingPeriods
+} from '../services/fiscalCalendar';
+import { Calendar, Filter, ArrowDownRight, ArrowUpRight, ChevronRight, ChevronDown, AlertTriangle } from 'lucide-react';
 
 interface ReportingProps {
   data: AppData;
@@ -10,24 +23,60 @@ interface ReportingProps {
 
 type TimeBasis = 'Monthly' | 'Quarterly' | 'YTD' | 'TTM' | 'Year';
 
+// Actual, Budget, Prior Year and Latest Forecast for one row
+interface RowValues {
+  act: number;
+  bud: number;
+  py: number;
+  fc: number;
+  actCc: number; // Actual at budget rates (constant currency)
+}
+
 export const Reporting: React.FC<ReportingProps> = ({ data }) => {
   const [timeBasis, setTimeBasis] = useState<TimeBasis>('Year');
   
   // Calculate available years and default to most recent
+  // Years, quarters and YTD follow the fiscal calendar
+  const calendar = data.fiscalCalendar;
   const availableYears = useMemo(() => {
-      const years = new Set(data.records.map(r => parseInt(r.period.split('-')[0])));
-      if (years.size === 0) years.add(new Date().getFullYear());
+      const years = new Set(data.records.map(r => getFiscalYear(r.period, calendar)));
+      if (years.size === 0) years.add(getFiscalYear(new Date().toISOString().slice(0, 7), calendar));
       return Array.from(years).sort();
-  }, [data.records]);
+  }, [data.records, calendar]);
 
   const maxYear = availableYears[availableYears.length - 1];
 
   // For Month/Qtr selection
-  const [selectedDate, setSelectedDate] = useState<string>(`${maxYear}-12`); // Format YYYY-MM
+  const [selectedDate, setSelectedDate] = useState<string>(() => getFiscalYearEnd(maxYear, calendar)); // Format YYYY-MM
   // For Year selection
   const [selectedYear, setSelectedYear] = useState<number>(maxYear);
+
+  // A new fiscal calendar regroups every period, so start again from its latest fiscal year
+  React.useEffect(() => {
+    setSelectedYear(maxYear);
+    setSelectedDate(getFiscalYearEnd(maxYear, calendar));
+  }, [calendar]);
   
   const [entityFilter, setEntityFilter] = useState<string>('');
+
+  // Budget and Latest Forecast come from one plan; actuals are shared by all plans
+  const [selectedPlanId, setSelectedPlanId] = useState<string>(
+    () => data.plans.find(p => p.isWorkingPlan)?.id || data.plans[0]?.id || ''
+  );
+  const hasForecast = useMemo(
+    () => data.records.some(r => r.planId === selectedPlanId && r.type === RecordType.FORECAST),
+    [data.records, selectedPlanId]
+  );
+
+  // Constant currency splits Actual vs Budget into an FX and an operational part
+  const hasForeignCurrency = useMemo(
+    () => data.costCenters.some(c => c.currency && c.currency !== data.reportingCurrency) ||
+      data.records.some(r => r.currency && r.currency !== data.reportingCurrency),
+    [data.costCenters, data.records, data.reportingCurrency]
+  );
+  const [constantCurrency, setConstantCurrency] = useState(false);
+  const showFxSplit = constantCurrency && hasForeignCurrency;
+  const translator = useMemo(() => createTranslator(data), [data.fxRates, data.costCenters, data.accounts, data.reportingCurrency]);
   
   // Expanded Categories State
   const [expandedCats, setExpandedCats] = useState<Record<string, boolean>>({
@@ -45,52 +94,43 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
   // Determine the range of periods to aggregate based on TimeBasis
   const targetPeriods = useMemo(() => {
     const periods: string[] = [];
-    const [yStr, mStr] = selectedDate.split('-');
-    const year = parseInt(yStr);
-    const month = parseInt(mStr);
 
     if (timeBasis === 'Year') {
        // Use selectedYear state
-       for(let i=1; i<=12; i++) periods.push(`${selectedYear}-${i.toString().padStart(2, '0')}`);
+       periods.push(...getFiscalYearPeriods(selectedYear, calendar));
     } 
     else if (timeBasis === 'Monthly') {
        periods.push(selectedDate);
     }
     else if (timeBasis === 'Quarterly') {
-       // Determine quarter of selectedDate
-       const q = Math.ceil(month / 3);
-       const startMonth = (q-1)*3 + 1;
-       for(let i=0; i<3; i++) periods.push(`${year}-${(startMonth+i).toString().padStart(2, '0')}`);
+       // Fiscal quarter containing selectedDate
+       periods.push(...getFiscalQuarterPeriods(getFiscalYear(selectedDate, calendar), getFiscalQuarter(selectedDate, calendar), calendar));
     }
     else if (timeBasis === 'YTD') {
-       for(let i=1; i<=month; i++) periods.push(`${year}-${i.toString().padStart(2, '0')}`);
+       periods.push(...getFiscalYtdPeriods(selectedDate, calendar));
     }
     else if (timeBasis === 'TTM') {
-       // 12 months ending selectedDate
-       // Need to handle year boundary
-       let currY = year;
-       let currM = month;
-       for(let i=0; i<12; i++) {
-          periods.push(`${currY}-${currM.toString().padStart(2, '0')}`);
-          currM--;
-          if (currM === 0) { currM = 12; currY--; }
-       }
+       // 12 fiscal months ending selectedDate
+       periods.push(...getTrailingPeriods(selectedDate));
     }
     return periods;
-  }, [timeBasis, selectedDate, selectedYear]);
+  }, [timeBasis, selectedDate, selectedYear, calendar]);
+
+  // Under a 4-4-5 style calendar, the weeks the selection covers
+  const periodWeeks = getPeriodsWeeks(targetPeriods, calendar);
 
   // Prior Year Periods (shift targetPeriods back 1 year)
   const pyPeriods = useMemo(() => {
-    return targetPeriods.map(p => {
-        const [y, m] = p.split('-');
-        return `${parseInt(y)-1}-${m}`;
-    });
+    return targetPeriods.map(getPriorYearPeriod);
   }, [targetPeriods]);
 
-  const getAmount = (type: RecordType, periods: string[], accountCode: string) => {
+  // Actuals translate at actual rates unless asked otherwise; plans always at budget rates
+  const getAmount = (type: RecordType, periods: string[], accountCode: string, basis?: TranslationBasis) => {
+    const rateBasis = basis || (type === RecordType.ACTUAL ? 'Actual' : 'Budget');
     return data.records
       .filter(r => 
          r.type === type && 
+         (type === RecordType.ACTUAL || r.planId === selectedPlanId) &&
          r.accountCode === accountCode && 
          periods.includes(r.period) &&
          // Entity Filter
@@ -98,22 +138,30 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
           (entityFilter.startsWith('PL|') && r.productLineCode === entityFilter.split('|')[1]) ||
           (entityFilter.startsWith('CC|') && r.costCenterCode === entityFilter.split('|')[1]))
       )
-      .reduce((sum, r) => sum + r.amount, 0);
+      .reduce((sum, r) => sum + translator.translate(r, rateBasis), 0);
   };
 
+  const missingRates = useMemo(() => {
+    if (!hasForeignCurrency) return [];
+    const periods = new Set([...targetPeriods, ...pyPeriods]);
+    const records = data.records.filter(r => periods.has(r.period) && (r.type === RecordType.ACTUAL || r.planId === selectedPlanId));
+    return findMissingFxRates(records, data, r => {
+      if (r.type !== RecordType.ACTUAL) return ['Budget'];
+      return showFxSplit ? ['Actual', 'Budget'] : ['Actual'];
+    });
+  }, [hasForeignCurrency, targetPeriods, pyPeriods, data.records, data.fxRates, data.costCenters, data.reportingCurrency, selectedPlanId, showFxSplit]);
+
   // --- 2. Row Rendering ---
 
   const format = (val: number, isPct: boolean = false) => {
     if (isPct) return `${val.toFixed(1)}%`;
     if (val === 0) return '-';
-    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val);
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: data.reportingCurrency, maximumFractionDigits: 0 }).format(val);
   };
 
   const renderRow = (
       label: string, 
-      actual: number, 
-      budget: number, 
-      py: number, 
+      values: RowValues,
       indent: number = 0,
       isBold: boolean = false,
       isExpense: boolean = false,
@@ -123,8 +171,14 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
       isExpanded?: boolean,
       isItalic?: boolean
   ) => {
+    const { act: actual, bud: budget, py, fc, actCc } = values;
     const variance = actual - budget;
     const isFavorable = isExpense ? variance <= 0 : variance >= 0;
+    const fxVariance = actual - actCc;
+    const opVariance = actCc - budget;
+    const isGood = (v: number) => isExpense ? v <= 0 : v >= 0;
+    const fcVariance = fc - budget;
+    const isFcFavorable = isExpense ? fcVariance <= 0 : fcVariance >= 0;
     const varPct = budget !== 0 ? (variance / budget) * 100 : 0;
     
     // Bar Chart Calculation
@@ -151,6 +205,14 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
             </td>
             <td className="px-4 py-2 text-right font-mono text-slate-700">{format(actual, isPct)}</td>
             <td className="px-4 py-2 text-right font-mono text-slate-500 hidden md:table-cell">{format(budget, isPct)}</td>
+            {hasForecast && (
+                <>
+                    <td className="px-4 py-2 text-right font-mono text-teal-700 hidden md:table-cell">{format(fc, isPct)}</td>
+                    <td className={`px-4 py-2 text-right text-xs hidden md:table-cell ${isFcFavorable ? 'text-emerald-600' : 'text-rose-600'}`}>
+                        {!isPct && format(fcVariance)}
+                    </td>
+                </>
+            )}
             
             {/* Variance Visual */}
             <td className="px-4 py-2 w-[180px] hidden sm:table-cell">
@@ -179,30 +241,79 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
                      </span>
                 )}
             </td>
+            {showFxSplit && (
+                <>
+                    <td className={`px-4 py-2 text-right text-xs hidden md:table-cell ${isGood(opVariance) ? 'text-emerald-600' : 'text-rose-600'}`}>
+                        {!isPct && format(opVariance)}
+                    </td>
+                    <td className={`px-4 py-2 text-right text-xs hidden md:table-cell ${isGood(fxVariance) ? 'text-emerald-600' : 'text-rose-600'}`}>
+                        {!isPct && format(fxVariance)}
+                    </td>
+                </>
+            )}
             
             <td className="px-4 py-2 text-right font-mono text-slate-400 hidden lg:table-cell">{format(py, isPct)}</td>
         </tr>
     );
   };
 
+  // Latest Forecast + forecast-vs-budget cells for the hand-built summary rows
+  const renderForecastCells = (values: RowValues) => (
+      <>
+          <td className="px-4 py-2 text-right hidden md:table-cell">{format(values.fc)}</td>
+          <td className="px-4 py-2 text-right text-xs hidden md:table-cell">{format(values.fc - values.bud)}</td>
+      </>
+  );
+
+  // Operational + FX split of Actual vs Budget for the hand-built summary rows
+  const renderFxCells = (values: RowValues) => (
+      <>
+          <td className="px-4 py-2 text-right text-xs hidden md:table-cell">{format(values.actCc - values.bud)}</td>
+          <td className="px-4 py-2 text-right text-xs hidden md:table-cell">{format(values.act - values.actCc)}</td>
+      </>
+  );
+
+  // Columns shared by both statements
+  const renderHeaderCells = () => (
+      <>
+          <th className="px-4 py-3 text-right">Actual</th>
+          <th className="px-4 py-3 text-right hidden md:table-cell">Budget</th>
+          {hasForecast && <th className="px-4 py-3 text-right hidden md:table-cell">Latest Fcst</th>}
+          {hasForecast && <th className="px-4 py-3 text-right hidden md:table-cell">Fcst vs Bud</th>}
+          <th className="px-4 py-3 w-[180px] hidden sm:table-cell text-center">Variance</th>
+          <th className="px-4 py-3 text-right hidden md:table-cell">Var $</th>
+          {showFxSplit && <th className="px-4 py-3 text-right hidden md:table-cell" title="Actual at budget rates vs Budget">Operational</th>}
+          {showFxSplit && <th className="px-4 py-3 text-right hidden md:table-cell" title="Actual at actual rates vs at budget rates">FX</th>}
+          <th className="px-4 py-3 text-right hidden lg:table-cell">Prior Year</th>
+      </>
+  );
+
   // --- 3. Section Builders ---
 
+  const getAccountValues = (accountCode: string): RowValues => ({
+      act: getAmount(RecordType.ACTUAL, targetPeriods, accountCode),
+      bud: getAmount(RecordType.BUDGET, targetPeriods, accountCode),
+      py: getAmount(RecordType.ACTUAL, pyPeriods, accountCode),
+      fc: getAmount(RecordType.FORECAST, targetPeriods, accountCode),
+      actCc: getAmount(RecordType.ACTUAL, targetPeriods, accountCode, 'Budget')
+  });
+
   const buildCategorySection = (catName: string, accounts: DimensionMapping[], isExpense: boolean = false) => {
-    const catActual = accounts.reduce((sum, acc) => sum + getAmount(RecordType.ACTUAL, targetPeriods, acc.code), 0);
-    const catBudget = accounts.reduce((sum, acc) => sum + getAmount(RecordType.BUDGET, targetPeriods, acc.code), 0);
-    const catPy = accounts.reduce((sum, acc) => sum + getAmount(RecordType.ACTUAL, pyPeriods, acc.code), 0);
+    const accountValues = accounts.map(acc => ({ acc, values: getAccountValues(acc.code) }));
+    const catValues = accountValues.reduce<RowValues>((sum, { values }) => ({
+        act: sum.act + values.act,
+        bud: sum.bud + values.bud,
+        py: sum.py + values.py,
+        fc: sum.fc + values.fc,
+        actCc: sum.actCc + values.actCc
+    }), { act: 0, bud: 0, py: 0, fc: 0, actCc: 0 });
 
     const isExpanded = expandedCats[catName];
 
     return (
         <React.Fragment key={catName}>
-            {renderRow(catName, catActual, catBudget, catPy, 0, true, isExpense, false, () => toggleCat(catName), true, isExpanded)}
-            {isExpanded && accounts.map(acc => {
-                const a = getAmount(RecordType.ACTUAL, targetPeriods, acc.code);
-                const b = getAmount(RecordType.BUDGET, targetPeriods, acc.code);
-                const p = getAmount(RecordType.ACTUAL, pyPeriods, acc.code);
-                return renderRow(acc.name, a, b, p, 1, false, isExpense);
-            })}
+            {renderRow(catName, catValues, 0, true, isExpense, false, () => toggleCat(catName), true, isExpanded)}
+            {isExpanded && accountValues.map(({ acc, values }) => renderRow(acc.name, values, 1, false, isExpense))}
         </React.Fragment>
     );
   };
@@ -219,18 +330,20 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
   }, [data.accounts]);
 
   // Aggregation Helpers for High Level Rows
-  const calcTotal = (cats: string[], type: RecordType, periods: string[]) => {
+  const calcTotal = (cats: string[], type: RecordType, periods: string[], basis?: TranslationBasis) => {
       return cats.reduce((total, cat) => {
           const accs = groupedAccounts[cat] || [];
-          return total + accs.reduce((sum, acc) => sum + getAmount(type, periods, acc.code), 0);
+          return total + accs.reduce((sum, acc) => sum + getAmount(type, periods, acc.code, basis), 0);
       }, 0);
   };
   
-  const getValues = (cats: string[]) => {
+  const getValues = (cats: string[]): RowValues => {
       return {
           act: calcTotal(cats, RecordType.ACTUAL, targetPeriods),
           bud: calcTotal(cats, RecordType.BUDGET, targetPeriods),
-          py: calcTotal(cats, RecordType.ACTUAL, pyPeriods)
+          py: calcTotal(cats, RecordType.ACTUAL, pyPeriods),
+          fc: calcTotal(cats, RecordType.FORECAST, targetPeriods),
+          actCc: calcTotal(cats, RecordType.ACTUAL, targetPeriods, 'Budget')
       };
   };
 
@@ -242,19 +355,23 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
   const taxes = getValues([AccountCategory.TAXES]);
   
   // Formulas
-  const grossProfit = { act: revenue.act - cogs.act, bud: revenue.bud - cogs.bud, py: revenue.py - cogs.py };
+  const grossProfit = { act: revenue.act - cogs.act, bud: revenue.bud - cogs.bud, py: revenue.py - cogs.py, fc: revenue.fc - cogs.fc, actCc: revenue.actCc - cogs.actCc };
   
   // EBIT = Gross Profit - OpEx - Dep + Other Income
   const ebit = { 
       act: grossProfit.act - opex.act - dep.act + otherInc.act, 
       bud: grossProfit.bud - opex.bud - dep.bud + otherInc.bud, 
-      py: grossProfit.py - opex.py - dep.py + otherInc.py
+      py: grossProfit.py - opex.py - dep.py + otherInc.py,
+      fc: grossProfit.fc - opex.fc - dep.fc + otherInc.fc,
+      actCc: grossProfit.actCc - opex.actCc - dep.actCc + otherInc.actCc
   };
   
   const netIncome = {
       act: ebit.act - taxes.act,
       bud: ebit.bud - taxes.bud,
-      py: ebit.py - taxes.py
+      py: ebit.py - taxes.py,
+      fc: ebit.fc - taxes.fc,
+      actCc: ebit.actCc - taxes.actCc
   };
 
   // FCF Walk Items
@@ -265,7 +382,9 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
   const fcf = {
       act: netIncome.act + dep.act - cfTotals.act,
       bud: netIncome.bud + dep.bud - cfTotals.bud,
-      py: netIncome.py + dep.py - cfTotals.py
+      py: netIncome.py + dep.py - cfTotals.py,
+      fc: netIncome.fc + dep.fc - cfTotals.fc,
+      actCc: netIncome.actCc + dep.actCc - cfTotals.actCc
   };
 
   return (
@@ -296,7 +415,7 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
                             value={selectedYear}
                             onChange={(e) => setSelectedYear(Number(e.target.value))}
                         >
-                            {availableYears.map(y => <option key={y} value={y}>{y}</option>)}
+                            {availableYears.map(y => <option key={y} value={y}>{formatFiscalYear(y, calendar)}</option>)}
                         </select>
                      ) : (
                         <input 
@@ -308,6 +427,15 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
                      )}
                   </div>
 
+                  <select
+                    className="border border-slate-300 rounded px-2 py-1.5 text-sm bg-white focus:ring-purple-500"
+                    value={selectedPlanId}
+                    onChange={(e) => setSelectedPlanId(e.target.value)}
+                    title="Plan used for Budget and Latest Forecast"
+                  >
+                      {data.plans.map(p => <option key={p.id} value={p.id}>{p.name}{p.rollingForecast ? ' (Rolling)' : ''}</option>)}
+                  </select>
+
                   <div className="flex items-center gap-2">
                       <Filter className="text-slate-400" size={18} />
                       <select 
@@ -324,27 +452,52 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
                           </optgroup>
                       </select>
                   </div>
+
+                  {hasForeignCurrency && (
+                      <label className="flex items-center gap-2 text-sm text-slate-600" title="Split Actual vs Budget into operational and FX variance">
+                          <input
+                            type="checkbox"
+                            className="rounded text-purple-600"
+                            checked={constantCurrency}
+                            onChange={(e) => setConstantCurrency(e.target.checked)}
+                          />
+                          Constant currency
+                      </label>
+                  )}
               </div>
 
               <div className="text-right hidden xl:block">
                  <div className="text-sm font-bold text-slate-800">
                     {timeBasis} Performance 
                     <span className="font-normal text-slate-500 mx-1">
-                        {timeBasis === 'Year' ? selectedYear : selectedDate}
+                        {timeBasis === 'Year' ? formatFiscalYear(selectedYear, calendar)
+                            : timeBasis === 'Quarterly' ? `${formatFiscalYear(getFiscalYear(selectedDate, calendar), calendar)} Q${getFiscalQuarter(selectedDate, calendar)}`
+                            : selectedDate}
+                        {periodWeeks !== undefined && ` · ${periodWeeks} wks`}
                     </span>
                  </div>
-                 <div className="text-xs text-slate-500">Actuals vs. Budget vs. PY</div>
+                 <div className="text-xs text-slate-500">Actuals vs. Budget{hasForecast ? ' vs. Latest Forecast' : ''} vs. PY</div>
               </div>
           </div>
        </Card>
 
+       {missingRates.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-lg p-3 flex items-start gap-2">
+             <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+             <span>
+                Missing FX rates, amounts shown untranslated: {missingRates.map(m => `${m.currency} ${m.rateType} from ${m.period}`).join(', ')}.
+                Add them in Settings → Currencies & FX.
+             </span>
+          </div>
+       )}
+
        {/* P&L Table (Ends at EBIT) */}
        <div className="bg-white border border-slate-200 rounded-lg shadow-sm overflow-hidden">
           <div className="px-6 py-3 bg-slate-50 border-b border-slate-200 flex justify-between items-center">
              <div className="flex items-center gap-2 font-bold text-slate-700">
                 Detailed Income Statement
              </div>
-             <div className="text-xs text-slate-400 font-normal">Amounts in USD</div>
+             <div className="text-xs text-slate-400 font-normal">Amounts in {data.reportingCurrency}{showFxSplit ? ' · Operational variance at budget rates' : ''}</div>
           </div>
           
           <div className="overflow-x-auto">
@@ -352,11 +505,7 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
                 <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200 text-xs uppercase">
                     <tr>
                         <th className="px-4 py-3 min-w-[300px]">Account</th>
-                        <th className="px-4 py-3 text-right">Actual</th>
-                        <th className="px-4 py-3 text-right hidden md:table-cell">Budget</th>
-                        <th className="px-4 py-3 w-[180px] hidden sm:table-cell text-center">Variance</th>
-                        <th className="px-4 py-3 text-right hidden md:table-cell">Var $</th>
-                        <th className="px-4 py-3 text-right hidden lg:table-cell">Prior Year</th>
+                        {renderHeaderCells()}
                     </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-50">
@@ -368,8 +517,10 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
                         <td className="px-4 py-2">Gross Profit</td>
                         <td className="px-4 py-2 text-right">{format(grossProfit.act)}</td>
                         <td className="px-4 py-2 text-right hidden md:table-cell">{format(grossProfit.bud)}</td>
+                        {hasForecast && renderForecastCells(grossProfit)}
                         <td className="hidden sm:table-cell"></td>
                         <td className="px-4 py-2 text-right hidden md:table-cell">{format(grossProfit.act - grossProfit.bud)}</td>
+                        {showFxSplit && renderFxCells(grossProfit)}
                         <td className="px-4 py-2 text-right hidden lg:table-cell">{format(grossProfit.py)}</td>
                     </tr>
                     
@@ -382,8 +533,10 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
                         <td className="px-4 py-2">Operating Profit (EBIT)</td>
                         <td className="px-4 py-2 text-right">{format(ebit.act)}</td>
                         <td className="px-4 py-2 text-right hidden md:table-cell">{format(ebit.bud)}</td>
+                        {hasForecast && renderForecastCells(ebit)}
                         <td className="hidden sm:table-cell"></td>
                         <td className="px-4 py-2 text-right hidden md:table-cell">{format(ebit.act - ebit.bud)}</td>
+                        {showFxSplit && renderFxCells(ebit)}
                         <td className="px-4 py-2 text-right hidden lg:table-cell">{format(ebit.py)}</td>
                     </tr>
                 </tbody>
@@ -401,20 +554,16 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
                 <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200 text-xs uppercase">
                     <tr>
                          <th className="px-4 py-3 min-w-[300px]">Item</th>
-                         <th className="px-4 py-3 text-right">Actual</th>
-                         <th className="px-4 py-3 text-right hidden md:table-cell">Budget</th>
-                         <th className="px-4 py-3 w-[180px] hidden sm:table-cell text-center">Variance</th>
-                         <th className="px-4 py-3 text-right hidden md:table-cell">Var $</th>
-                         <th className="px-4 py-3 text-right hidden lg:table-cell">Prior Year</th>
+                         {renderHeaderCells()}
                     </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-50">
-                    {renderRow('Operating Profit (EBIT)', ebit.act, ebit.bud, ebit.py, 0, true)}
+                    {renderRow('Operating Profit (EBIT)', ebit, 0, true)}
                     
                     {/* Collapsible Net Income Reconciliation */}
                     {renderRow(
                         'Adjustments to Net Income', 
-                        -taxes.act, -taxes.bud, -taxes.py, 
+                        { act: -taxes.act, bud: -taxes.bud, py: -taxes.py, fc: -taxes.fc, actCc: -taxes.actCc }, 
                         0, false, false, false, 
                         () => toggleCat('NI_WALK'), 
                         true, expandedCats['NI_WALK']
@@ -422,34 +571,32 @@ export const Reporting: React.FC<ReportingProps> = ({ data }) => {
                     
                     {expandedCats['NI_WALK'] && (
                         <>
-                             {renderRow('Less: Taxes', taxes.act, taxes.bud, taxes.py, 1, false, true)}
+                             {renderRow('Less: Taxes', taxes, 1, false, true)}
                              {/* Memo Row for Net Income */}
                              <tr className="bg-slate-50 text-slate-600 italic border-b border-slate-50">
                                 <td className="px-4 py-2 flex items-center gap-2"><div style={{ width: 20 }} />Net Income (Memo)</td>
                                 <td className="px-4 py-2 text-right font-mono">{format(netIncome.act)}</td>
                                 <td className="px-4 py-2 text-right font-mono hidden md:table-cell">{format(netIncome.bud)}</td>
-                                <td colSpan={3}></td>
+                                {hasForecast && renderForecastCells(netIncome)}
+                                <td colSpan={showFxSplit ? 5 : 3}></td>
                              </tr>
                         </>
                     )}
                     
                     {/* Cash Flow adjustments */}
-                    {renderRow('Add Back: Depreciation', dep.act, dep.bud, dep.py, 0, false)}
+                    {renderRow('Add Back: Depreciation', dep, 0, false)}
                     
                     {/* Subtract Cash Flow Items (CapEx, WC) */}
-                    {cfAccounts.map(acc => {
-                        const a = getAmount(RecordType.ACTUAL, targetPeriods, acc.code);
-                        const b = getAmount(RecordType.BUDGET, targetPeriods, acc.code);
-                        const p = getAmount(RecordType.ACTUAL, pyPeriods, acc.code);
-                        return renderRow(`Less: ${acc.name}`, a, b, p, 0, false, true);
-                    })}
+                    {cfAccounts.map(acc => renderRow(`Less: ${acc.name}`, getAccountValues(acc.code), 0, false, true))}
 
                     <tr className="bg-purple-50 border-t-2 border-purple-100 font-bold text-purple-900">
                         <td className="px-4 py-3">Free Cash Flow</td>
                         <td className="px-4 py-3 text-right">{format(fcf.act)}</td>
                         <td className="px-4 py-3 text-right hidden md:table-cell">{format(fcf.bud)}</td>
+                        {hasForecast && renderForecastCells(fcf)}
                         <td className="hidden sm:table-cell"></td>
                         <td className="px-4 py-3 text-right hidden md:table-cell">{format(fcf.act - fcf.bud)}</td>
+                        {showFxSplit && renderFxCells(fcf)}
                         <td className="px-4 py-3 text-right hidden lg:table-cell">{format(fcf.py)}</td>
                     </tr>
                 </tbody>
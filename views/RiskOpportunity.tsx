@@ -134,6 +134,9 @@ export const RiskOpportunityView: React.FC<RiskOpportunityProps> = ({ data, onUp
             description: newRow.description || '',
             type: newRow.type || 'Opportunity',
             estimatedImpact: Number(newRow.estimatedImpact),
+            impactLow: newRow.impactLow,
+            impactHigh: newRow.impactHigh,
+            probability: newRow.probability,
             status: 'Identified',
             owner: newRow.owner || 'CFO',
             includedInBudget: newRow.includedInBudget || false,
@@ -314,6 +317,40 @@ export const RiskOpportunityView: React.FC<RiskOpportunityProps> = ({ data, onUp
                             />
                         </div>
 
+                        {/* Simulation Row: optional, the Monte Carlo outlook falls back to the point estimate */}
+                        <div className="md:col-span-3">
+                            <label className="block text-xs font-semibold text-slate-500 mb-1">Low Case ($)</label>
+                            <input
+                                type="number"
+                                className="w-full border rounded p-2 text-sm focus:ring-indigo-500"
+                                placeholder="Same as amount"
+                                value={newRow.impactLow ?? ''}
+                                onChange={e => setNewRow({ ...newRow, impactLow: e.target.value === '' ? undefined : Number(e.target.value) })}
+                            />
+                        </div>
+                        <div className="md:col-span-3">
+                            <label className="block text-xs font-semibold text-slate-500 mb-1">High Case ($)</label>
+                            <input
+                                type="number"
+                                className="w-full border rounded p-2 text-sm focus:ring-indigo-500"
+                                placeholder="Same as amount"
+                                value={newRow.impactHigh ?? ''}
+                                onChange={e => setNewRow({ ...newRow, impactHigh: e.target.value === '' ? undefined : Number(e.target.value) })}
+                            />
+                        </div>
+                        <div className="md:col-span-3">
+                            <label className="block text-xs font-semibold text-slate-500 mb-1">Probability (%)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                max="100"
+                                className="w-full border rounded p-2 text-sm focus:ring-indigo-500"
+                                placeholder={newRow.includedInBudget ? '100' : '0'}
+                                value={newRow.probability === undefined ? '' : Math.round(newRow.probability * 100)}
+                                onChange={e => setNewRow({ ...newRow, probability: e.target.value === '' ? undefined : Math.min(100, Math.max(0, Number(e.target.value))) / 100 })}
+                            />
+                        </div>
+
                         {/* Description & Action */}
                         <div className="md:col-span-12">
                             <label className="block text-xs font-semibold text-slate-500 mb-1">Description</label>
@@ -353,6 +390,11 @@ export const RiskOpportunityView: React.FC<RiskOpportunityProps> = ({ data, onUp
 
                                 <div className="flex items-center gap-2 text-xs text-slate-500 mb-2">
                                     <span>Plan: {data.plans.find(p => p.id === item.planId)?.name}</span>
+                                    {item.overridesItemId && (
+                                        <span className="text-purple-600">
+                                            (overrides {data.opportunities.find(o => o.id === item.overridesItemId)?.title || 'a removed parent item'})
+                                        </span>
+                                    )}
                                     <span>•</span>
                                     <select
                                         className="bg-transparent hover:text-slate-800 cursor-pointer"
@@ -383,6 +425,43 @@ export const RiskOpportunityView: React.FC<RiskOpportunityProps> = ({ data, onUp
                                     />
                                 </div>
 
+                                <div className="w-28 space-y-2">
+                                    <div>
+                                        <label className="text-[10px] uppercase text-slate-400 font-bold block">Low / High</label>
+                                        <div className="flex gap-1">
+                                            <input
+                                                type="number"
+                                                title="Low case"
+                                                placeholder="Low"
+                                                value={item.impactLow ?? ''}
+                                                onChange={(e) => updateField(item.id, 'impactLow', e.target.value === '' ? undefined : Number(e.target.value))}
+                                                className="w-1/2 text-xs bg-slate-50 rounded px-1 py-0.5 text-right"
+                                            />
+                                            <input
+                                                type="number"
+                                                title="High case"
+                                                placeholder="High"
+                                                value={item.impactHigh ?? ''}
+                                                onChange={(e) => updateField(item.id, 'impactHigh', e.target.value === '' ? undefined : Number(e.target.value))}
+                                                className="w-1/2 text-xs bg-slate-50 rounded px-1 py-0.5 text-right"
+                                            />
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-1">
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            max="100"
+                                            title="Probability of occurring (used by the outlook simulation)"
+                                            placeholder={item.includedInBudget ? '100' : '0'}
+                                            className="w-10 text-xs bg-slate-50 rounded text-center"
+                                            value={item.probability === undefined ? '' : Math.round(item.probability * 100)}
+                                            onChange={(e) => updateField(item.id, 'probability', e.target.value === '' ? undefined : Math.min(100, Math.max(0, Number(e.target.value))) / 100)}
+                                        />
+                                        <span className="text-[10px] text-slate-400">% Prob</span>
+                                    </div>
+                                </div>
+
                                 <div className="w-28 space-y-2">
                                     <div>
                                         <label className="text-[10px] uppercase text-slate-400 font-bold block">Start</label>
@@ -1,13 +1,21 @@
 import React, { useState } from 'react';
-import { AppData, DimensionMapping } from '../types';
+import { AppData, DimensionMapping, FinancialRecord, FiscalWeekPattern, RestatementLine } from '../types';
 import { Card } from '../components/ui/Card';
 import { FolderOpen, AlertTriangle, CheckCircle, AlertCircle, Plus, Trash2, ArrowUp, ArrowDown, FileSpreadsheet } from 'lucide-react';
-import { SAAS_CATEGORIES } from '../services/financialModel';
-import { parseHyperionActuals } from '../services/excelService';
+import { SAAS_CATEGORIES, BALANCE_SHEET_CATEGORIES } from '../services/financialModel';
+import { readImportSheets } from '../services/excelService';
+import { ImportSheet } from '../services/importService';
+import { acceptRestatement, findRestatements, isPeriodClosed, mergeActuals } from '../services/periodCloseService';
+import { AllocationRulesPanel } from '../components/AllocationRulesPanel';
+import { FxRatesPanel } from '../components/FxRatesPanel';
+import { PeriodClosePanel } from '../components/PeriodClosePanel';
+import { RestatementReview } from '../components/RestatementReview';
+import { ImportWizard } from '../components/ImportWizard';
+import { WEEK_PATTERNS, formatFiscalYear, getFiscalYear, getFiscalYearEnd, getFiscalYearStart } from '../services/fiscalCalendar';
 
 interface SettingsProps {
   data: AppData;
-  onUpdate: (newData: AppData) => void;
+  onUpdate: (newData: AppData) => Promise<boolean>; // Resolves false when the update was rejected
   onSelectFolder: () => void;
   folderName: string | null;
   onGenerateDemoData?: () => void;
@@ -16,7 +24,48 @@ interface SettingsProps {
 }
 
 export const Settings: React.FC<SettingsProps> = ({ data, onUpdate, onSelectFolder, folderName, onGenerateDemoData, apiKey, onSetApiKey }) => {
-  const [activeTab, setActiveTab] = useState<'mappings' | 'data'>('mappings');
+  const [activeTab, setActiveTab] = useState<'mappings' | 'allocations' | 'currency' | 'close' | 'data'>('mappings');
+  const [importFile, setImportFile] = useState<{ source: string; sheets: ImportSheet[] } | null>(null);
+  // Import held back because it restates closed months
+  const [pendingImport, setPendingImport] = useState<{ source: string; records: FinancialRecord[]; lines: RestatementLine[]; excluded: number } | null>(null);
+  const currentFiscalYear = getFiscalYear(new Date().toISOString().slice(0, 7), data.fiscalCalendar);
+
+  const reportImport = (count: number, skipped: string[], excluded = 0) => {
+    alert(`Successfully imported ${count} records from Hyperion Excel.` +
+      (excluded > 0 ? `\n${excluded} rows with errors or dropped in review were left out.` : '') +
+      (skipped.length > 0 ? `\nRolling forecast not updated (circular references): ${skipped.join(', ')}` : ''));
+  };
+
+  const handleImportRecords = async (newRecords: FinancialRecord[], excluded: number) => {
+    if (!importFile) return;
+    const source = importFile.source;
+    setImportFile(null);
+
+    // Changes to closed months wait for an explicit restatement review
+    const lines = findRestatements(data, newRecords);
+    if (lines.length > 0) {
+      setPendingImport({ source, records: newRecords, lines, excluded });
+      return;
+    }
+    const result = mergeActuals(data, newRecords);
+    if (await onUpdate(result.data)) reportImport(newRecords.length, result.skipped, excluded);
+  };
+
+  const handleAcceptRestatement = async () => {
+    if (!pendingImport) return;
+    const user = localStorage.getItem('CFO_USER_NAME') || undefined;
+    const result = acceptRestatement(data, pendingImport.records, pendingImport.lines, pendingImport.source, user);
+    setPendingImport(null);
+    if (await onUpdate(result.data)) reportImport(pendingImport.records.length, result.skipped, pendingImport.excluded);
+  };
+
+  const handleImportOpenOnly = async () => {
+    if (!pendingImport) return;
+    const records = pendingImport.records.filter(r => !isPeriodClosed(r.period, data));
+    const result = mergeActuals(data, records);
+    setPendingImport(null);
+    if (await onUpdate(result.data)) reportImport(records.length, result.skipped, pendingImport.excluded);
+  };
 
   const updateMapping = (
     type: 'accounts' | 'costCenters' | 'productLines',
@@ -107,8 +156,9 @@ export const Settings: React.FC<SettingsProps> = ({ data, onUpdate, onSelectFold
           <thead className="bg-slate-50 border-b border-slate-200 text-slate-500">
             <tr>
               <th className="px-4 py-2 w-10">#</th>
-              <th className="px-4 py-2 w-1/2">Name</th>
-              <th className="px-4 py-2 w-1/3">Hyperion Mapping</th>
+              <th className="px-4 py-2 w-1/3">Name</th>
+              <th className="px-4 py-2 w-1/4">Hyperion Mapping</th>
+              <th className="px-4 py-2 w-1/4">Owner</th>
               <th className="px-4 py-2 text-center">Actions</th>
             </tr>
           </thead>
@@ -129,10 +179,19 @@ export const Settings: React.FC<SettingsProps> = ({ data, onUpdate, onSelectFold
                   <input
                     className="w-full border border-slate-300 rounded px-2 py-1.5 bg-yellow-50 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-all font-mono text-xs"
                     value={item.hyperionMap}
-                    placeholder="e.g. CC_100"
+                    placeholder="e.g. CC_100, CC_110"
+                    title="Several Hyperion codes, comma-separated, all import into this item; the first is used on export"
                     onChange={(e) => updateMapping(type, idx, 'hyperionMap', e.target.value)}
                   />
                 </td>
+                <td className="p-2">
+                  <input
+                    className="w-full border border-slate-300 rounded px-2 py-1.5 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-all text-xs"
+                    value={item.owner || ''}
+                    placeholder="Submits this section"
+                    onChange={(e) => updateMapping(type, idx, 'owner', e.target.value)}
+                  />
+                </td>
                 <td className="p-2">
                   <div className="flex items-center justify-center gap-1 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
                     <button
@@ -176,7 +235,7 @@ export const Settings: React.FC<SettingsProps> = ({ data, onUpdate, onSelectFold
 
   const renderAccountManager = () => (
     <div className="space-y-6">
-      {SAAS_CATEGORIES.map(category => {
+      {[...SAAS_CATEGORIES, ...BALANCE_SHEET_CATEGORIES].map(category => {
         const categoryAccounts = data.accounts.filter(a => a.category === category);
         return (
           <Card key={category} title={category} className="border-l-4 border-l-purple-600 shadow-md">
@@ -204,6 +263,7 @@ export const Settings: React.FC<SettingsProps> = ({ data, onUpdate, onSelectFold
                           className="w-full border border-slate-300 rounded px-2 py-1.5 bg-yellow-50 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-all font-mono text-xs"
                           value={acc.hyperionMap}
                           placeholder="Code(s)"
+                          title="Several Hyperion codes, comma-separated, all import into this account; the first is used on export"
                           onChange={(e) => updateAccount(acc.code, 'hyperionMap', e.target.value)}
                         />
                       </td>
@@ -261,6 +321,24 @@ export const Settings: React.FC<SettingsProps> = ({ data, onUpdate, onSelectFold
         >
           Chart of Accounts & Map
         </button>
+        <button
+          className={`py-2 px-4 font-medium transition-colors ${activeTab === 'allocations' ? 'border-b-2 border-purple-600 text-purple-800' : 'text-slate-500 hover:text-slate-700'}`}
+          onClick={() => setActiveTab('allocations')}
+        >
+          Allocations
+        </button>
+        <button
+          className={`py-2 px-4 font-medium transition-colors ${activeTab === 'currency' ? 'border-b-2 border-purple-600 text-purple-800' : 'text-slate-500 hover:text-slate-700'}`}
+          onClick={() => setActiveTab('currency')}
+        >
+          Currencies & FX
+        </button>
+        <button
+          className={`py-2 px-4 font-medium transition-colors ${activeTab === 'close' ? 'border-b-2 border-purple-600 text-purple-800' : 'text-slate-500 hover:text-slate-700'}`}
+          onClick={() => setActiveTab('close')}
+        >
+          Period Close
+        </button>
         <button
           className={`py-2 px-4 font-medium transition-colors ${activeTab === 'data' ? 'border-b-2 border-purple-600 text-purple-800' : 'text-slate-500 hover:text-slate-700'}`}
           onClick={() => setActiveTab('data')}
@@ -288,16 +366,72 @@ export const Settings: React.FC<SettingsProps> = ({ data, onUpdate, onSelectFold
             {renderFlexibleTable('Product Lines', 'productLines')}
             {renderFlexibleTable('Cost Centers', 'costCenters')}
           </div>
+
+          <Card title="Plan Reviewers">
+            <p className="text-xs text-slate-500 mb-3">
+              Owners above submit their section of each plan; reviewers approve or reject it. Leave blank to let anyone but the submitter review.
+            </p>
+            <input
+              key={data.approvalReviewers.join(',')}
+              className="w-full border border-slate-300 rounded px-2 py-1.5 text-sm"
+              placeholder="e.g. Dana (FP&A), Sam (CFO)"
+              defaultValue={data.approvalReviewers.join(', ')}
+              onBlur={e => onUpdate({ ...data, approvalReviewers: e.target.value.split(',').map(r => r.trim()).filter(Boolean) })}
+            />
+          </Card>
+        </div>
+      )}
+
+      {activeTab === 'allocations' && (
+        <div className="animate-fade-in">
+          <AllocationRulesPanel data={data} onUpdate={onUpdate} />
+        </div>
+      )}
+
+      {activeTab === 'currency' && (
+        <div className="animate-fade-in">
+          <FxRatesPanel data={data} onUpdate={onUpdate} />
+        </div>
+      )}
+
+      {activeTab === 'close' && (
+        <div className="animate-fade-in">
+          <PeriodClosePanel data={data} onUpdate={onUpdate} />
         </div>
       )}
 
       {activeTab === 'data' && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {importFile && (
+            <div className="md:col-span-2">
+              <ImportWizard
+                data={data}
+                source={importFile.source}
+                sheets={importFile.sheets}
+                onUpdate={onUpdate}
+                onImport={handleImportRecords}
+                onCancel={() => setImportFile(null)}
+              />
+            </div>
+          )}
+          {pendingImport && (
+            <div className="md:col-span-2">
+              <RestatementReview
+                data={data}
+                source={pendingImport.source}
+                lines={pendingImport.lines}
+                openRecordCount={pendingImport.records.filter(r => !isPeriodClosed(r.period, data)).length}
+                onAccept={handleAcceptRestatement}
+                onImportOpenOnly={handleImportOpenOnly}
+                onCancel={() => setPendingImport(null)}
+              />
+            </div>
+          )}
           <Card title="Workspace Location">
             <div className="space-y-4">
               <p className="text-sm text-slate-600">
                 Select a folder on your local computer to store your data.
-                The app will read/write three separate JSON files in this location.
+                The app will read/write four separate JSON files in this location.
               </p>
 
               <div className="p-4 bg-slate-100 rounded border border-slate-200">
@@ -348,7 +482,7 @@ export const Settings: React.FC<SettingsProps> = ({ data, onUpdate, onSelectFold
                   </div>
                   <h4 className="font-semibold text-slate-800">Import Data</h4>
                   <p className="text-xs text-slate-500 mb-4 px-4">
-                    Load a historical data JSON file (e.g. generated by python script).
+                    Load actuals from an Excel extract. Map its columns once and save the mapping as a profile for next month.
                   </p>
                   <label className="cursor-pointer bg-white border border-slate-300 text-slate-700 hover:bg-slate-50 px-4 py-2 rounded text-sm font-medium shadow-sm transition-colors flex items-center gap-2">
                     <FileSpreadsheet size={16} />
@@ -361,40 +495,18 @@ export const Settings: React.FC<SettingsProps> = ({ data, onUpdate, onSelectFold
                         const file = e.target.files?.[0];
                         if (!file) return;
 
+                        e.target.value = ''; // Lets the same file be picked again
                         try {
-                          // use the service
-                          const newRecords = await parseHyperionActuals(file);
-
-                          if (newRecords.length > 0) {
-                            // Merge Logic: Overwrite Actuals for overlapping periods/metrics
-                            // For simplicty in this MVP: We filter out Old Actuals that match the imported Period + Account + CostCenter + Product
-                            // But actually, simple append + dedupe might be safer if IDs are random.
-                            // Strategy: Remove content from incoming periods? 
-                            // Optimized: Just append. Dashboard logic sums duplicates? No, that's bad.
-                            // Correct: Filter array.
-
-                            const incomingKeys = new Set(newRecords.map(r => `${r.period}_${r.accountCode}_${r.costCenterCode}_${r.productLineCode}`));
-
-                            const existingCleaned = data.records.filter(r => {
-                              if (r.type !== 'Actual') return true; // Keep plans
-                              const key = `${r.period}_${r.accountCode}_${r.costCenterCode}_${r.productLineCode}`;
-                              return !incomingKeys.has(key);
-                            });
-
-                            onUpdate({
-                              ...data,
-                              records: [...existingCleaned, ...newRecords],
-                              lastModified: new Date().toISOString()
-                            });
-
-                            alert(`Successfully imported ${newRecords.length} records from Hyperion Excel.`);
-                          } else {
-                            alert("No valid records found. Ensure columns: Period, Account, CostCenter, Product, Amount");
+                          const sheets = await readImportSheets(file);
+                          if (sheets.length === 0) {
+                            alert("The workbook has no sheets.");
+                            return;
                           }
-
+                          setPendingImport(null);
+                          setImportFile({ source: file.name, sheets });
                         } catch (err) {
                           console.error(err);
-                          alert("Failed to parse Excel file. Check console for details.");
+                          alert("Failed to read Excel file. Check console for details.");
                         }
                       }}
                     />
@@ -429,6 +541,46 @@ export const Settings: React.FC<SettingsProps> = ({ data, onUpdate, onSelectFold
             </div>
           </Card>
 
+          <Card title="Fiscal Calendar">
+            <div className="space-y-4">
+              <p className="text-sm text-slate-600">
+                Drives quarters, YTD, the year selector in Reporting and the default horizon of new plans.
+                A fiscal year is named after the calendar year it ends in.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Year Starts In</label>
+                  <select
+                    className="w-full border border-slate-300 rounded px-3 py-2 text-sm bg-white"
+                    value={data.fiscalCalendar.startMonth}
+                    onChange={(e) => onUpdate({ ...data, fiscalCalendar: { ...data.fiscalCalendar, startMonth: Number(e.target.value) } })}
+                  >
+                    {Array.from({ length: 12 }, (_, i) => (
+                      <option key={i} value={i + 1}>{new Date(2000, i, 1).toLocaleString('default', { month: 'long' })}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">Week Pattern</label>
+                  <select
+                    className="w-full border border-slate-300 rounded px-3 py-2 text-sm bg-white"
+                    value={data.fiscalCalendar.weekPattern || ''}
+                    onChange={(e) => onUpdate({ ...data, fiscalCalendar: { ...data.fiscalCalendar, weekPattern: (e.target.value || undefined) as FiscalWeekPattern | undefined } })}
+                  >
+                    <option value="">Calendar months</option>
+                    {(Object.keys(WEEK_PATTERNS) as FiscalWeekPattern[]).map(p => (
+                      <option key={p} value={p}>{WEEK_PATTERNS[p].join('-')} weeks</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <p className="text-xs text-slate-500">
+                Current fiscal year: {formatFiscalYear(currentFiscalYear, data.fiscalCalendar)} ({getFiscalYearStart(currentFiscalYear, data.fiscalCalendar)} to {getFiscalYearEnd(currentFiscalYear, data.fiscalCalendar)})
+                {data.fiscalCalendar.weekPattern && '. Even spreads weight each month by its weeks.'}
+              </p>
+            </div>
+          </Card>
+
           <Card title="System Info">
             <div className="space-y-2 text-sm text-slate-600">
               <div className="flex justify-between border-b py-2">